@@ -21,6 +21,7 @@
  *    - Criteria: price<$30 · preMktVol>12K · cap<$2B · chg≥12%
  *    - Exchanges: CBOE, NASDAQ, NYSE, NYSE ARCA
  *    - Sends a Telegram digest listing ALL matching stocks
+ *    - PRE_SCAN_PRESET runs a preset saved on the /scanner page instead
  *
  * Config (set in .env.local or shell environment):
  *   MONITOR_INTERVAL_SECONDS=60            — tick interval (default: 60s)
@@ -30,13 +31,15 @@
  *   PRE_MIN_VOL=12000                      — min pre-mkt volume (default: 12 000)
  *   PRE_MAX_MCAP=2000000000               — max market cap (default: $2 B)
  *   PRE_MIN_CHANGE=12                      — min pre-mkt % change (default: 12 %)
+ *   PRE_SCAN_PRESET=low-float-runners      — saved scan preset id (default: none)
  *   APP_URL=http://localhost:3000          — appended to news alert links
  *
  * Files:
- *   data/watchlist.json      — optional tickers, e.g. ["NVDA", "AAPL"]
+ *   data/watchlist.json      — optional tickers + price alerts (edit at /watchlist)
  *   data/sent-alerts.json    — news headline dedupe cache  (auto-managed)
  *   data/cooldowns.json      — per-ticker cooldown timestamps (auto-managed)
  *   data/pm-scan-cache.json  — pre-market digest dedup cache (auto-managed)
+ *   data/scan-presets.json   — saved scanner presets (edit at /scanner)
  *   data/alert-log.jsonl     — full audit log of every attempt (auto-appended)
  */
 
@@ -48,6 +51,7 @@ const CHECK_INTERVAL_SECONDS = parseInt(process.env.MONITOR_INTERVAL_SECONDS ||
 const CRON_EXPRESSION        = `*/${CHECK_INTERVAL_SECONDS} * * * * *`; // 6-field: seconds
 // Pre-market scan runs every PRE_SCAN_EVERY ticks (= every N * interval seconds)
 const PRE_SCAN_EVERY         = 5;  // every 5 min by default (5 × 60s = 300s)
+const PRE_SCAN_PRESET        = process.env.PRE_SCAN_PRESET || '';
 
 let checkCount = 0;
 
@@ -66,7 +70,7 @@ async function checkWatchlist(ts) {
     const { watchlist = [], results = [], totalSent = 0, cooldownMin = 15 } = data;
 
     if (watchlist.length === 0) {
-      process.stdout.write(`[${ts}] [watchlist] ⚠️  empty (add tickers to data/watchlist.json)\n`);
+      process.stdout.write(`[${ts}] [watchlist] ⚠️  empty (add tickers at /watchlist)\n`);
       return;
     }
 
@@ -79,6 +83,7 @@ async function checkWatchlist(ts) {
     for (const r of results) {
       const parts = [`${r.symbol.padEnd(6)}`];
       if (r.sent > 0)             parts.push(`🚨 ${r.sent} sent`);
+      if (r.price_alerts > 0)     parts.push(`🎯 ${r.price_alerts} price`);
       if (r.skipped_cooldown > 0) parts.push(`⏳ ${r.skipped_cooldown} cooldown`);
       if (r.skipped_dedupe > 0)   parts.push(`♻  ${r.skipped_dedupe} dedupe`);
       if (r.catalysts === 0)      parts.push(`· no catalysts`);
@@ -133,8 +138,9 @@ async function checkMarketScan(ts) {
 
 async function checkPreMarket(ts) {
   try {
-    const res  = await fetch(`${BASE_URL}/api/scan/pre-market?alert=1`);
-    const data = await res.json();
+    const preset = PRE_SCAN_PRESET ? `&preset=${encodeURIComponent(PRE_SCAN_PRESET)}` : '';
+    const res    = await fetch(`${BASE_URL}/api/scan/pre-market?alert=1${preset}`);
+    const data   = await res.json();
 
     if (!res.ok) {
       console.error(`[${ts}] [pre-mkt]   ❌ HTTP ${res.status}:`, data);
@@ -190,7 +196,8 @@ console.log(`║        NX-1  News + Price Monitor            ║`);
 console.log(`╚══════════════════════════════════════════════╝`);
 console.log(`  [watchlist]  data/watchlist.json  (optional)`);
 console.log(`  [market]     broad news scan — any stock`);
-console.log(`  [pre-mkt]    4:00–9:30 AM ET · price<$${process.env.PRE_MAX_PRICE ?? 30} · vol>${process.env.PRE_MIN_VOL ?? '12K'} · cap<$${process.env.PRE_MAX_MCAP ? (parseFloat(process.env.PRE_MAX_MCAP) / 1e9).toFixed(0) + 'B' : '2B'} · chg≥${process.env.PRE_MIN_CHANGE ?? 12}%`);
+if (PRE_SCAN_PRESET) console.log(`  [pre-mkt]    4:00–9:30 AM ET · preset "${PRE_SCAN_PRESET}"`);
+else console.log(`  [pre-mkt]    4:00–9:30 AM ET · price<$${process.env.PRE_MAX_PRICE ?? 30} · vol>${process.env.PRE_MIN_VOL ?? '12K'} · cap<$${process.env.PRE_MAX_MCAP ? (parseFloat(process.env.PRE_MAX_MCAP) / 1e9).toFixed(0) + 'B' : '2B'} · chg≥${process.env.PRE_MIN_CHANGE ?? 12}%`);
 console.log(`  Tick         every ${CHECK_INTERVAL_SECONDS}s  ·  pre-mkt scan every ${CHECK_INTERVAL_SECONDS * PRE_SCAN_EVERY}s`);
 console.log(`  Cooldown     news: ${process.env.ALERT_COOLDOWN_MINUTES ?? 15}m  ·  digest: ${process.env.PRE_MARKET_DIGEST_COOLDOWN_MINUTES ?? 30}m`);
 console.log(`  Log          data/alert-log.jsonl`);
@@ -0,0 +1,203 @@
+/**
+ * Fixture recorder — captures a live session for offline replay
+ *
+ * Usage:
+ *   node --env-file=.env.local scripts/record-fixtures.js [EXTRA_SYMBOLS...]
+ *
+ * Records, as raw vendor payloads:
+ *   fixtures/market-data/movers.json      — Alpaca top movers
+ *   fixtures/market-data/snapshots.json   — snapshots for every mover + extras
+ *   fixtures/market-data/assets.json      — asset rows for those symbols only
+ *   fixtures/market-data/bars/1Min.json   — today's extended-hours minute bars
+ *   fixtures/market-data/bars/15Min.json  — ~3 weeks of extended-hours 15-min bars
+ *   fixtures/market-data/bars/1Day.json   — ~8 months of daily bars
+ *   fixtures/market-data/fundamentals.json — Yahoo quoteSummary per symbol
+ *   fixtures/news/symbol/<SYMBOL>.xml     — Yahoo headline RSS per symbol
+ *   fixtures/news/market/<source>.xml     — broad RSS feeds
+ *   fixtures/market-data/manifest.json    — recordedAt (use it as MARKET_CLOCK)
+ *
+ * Existing fixtures are overwritten. Replay with the env block in
+ * fixtures/README.md.
+ *
+ * Config:
+ *   ALPACA_KEY / ALPACA_SECRET  — required
+ *   FIXTURE_MOVERS=20           — how many gainers/losers to keep (default 20)
+ */
+
+const fs   = require('fs');
+const path = require('path');
+
+const ROOT        = path.join(__dirname, '..', 'fixtures');
+const MD_DIR      = path.join(ROOT, 'market-data');
+const NEWS_DIR    = path.join(ROOT, 'news');
+const ALPACA_DATA = 'https://data.alpaca.markets';
+const ALPACA_API  = 'https://paper-api.alpaca.markets';
+const TOP         = parseInt(process.env.FIXTURE_MOVERS || '20', 10);
+
+const MARKET_FEEDS = {
+  cnbc:          'https://www.cnbc.com/id/10000664/device/rss/rss.html',
+  marketwatch:   'https://feeds.marketwatch.com/marketwatch/topstories/',
+  prnewswire:    'https://www.prnewswire.com/rss/news-releases-list.rss',
+  globenewswire: 'https://www.globenewswire.com/RssFeed/exchange/NASDAQ',
+  google:        'https://news.google.com/rss/search?q=' +
+                 encodeURIComponent('"FDA approval" OR merger OR "awarded contract" OR "phase 3" stock') +
+                 '&hl=en-US&gl=US&ceid=US:en',
+};
+
+const HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  Accept:       'application/rss+xml, text/xml',
+};
+
+// ── HTTP ──────────────────────────────────────────────────────────────────────
+
+async function alpaca(base, pathname, params) {
+  const url = new URL(pathname, base);
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, String(v));
+  const res = await fetch(url, {
+    headers: {
+      'APCA-API-KEY-ID':     process.env.ALPACA_KEY,
+      'APCA-API-SECRET-KEY': process.env.ALPACA_SECRET,
+      Accept:                'application/json',
+    },
+    signal: AbortSignal.timeout(30_000),
+  });
+  if (!res.ok) throw new Error(`${pathname} → HTTP ${res.status}: ${await res.text()}`);
+  return res.json();
+}
+
+/** Follow next_page_token and merge every page into one bars payload */
+async function allBars(symbols, params) {
+  const bars = {};
+  let pageToken;
+  do {
+    const page = await alpaca(ALPACA_DATA, '/v2/stocks/bars', {
+      symbols: symbols.join(','), feed: 'iex', limit: 10000, adjustment: 'raw', ...params,
+      ...(pageToken ? { page_token: pageToken } : {}),
+    });
+    for (const [sym, symBars] of Object.entries(page.bars || {})) (bars[sym] ||= []).push(...symBars);
+    pageToken = page.next_page_token;
+  } while (pageToken);
+  return { bars, next_page_token: null };
+}
+
+/** Yahoo quoteSummary needs a session cookie and a crumb bound to it */
+async function yahooSession() {
+  const res    = await fetch('https://fc.yahoo.com', { headers: HEADERS, redirect: 'manual', signal: AbortSignal.timeout(10_000) });
+  const cookie = res.headers.getSetCookie().map(c => c.split(';')[0]).join('; ');
+  const crumb  = await fetch('https://query1.finance.yahoo.com/v1/test/getcrumb', {
+    headers: { ...HEADERS, Cookie: cookie }, signal: AbortSignal.timeout(10_000),
+  }).then(r => r.text());
+  return { cookie, crumb };
+}
+
+async function yahooSummary({ cookie, crumb }, symbol) {
+  const url = new URL(`https://query2.finance.yahoo.com/v10/finance/quoteSummary/${encodeURIComponent(symbol)}`);
+  url.searchParams.set('modules', 'defaultKeyStatistics,price,assetProfile');
+  url.searchParams.set('crumb', crumb);
+  const res = await fetch(url, { headers: { ...HEADERS, Accept: 'application/json', Cookie: cookie }, signal: AbortSignal.timeout(10_000) });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
+
+async function rss(url) {
+  const res = await fetch(url, { headers: HEADERS, signal: AbortSignal.timeout(10_000) });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.text();
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function write(file, data) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, typeof data === 'string' ? data : JSON.stringify(data, null, 2) + '\n');
+  console.log(`  wrote ${path.relative(process.cwd(), file)}`);
+}
+
+/** Today's 00:00 in New York as an ISO string (handles EST/EDT) */
+function etMidnightIso(now) {
+  const et     = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const offset = now.getTime() - et.getTime();
+  et.setHours(0, 0, 0, 0);
+  return new Date(et.getTime() + offset).toISOString();
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+async function main() {
+  if (!process.env.ALPACA_KEY || !process.env.ALPACA_SECRET) {
+    console.error('ALPACA_KEY and ALPACA_SECRET are required (try node --env-file=.env.local …)');
+    process.exit(1);
+  }
+
+  const now    = new Date();
+  const extras = process.argv.slice(2).map(s => s.toUpperCase());
+
+  console.log('📼 Recording market data…');
+  const movers  = await alpaca(ALPACA_DATA, '/v1beta1/screener/stocks/movers', { top: TOP });
+  const symbols = [...new Set([
+    ...(movers.gainers || []).map(m => m.symbol),
+    ...(movers.losers  || []).map(m => m.symbol),
+    ...extras,
+  ])];
+  write(path.join(MD_DIR, 'movers.json'), movers);
+
+  const snapshots = await alpaca(ALPACA_DATA, '/v2/stocks/snapshots', { symbols: symbols.join(','), feed: 'iex' });
+  write(path.join(MD_DIR, 'snapshots.json'), snapshots);
+
+  const assets = await alpaca(ALPACA_API, '/v2/assets', { status: 'active', asset_class: 'us_equity' });
+  write(path.join(MD_DIR, 'assets.json'), assets.filter(a => symbols.includes(a.symbol)));
+
+  const end = now.toISOString();
+  write(path.join(MD_DIR, 'bars', '1Min.json'),
+    await allBars(symbols, { timeframe: '1Min', start: etMidnightIso(now), end }));
+  write(path.join(MD_DIR, 'bars', '15Min.json'),
+    await allBars(symbols, { timeframe: '15Min', start: new Date(now.getTime() - 21 * 86_400_000).toISOString(), end }));
+  write(path.join(MD_DIR, 'bars', '1Day.json'),
+    await allBars(symbols, { timeframe: '1Day', start: new Date(now.getTime() - 240 * 86_400_000).toISOString(), end }));
+
+  const summaries = {};
+  try {
+    const session = await yahooSession();
+    for (const sym of symbols) {
+      try {
+        summaries[sym] = await yahooSummary(session, sym);
+      } catch (err) {
+        console.warn(`  ⚠️  ${sym} key statistics: ${err.message}`);
+      }
+    }
+  } catch (err) {
+    console.warn(`  ⚠️  Yahoo session: ${err.message}`);
+  }
+  write(path.join(MD_DIR, 'fundamentals.json'), summaries);
+
+  console.log('📰 Recording news…');
+  for (const sym of symbols) {
+    try {
+      const xml = await rss(`https://feeds.finance.yahoo.com/rss/2.0/headline?s=${sym}&region=US&lang=en-US`);
+      write(path.join(NEWS_DIR, 'symbol', `${sym}.xml`), xml);
+    } catch (err) {
+      console.warn(`  ⚠️  ${sym}: ${err.message}`);
+    }
+  }
+  for (const [source, url] of Object.entries(MARKET_FEEDS)) {
+    try {
+      write(path.join(NEWS_DIR, 'market', `${source}.xml`), await rss(url));
+    } catch (err) {
+      console.warn(`  ⚠️  ${source}: ${err.message}`);
+    }
+  }
+
+  write(path.join(MD_DIR, 'manifest.json'), {
+    recordedAt: now.toISOString(),
+    source:     'alpaca (iex feed)',
+    symbols,
+  });
+
+  console.log(`\n✅ ${symbols.length} symbols recorded. Replay with MARKET_CLOCK=${now.toISOString()}`);
+}
+
+main().catch(err => {
+  console.error('❌', err.message);
+  process.exit(1);
+});
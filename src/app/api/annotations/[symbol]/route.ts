@@ -0,0 +1,52 @@
+/**
+ * /api/annotations/[symbol] — the chart drawings saved for one ticker
+ *
+ * GET → 200 { symbol, annotations, updatedAt }   (updatedAt 0 when none are saved)
+ * PUT → body: { annotations, updatedAt } — replaces the whole list.
+ *       200 { symbol, annotations, updatedAt } · 400 invalid
+ *       409 { error, annotations, updatedAt } when the stored copy is newer
+ *       500 when data/annotations.json can't be parsed (left untouched)
+ */
+
+import { NextResponse } from 'next/server';
+import { normalizeSymbol } from '@/lib/watchlist';
+import { parseAnnotations } from '@/lib/annotations';
+import { readAnnotations, writeAnnotations } from '@/lib/annotation-store';
+
+type Ctx = { params: Promise<{ symbol: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  const symbol = normalizeSymbol((await params).symbol);
+  if (!symbol) return NextResponse.json({ error: 'Invalid symbol' }, { status: 400 });
+
+  const set = await readAnnotations(symbol);
+  return NextResponse.json({ symbol, annotations: set?.annotations ?? [], updatedAt: set?.updatedAt ?? 0 });
+}
+
+export async function PUT(req: Request, { params }: Ctx) {
+  const symbol = normalizeSymbol((await params).symbol);
+  if (!symbol) return NextResponse.json({ error: 'Invalid symbol' }, { status: 400 });
+
+  let body: Record<string, unknown>;
+  try { body = await req.json(); } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const annotations = parseAnnotations(body?.annotations);
+  if (typeof annotations === 'string') return NextResponse.json({ error: annotations }, { status: 400 });
+  const updatedAt = typeof body.updatedAt === 'number' && Number.isFinite(body.updatedAt)
+    ? body.updatedAt
+    : Date.now();
+
+  try {
+    const stored = await readAnnotations(symbol);
+    if (stored && stored.updatedAt > updatedAt) {
+      return NextResponse.json({ error: 'A newer copy is already saved', ...stored }, { status: 409 });
+    }
+    await writeAnnotations(symbol, { annotations, updatedAt });
+    return NextResponse.json({ symbol, annotations, updatedAt });
+  } catch (err: any) {
+    console.error(`[annotations] PUT ${symbol} failed:`, err?.message);
+    return NextResponse.json({ error: err?.message ?? 'Failed to save annotations' }, { status: 500 });
+  }
+}
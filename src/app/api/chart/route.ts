@@ -1,83 +1,335 @@
+/**
+ * GET /api/chart
+ *
+ * Candles for the chart page, sourced through the market-data layer
+ * (Yahoo first for bars, failing over to Alpaca / Polygon / Finnhub).
+ *
+ * Query params:
+ *   ?symbol=AAPL             required
+ *   ?tf=1m|1h|1d|1w|1mo      timeframe (default: 1m)
+ *
+ * Timeframes:
+ *   1m   — 1-min bars, latest session only, pre + regular + post market
+ *   1h   — 15-min bars for the last month, resampled into hourly bars
+ *          anchored at each session open (04:00 / 09:30 / 16:00 ET), so no
+ *          bar ever straddles the pre/regular or regular/post boundary
+ *   1d   — daily bars, 2 years
+ *   1w   — weekly bars, 10 years
+ *   1mo  — monthly bars, full history
+ *
+ * Only intraday timeframes carry a meaningful `session` tag; daily and longer
+ * bars are always tagged 'regular'.
+ *
+ * Alongside the candles the response carries:
+ *   • a live quote (bid/ask + sizes) from the latest snapshot
+ *   • pre/post-market last price when the latest trade printed in that session
+ *   • prior day high / low / close and week / month highs from a 3-month
+ *     daily series, used as key levels on the chart
+ *   • company name, exchange, sector / industry and ETF / ADR / SPAC flags
+ *     from the daily asset-metadata cache (src/lib/asset-meta.ts)
+ */
+
 import { NextResponse } from 'next/server';
-import axios from 'axios';
+import {
+  getBars,
+  getSnapshots,
+  getQuote,
+  type Bar,
+  type BarTimeframe,
+  type Snapshot,
+} from '@/lib/market-data';
+import { getAssetMeta } from '@/lib/asset-meta';
+import * as clock from '@/lib/clock';
+
+type TF      = '1m' | '1h' | '1d' | '1w' | '1mo';
+type Session = 'pre' | 'regular' | 'post';
+
+interface Candle {
+  time:    number;   // unix seconds
+  open:    number;
+  high:    number;
+  low:     number;
+  close:   number;
+  volume:  number;
+  session: Session;
+}
+
+interface TfConfig {
+  timeframe:    BarTimeframe;
+  lookback:     number;    // seconds of history to request; 0 = everything
+  prePost:      boolean;   // include extended-hours bars (intraday timeframes only)
+  resample?:    number;    // bucket size in minutes, anchored at session open
+  lastSession?: boolean;   // keep only the most recent ET trading date
+}
+
+const DAY = 86_400;
+
+const TF_CONFIG: Record<TF, TfConfig> = {
+  // 5 days back always reaches the previous session, even over a long weekend
+  '1m':  { timeframe: '1Min',   lookback: 5 * DAY,    prePost: true, lastSession: true },
+  '1h':  { timeframe: '15Min',  lookback: 31 * DAY,   prePost: true, resample: 60 },
+  '1d':  { timeframe: '1Day',   lookback: 730 * DAY,  prePost: false },
+  '1w':  { timeframe: '1Week',  lookback: 3650 * DAY, prePost: false },
+  '1mo': { timeframe: '1Month', lookback: 0,          prePost: false },
+};
+
+// ── ET session helpers ────────────────────────────────────────────────────────
+
+const ET_CLOCK = new Intl.DateTimeFormat('en-US', {
+  timeZone:  'America/New_York',
+  hour:      '2-digit',
+  minute:    '2-digit',
+  hourCycle: 'h23',
+});
+
+const ET_DATE = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year:     'numeric',
+  month:    '2-digit',
+  day:      '2-digit',
+});
+
+/** ET calendar date (YYYY-MM-DD) for a unix timestamp */
+function etDate(t: number): string {
+  return ET_DATE.format(new Date(t * 1000));
+}
+
+/** Minutes since midnight ET for a unix timestamp (handles EST/EDT) */
+function etMinutes(t: number): number {
+  const parts = ET_CLOCK.formatToParts(new Date(t * 1000));
+  const h = Number(parts.find(p => p.type === 'hour')?.value   ?? 0);
+  const m = Number(parts.find(p => p.type === 'minute')?.value ?? 0);
+  return h * 60 + m;
+}
+
+// Session open in minutes since midnight ET
+const SESSION_OPEN: Record<Session, number> = {
+  pre:     240,  // 04:00
+  regular: 570,  // 09:30
+  post:    960,  // 16:00
+};
+
+/** Unix time of `mins` past midnight ET on an ET calendar date (handles EST/EDT) */
+function etSessionTime(date: string, mins: number): number {
+  const guess = Date.parse(`${date}T00:00:00Z`) / 1000 + mins * 60 + 4 * 3600;  // assume EDT
+  return guess + (mins - etMinutes(guess)) * 60;                                // +1h in EST
+}
+
+/**
+ * ET date of the current (or, outside trading days, most recent) session.
+ * From 04:00 ET on a weekday that's today; otherwise the date of the last
+ * print — a weekend shows Friday.
+ */
+function currentSessionDate(nowSec: number, lastPrint: number): string {
+  const dow = new Date(`${etDate(nowSec)}T00:00:00Z`).getUTCDay();
+  if (dow >= 1 && dow <= 5 && etMinutes(nowSec) >= SESSION_OPEN.pre) return etDate(nowSec);
+  return etDate(lastPrint || nowSec);
+}
+
+function sessionOf(mins: number): Session {
+  if (mins < SESSION_OPEN.regular) return 'pre';
+  if (mins >= SESSION_OPEN.post)   return 'post';
+  return 'regular';
+}
+
+// ── Resampling ────────────────────────────────────────────────────────────────
+// Groups bars into fixed-size buckets anchored at the open of the session each
+// bar belongs to. The last bucket of a session is shortened rather than
+// allowed to spill into the next one (e.g. 09:00–09:30 pre, 15:30–16:00 reg).
+
+function resample(candles: Candle[], minutes: number): Candle[] {
+  const buckets = new Map<number, Candle>();
+
+  for (const c of candles) {
+    const mins        = etMinutes(c.time);
+    const anchor      = SESSION_OPEN[c.session];
+    const bucketStart = anchor + Math.floor((mins - anchor) / minutes) * minutes;
+    const bucketTime  = c.time - (c.time % 60) - (mins - bucketStart) * 60;
+
+    const b = buckets.get(bucketTime);
+    if (!b) {
+      buckets.set(bucketTime, { ...c, time: bucketTime });
+    } else {
+      b.high    = Math.max(b.high, c.high);
+      b.low     = Math.min(b.low, c.low);
+      b.close   = c.close;
+      b.volume += c.volume;
+    }
+  }
+
+  return [...buckets.values()];
+}
+
+// lightweight-charts needs strictly ascending, unique times. Some vendors
+// repeat the in-progress bar for weekly/monthly ranges — keep the latest.
+function sortUnique(candles: Candle[]): Candle[] {
+  const byTime = new Map<number, Candle>();
+  for (const c of candles) byTime.set(c.time, c);
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
+
+// ── Prior-period levels ───────────────────────────────────────────────────────
+// Periods are ET calendar periods strictly before the current session's, so on
+// a Monday "last week" is Mon–Fri of the previous week, not the trailing 5
+// days. Over a weekend the current session is still Friday's.
+
+/** Monday (YYYY-MM-DD) of the week containing an ET date */
+function weekOf(date: string): string {
+  const d   = new Date(`${date}T00:00:00Z`);
+  const dow = (d.getUTCDay() + 6) % 7;  // 0 = Monday
+  d.setUTCDate(d.getUTCDate() - dow);
+  return d.toISOString().slice(0, 10);
+}
+
+function priorLevels(days: Candle[], today: string) {
+  const thisWeek  = weekOf(today);
+  const thisMonth = today.slice(0, 7);
+
+  const completed = days
+    .map(d => ({ date: etDate(d.time), high: d.high, low: d.low, close: d.close }))
+    .filter(d => d.date < today);
+
+  const lastDay   = completed[completed.length - 1];
+  const lastWeek  = completed.filter(d => weekOf(d.date) < thisWeek);
+  const prevWeek  = lastWeek.length ? weekOf(lastWeek[lastWeek.length - 1].date) : '';
+  const lastMonth = completed.filter(d => d.date.slice(0, 7) < thisMonth);
+  const prevMonth = lastMonth.length ? lastMonth[lastMonth.length - 1].date.slice(0, 7) : '';
+
+  const maxHigh = (rows: { high: number }[]) =>
+    rows.reduce((m, r) => Math.max(m, r.high), 0);
+
+  return {
+    lastDayClose:  lastDay?.close ?? 0,
+    lastDayHigh:   lastDay?.high  ?? 0,
+    lastDayLow:    lastDay?.low   ?? 0,
+    lastWeekHigh:  maxHigh(lastWeek.filter(d => weekOf(d.date) === prevWeek)),
+    lastMonthHigh: maxHigh(lastMonth.filter(d => d.date.slice(0, 7) === prevMonth)),
+  };
+}
+
+// ── Live quote ────────────────────────────────────────────────────────────────
+
+function quoteFields(snap: Snapshot | undefined, nowSec: number) {
+  // Extended-hours price only counts if the last print was today in that session
+  let preMarketPrice  = 0;
+  let postMarketPrice = 0;
+  if (snap?.price && snap.tradeTime && etDate(snap.tradeTime) === etDate(nowSec)) {
+    const session = sessionOf(etMinutes(snap.tradeTime));
+    if (session === 'pre')  preMarketPrice  = snap.price;
+    if (session === 'post') postMarketPrice = snap.price;
+  }
+
+  return {
+    bid:     snap?.bid     ?? 0,
+    ask:     snap?.ask     ?? 0,
+    bidSize: snap?.bidSize ?? 0,
+    askSize: snap?.askSize ?? 0,
+    preMarketPrice,
+    postMarketPrice,
+  };
+}
+
+// ── Bars → candles ────────────────────────────────────────────────────────────
+
+function toCandles(bars: Bar[], intraday: boolean): Candle[] {
+  return bars.map(b => ({
+    time:    b.t,
+    open:    b.o,
+    high:    b.h,
+    low:     b.l,
+    close:   b.c,
+    volume:  b.v,
+    session: intraday ? sessionOf(etMinutes(b.t)) : 'regular',
+  }));
+}
+
+// ── Handler ───────────────────────────────────────────────────────────────────
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const symbol = (searchParams.get('symbol') || '').toUpperCase().trim();
+  const tf     = (searchParams.get('tf') || '1m') as TF;
 
   if (!symbol) {
     return NextResponse.json({ error: 'symbol is required' }, { status: 400 });
   }
+  // Own keys only — ?tf=toString must not find Object.prototype
+  if (!Object.hasOwn(TF_CONFIG, tf)) {
+    return NextResponse.json(
+      { error: `tf must be one of ${Object.keys(TF_CONFIG).join(', ')}` },
+      { status: 400 },
+    );
+  }
+  const cfg = TF_CONFIG[tf];
 
   try {
-    // Yahoo Finance: 1-min candles for today including pre + post market
-    const { data } = await axios.get(
-      `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}`,
-      {
-        params: {
-          interval: '1m',
-          range: '1d',
-          includePrePost: true,
-        },
-        headers: {
-          'User-Agent':
-            'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-          Accept: 'application/json',
-        },
-        timeout: 10_000,
-      }
-    );
+    const nowSec = clock.nowSec();
 
-    const result = data?.chart?.result?.[0];
-    if (!result) {
+    // The daily reference series, snapshot, quote and metadata run alongside
+    // the main request; only the main bars are required.
+    const [bars, daily, snapshots, quote, assetMeta] = await Promise.all([
+      getBars([symbol], {
+        timeframe: cfg.timeframe,
+        start:     cfg.lookback ? nowSec - cfg.lookback : 0,
+        end:       nowSec,
+        extended:  cfg.prePost,
+      }),
+      getBars([symbol], { timeframe: '1Day', start: nowSec - 100 * DAY, end: nowSec }).catch(() => null),
+      getSnapshots([symbol]),
+      getQuote(symbol).catch(() => null),
+      getAssetMeta([symbol]),
+    ]);
+
+    let candles = sortUnique(toCandles(bars[symbol] ?? [], cfg.prePost));
+    if (!candles.length) {
       return NextResponse.json({ error: 'No data returned for this symbol' }, { status: 404 });
     }
+    if (cfg.lastSession) {
+      const last = etDate(candles[candles.length - 1].time);
+      candles = candles.filter(c => etDate(c.time) === last);
+    }
+    if (cfg.resample) candles = sortUnique(resample(candles, cfg.resample));
+
+    const snap      = snapshots[symbol];
+    const meta      = assetMeta[symbol];
+    const lastPrint = Math.max(snap?.tradeTime ?? 0, quote?.time ?? 0, candles[candles.length - 1].time);
+    const session   = currentSessionDate(nowSec, lastPrint);
+    const prior     = daily?.[symbol]?.length
+      ? priorLevels(sortUnique(toCandles(daily[symbol], false)), session)
+      : { lastDayClose: 0, lastDayHigh: 0, lastDayLow: 0, lastWeekHigh: 0, lastMonthHigh: 0 };
 
-    const timestamps: number[] = result.timestamp || [];
-    const quote = result.indicators?.quote?.[0] || {};
-    const opens: number[] = quote.open || [];
-    const highs: number[] = quote.high || [];
-    const lows: number[] = quote.low || [];
-    const closes: number[] = quote.close || [];
-    const volumes: number[] = quote.volume || [];
-
-    const meta = result.meta || {};
-    const regularStart: number = meta.regularTradingPeriodStartTime || 0;
-    const regularEnd: number = meta.regularTradingPeriodEndTime || 0;
-
-    // Build candles, skip bars where all OHLC are null (market closed gaps)
-    const candles = timestamps
-      .map((t, i) => ({
-        time: t,
-        open: opens[i],
-        high: highs[i],
-        low: lows[i],
-        close: closes[i],
-        volume: volumes[i] || 0,
-        session:
-          t < regularStart ? 'pre' : t >= regularEnd ? 'post' : 'regular',
-      }))
-      .filter(
-        (c) =>
-          c.open != null &&
-          c.high != null &&
-          c.low != null &&
-          c.close != null
-      );
+    const previousClose: number =
+      quote?.prevClose  ||
+      prior.lastDayClose ||
+      snap?.prevDay?.c  ||
+      0;
 
     return NextResponse.json({
       symbol,
-      name: meta.longName || meta.shortName || symbol,
-      currency: meta.currency || 'USD',
-      currentPrice: meta.regularMarketPrice || closes[closes.length - 1] || 0,
-      previousClose: meta.chartPreviousClose || meta.previousClose || 0,
-      regularStart,
-      regularEnd,
+      tf,
+      name:     meta?.name || quote?.name || symbol,
+      exchange: meta?.exchange ?? '',
+      sector:   meta?.sector   ?? '',
+      industry: meta?.industry ?? '',
+      isEtf:    meta?.isEtf    ?? false,
+      isAdr:    meta?.isAdr    ?? false,
+      isSpac:   meta?.isSpac   ?? false,
+      currency: 'USD',
+      currentPrice: quote?.price || candles[candles.length - 1].close,
+      previousClose,
+      ...quoteFields(snap, nowSec),
+      lastDayHigh:   prior.lastDayHigh,
+      lastDayLow:    prior.lastDayLow,
+      lastDayClose:  prior.lastDayClose,
+      lastWeekHigh:  prior.lastWeekHigh,
+      lastMonthHigh: prior.lastMonthHigh,
+      regularStart:  etSessionTime(session, SESSION_OPEN.regular),
+      regularEnd:    etSessionTime(session, SESSION_OPEN.post),
       candles,
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Failed to fetch chart data';
-    console.error(`[chart] ${symbol}:`, message);
+    console.error(`[chart] ${symbol} ${tf}:`, message);
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
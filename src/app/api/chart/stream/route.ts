@@ -0,0 +1,94 @@
+/**
+ * GET /api/chart/stream?symbol=AAPL — live trades for the chart over
+ * server-sent events
+ *
+ * Bridges the vendor trade WebSocket (Alpaca IEX, else Finnhub; the fake
+ * provider makes up a random walk — see src/lib/market-data/stream.ts) to
+ * the browser. Trades are batched, so a busy name costs at most a few
+ * events a second however fast it prints.
+ *
+ * Events:
+ *   ready   { symbol, provider }  listening; trades follow once the vendor
+ *                                 socket is up
+ *   trades  [{ price, size, t }]  prints since the last event, oldest first
+ *
+ * A comment line goes out every 15 s so proxies keep the connection open.
+ * A missing symbol is a plain JSON 400, no streaming provider a 503.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  subscribeTrades,
+  tradeStreamProvider,
+  MarketDataError,
+  type Trade,
+} from '@/lib/market-data';
+
+export const runtime = 'nodejs';
+
+const FLUSH_MS  = 250;
+const HEARTBEAT = 15_000;
+
+export async function GET(req: Request) {
+  const symbol = (new URL(req.url).searchParams.get('symbol') || '').toUpperCase().trim();
+  if (!symbol) {
+    return NextResponse.json({ error: 'symbol is required' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  const pending: Omit<Trade, 'symbol'>[] = [];
+  let closed = false;
+  let unsubscribe: (() => void) | undefined;
+  let flush: ReturnType<typeof setInterval> | undefined;
+  let ping:  ReturnType<typeof setInterval> | undefined;
+
+  function stop() {
+    closed = true;
+    unsubscribe?.();
+    clearInterval(flush);
+    clearInterval(ping);
+  }
+
+  // Subscribing first means a missing provider is a 503, not a dead stream
+  try {
+    unsubscribe = subscribeTrades(symbol, trades => {
+      for (const { price, size, t } of trades) pending.push({ price, size, t });
+    });
+  } catch (err: any) {
+    if (!(err instanceof MarketDataError)) throw err;
+    return NextResponse.json({ error: err.message }, { status: 503 });
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try { controller.enqueue(encoder.encode(chunk)); } catch { stop(); }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      send('ready', { symbol, provider: tradeStreamProvider() });
+      flush = setInterval(() => {
+        if (pending.length) send('trades', pending.splice(0));
+      }, FLUSH_MS);
+      ping = setInterval(() => write(': ping\n\n'), HEARTBEAT);
+
+      req.signal.addEventListener('abort', () => {
+        stop();
+        try { controller.close(); } catch { /* already closed by the client */ }
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type':      'text/event-stream',
+      'Cache-Control':     'no-cache, no-transform',
+      'Connection':        'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
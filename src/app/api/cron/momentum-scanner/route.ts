@@ -4,7 +4,8 @@
  * No watchlist. Runs on a schedule. Pipeline per cycle:
  *
  *  1. Detect market session (pre / regular / closed) from NY time
- *  2. Fetch top movers from Yahoo Finance screener
+ *  2. Fetch top movers via the market-data layer (Alpaca screener first,
+ *     failing over per src/lib/market-data)
  *
  *  Pre-market  (4:00 AM – 9:30 AM ET):
  *    • preMarketChangePercent >= PRICE_MOVE_PCT  (default 7 %)
@@ -25,21 +26,14 @@
  */
 
 import { NextResponse }       from 'next/server';
-import axios                  from 'axios';
 import fs                     from 'fs/promises';
 import path                   from 'path';
 import { fetchNewsForSymbol } from '@/lib/news-fetch';
+import { getMovers, getSnapshots } from '@/lib/market-data';
+import { getMarketCaps }      from '@/lib/fundamentals';
+import { getAssetMeta }       from '@/lib/asset-meta';
 import { buildMomentumAlertMessage, sendTelegram } from '@/lib/telegram';
-
-const ALPACA_DATA = 'https://data.alpaca.markets';
-
-function alpacaHeaders() {
-  return {
-    'APCA-API-KEY-ID':     process.env.ALPACA_KEY    ?? '',
-    'APCA-API-SECRET-KEY': process.env.ALPACA_SECRET ?? '',
-    Accept:                'application/json',
-  };
-}
+import * as clock             from '@/lib/clock';
 
 const DATA_DIR      = path.join(process.cwd(), 'data');
 const CACHE_PATH    = path.join(DATA_DIR, 'sent-alerts.json');
@@ -93,7 +87,7 @@ async function appendLog(e: LogEntry): Promise<void> {
 // ── Market session (New York time) ────────────────────────────────────────────
 
 function getSession(): Session {
-  const ny   = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const ny   = new Date(new Date(clock.now()).toLocaleString('en-US', { timeZone: 'America/New_York' }));
   const day  = ny.getDay();                          // 0 Sun … 6 Sat
   const mins = ny.getHours() * 60 + ny.getMinutes();
 
@@ -103,23 +97,16 @@ function getSession(): Session {
   return 'closed';                                   // overnight / post-market
 }
 
-// ── Mover fetch via Alpaca ────────────────────────────────────────────────────
+// ── Mover fetch ───────────────────────────────────────────────────────────────
 
 async function fetchMovers(session: Session, minPct: number, max: number): Promise<Mover[]> {
   const marketType = session === 'pre' ? 'pre_market' : 'regular';
 
-  const res = await axios.get(`${ALPACA_DATA}/v1beta1/screener/stocks/movers`, {
-    headers: alpacaHeaders(),
-    params:  { top: Math.min(max * 4, 100), market_type: marketType },
-    timeout: 15_000,
-  });
-
-  const gainers: { symbol: string; percent_change: number; change: number; price: number }[] =
-    res.data?.gainers ?? [];
+  const { gainers } = await getMovers({ top: Math.min(max * 4, 100), marketType });
 
   // First-pass filter by % move and price cap
   const candidates = gainers.filter(g => {
-    if (g.percent_change < minPct) return false;
+    if (g.changePct < minPct) return false;
     if (session === 'pre') {
       return g.price > 0 && g.price <= PRE_MAX_PRICE;
     }
@@ -128,36 +115,28 @@ async function fetchMovers(session: Session, minPct: number, max: number): Promi
 
   if (candidates.length === 0) return [];
 
-  // Fetch snapshots to get prevDailyBar (for prevDayHigh) — one batched call
-  const symbols   = candidates.map(g => g.symbol).join(',');
-  let snapshots: Record<string, { prevDailyBar?: { h: number; c: number } }> = {};
-  try {
-    const snapRes = await axios.get(`${ALPACA_DATA}/v2/stocks/snapshots`, {
-      headers: alpacaHeaders(),
-      params:  { symbols, feed: 'iex' },
-      timeout: 15_000,
-    });
-    snapshots = snapRes.data ?? {};
-  } catch (err: any) {
-    console.warn('[momentum-scanner] snapshot fetch failed:', err?.message);
-  }
+  // Fetch snapshots to get the prior day bar (for prevDayHigh) — one batched call.
+  // Market caps come from the daily fundamentals cache; unknown (0) passes.
+  const [snapshots, caps] = await Promise.all([
+    getSnapshots(candidates.map(g => g.symbol)),
+    session === 'pre' ? getMarketCaps(Object.fromEntries(candidates.map(g => [g.symbol, g.price]))) : ({} as Record<string, number>),
+  ]);
 
-  return candidates
-    .filter(g => {
-      if (session === 'pre') {
-        // Market-cap check isn't available from Alpaca; price cap is our proxy
-        return g.price > 0 && g.price <= PRE_MAX_PRICE;
-      }
-      return true;
-    })
-    .slice(0, max)
+  const kept = candidates
+    .filter(g => session !== 'pre' || (caps[g.symbol] ?? 0) <= PRE_MAX_MCAP)
+    .slice(0, max);
+
+  // Movers carry no name field — take it from the daily asset-metadata cache
+  const meta = await getAssetMeta(kept.map(g => g.symbol));
+
+  return kept
     .map(g => ({
       symbol:      g.symbol,
-      name:        g.symbol,                              // Alpaca movers have no name field
+      name:        meta[g.symbol]?.name ?? g.symbol,
       price:       g.price,
-      changePct:   g.percent_change,
-      prevDayHigh: snapshots[g.symbol]?.prevDailyBar?.h ?? 0,
-      marketCap:   0,                                     // not available from Alpaca free tier
+      changePct:   g.changePct,
+      prevDayHigh: snapshots[g.symbol]?.prevDay?.h ?? 0,
+      marketCap:   caps[g.symbol] ?? 0,                   // 0 in regular session / when unknown
     }));
 }
 
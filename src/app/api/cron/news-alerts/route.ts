@@ -0,0 +1,215 @@
+/**
+ * GET /api/cron/news-alerts
+ *
+ * Watchlist catalyst scanner — called every tick by scripts/news-monitor.js.
+ *
+ * Pipeline per cycle:
+ *  1. Read entries from data/watchlist.json (see src/lib/watchlist.ts)
+ *  2. Price thresholds — one snapshot batch for every entry that has
+ *     alertAbove / alertBelow / alertChangePct set; each trigger fires at
+ *     most once per ET trading day (`price:SYM:<trigger>` in cooldowns.json)
+ *  3. Skip tickers still in cooldown (saves the news fetch entirely)
+ *  4. Fetch news for each ticker; keep high-impact (pinned) headlines
+ *     published within ALERT_MAX_AGE_HOURS
+ *  5. Headline dedupe against data/sent-alerts.json — the same cache the
+ *     market-scan and momentum-scanner routes use, keyed `${symbol}:${id}`,
+ *     so a headline is never sent twice whichever route found it first
+ *  6. Send ONE Telegram alert per ticker per cycle, then start its cooldown
+ *     in data/cooldowns.json (shared per-ticker key with momentum-scanner)
+ *  7. Append every attempt to data/alert-log.jsonl
+ *
+ * Config (via .env.local):
+ *   TELEGRAM_BOT_TOKEN        — required
+ *   TELEGRAM_CHAT_ID          — required
+ *   ALERT_COOLDOWN_MINUTES    — default 15 (shared with the other scanners)
+ *   ALERT_MAX_AGE_HOURS       — default 24, older catalysts are ignored
+ *   APP_URL                   — optional, appended as a chart link
+ */
+
+import { NextResponse }       from 'next/server';
+import fs                     from 'fs/promises';
+import path                   from 'path';
+import { fetchNewsForSymbol } from '@/lib/news-fetch';
+import { getSnapshots }       from '@/lib/market-data';
+import { readWatchlist, type WatchlistEntry } from '@/lib/watchlist';
+import {
+  sendTelegram,
+  sendTelegramAlert,
+  buildPriceAlertMessage,
+} from '@/lib/telegram';
+import * as clock             from '@/lib/clock';
+
+const DATA_DIR      = path.join(process.cwd(), 'data');
+const CACHE_PATH    = path.join(DATA_DIR, 'sent-alerts.json');
+const COOLDOWN_PATH = path.join(DATA_DIR, 'cooldowns.json');
+const LOG_PATH      = path.join(DATA_DIR, 'alert-log.jsonl');
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const COOLDOWN_MS  = parseInt(process.env.ALERT_COOLDOWN_MINUTES ?? '15', 10) * 60_000;
+const MAX_AGE_SEC  = parseFloat(process.env.ALERT_MAX_AGE_HOURS  ?? '24') * 3600;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+interface LogEntry {
+  ts: string; ticker: string; category: string;
+  headline_id: string; source: string; title: string; url: string;
+  sent: boolean; reason: string | null; mode: 'watchlist';
+}
+
+interface TickerResult {
+  symbol:           string;
+  catalysts:        number;
+  sent:             number;
+  skipped_dedupe:   number;
+  skipped_cooldown: number;
+  price_alerts:     number;
+  error?:           string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function readJson<T>(p: string, fb: T): Promise<T> {
+  try { return JSON.parse(await fs.readFile(p, 'utf-8')) as T; } catch { return fb; }
+}
+
+async function writeJson(p: string, d: unknown): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(p, JSON.stringify(d, null, 2));
+}
+
+async function appendLog(e: LogEntry): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.appendFile(LOG_PATH, JSON.stringify(e) + '\n');
+}
+
+function etDate(ms: number): string {
+  return new Date(ms).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+}
+
+function hasThreshold(e: WatchlistEntry): boolean {
+  return e.alertAbove != null || e.alertBelow != null || e.alertChangePct != null;
+}
+
+/** Triggers currently met by an entry, keyed by the cooldown suffix */
+function priceTriggers(e: WatchlistEntry, price: number, pct: number): [string, string][] {
+  const out: [string, string][] = [];
+  if (e.alertAbove     != null && price >= e.alertAbove)             out.push(['above',  `Crossed above $${e.alertAbove.toFixed(2)}`]);
+  if (e.alertBelow     != null && price <= e.alertBelow)             out.push(['below',  `Crossed below $${e.alertBelow.toFixed(2)}`]);
+  if (e.alertChangePct != null && Math.abs(pct) >= e.alertChangePct) out.push(['change', `Day move beyond ±${e.alertChangePct}%`]);
+  return out;
+}
+
+// ── Main handler ──────────────────────────────────────────────────────────────
+
+export async function GET() {
+  const entries     = await readWatchlist();
+  const watchlist   = entries.map(e => e.symbol);
+  const cooldownMin = COOLDOWN_MS / 60_000;
+
+  if (watchlist.length === 0) {
+    return NextResponse.json({
+      checkedAt: new Date().toISOString(),
+      watchlist, results: [], totalSent: 0, cooldownMin,
+    });
+  }
+
+  const [rawCache, cooldowns] = await Promise.all([
+    readJson<Record<string, number>>(CACHE_PATH,    {}),
+    readJson<Record<string, number>>(COOLDOWN_PATH, {}),
+  ]);
+  const now   = clock.now();
+  const cache = Object.fromEntries(
+    Object.entries(rawCache).filter(([, ts]) => now - ts < CACHE_TTL_MS),
+  ) as Record<string, number>;
+
+  const appUrl  = process.env.APP_URL ?? '';
+  const minTime = Math.floor(now / 1000) - MAX_AGE_SEC;
+  const today   = etDate(now);
+  const results: TickerResult[] = [];
+  let totalSent = 0;
+
+  const withThresholds = entries.filter(hasThreshold).map(e => e.symbol);
+  const snapshots      = await getSnapshots(withThresholds);
+
+  for (const entry of entries) {
+    const { symbol } = entry;
+    const r: TickerResult = { symbol, catalysts: 0, sent: 0, skipped_dedupe: 0, skipped_cooldown: 0, price_alerts: 0 };
+
+    try {
+      // Price thresholds first — they are independent of the news cooldown
+      const snap      = snapshots[symbol];
+      const price     = snap?.price ?? 0;
+      const prevClose = snap?.prevDay?.c ?? 0;
+      if (price > 0 && prevClose > 0) {
+        const pct = ((price - prevClose) / prevClose) * 100;
+        for (const [kind, trigger] of priceTriggers(entry, price, pct)) {
+          const key = `price:${symbol}:${kind}`;
+          if (cooldowns[key] && etDate(cooldowns[key]) === today) continue;
+
+          const chartUrl = appUrl ? `${appUrl}/?symbol=${symbol}&tf=1m` : undefined;
+          await sendTelegram(buildPriceAlertMessage(symbol, price, pct, trigger, entry.note), chartUrl);
+          cooldowns[key] = now;
+          r.price_alerts++;
+          totalSent++;
+        }
+      }
+
+      // Skip news fetch entirely if ticker is in cooldown window
+      const lastAlerted = cooldowns[symbol] ?? 0;
+      if (now - lastAlerted < COOLDOWN_MS) {
+        r.skipped_cooldown = 1;
+        results.push(r);
+        continue;
+      }
+
+      const { items } = await fetchNewsForSymbol(symbol);
+      const pinned    = items.filter(i => i.isPinned && i.publishedAt >= minTime);
+      r.catalysts     = pinned.length;
+
+      for (const item of pinned) {
+        const key     = `${symbol}:${item.id}`;
+        const logBase = {
+          ts: new Date().toISOString(), ticker: symbol,
+          category: item.category, headline_id: item.id,
+          source: item.source,     title: item.title,
+          url: item.url,
+          mode: 'watchlist' as const,
+        };
+
+        // Headline dedupe
+        if (cache[key]) {
+          await appendLog({ ...logBase, sent: false, reason: 'dedupe' });
+          r.skipped_dedupe++;
+          continue;
+        }
+
+        await sendTelegramAlert(item, symbol, appUrl);
+
+        cache[key]        = now;
+        cooldowns[symbol] = now;
+        r.sent++;
+        totalSent++;
+
+        await appendLog({ ...logBase, sent: true, reason: null });
+        await new Promise(res => setTimeout(res, 300));
+
+        // ── ONE alert per ticker per cycle — the rest wait for the cooldown ─
+        break;
+      }
+    } catch (err: any) {
+      console.error(`[news-alerts] ${symbol}:`, err?.message);
+      r.error = err?.message;
+    }
+
+    results.push(r);
+  }
+
+  await Promise.all([writeJson(CACHE_PATH, cache), writeJson(COOLDOWN_PATH, cooldowns)]);
+
+  console.log(`[news-alerts] ${watchlist.length} tickers | ${totalSent} sent`);
+
+  return NextResponse.json({
+    checkedAt: new Date().toISOString(),
+    watchlist, results, totalSent, cooldownMin,
+  });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { fetchNewsForSymbol } from '@/lib/news-fetch';
+
+export const runtime    = 'nodejs';
+export const maxDuration = 30;
+
+// GET /api/news/symbol?symbol=AAPL — all sources for one ticker, newest first
+export async function GET(req: Request) {
+  const symbol = (new URL(req.url).searchParams.get('symbol') || '').toUpperCase().trim();
+  if (!symbol) {
+    return NextResponse.json({ error: 'symbol is required' }, { status: 400 });
+  }
+
+  try {
+    const { items, sources } = await fetchNewsForSymbol(symbol);
+    return NextResponse.json({
+      symbol,
+      items,
+      sources,
+      total:     items.length,
+      fetchedAt: Date.now(),
+    });
+  } catch (err) {
+    console.error(`[news/symbol] ${symbol}`, err);
+    return NextResponse.json({ error: 'Failed to fetch news' }, { status: 500 });
+  }
+}
@@ -4,44 +4,65 @@
  * Unified scanner endpoint for all three market sessions.
  *
  * Query params:
+ *   ?preset=low-float-runners  run a saved preset (src/lib/scan-presets.ts):
+ *                   its session, filters and sort. Any param below still
+ *                   overrides it. 404 for an unknown preset
  *   ?marketType=pre_market|regular|post_market  (default: pre_market)
- *   ?minChange=12   override default min % change
+ *   ?direction=gainers|losers  losers = gap-downs for the short side, with
+ *                   their own per-session defaults   (default: gainers)
+ *   ?minChange=12   override default min % change    (gainers)
+ *   ?maxChange=-10  override default max % change    (losers)
+ *   ?belowLow=1     only losers under the prior-day low
+ *   ?minPrice=1     min price                       (default: off)
  *   ?maxPrice=30    override default max price
  *   ?minVol=12000   override default min session volume
- *   ?alert=1        also send a Telegram digest (pre-market only)
+ *   ?maxMcap=2e9    override default max market cap (USD)
+ *   ?maxFloat=20e6  max float in shares             (default: off)
+ *   ?minRvol=3      min relative volume, ×          (default: off)
+ *   ?minShort=10    min short interest, % of float  (default: off)
+ *   ?exchanges=NASDAQ,NYSE      only these exchanges    (default: any)
+ *   ?excludeExchanges=OTC,BATS  never these exchanges   (default: OTC)
+ *   ?types=common,adr           allowed asset types — common, etf, adr,
+ *                               warrant, unit, right, preferred (default: common)
+ *   ?exclude=GME,AMC            symbol blacklist
+ *   ?where=changePct >= 12 and price > prevDayHigh
+ *                   scan expression (src/lib/scan-expression.ts) over the
+ *                   enriched rows that passed the filters above. 400 with
+ *                   { error, pos } when it does not parse or type-check
+ *   ?alert=1        also send a Telegram digest (pre-market only; gap-down
+ *                   digest in losers mode; losers and each preset keep
+ *                   their own dedup cache)
  *   ?force=1        run even outside the expected session window
+ *
+ * The session is read from the market clock (src/lib/clock.ts), so an
+ * offline replay with MARKET_CLOCK set passes the gate without ?force=1.
+ * Params are parsed in src/lib/scan-request.ts; /api/scan/stream takes the
+ * same ones and pushes live updates instead.
  */
 
 import { NextResponse }                          from 'next/server';
 import fs                                        from 'fs/promises';
 import path                                      from 'path';
 import {
-  scanPreMarket,
   getMarketSession,
-  SESSION_DEFAULTS,
-  type MarketType,
-  type ScanFilters,
+  type ScanDirection,
   type PreMarketStock,
 }                                                from '@/lib/pre-market-scanner';
-import { buildPreMarketDigestMessage, sendTelegram } from '@/lib/telegram';
+import {
+  parseScanRequest,
+  isScanRequestError,
+  runScanRequest,
+  sessionGateMessage,
+}                                                from '@/lib/scan-request';
+import { buildPreMarketDigestMessage, buildGapDownDigestMessage, sendTelegram } from '@/lib/telegram';
+import * as clock                                from '@/lib/clock';
 
 const DATA_DIR      = path.join(process.cwd(), 'data');
-const PM_CACHE_PATH = path.join(DATA_DIR, 'pm-scan-cache.json');
-const DIGEST_COOLDOWN = parseInt(process.env.PRE_MARKET_DIGEST_COOLDOWN_MINUTES ?? '30', 10) * 60_000;
-
-// ── Session gate ──────────────────────────────────────────────────────────────
-
-const SESSION_GATE: Record<MarketType, ReturnType<typeof getMarketSession>> = {
-  pre_market:  'pre',
-  regular:     'regular',
-  post_market: 'post',
-};
-
-const SESSION_HOURS: Record<MarketType, string> = {
-  pre_market:  '4:00–9:30 AM ET',
-  regular:     '9:30 AM–4:00 PM ET',
-  post_market: '4:00–8:00 PM ET',
+const PM_CACHE_FILE: Record<ScanDirection, string> = {
+  gainers: 'pm-scan-cache',
+  losers:  'pm-losers-cache',
 };
+const DIGEST_COOLDOWN = parseInt(process.env.PRE_MARKET_DIGEST_COOLDOWN_MINUTES ?? '30', 10) * 60_000;
 
 // ── Cache (Telegram dedup for pre-market digest) ──────────────────────────────
 
@@ -52,13 +73,18 @@ interface PmCache {
   todayDate:     string;
 }
 
-async function readCache(): Promise<PmCache> {
-  try { return JSON.parse(await fs.readFile(PM_CACHE_PATH, 'utf-8')) as PmCache; }
+/** data/pm-scan-cache.json, pm-losers-cache.json, or pm-scan-cache.<preset>.json */
+function cachePath(direction: ScanDirection, preset: string | null): string {
+  return path.join(DATA_DIR, `${PM_CACHE_FILE[direction]}${preset ? `.${preset}` : ''}.json`);
+}
+
+async function readCache(file: string): Promise<PmCache> {
+  try { return JSON.parse(await fs.readFile(file, 'utf-8')) as PmCache; }
   catch { return { lastSentAt: 0, lastSymbolSet: '[]', sentToday: [], todayDate: '' }; }
 }
-async function writeCache(c: PmCache): Promise<void> {
+async function writeCache(file: string, c: PmCache): Promise<void> {
   await fs.mkdir(DATA_DIR, { recursive: true });
-  await fs.writeFile(PM_CACHE_PATH, JSON.stringify(c, null, 2));
+  await fs.writeFile(file, JSON.stringify(c, null, 2));
 }
 
 // ── Handler ───────────────────────────────────────────────────────────────────
@@ -67,26 +93,23 @@ export async function GET(req: Request) {
   const url        = new URL(req.url);
   const alert      = url.searchParams.get('alert')      === '1';
   const force      = url.searchParams.get('force')      === '1';
-  const marketType = (url.searchParams.get('marketType') ?? 'pre_market') as MarketType;
 
-  // Per-session filter defaults, overrideable via URL params
-  const defaults  = SESSION_DEFAULTS[marketType] ?? SESSION_DEFAULTS.pre_market;
-  const FILTERS: ScanFilters = {
-    maxPrice:           parseFloat(url.searchParams.get('maxPrice')  ?? String(defaults.maxPrice)),
-    minPreMarketVolume: parseInt(  url.searchParams.get('minVol')    ?? String(defaults.minPreMarketVolume), 10),
-    maxMarketCap:       parseFloat(url.searchParams.get('maxMcap')   ?? String(defaults.maxMarketCap)),
-    minChangePct:       parseFloat(url.searchParams.get('minChange') ?? String(defaults.minChangePct)),
-  };
+  const parsed = await parseScanRequest(url);
+  if (isScanRequestError(parsed)) {
+    const { status, ...body } = parsed;
+    return NextResponse.json(body, { status });
+  }
+  const { marketType, direction, filters: FILTERS, preset } = parsed;
 
-  const session        = getMarketSession();
-  const expectedSession = SESSION_GATE[marketType];
+  const session = getMarketSession();
+  const gated   = sessionGateMessage(marketType);
 
-  if (session !== expectedSession && !force) {
+  if (gated && !force) {
     return NextResponse.json({
       scannedAt: new Date().toISOString(),
       session,
       marketType,
-      message:   `${marketType.replace(/_/g, ' ')} scanner only runs ${SESSION_HOURS[marketType]} (pass ?force=1 to override)`,
+      message:   gated,
       count:     0,
       stocks:    [],
     });
@@ -95,24 +118,26 @@ export async function GET(req: Request) {
   // ── Run scan ───────────────────────────────────────────────────────────────
   let stocks: PreMarketStock[];
   let source: 'primary' | 'fallback';
+  let provider: string | null;
 
   try {
-    ({ stocks, source } = await scanPreMarket(FILTERS, marketType));
+    ({ stocks, source, provider } = await runScanRequest(parsed));
   } catch (err: any) {
     console.error('[scan] scanner error:', err?.message);
     return NextResponse.json({ error: err?.message }, { status: 500 });
   }
 
-  console.log(`[scan/${marketType}] ${stocks.length} matches (source: ${source})`);
+  console.log(`[scan/${marketType}${direction === 'losers' ? '/losers' : ''}${preset ? ` "${preset.id}"` : ''}] ${stocks.length} matches (source: ${source}${provider ? `, ${provider}` : ''})`);
 
   // ── Telegram digest (pre-market only) ─────────────────────────────────────
   let alertSent    = false;
   let alertSkipped = '';
 
   if (alert && marketType === 'pre_market') {
-    const now       = Date.now();
-    const todayStr  = new Date().toISOString().slice(0, 10);
-    const cache     = await readCache();
+    const now       = clock.now();
+    const todayStr  = new Date(now).toISOString().slice(0, 10);
+    const cacheFile = cachePath(direction, preset?.id ?? null);
+    const cache     = await readCache(cacheFile);
     const symbolSet = JSON.stringify(stocks.map(s => s.symbol).sort());
 
     if (cache.todayDate !== todayStr) { cache.sentToday = []; cache.todayDate = todayStr; }
@@ -121,11 +146,12 @@ export async function GET(req: Request) {
       alertSkipped = `same result set, cooldown ${Math.ceil((DIGEST_COOLDOWN - (now - cache.lastSentAt)) / 60_000)}m remaining`;
     } else {
       try {
-        await sendTelegram(buildPreMarketDigestMessage(stocks, FILTERS, source));
+        const build = direction === 'losers' ? buildGapDownDigestMessage : buildPreMarketDigestMessage;
+        await sendTelegram(build(stocks, FILTERS, source));
         cache.lastSentAt    = now;
         cache.lastSymbolSet = symbolSet;
         cache.sentToday     = [...new Set([...cache.sentToday, ...stocks.map(s => s.symbol)])];
-        await writeCache(cache);
+        await writeCache(cacheFile, cache);
         alertSent = true;
       } catch (err: any) {
         console.error('[scan] telegram error:', err?.message);
@@ -137,7 +163,10 @@ export async function GET(req: Request) {
     scannedAt:  new Date().toISOString(),
     session,
     marketType,
+    direction,
+    preset:     preset?.id ?? null,
     source,
+    provider,
     filters:    FILTERS,
     count:      stocks.length,
     stocks,
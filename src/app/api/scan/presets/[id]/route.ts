@@ -0,0 +1,80 @@
+/**
+ * /api/scan/presets/[id] — read, edit or remove one scanner preset
+ *
+ * GET    → 200 { preset } · 404 unknown
+ * PATCH  → body: any of { name, marketType, filters, sort, columns }.
+ *          filters replaces the saved overrides as a whole; the id never
+ *          changes. 200 { preset } · 400 invalid · 404 unknown
+ * DELETE → 200 { ok: true } · 404 unknown
+ *
+ * PATCH and DELETE are a 500 that leaves the file alone when it can't be
+ * parsed.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  findPreset,
+  mutatePresets,
+  normalizePresetId,
+  parsePresetPatch,
+  type ScanPreset,
+} from '@/lib/scan-presets';
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  const id = normalizePresetId((await params).id);
+  if (!id) return NextResponse.json({ error: 'Invalid preset id' }, { status: 400 });
+
+  const preset = await findPreset(id);
+  if (!preset) return NextResponse.json({ error: `No preset "${id}"` }, { status: 404 });
+  return NextResponse.json({ preset });
+}
+
+export async function PATCH(req: Request, { params }: Ctx) {
+  const id = normalizePresetId((await params).id);
+  if (!id) return NextResponse.json({ error: 'Invalid preset id' }, { status: 400 });
+
+  let body: unknown;
+  try { body = await req.json(); } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const patch = parsePresetPatch(body);
+  if (typeof patch === 'string') return NextResponse.json({ error: patch }, { status: 400 });
+
+  try {
+    const preset = await mutatePresets<ScanPreset | null>(presets => {
+      const i = presets.findIndex(p => p.id === id);
+      if (i === -1) return null;
+      presets[i] = { ...presets[i], ...patch, updatedAt: new Date().toISOString() };
+      return presets[i];
+    });
+
+    if (!preset) return NextResponse.json({ error: `No preset "${id}"` }, { status: 404 });
+    return NextResponse.json({ preset });
+  } catch (err: any) {
+    console.error(`[scan-presets] PATCH ${id} failed:`, err?.message);
+    return NextResponse.json({ error: err?.message ?? 'Failed to save presets' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const id = normalizePresetId((await params).id);
+  if (!id) return NextResponse.json({ error: 'Invalid preset id' }, { status: 400 });
+
+  try {
+    const removed = await mutatePresets(presets => {
+      const i = presets.findIndex(p => p.id === id);
+      if (i === -1) return false;
+      presets.splice(i, 1);
+      return true;
+    });
+
+    if (!removed) return NextResponse.json({ error: `No preset "${id}"` }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error(`[scan-presets] DELETE ${id} failed:`, err?.message);
+    return NextResponse.json({ error: err?.message ?? 'Failed to save presets' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * /api/scan/presets — saved scanner presets (data/scan-presets.json)
+ *
+ * GET   → { presets }
+ * POST  → save a preset. Body: { name, marketType, filters?, sort?, columns? }
+ *           The id is a slug of the name.
+ *           201 { preset } · 400 invalid · 409 a preset with that id exists
+ *           · 500 the file exists but isn't a JSON array (left untouched)
+ *
+ * Per-preset reads, edits and removal live in /api/scan/presets/[id].
+ * Run one with /api/scan/pre-market?preset=<id>.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  readPresets,
+  mutatePresets,
+  parsePresetPatch,
+  presetId,
+  SCAN_COLUMNS,
+  type ScanPreset,
+} from '@/lib/scan-presets';
+
+export async function GET() {
+  return NextResponse.json({ presets: await readPresets() });
+}
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try { body = await req.json(); } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const patch = parsePresetPatch(body);
+  if (typeof patch === 'string') return NextResponse.json({ error: patch }, { status: 400 });
+  if (!patch.name)       return NextResponse.json({ error: 'name is required' },       { status: 400 });
+  if (!patch.marketType) return NextResponse.json({ error: 'marketType is required' }, { status: 400 });
+
+  const id = presetId(patch.name);
+  if (!id) return NextResponse.json({ error: 'name must contain a letter or digit' }, { status: 400 });
+
+  try {
+    const preset = await mutatePresets<ScanPreset | null>(presets => {
+      if (presets.some(p => p.id === id)) return null;
+      const now = new Date().toISOString();
+      const added: ScanPreset = {
+        id,
+        name:       patch.name!,
+        marketType: patch.marketType!,
+        filters:    patch.filters ?? {},
+        sort:       patch.sort    ?? { key: 'preMarketChangePct', dir: 'desc' },
+        columns:    patch.columns ?? [...SCAN_COLUMNS],
+        createdAt:  now,
+        updatedAt:  now,
+      };
+      presets.push(added);
+      return added;
+    });
+
+    if (!preset) return NextResponse.json({ error: `A preset named "${id}" already exists` }, { status: 409 });
+    return NextResponse.json({ preset }, { status: 201 });
+  } catch (err: any) {
+    console.error('[scan-presets] POST failed:', err?.message);
+    return NextResponse.json({ error: err?.message ?? 'Failed to save presets' }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * GET /api/scan/stream — live scanner results over server-sent events
+ *
+ * Takes the same query params as /api/scan/pre-market (minus ?alert) and
+ * re-runs the scan every SCAN_STREAM_INTERVAL_SECONDS (default 15). Streams
+ * with the same query share one scan loop (src/lib/scan-stream.ts). Only
+ * what changed goes over the wire.
+ *
+ * Events:
+ *   snapshot  first result set — same body as /api/scan/pre-market
+ *   diff      { scannedAt, session, source, provider, count,
+ *               added: rows, changed: partial rows, removed: symbols }
+ *             (src/lib/scan-diff.ts) — sent after every scan, even if empty
+ *   progress  { done, total } symbols snapshotted during a fallback scan
+ *   idle      outside the session window (no ?force=1) — same body as the
+ *             gated /api/scan/pre-market response; the next scan starts
+ *             over with a snapshot
+ *   failed    { error } a scan threw; the stream keeps going
+ *
+ * A comment line goes out every 15 s so proxies keep the connection open.
+ * Bad params are a plain JSON 400 / 404 before the stream starts.
+ */
+
+import { NextResponse }                         from 'next/server';
+import type { PreMarketStock }                  from '@/lib/pre-market-scanner';
+import { parseScanRequest, isScanRequestError } from '@/lib/scan-request';
+import { subscribeScan }                        from '@/lib/scan-stream';
+import { diffScan }                             from '@/lib/scan-diff';
+
+export const runtime = 'nodejs';
+
+const HEARTBEAT = 15_000;
+
+export async function GET(req: Request) {
+  const url    = new URL(req.url);
+  const force  = url.searchParams.get('force') === '1';
+  const parsed = await parseScanRequest(url);
+  if (isScanRequestError(parsed)) {
+    const { status, ...body } = parsed;
+    return NextResponse.json(body, { status });
+  }
+  const { marketType, direction, filters, preset } = parsed;
+
+  const encoder = new TextEncoder();
+  let closed    = false;
+  let ping: ReturnType<typeof setInterval> | undefined;
+  let unsubscribe: (() => void) | undefined;
+
+  function stop() {
+    closed = true;
+    clearInterval(ping);
+    unsubscribe?.();
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try { controller.enqueue(encoder.encode(chunk)); } catch { stop(); }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      // The rows this client has, so it gets a diff against what it saw
+      let rows: PreMarketStock[] | null = null;
+      ping        = setInterval(() => write(': ping\n\n'), HEARTBEAT);
+      unsubscribe = subscribeScan(parsed, force, tick => {
+        switch (tick.type) {
+          case 'progress':
+            send('progress', tick.progress);
+            break;
+          case 'failed':
+            send('failed', { error: tick.error });
+            break;
+          case 'idle':
+            send('idle', { scannedAt: tick.scannedAt, session: tick.session, marketType, message: tick.message, count: 0, stocks: [] });
+            rows = null;
+            break;
+          case 'result': {
+            const { scannedAt, session, source, provider, stocks } = tick;
+            const meta = { scannedAt, session, source, provider, count: stocks.length };
+            if (rows) send('diff', { ...meta, ...diffScan(rows, stocks) });
+            else      send('snapshot', { ...meta, marketType, direction, preset: preset?.id ?? null, filters, stocks });
+            rows = stocks;
+          }
+        }
+      });
+      if (closed) unsubscribe();   // the first tick came synchronously and failed to write
+
+      req.signal.addEventListener('abort', () => {
+        stop();
+        try { controller.close(); } catch { /* already closed by the client */ }
+      }, { once: true });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type':      'text/event-stream',
+      'Cache-Control':     'no-cache, no-transform',
+      'Connection':        'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * POST /api/telegram/catalyst-brief
+ *
+ * Manual "Brief" button on the chart page. Sends a digest of the symbol's
+ * high-impact catalysts and latest headlines to Telegram — handy when the
+ * market is closed and nothing else is alerting.
+ *
+ * Body (JSON):
+ *   symbol    — ticker, required
+ *   name      — company name (optional, defaults to symbol)
+ *   price     — last price (optional, falls back to the latest trade snapshot)
+ *   chartUrl  — optional deep link appended to the message
+ *
+ * Rate limit: one brief per symbol per BRIEF_COOLDOWN_SECONDS (default 60),
+ * tracked in data/cooldowns.json under `brief:<SYMBOL>`. The button is an
+ * explicit action, so a rate-limited call is a 429 the page shows as an error.
+ *
+ * Response: { ok, error? }
+ */
+
+import { NextResponse }                              from 'next/server';
+import fs                                            from 'fs/promises';
+import path                                          from 'path';
+import { fetchNewsForSymbol }                        from '@/lib/news-fetch';
+import { getSnapshots }                              from '@/lib/market-data';
+import { buildCatalystBriefMessage, sendTelegram }   from '@/lib/telegram';
+
+const DATA_DIR      = path.join(process.cwd(), 'data');
+const COOLDOWN_PATH = path.join(DATA_DIR, 'cooldowns.json');
+const COOLDOWN_MS   = parseInt(process.env.BRIEF_COOLDOWN_SECONDS ?? '60', 10) * 1_000;
+
+const SYMBOL_RE = /^[A-Z][A-Z0-9.\-]{0,9}$/;
+
+const inFlight = new Set<string>();
+
+// ── File helpers ──────────────────────────────────────────────────────────────
+
+async function readJson<T>(p: string, fb: T): Promise<T> {
+  try { return JSON.parse(await fs.readFile(p, 'utf-8')) as T; } catch { return fb; }
+}
+
+async function writeJson(p: string, d: unknown): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(p, JSON.stringify(d, null, 2));
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+interface BriefBody {
+  symbol:    string;
+  name:      string | null;
+  price:     number | null;
+  chartUrl?: string;
+}
+
+function parseBody(raw: any): BriefBody | string {
+  if (!raw || typeof raw !== 'object') return 'body must be a JSON object';
+
+  const symbol = String(raw.symbol ?? '').toUpperCase().trim();
+  if (!SYMBOL_RE.test(symbol)) return 'symbol is missing or invalid';
+
+  if (raw.price != null && (typeof raw.price !== 'number' || !Number.isFinite(raw.price))) {
+    return 'price must be a finite number';
+  }
+  if (raw.chartUrl != null && (typeof raw.chartUrl !== 'string' || !/^https?:\/\//.test(raw.chartUrl))) {
+    return 'chartUrl must be an http(s) URL';
+  }
+
+  return {
+    symbol,
+    name:     typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim().slice(0, 120) : null,
+    price:    raw.price ?? null,
+    chartUrl: raw.chartUrl ?? undefined,
+  };
+}
+
+// ── Handler ───────────────────────────────────────────────────────────────────
+
+export async function POST(req: Request) {
+  let raw: unknown;
+  try { raw = await req.json(); } catch { raw = null; }
+
+  const body = parseBody(raw);
+  if (typeof body === 'string') {
+    return NextResponse.json({ ok: false, error: body }, { status: 400 });
+  }
+
+  const { symbol } = body;
+  const key        = `brief:${symbol}`;
+  const cooldowns  = await readJson<Record<string, number>>(COOLDOWN_PATH, {});
+  const now        = Date.now();
+  const last       = cooldowns[key] ?? 0;
+
+  if (inFlight.has(symbol)) {
+    return NextResponse.json({ ok: false, error: `Brief for ${symbol} already sending` }, { status: 429 });
+  }
+  if (now - last < COOLDOWN_MS) {
+    const remainSec = Math.ceil((COOLDOWN_MS - (now - last)) / 1_000);
+    return NextResponse.json(
+      { ok: false, error: `Brief for ${symbol} sent recently — try again in ${remainSec}s` },
+      { status: 429 },
+    );
+  }
+
+  inFlight.add(symbol);
+  try {
+    const [{ items }, snapshots] = await Promise.all([
+      fetchNewsForSymbol(symbol),
+      getSnapshots(body.price == null ? [symbol] : []),
+    ]);
+    const price = body.price ?? snapshots[symbol]?.price ?? 0;
+
+    const text = buildCatalystBriefMessage(symbol, body.name ?? symbol, price, items);
+    await sendTelegram(text, body.chartUrl);
+
+    const latest = await readJson<Record<string, number>>(COOLDOWN_PATH, {});
+    await writeJson(COOLDOWN_PATH, { ...latest, [key]: now });
+
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error(`[catalyst-brief] ${symbol}:`, err?.message);
+    return NextResponse.json({ ok: false, error: err?.message ?? 'Failed to send brief' }, { status: 500 });
+  } finally {
+    inFlight.delete(symbol);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * POST /api/telegram/chart-alert
+ *
+ * Fired (fire-and-forget) by the chart page every time a chart is loaded.
+ * Pulls the latest news for the symbol and sends a "chart opened" summary
+ * with its top catalysts to Telegram.
+ *
+ * Body (JSON):
+ *   symbol    — ticker, required
+ *   name      — company name (defaults to symbol)
+ *   price     — last price
+ *   change    — $ change vs previous close
+ *   pct       — % change vs previous close
+ *   tf        — timeframe the chart was opened on
+ *   chartUrl  — optional deep link appended to the message
+ *
+ * Rate limit: one alert per symbol per CHART_ALERT_COOLDOWN_MINUTES
+ * (default 10), tracked in data/cooldowns.json under `chart:<SYMBOL>`.
+ * Re-charting inside the window is not an error — it returns
+ * { ok: true, sent: false, skipped } so the page stays quiet.
+ *
+ * Response: { ok, sent?, skipped?, error? }
+ */
+
+import { NextResponse }                          from 'next/server';
+import fs                                        from 'fs/promises';
+import path                                      from 'path';
+import { fetchNewsForSymbol }                    from '@/lib/news-fetch';
+import { buildChartOpenMessage, sendTelegram }   from '@/lib/telegram';
+
+const DATA_DIR      = path.join(process.cwd(), 'data');
+const COOLDOWN_PATH = path.join(DATA_DIR, 'cooldowns.json');
+const COOLDOWN_MS   = parseInt(process.env.CHART_ALERT_COOLDOWN_MINUTES ?? '10', 10) * 60_000;
+
+const SYMBOL_RE = /^[A-Z][A-Z0-9.\-]{0,9}$/;
+const TFS       = ['1m', '1h', '1d', '1w', '1mo'];
+
+// Symbols with a send in progress — stops a double-load racing the cooldown file
+const inFlight = new Set<string>();
+
+// ── File helpers ──────────────────────────────────────────────────────────────
+
+async function readJson<T>(p: string, fb: T): Promise<T> {
+  try { return JSON.parse(await fs.readFile(p, 'utf-8')) as T; } catch { return fb; }
+}
+
+async function writeJson(p: string, d: unknown): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(p, JSON.stringify(d, null, 2));
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+interface ChartAlertBody {
+  symbol:    string;
+  name:      string;
+  price:     number;
+  change:    number;
+  pct:       number;
+  tf:        string;
+  chartUrl?: string;
+}
+
+function parseBody(raw: any): ChartAlertBody | string {
+  if (!raw || typeof raw !== 'object') return 'body must be a JSON object';
+
+  const symbol = String(raw.symbol ?? '').toUpperCase().trim();
+  if (!SYMBOL_RE.test(symbol)) return 'symbol is missing or invalid';
+
+  for (const k of ['price', 'change', 'pct'] as const) {
+    if (typeof raw[k] !== 'number' || !Number.isFinite(raw[k])) return `${k} must be a finite number`;
+  }
+
+  const tf = String(raw.tf ?? '1m');
+  if (!TFS.includes(tf)) return `tf must be one of ${TFS.join(', ')}`;
+
+  if (raw.chartUrl != null && (typeof raw.chartUrl !== 'string' || !/^https?:\/\//.test(raw.chartUrl))) {
+    return 'chartUrl must be an http(s) URL';
+  }
+
+  return {
+    symbol,
+    name:     typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim().slice(0, 120) : symbol,
+    price:    raw.price,
+    change:   raw.change,
+    pct:      raw.pct,
+    tf,
+    chartUrl: raw.chartUrl ?? undefined,
+  };
+}
+
+// ── Handler ───────────────────────────────────────────────────────────────────
+
+export async function POST(req: Request) {
+  let raw: unknown;
+  try { raw = await req.json(); } catch { raw = null; }
+
+  const body = parseBody(raw);
+  if (typeof body === 'string') {
+    return NextResponse.json({ ok: false, error: body }, { status: 400 });
+  }
+
+  const { symbol } = body;
+  const key        = `chart:${symbol}`;
+  const cooldowns  = await readJson<Record<string, number>>(COOLDOWN_PATH, {});
+  const now        = Date.now();
+  const last       = cooldowns[key] ?? 0;
+
+  if (inFlight.has(symbol) || now - last < COOLDOWN_MS) {
+    const remainMin = Math.ceil((COOLDOWN_MS - (now - last)) / 60_000);
+    return NextResponse.json({
+      ok: true, sent: false,
+      skipped: inFlight.has(symbol) ? 'in-flight' : `cooldown:${remainMin}m`,
+    });
+  }
+
+  inFlight.add(symbol);
+  try {
+    const { items } = await fetchNewsForSymbol(symbol);
+    const text = buildChartOpenMessage(
+      symbol, body.name, body.price, body.change, body.pct, body.tf, items,
+    );
+    await sendTelegram(text, body.chartUrl);
+
+    // Re-read so a concurrent cron write to cooldowns.json isn't clobbered
+    const latest = await readJson<Record<string, number>>(COOLDOWN_PATH, {});
+    await writeJson(COOLDOWN_PATH, { ...latest, [key]: now });
+
+    return NextResponse.json({ ok: true, sent: true });
+  } catch (err: any) {
+    console.error(`[chart-alert] ${symbol}:`, err?.message);
+    return NextResponse.json({ ok: false, error: err?.message ?? 'Failed to send alert' }, { status: 500 });
+  } finally {
+    inFlight.delete(symbol);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * /api/watchlist/[symbol] — edit or remove one watchlist entry
+ *
+ * PATCH  → body: any of { note, alertAbove, alertBelow, alertChangePct }
+ *          (null clears a threshold). 200 { entry } · 400 invalid · 404 unknown
+ * DELETE → 200 { ok: true } · 404 unknown
+ *
+ * Both are a 500 that leaves the file alone when it can't be parsed.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  mutateWatchlist,
+  normalizeSymbol,
+  parsePatch,
+  type WatchlistEntry,
+} from '@/lib/watchlist';
+
+type Ctx = { params: Promise<{ symbol: string }> };
+
+export async function PATCH(req: Request, { params }: Ctx) {
+  const symbol = normalizeSymbol((await params).symbol);
+  if (!symbol) return NextResponse.json({ error: 'Invalid symbol' }, { status: 400 });
+
+  let body: unknown;
+  try { body = await req.json(); } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const patch = parsePatch(body);
+  if (typeof patch === 'string') return NextResponse.json({ error: patch }, { status: 400 });
+
+  try {
+    const result = await mutateWatchlist<WatchlistEntry | string | null>(entries => {
+      const i = entries.findIndex(e => e.symbol === symbol);
+      if (i === -1) return null;
+
+      const next = { ...entries[i], ...patch };
+      if (next.alertAbove != null && next.alertBelow != null && next.alertBelow >= next.alertAbove) {
+        return 'alertBelow must be lower than alertAbove';
+      }
+      entries[i] = next;
+      return next;
+    });
+
+    if (result === null)           return NextResponse.json({ error: `${symbol} is not on the watchlist` }, { status: 404 });
+    if (typeof result === 'string') return NextResponse.json({ error: result }, { status: 400 });
+    return NextResponse.json({ entry: result });
+  } catch (err: any) {
+    console.error(`[watchlist] PATCH ${symbol} failed:`, err?.message);
+    return NextResponse.json({ error: err?.message ?? 'Failed to save watchlist' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const symbol = normalizeSymbol((await params).symbol);
+  if (!symbol) return NextResponse.json({ error: 'Invalid symbol' }, { status: 400 });
+
+  try {
+    const removed = await mutateWatchlist(entries => {
+      const i = entries.findIndex(e => e.symbol === symbol);
+      if (i === -1) return false;
+      entries.splice(i, 1);
+      return true;
+    });
+
+    if (!removed) return NextResponse.json({ error: `${symbol} is not on the watchlist` }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error(`[watchlist] DELETE ${symbol} failed:`, err?.message);
+    return NextResponse.json({ error: err?.message ?? 'Failed to save watchlist' }, { status: 500 });
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * /api/watchlist — data/watchlist.json management for the /watchlist page
+ *
+ * GET   → every entry enriched with live data:
+ *           price, change, changePct  — market-data snapshot (latest trade vs prev close)
+ *           lastCatalyst              — newest headline for the ticker in
+ *                                       data/alert-log.jsonl (any scanner)
+ * POST  → add a ticker. Body: { symbol, note?, alertAbove?, alertBelow?, alertChangePct? }
+ *           201 { entry } · 400 invalid · 409 already on the list
+ *           · 500 the file exists but isn't a JSON array (left untouched)
+ *
+ * Per-ticker edits and removal live in /api/watchlist/[symbol].
+ */
+
+import { NextResponse } from 'next/server';
+import fs               from 'fs/promises';
+import path             from 'path';
+import { getSnapshots } from '@/lib/market-data';
+import {
+  readWatchlist,
+  mutateWatchlist,
+  normalizeSymbol,
+  parsePatch,
+  type WatchlistEntry,
+} from '@/lib/watchlist';
+
+const LOG_PATH = path.join(process.cwd(), 'data', 'alert-log.jsonl');
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+interface LastCatalyst {
+  ts:       string;
+  category: string;
+  title:    string;
+  url:      string | null;
+  sent:     boolean;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Newest alert-log entry per watched ticker. Never throws. */
+async function lastCatalysts(symbols: string[]): Promise<Record<string, LastCatalyst>> {
+  const wanted = new Set(symbols);
+  const out: Record<string, LastCatalyst> = {};
+
+  let raw = '';
+  try { raw = await fs.readFile(LOG_PATH, 'utf-8'); } catch { return out; }
+
+  // Log is append-only — walk backwards and stop once every ticker is found
+  const lines = raw.split('\n');
+  for (let i = lines.length - 1; i >= 0 && Object.keys(out).length < wanted.size; i--) {
+    if (!lines[i]) continue;
+    try {
+      const e = JSON.parse(lines[i]);
+      if (!e?.ticker || !wanted.has(e.ticker) || out[e.ticker] || !e.title) continue;
+      out[e.ticker] = {
+        ts:       e.ts,
+        category: e.category ?? 'General',
+        title:    e.title,
+        url:      e.url ?? null,
+        sent:     !!e.sent,
+      };
+    } catch { /* partial line */ }
+  }
+  return out;
+}
+
+// ── Handlers ──────────────────────────────────────────────────────────────────
+
+export async function GET() {
+  try {
+    const entries = await readWatchlist();
+    const symbols = entries.map(e => e.symbol);
+
+    const [snapshots, catalysts] = await Promise.all([
+      getSnapshots(symbols),
+      lastCatalysts(symbols),
+    ]);
+
+    const rows = entries.map(e => {
+      const snap      = snapshots[e.symbol];
+      const price     = snap?.price ?? 0;
+      const prevClose = snap?.prevDay?.c ?? 0;
+      const change    = price > 0 && prevClose > 0 ? price - prevClose : 0;
+      return {
+        ...e,
+        price,
+        prevClose,
+        change:       parseFloat(change.toFixed(4)),
+        changePct:    prevClose > 0 && price > 0 ? parseFloat(((change / prevClose) * 100).toFixed(2)) : 0,
+        lastCatalyst: catalysts[e.symbol] ?? null,
+      };
+    });
+
+    return NextResponse.json({ entries: rows, fetchedAt: Date.now() });
+  } catch (err: any) {
+    console.error('[watchlist] GET failed:', err?.message);
+    return NextResponse.json({ error: err?.message ?? 'Failed to load watchlist' }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  let body: Record<string, unknown>;
+  try { body = await req.json(); } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const symbol = normalizeSymbol(body?.symbol);
+  if (!symbol) return NextResponse.json({ error: 'Invalid symbol' }, { status: 400 });
+
+  const patch = parsePatch(body);
+  if (typeof patch === 'string') return NextResponse.json({ error: patch }, { status: 400 });
+
+  try {
+    const entry = await mutateWatchlist<WatchlistEntry | null>(entries => {
+      if (entries.some(e => e.symbol === symbol)) return null;
+      const added: WatchlistEntry = {
+        symbol,
+        note:           patch.note           ?? '',
+        alertAbove:     patch.alertAbove     ?? null,
+        alertBelow:     patch.alertBelow     ?? null,
+        alertChangePct: patch.alertChangePct ?? null,
+        addedAt:        new Date().toISOString(),
+      };
+      entries.push(added);
+      return added;
+    });
+
+    if (!entry) return NextResponse.json({ error: `${symbol} is already on the watchlist` }, { status: 409 });
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (err: any) {
+    console.error('[watchlist] POST failed:', err?.message);
+    return NextResponse.json({ error: err?.message ?? 'Failed to save watchlist' }, { status: 500 });
+  }
+}
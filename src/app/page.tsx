@@ -1,8 +1,25 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback, FormEvent } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo, FormEvent } from 'react';
 import dynamic from 'next/dynamic';
 import axios from 'axios';
+import AssetFlags from '@/components/AssetFlags';
+import ChartCell, { type CellState } from '@/components/ChartCell';
+import { foldTrades, type LiveTrade, type SessionBounds } from '@/lib/live-bar';
+import {
+  DEFAULT_INDICATORS,
+  EMA_PERIODS,
+  type EmaPeriod,
+  type IndicatorSettings,
+} from '@/lib/indicators';
+import {
+  parseAnnotations,
+  type Annotation,
+  type AnnotationSet,
+  type DrawingTool,
+} from '@/lib/annotations';
+import type { NewsItem } from '@/lib/news-fetch';
+import { listenForLinkedSymbols } from '@/lib/chart-link';
 
 const NxChart    = dynamic(() => import('@/components/NxChart'),  { ssr: false });
 const NewsPanel  = dynamic(() => import('@/components/NewsPanel'), { ssr: false });
@@ -20,6 +37,12 @@ interface Candle {
 interface ChartData {
   symbol: string;
   name: string;
+  exchange: string;   // '' when unknown, likewise sector / industry
+  sector: string;
+  industry: string;
+  isEtf: boolean;
+  isAdr: boolean;
+  isSpac: boolean;
   currentPrice: number;
   previousClose: number;
   preMarketPrice: number;
@@ -29,6 +52,8 @@ interface ChartData {
   bidSize: number;
   askSize: number;
   lastDayHigh: number;
+  lastDayLow: number;
+  lastDayClose: number;
   lastWeekHigh: number;
   lastMonthHigh: number;
   regularStart: number;
@@ -46,10 +71,116 @@ const TIMEFRAMES: { label: string; value: TF }[] = [
   { label: 'MO',  value: '1mo' },
 ];
 
-// Only intraday timeframes get live auto-refresh
+// Only intraday timeframes get live auto-refresh and streamed trades
 const INTRADAY: TF[] = ['1m', '1h'];
 const REFRESH_SEC = 10;
 
+// Bar width in minutes, for folding streamed trades into the newest bar
+const BAR_MINUTES: Partial<Record<TF, number>> = { '1m': 1, '1h': 60 };
+
+// ── Grid mode — independent charts, each with its own symbol and timeframe ──
+
+type Layout     = '1x1' | '2x2' | '3x3';
+type GridLayout = Exclude<Layout, '1x1'>;
+
+const LAYOUTS: { label: string; value: Layout; title: string }[] = [
+  { label: '1',   value: '1x1', title: 'Single chart' },
+  { label: '2×2', value: '2x2', title: 'Four charts' },
+  { label: '3×3', value: '3x3', title: 'Nine charts' },
+];
+
+const GRID_CLASS: Record<GridLayout, string> = {
+  '2x2': 'grid-cols-2 grid-rows-2',
+  '3x3': 'grid-cols-3 grid-rows-3',
+};
+
+interface GridState {
+  layout:  Layout;
+  cells:   Record<GridLayout, CellState[]>;   // each size keeps its own charts
+  focused: number;                             // cell the ticker box and the scanner load into
+  linked:  boolean;                            // take symbols clicked on /scanner
+}
+
+const emptyCells = (n: number): CellState[] => Array.from({ length: n * n }, () => ({ symbol: '', tf: '1m' }));
+
+const DEFAULT_GRID: GridState = {
+  layout:  '1x1',
+  cells:   { '2x2': emptyCells(2), '3x3': emptyCells(3) },
+  focused: 0,
+  linked:  false,
+};
+
+// The grid is restored on the next visit
+const LAYOUT_KEY = 'nx-chart-layout';
+
+function readGrid(): GridState | null {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LAYOUT_KEY) ?? 'null');
+    if (!raw || !LAYOUTS.some((l) => l.value === raw.layout)) return null;
+    const cells = (layout: GridLayout, n: number) =>
+      emptyCells(n).map((empty, i) => {
+        const c = raw.cells?.[layout]?.[i];
+        return typeof c?.symbol === 'string' && TIMEFRAMES.some((t) => t.value === c.tf)
+          ? { symbol: c.symbol, tf: c.tf as TF }
+          : empty;
+      });
+    return {
+      layout:  raw.layout,
+      cells:   { '2x2': cells('2x2', 2), '3x3': cells('3x3', 3) },
+      focused: Number.isInteger(raw.focused) ? raw.focused : 0,
+      linked:  raw.linked === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function writeGrid(grid: GridState) {
+  try { localStorage.setItem(LAYOUT_KEY, JSON.stringify(grid)); } catch { /* quota / private mode */ }
+}
+
+/** `grid` with the focused-layout cell `i` replaced */
+function withCell(grid: GridState, i: number, cell: CellState): GridState {
+  if (grid.layout === '1x1') return grid;
+  const cells = [...grid.cells[grid.layout]];
+  cells[i] = cell;
+  return { ...grid, cells: { ...grid.cells, [grid.layout]: cells } };
+}
+
+const DRAW_TOOLS: { tool: DrawingTool | 'erase'; label: string; title: string }[] = [
+  { tool: 'hline', label: 'H-Line', title: 'Horizontal line — click a price' },
+  { tool: 'trend', label: 'Trend',  title: 'Trend line — click both ends' },
+  { tool: 'rect',  label: 'Box',    title: 'Rectangle — click two corners' },
+  { tool: 'text',  label: 'Note',   title: 'Text note — click where it goes' },
+  { tool: 'erase', label: 'Erase',  title: 'Click a drawing to delete it' },
+];
+
+// Drawings are kept per symbol in localStorage and /api/annotations — the
+// newer copy wins, so they survive a cleared browser or a second device
+const localKey = (sym: string) => `nx-annotations:${sym}`;
+
+function readLocalAnnotations(sym: string): AnnotationSet | null {
+  try {
+    const raw = JSON.parse(localStorage.getItem(localKey(sym)) ?? 'null');
+    const annotations = parseAnnotations(raw?.annotations);
+    if (typeof annotations === 'string') return null;
+    return { annotations, updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : 0 };
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalAnnotations(sym: string, set: AnnotationSet) {
+  try { localStorage.setItem(localKey(sym), JSON.stringify(set)); } catch { /* quota / private mode */ }
+}
+
+const toggleClass = (on: boolean) =>
+  `px-2 py-1 rounded text-[10px] font-bold transition-all ${
+    on
+      ? 'bg-[#fbc02d]/10 text-[#fbc02d] border border-[#fbc02d]/30'
+      : 'text-gray-600 hover:text-gray-400 border border-transparent'
+  }`;
+
 export default function Home() {
   const [ticker, setTicker]         = useState('');
   const [tf, setTf]                 = useState<TF>('1m');
@@ -60,10 +191,22 @@ export default function Home() {
   const [activeTf, setActiveTf]     = useState<TF>('1m');
   const [countdown, setCountdown]   = useState(REFRESH_SEC);
   const [refreshing, setRefreshing] = useState(false);
+  const [refreshTick, setRefreshTick] = useState(0);
   const [briefing, setBriefing]     = useState(false);
   const [briefSent, setBriefSent]   = useState(false);
   const [briefError, setBriefError] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const [liveBars, setLiveBars]     = useState<Candle[]>([]);
+  const [livePrice, setLivePrice]   = useState(0);
+  const [streamFrom, setStreamFrom] = useState('');      // provider name while trades stream
+  const [indicators, setIndicators] = useState<IndicatorSettings>(DEFAULT_INDICATORS);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [drawTool, setDrawTool]     = useState<DrawingTool | 'erase' | null>(null);
+  const [news, setNews]             = useState<NewsItem[]>([]);   // the news panel's headlines, marked on the chart
+  const [grid, setGrid]             = useState<GridState>(DEFAULT_GRID);
+  const inputRef   = useRef<HTMLInputElement>(null);
+  const lastBarRef = useRef<Candle | null>(null);       // newest bar on the chart, live updates included
+  const streamed   = useRef<Candle[]>([]);              // bars built from trades since the last load, oldest first
+  const boundsRef  = useRef<SessionBounds>({ regularStart: 0, regularEnd: 0 });
 
   // ── Shared fetch ─────────────────────────────────────────────────────────
   const fetchChart = useCallback(async (
@@ -80,7 +223,16 @@ export default function Home() {
     }
     try {
       const { data: res } = await axios.get<ChartData>(`/api/chart?symbol=${sym}&tf=${timeframe}`);
-      setData(res);
+      // The vendor's bars win wherever it has them; streamed bars past its
+      // newest one (it lags the tape) stay on the end. NxChart diffs the rest.
+      const vendorLast = res.candles[res.candles.length - 1]?.time ?? 0;
+      streamed.current = silent ? streamed.current.filter((c) => c.time > vendorLast) : [];
+      const candles    = [...res.candles, ...streamed.current];
+      lastBarRef.current = candles[candles.length - 1] ?? null;
+      boundsRef.current  = { regularStart: res.regularStart, regularEnd: res.regularEnd };
+      setLiveBars([]);
+      if (!silent) setLivePrice(0);
+      setData({ ...res, candles });
       return res;
     } catch (err: unknown) {
       if (!silent) {
@@ -97,10 +249,14 @@ export default function Home() {
   }, []);
 
   // ── Deep-link: auto-load from URL on first mount ─────────────────────────
+  // A deep link always opens the single chart; otherwise the saved grid
+  // comes back as it was left.
   useEffect(() => {
     const params   = new URLSearchParams(window.location.search);
     const sym      = params.get('symbol')?.toUpperCase();
     const tfParam  = (params.get('tf') as TF) || '1m';
+    const saved    = readGrid();
+    if (saved) setGrid(sym ? { ...saved, layout: '1x1' } : saved);
     if (!sym) return;
 
     setTicker(sym);
@@ -137,12 +293,50 @@ export default function Home() {
       .catch((e) => console.error('[chart-alert] request failed:', e?.response?.data || e?.message));
   }
 
+  // ── Grid ─────────────────────────────────────────────────────────────────
+  // Every change the user makes is saved as it happens
+  const updateGrid = useCallback((fn: (g: GridState) => GridState) => {
+    setGrid((g) => {
+      const next = fn(g);
+      if (next !== g) writeGrid(next);
+      return next;
+    });
+  }, []);
+
+  function switchLayout(layout: Layout) {
+    updateGrid((g) => {
+      if (g.layout === layout) return g;
+      const cells = layout === '1x1' ? 1 : g.cells[layout].length;
+      return { ...g, layout, focused: g.focused < cells ? g.focused : 0 };
+    });
+  }
+
+  const single = grid.layout === '1x1';
+
+  // Scanner rows clicked in another tab load into the focused cell
+  useEffect(() => {
+    if (single || !grid.linked) return;
+    return listenForLinkedSymbols((symbol) =>
+      updateGrid((g) => {
+        if (g.layout === '1x1') return g;
+        return withCell(g, g.focused, { ...g.cells[g.layout][g.focused], symbol });
+      }),
+    );
+  }, [single, grid.linked, updateGrid]);
+
   // ── Form submit ──────────────────────────────────────────────────────────
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
     const sym = ticker.trim().toUpperCase();
     if (!sym) return;
 
+    // Grid mode — the ticker box loads the focused cell
+    if (grid.layout !== '1x1') {
+      const layout = grid.layout;
+      updateGrid((g) => withCell(g, g.focused, { ...g.cells[layout][g.focused], symbol: sym }));
+      return;
+    }
+
     const res = await fetchChart(sym, tf);
     if (res) {
       setActiveSymbol(sym);
@@ -205,7 +399,7 @@ export default function Home() {
 
   // ── Auto-refresh (intraday only) ─────────────────────────────────────────
   useEffect(() => {
-    if (!activeSymbol || !INTRADAY.includes(activeTf)) return;
+    if (!single || !activeSymbol || !INTRADAY.includes(activeTf)) return;
 
     const tick = setInterval(() => {
       setCountdown((n) => (n <= 1 ? REFRESH_SEC : n - 1));
@@ -213,6 +407,7 @@ export default function Home() {
 
     const refresh = setInterval(() => {
       setCountdown(REFRESH_SEC);
+      setRefreshTick((n) => n + 1);
       fetchChart(activeSymbol, activeTf, true);
     }, REFRESH_SEC * 1000);
 
@@ -220,12 +415,107 @@ export default function Home() {
       clearInterval(tick);
       clearInterval(refresh);
     };
-  }, [activeSymbol, activeTf, fetchChart]);
+  }, [single, activeSymbol, activeTf, fetchChart]);
+
+  // ── Live trades (intraday only) — the newest bar updates in place ───────
+  useEffect(() => {
+    const minutes = BAR_MINUTES[activeTf];
+    if (!single || !activeSymbol || !minutes) return;
+
+    const es = new EventSource(`/api/chart/stream?symbol=${encodeURIComponent(activeSymbol)}`);
+
+    es.addEventListener('ready', (e) => {
+      setStreamFrom(JSON.parse((e as MessageEvent).data).provider ?? '');
+    });
+    es.addEventListener('trades', (e) => {
+      const trades: LiveTrade[] = JSON.parse((e as MessageEvent).data);
+      if (!trades.length) return;
+      const bars = foldTrades(lastBarRef.current, trades, minutes, boundsRef.current);
+      if (bars.length) {
+        const first = bars[0].time;
+        streamed.current   = [...streamed.current.filter((c) => c.time < first), ...bars];
+        lastBarRef.current = bars[bars.length - 1];
+        setLiveBars(bars);
+      }
+      setLivePrice(trades[trades.length - 1].price);
+    });
+    // No provider streams (503) — the 10 s refresh carries on as before
+    es.onerror = () => {
+      if (es.readyState !== EventSource.CLOSED) return;
+      setStreamFrom('');
+    };
+
+    return () => {
+      es.close();
+      setStreamFrom('');
+    };
+  }, [single, activeSymbol, activeTf]);
+
+  // ── Annotations — local copy at once, then the stored one if newer ──────
+  useEffect(() => {
+    if (!activeSymbol) return;
+    let cancelled = false;
+    const local   = readLocalAnnotations(activeSymbol);
+    setAnnotations(local?.annotations ?? []);
 
-  const change    = data ? data.currentPrice - data.previousClose : 0;
+    axios
+      .get<AnnotationSet>(`/api/annotations/${activeSymbol}`)
+      .then(({ data: stored }) => {
+        if (cancelled) return;
+        if (stored.updatedAt > (local?.updatedAt ?? 0)) {
+          writeLocalAnnotations(activeSymbol, stored);
+          setAnnotations(stored.annotations);
+        } else if (local && local.updatedAt > stored.updatedAt) {
+          // Drawn while the server was unreachable — push it up now
+          axios.put(`/api/annotations/${activeSymbol}`, local)
+            .catch((e) => console.warn('[annotations] sync failed:', e?.response?.data?.error || e?.message));
+        }
+      })
+      .catch((e) => console.warn('[annotations] load failed:', e?.response?.data?.error || e?.message));
+
+    return () => { cancelled = true; };
+  }, [activeSymbol]);
+
+  const saveAnnotations = useCallback((next: Annotation[]) => {
+    const sym = activeSymbol;
+    if (!sym) return;
+    const set: AnnotationSet = { annotations: next, updatedAt: Date.now() };
+    setAnnotations(next);
+    writeLocalAnnotations(sym, set);
+    axios.put(`/api/annotations/${sym}`, set).catch((e) => {
+      // 409 — another tab or device saved later; take its copy
+      const stored = e?.response?.status === 409 ? e.response.data : null;
+      if (stored) {
+        const newer: AnnotationSet = { annotations: stored.annotations, updatedAt: stored.updatedAt };
+        writeLocalAnnotations(sym, newer);
+        setAnnotations(newer.annotations);
+      } else {
+        console.warn('[annotations] save failed:', e?.response?.data?.error || e?.message);
+      }
+    });
+  }, [activeSymbol]);
+
+  // ── Indicator toggles ────────────────────────────────────────────────────
+  function toggleEma(period: EmaPeriod) {
+    setIndicators((s) => ({
+      ...s,
+      emas: s.emas.includes(period)
+        ? s.emas.filter((p) => p !== period)
+        : EMA_PERIODS.filter((p) => p === period || s.emas.includes(p)),
+    }));
+  }
+
+  // VWAP restarts every session — meaningless on daily and longer bars
+  const chartIndicators = useMemo(
+    () => (INTRADAY.includes(activeTf) ? indicators : { ...indicators, vwap: false }),
+    [indicators, activeTf],
+  );
+
+  const price     = data ? livePrice || data.currentPrice : 0;
+  const change    = data ? price - data.previousClose : 0;
   const changePct = data?.previousClose ? (change / data.previousClose) * 100 : 0;
   const isUp      = change >= 0;
-  const isLive    = activeSymbol && INTRADAY.includes(activeTf);
+  const isLive    = single && activeSymbol && INTRADAY.includes(activeTf);
 
   const preCnt     = data?.candles.filter((c) => c.session === 'pre').length     ?? 0;
   const regularCnt = data?.candles.filter((c) => c.session === 'regular').length ?? 0;
@@ -277,29 +567,123 @@ export default function Home() {
           </button>
         </form>
 
-        {/* Timeframe selector */}
+        {/* Layout — single chart or a grid */}
         <div className="flex items-center gap-1 shrink-0">
-          {TIMEFRAMES.map((t) => (
+          {LAYOUTS.map((l) => (
+            <button key={l.value} onClick={() => switchLayout(l.value)} title={l.title} className={toggleClass(grid.layout === l.value)}>
+              {l.label}
+            </button>
+          ))}
+          {!single && (
             <button
-              key={t.value}
-              onClick={() => handleTfChange(t.value)}
-              className={`px-2.5 py-1 rounded text-xs font-bold transition-all ${
-                tf === t.value
-                  ? 'bg-[#26a69a]/20 text-[#26a69a] border border-[#26a69a]/30'
-                  : 'text-gray-600 hover:text-gray-400 border border-transparent'
-              }`}
+              onClick={() => updateGrid((g) => ({ ...g, linked: !g.linked }))}
+              title="Rows clicked on /scanner (in another tab) load into the focused cell"
+              className={toggleClass(grid.linked)}
             >
-              {t.label}
+              Link scanner
+            </button>
+          )}
+        </div>
+
+        {/* Timeframe selector */}
+        {single && (
+          <div className="flex items-center gap-1 shrink-0">
+            {TIMEFRAMES.map((t) => (
+              <button
+                key={t.value}
+                onClick={() => handleTfChange(t.value)}
+                className={`px-2.5 py-1 rounded text-xs font-bold transition-all ${
+                  tf === t.value
+                    ? 'bg-[#26a69a]/20 text-[#26a69a] border border-[#26a69a]/30'
+                    : 'text-gray-600 hover:text-gray-400 border border-transparent'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Indicator toggles */}
+        <div className="flex items-center gap-1 shrink-0 border-l border-[#1a1a1a] pl-3">
+          {(!single || INTRADAY.includes(tf)) && (
+            <>
+              <button
+                onClick={() => setIndicators((s) => ({ ...s, vwap: !s.vwap }))}
+                title="Session VWAP"
+                className={toggleClass(indicators.vwap)}
+              >
+                VWAP
+              </button>
+              {indicators.vwap && (
+                <button
+                  onClick={() => setIndicators((s) => ({ ...s, vwapAnchor: s.vwapAnchor === 'pre' ? 'regular' : 'pre' }))}
+                  title={indicators.vwapAnchor === 'pre'
+                    ? 'VWAP anchored at the pre-market (04:00 ET) — click to anchor at the open'
+                    : 'VWAP anchored at the open (09:30 ET) — click to include the pre-market'}
+                  className="px-1.5 py-1 rounded text-[10px] font-mono text-gray-500 hover:text-gray-300 border border-[#222]"
+                >
+                  {indicators.vwapAnchor === 'pre' ? 'PM' : 'RTH'}
+                </button>
+              )}
+            </>
+          )}
+          {EMA_PERIODS.map((p) => (
+            <button key={p} onClick={() => toggleEma(p)} title={`${p}-bar EMA`} className={toggleClass(indicators.emas.includes(p))}>
+              EMA{p}
             </button>
           ))}
+          <button
+            onClick={() => setIndicators((s) => ({ ...s, volumeProfile: !s.volumeProfile }))}
+            title="Volume profile of the loaded bars — POC highlighted, value area shaded"
+            className={toggleClass(indicators.volumeProfile)}
+          >
+            VP
+          </button>
         </div>
 
+        {/* Drawing tools */}
+        {single && data && (
+          <div className="flex items-center gap-1 shrink-0 border-l border-[#1a1a1a] pl-3">
+            {DRAW_TOOLS.map((t) => (
+              <button
+                key={t.tool}
+                onClick={() => setDrawTool((cur) => (cur === t.tool ? null : t.tool))}
+                title={t.title}
+                className={toggleClass(drawTool === t.tool)}
+              >
+                {t.label}
+              </button>
+            ))}
+            {annotations.length > 0 && (
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete all ${annotations.length} drawings on ${activeSymbol}?`)) saveAnnotations([]);
+                }}
+                title="Delete every drawing on this symbol"
+                className="px-1.5 py-1 rounded text-[10px] text-gray-600 hover:text-[#ef5350] border border-transparent"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Price info */}
-        {data && (
+        {single && data && (
           <div className="flex items-center gap-3 shrink-0">
             <span className="font-bold text-white">{data.symbol}</span>
             <span className="text-gray-600 text-xs hidden md:inline">{data.name}</span>
-            <span className="font-mono font-bold text-white">${data.currentPrice.toFixed(2)}</span>
+            {(data.exchange || data.sector) && (
+              <span
+                className="text-[10px] text-gray-700 uppercase hidden lg:inline"
+                title={data.industry || undefined}
+              >
+                {[data.exchange, data.sector].filter(Boolean).join(' · ')}
+              </span>
+            )}
+            <AssetFlags isEtf={data.isEtf} isAdr={data.isAdr} isSpac={data.isSpac} />
+            <span className="font-mono font-bold text-white">${price.toFixed(2)}</span>
             <span className={`text-xs font-bold font-mono ${isUp ? 'text-[#26a69a]' : 'text-[#ef5350]'}`}>
               {isUp ? '+' : ''}{change.toFixed(2)} ({isUp ? '+' : ''}{changePct.toFixed(2)}%)
             </span>
@@ -307,7 +691,7 @@ export default function Home() {
         )}
 
         {/* Bid / Ask (intraday only) */}
-        {data && INTRADAY.includes(activeTf) && data.bid > 0 && data.ask > 0 && (
+        {single && data && INTRADAY.includes(activeTf) && data.bid > 0 && data.ask > 0 && (
           <div className="flex items-center gap-3 shrink-0 border-l border-[#1a1a1a] pl-3">
             <div className="flex items-center gap-1.5">
               <span className="text-[10px] text-gray-600 uppercase tracking-wider">Bid</span>
@@ -335,7 +719,7 @@ export default function Home() {
         )}
 
         {/* Session counts (intraday only) */}
-        {data && INTRADAY.includes(activeTf) && (
+        {single && data && INTRADAY.includes(activeTf) && (
           <div className="flex items-center gap-3 text-xs text-gray-600 shrink-0">
             {preCnt > 0     && <span>Pre <span className="text-gray-500">{preCnt}</span></span>}
             {regularCnt > 0 && <span>Reg <span className="text-gray-500">{regularCnt}</span></span>}
@@ -350,61 +734,91 @@ export default function Home() {
               ? <span className="w-3 h-3 border border-[#26a69a]/40 border-t-[#26a69a] rounded-full animate-spin" />
               : <span className="w-1.5 h-1.5 rounded-full bg-[#26a69a] animate-pulse" />
             }
-            <span className="text-xs text-gray-700 font-mono">{countdown}s</span>
+            {streamFrom
+              ? <span className="text-xs text-gray-700 font-mono uppercase" title={`Trades streaming from ${streamFrom}`}>live</span>
+              : <span className="text-xs text-gray-700 font-mono">{countdown}s</span>
+            }
           </div>
         )}
       </header>
 
+      {/* ── Grid ── */}
+      {grid.layout !== '1x1' && (
+        <main className={`flex-1 overflow-hidden grid ${GRID_CLASS[grid.layout]}`}>
+          {grid.cells[grid.layout].map((cell, i) => (
+            <ChartCell
+              key={i}
+              cell={cell}
+              focused={i === grid.focused}
+              linked={grid.linked && i === grid.focused}
+              indicators={indicators}
+              onFocus={() => updateGrid((g) => (g.focused === i ? g : { ...g, focused: i }))}
+              onChange={(next) => updateGrid((g) => withCell(g, i, next))}
+            />
+          ))}
+        </main>
+      )}
+
       {/* ── Chart + News ── */}
-      <main className="flex-1 overflow-hidden flex">
+      {single && (
+        <main className="flex-1 overflow-hidden flex">
 
-        {/* Chart column */}
-        <div className="flex-1 overflow-hidden relative">
+          {/* Chart column */}
+          <div className="flex-1 overflow-hidden relative">
 
-          {!loading && !data && !error && (
-            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3">
-              <p className="text-4xl font-black tracking-widest text-[#111]">NX-1</p>
-              <p className="text-gray-700 text-sm">Enter a ticker to load the chart</p>
-            </div>
-          )}
-
-          {loading && (
-            <div className="absolute inset-0 flex items-center justify-center">
-              <div className="flex items-center gap-3 text-gray-500 text-sm">
-                <span className="w-4 h-4 border-2 border-[#26a69a]/30 border-t-[#26a69a] rounded-full animate-spin" />
-                Fetching {ticker} {TIMEFRAMES.find((t) => t.value === tf)?.label}…
+            {!loading && !data && !error && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3">
+                <p className="text-4xl font-black tracking-widest text-[#111]">NX-1</p>
+                <p className="text-gray-700 text-sm">Enter a ticker to load the chart</p>
               </div>
-            </div>
-          )}
-
-          {error && (
-            <div className="absolute inset-0 flex items-center justify-center">
-              <div className="text-center space-y-2">
-                <p className="text-[#ef5350] text-sm font-medium">{error}</p>
-                <p className="text-gray-700 text-xs">Check the ticker and try again</p>
+            )}
+
+            {loading && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <div className="flex items-center gap-3 text-gray-500 text-sm">
+                  <span className="w-4 h-4 border-2 border-[#26a69a]/30 border-t-[#26a69a] rounded-full animate-spin" />
+                  Fetching {ticker} {TIMEFRAMES.find((t) => t.value === tf)?.label}…
+                </div>
               </div>
-            </div>
-          )}
-
-          {data && data.candles.length > 0 && (
-            <NxChart
-              candles={data.candles}
-              regularStart={data.regularStart}
-              regularEnd={data.regularEnd}
-              closePrice={!INTRADAY.includes(activeTf) ? data.currentPrice : 0}
-              preMarketPrice={!INTRADAY.includes(activeTf) ? data.preMarketPrice : 0}
-              postMarketPrice={!INTRADAY.includes(activeTf) ? data.postMarketPrice : 0}
-              lastDayHigh={data.lastDayHigh}
-              lastWeekHigh={data.lastWeekHigh}
-              lastMonthHigh={data.lastMonthHigh}
-            />
-          )}
-        </div>
+            )}
+
+            {error && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <div className="text-center space-y-2">
+                  <p className="text-[#ef5350] text-sm font-medium">{error}</p>
+                  <p className="text-gray-700 text-xs">Check the ticker and try again</p>
+                </div>
+              </div>
+            )}
+
+            {data && data.candles.length > 0 && (
+              <NxChart
+                candles={data.candles}
+                regularStart={data.regularStart}
+                regularEnd={data.regularEnd}
+                closePrice={!INTRADAY.includes(activeTf) ? data.currentPrice : 0}
+                preMarketPrice={!INTRADAY.includes(activeTf) ? data.preMarketPrice : 0}
+                postMarketPrice={!INTRADAY.includes(activeTf) ? data.postMarketPrice : 0}
+                lastDayHigh={data.lastDayHigh}
+                lastDayLow={data.lastDayLow}
+                lastDayClose={data.lastDayClose}
+                lastWeekHigh={data.lastWeekHigh}
+                lastMonthHigh={data.lastMonthHigh}
+                liveBars={liveBars}
+                indicators={chartIndicators}
+                annotations={annotations}
+                tool={drawTool}
+                onAnnotationsChange={saveAnnotations}
+                news={news}
+              />
+            )}
+          </div>
 
-        {/* News sidebar — only when a symbol is loaded */}
-        {data && <NewsPanel symbol={data.symbol} />}
+          {/* News sidebar — only when a symbol is loaded */}
+          {data && <NewsPanel symbol={data.symbol} refreshTick={refreshTick} onItems={setNews} />}
 
-      </main>
+        </main>
+      )}
 
     </div>
   );
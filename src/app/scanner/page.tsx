@@ -3,33 +3,98 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import axios from 'axios';
-import { Play, RefreshCw, ChevronUp, ChevronDown, ArrowUpRight } from 'lucide-react';
+import { Play, RefreshCw, ChevronUp, ChevronDown, ArrowUpRight, Save, Link2, X } from 'lucide-react';
+import AssetFlags from '@/components/AssetFlags';
+import { applyDiff, type ScanDiff } from '@/lib/scan-diff';
+import { watchLinkedCharts, type LinkedCharts } from '@/lib/chart-link';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 type MarketType = 'pre_market' | 'regular' | 'post_market';
-type SortKey    = 'preMarketChangePct' | 'preMarketPrice' | 'preMarketVolume' | 'preMarketChange' | 'prevClose';
+type Direction  = 'gainers' | 'losers';
+type AssetType  = 'common' | 'etf' | 'adr' | 'warrant' | 'unit' | 'right' | 'preferred';
+type SortKey    =
+  | 'preMarketChangePct' | 'preMarketPrice' | 'preMarketVolume' | 'preMarketChange' | 'prevClose'
+  | 'marketCap' | 'floatShares' | 'sharesOutstanding' | 'shortInterestPct' | 'relativeVolume';
 
 interface PreMarketStock {
   symbol:             string;
+  name:               string;
   exchange:           string;
+  prevDayLow:         number;
+  sector:             string | null;
+  isEtf:              boolean;
+  isAdr:              boolean;
+  isSpac:             boolean;
   prevClose:          number;
   preMarketPrice:     number;
   preMarketChange:    number;
   preMarketChangePct: number;
   preMarketVolume:    number;
+  marketCap:          number;  // 0 = unknown, likewise below
+  sharesOutstanding:  number;
+  floatShares:        number;
+  shortInterestPct:   number;
+  relativeVolume:     number;
+}
+
+/** Filter overrides as saved in a preset — server units (shares, USD) */
+interface PresetFilters {
+  direction:           Direction;
+  minChangePct:        number;
+  maxChangePct:        number;
+  belowPrevLow:        boolean;
+  minPrice:            number;
+  maxPrice:            number;
+  minPreMarketVolume:  number;
+  maxMarketCap:        number;
+  maxFloat:            number;
+  minRelativeVolume:   number;
+  minShortInterestPct: number;
+  includeExchanges:    string[];
+  excludeExchanges:    string[];
+  assetTypes:          AssetType[];
+  excludeSymbols:      string[];
+  where:               string;
+}
+
+interface ScanPreset {
+  id:         string;
+  name:       string;
+  marketType: MarketType;
+  filters:    Partial<PresetFilters>;
+  sort:       { key: SortKey; dir: 'asc' | 'desc' };
+  columns:    SortKey[];
 }
 
 interface ScanResult {
   scannedAt:  string;
   session:    'pre' | 'regular' | 'post' | 'closed';
   marketType: MarketType;
+  direction?: Direction;
   source:     'primary' | 'fallback';
+  provider?:  string | null;
   count:      number;
   stocks:     PreMarketStock[];
   message?:   string;
 }
 
+/** /api/scan/stream `diff` event */
+interface StreamDiff extends ScanDiff<PreMarketStock> {
+  scannedAt: string;
+  session:   ScanResult['session'];
+  source:    ScanResult['source'];
+  provider:  string | null;
+  count:     number;
+}
+
+type Flash = 'enter' | 'change' | 'exit';
+
+interface ScanError {
+  error: string;
+  pos?:  number;    // offset into the where expression
+}
+
 // ── Tab config ────────────────────────────────────────────────────────────────
 
 interface TabCfg {
@@ -37,7 +102,11 @@ interface TabCfg {
   label:      string;
   hours:      string;
   volLabel:   string;
-  defaults: { minChangePct: number; maxPrice: number; minVol: number };
+  defaults: {
+    minChangePct: number; maxChangePct: number;   // gainers ≥ / losers ≤
+    minPrice: number; maxPrice: number; minVol: number; maxCapM: number;
+    maxFloatM: number; minRvol: number; minShortPct: number;   // 0 = off
+  };
 }
 
 const TABS: TabCfg[] = [
@@ -46,24 +115,51 @@ const TABS: TabCfg[] = [
     label:    'PRE-MARKET',
     hours:    '4:00–9:30 AM ET',
     volLabel: 'PM VOL ≥',
-    defaults: { minChangePct: 12, maxPrice: 30,  minVol: 12_000  },
+    defaults: { minChangePct: 12, maxChangePct: -10, minPrice: 0, maxPrice: 30,  minVol: 12_000,  maxCapM: 2_000, maxFloatM: 0, minRvol: 0, minShortPct: 0 },
   },
   {
     key:      'regular',
     label:    'REGULAR',
     hours:    '9:30 AM–4:00 PM ET',
     volLabel: 'VOL ≥',
-    defaults: { minChangePct: 5,  maxPrice: 500, minVol: 500_000 },
+    defaults: { minChangePct: 5,  maxChangePct: -5,  minPrice: 0, maxPrice: 500, minVol: 500_000, maxCapM: 2_000, maxFloatM: 0, minRvol: 0, minShortPct: 0 },
   },
   {
     key:      'post_market',
     label:    'POST-MARKET',
     hours:    '4:00–8:00 PM ET',
     volLabel: 'AH VOL ≥',
-    defaults: { minChangePct: 3,  maxPrice: 200, minVol: 10_000  },
+    defaults: { minChangePct: 3,  maxChangePct: -3,  minPrice: 0, maxPrice: 200, minVol: 10_000,  maxCapM: 2_000, maxFloatM: 0, minRvol: 0, minShortPct: 0 },
   },
 ];
 
+// Universe filters — shared by all tabs, not reset on tab switch
+const EXCHANGES = ['NASDAQ', 'NYSE', 'AMEX', 'ARCA', 'BATS', 'OTC'];
+
+const ASSET_TYPES: { value: AssetType; label: string }[] = [
+  { value: 'common',    label: 'COMMON'  },
+  { value: 'etf',       label: 'ETF'     },
+  { value: 'adr',       label: 'ADR'     },
+  { value: 'warrant',   label: 'WARRANT' },
+  { value: 'unit',      label: 'UNIT'    },
+  { value: 'right',     label: 'RIGHT'   },
+  { value: 'preferred', label: 'PREF'    },
+];
+
+// Optional result columns, in display order — each is keyed by its sort field
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'preMarketPrice',     label: 'PRICE' },
+  { key: 'preMarketChangePct', label: 'CHG %' },
+  { key: 'preMarketChange',    label: 'CHG $' },
+  { key: 'preMarketVolume',    label: 'VOL'   },
+  { key: 'relativeVolume',     label: 'RVOL'  },
+  { key: 'floatShares',        label: 'FLOAT' },
+  { key: 'sharesOutstanding',  label: 'SHS'   },
+  { key: 'shortInterestPct',   label: 'SI %'  },
+  { key: 'marketCap',          label: 'CAP'   },
+  { key: 'prevClose',          label: 'PREV'  },
+];
+
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
 function fmtVol(v: number): string {
@@ -72,6 +168,16 @@ function fmtVol(v: number): string {
   return v > 0 ? String(v) : '—';
 }
 
+function fmtCap(v: number): string {
+  if (v >= 1e9) return '$' + (v / 1e9).toFixed(2) + 'B';
+  if (v >= 1e6) return '$' + (v / 1e6).toFixed(0) + 'M';
+  return v > 0 ? '$' + (v / 1e3).toFixed(0) + 'K' : '—';
+}
+
+function apiError(err: any, fallback: string): string {
+  return err?.response?.data?.error ?? err?.message ?? fallback;
+}
+
 function timeAgo(iso: string): string {
   const s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
   if (s < 5)  return 'just now';
@@ -79,7 +185,14 @@ function timeAgo(iso: string): string {
   return `${Math.round(s / 60)}m ago`;
 }
 
-const AUTO_INTERVAL = 60;
+// How long an entering / changed / exiting row stays highlighted in LIVE mode
+const FLASH_MS = 3_000;
+
+const FLASH_ROW: Record<Flash, string> = {
+  enter:  'bg-[#26a69a]/10',
+  change: 'bg-[#f59e0b]/5',
+  exit:   'bg-[#ef5350]/10 opacity-40',
+};
 
 // ── Sub-components ────────────────────────────────────────────────────────────
 
@@ -122,84 +235,450 @@ function FilterNum({ label, value, onChange, prefix, suffix, step = 1 }: {
   );
 }
 
+function FilterChips<T extends string>({ label, options, selected, onToggle, title }: {
+  label: string; options: { value: T; label: string }[]; selected: T[];
+  onToggle: (v: T) => void; title?: string;
+}) {
+  return (
+    <div className="flex items-center gap-1.5" title={title}>
+      <span className="text-[10px] text-gray-600 tracking-wider uppercase shrink-0">{label}</span>
+      <div className="flex items-center gap-0.5">
+        {options.map(o => {
+          const on = selected.includes(o.value);
+          return (
+            <button
+              key={o.value}
+              onClick={() => onToggle(o.value)}
+              className={`px-1.5 py-0.5 rounded text-[10px] font-bold tracking-wider border transition-all ${
+                on
+                  ? 'bg-[#26a69a]/10 border-[#26a69a]/30 text-[#26a69a]'
+                  : 'bg-[#0a0a0a] border-[#1a1a1a] text-gray-700 hover:text-gray-500'
+              }`}
+            >
+              {o.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function FilterText({ label, value, onChange, placeholder }: {
+  label: string; value: string; onChange: (v: string) => void; placeholder?: string;
+}) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <span className="text-[10px] text-gray-600 tracking-wider uppercase shrink-0">{label}</span>
+      <input
+        type="text" value={value} placeholder={placeholder}
+        onChange={e => onChange(e.target.value.toUpperCase())}
+        className="w-40 px-2 py-1 bg-[#0a0a0a] border border-[#1a1a1a] rounded text-white text-xs font-mono placeholder:text-gray-800 focus:outline-none focus:border-[#26a69a]/40 transition-colors"
+      />
+    </div>
+  );
+}
+
+/** One result cell for an optional column */
+function StockCell({ k, s, losers }: { k: SortKey; s: PreMarketStock; losers: boolean }) {
+  const up    = s.preMarketChangePct >= 0;
+  const color = up ? '#26a69a' : '#ef5350';
+
+  switch (k) {
+    case 'preMarketPrice':
+      return <td className="px-3 py-3 font-mono text-white tabular-nums">${s.preMarketPrice.toFixed(2)}</td>;
+    case 'preMarketChangePct':
+      return (
+        <td className="px-3 py-3 font-mono font-bold tabular-nums" style={{ color }}>
+          {up ? '+' : ''}{s.preMarketChangePct.toFixed(2)}%
+        </td>
+      );
+    case 'preMarketChange':
+      return (
+        <td className="px-3 py-3 font-mono tabular-nums" style={{ color }}>
+          {up ? '+' : ''}{s.preMarketChange.toFixed(2)}
+        </td>
+      );
+    case 'preMarketVolume':
+      return <td className="px-3 py-3 font-mono text-gray-400 tabular-nums">{fmtVol(s.preMarketVolume)}</td>;
+    case 'relativeVolume':
+      return (
+        <td className="px-3 py-3 font-mono tabular-nums" style={{ color: s.relativeVolume >= 5 ? '#f59e0b' : '#9ca3af' }}>
+          {s.relativeVolume > 0 ? s.relativeVolume.toFixed(1) + 'x' : '—'}
+        </td>
+      );
+    case 'floatShares':
+      return <td className="px-3 py-3 font-mono text-gray-400 tabular-nums">{fmtVol(s.floatShares)}</td>;
+    case 'sharesOutstanding':
+      return <td className="px-3 py-3 font-mono text-gray-600 tabular-nums">{fmtVol(s.sharesOutstanding)}</td>;
+    case 'shortInterestPct':
+      return (
+        <td className="px-3 py-3 font-mono text-gray-400 tabular-nums">
+          {s.shortInterestPct > 0 ? s.shortInterestPct.toFixed(1) + '%' : '—'}
+        </td>
+      );
+    case 'marketCap':
+      return (
+        <td className="px-3 py-3 font-mono text-gray-400 tabular-nums" title={s.marketCap ? undefined : 'Market cap unknown — not filtered'}>
+          {fmtCap(s.marketCap)}
+        </td>
+      );
+    case 'prevClose':
+      return (
+        <td className="px-3 py-3 font-mono text-gray-600 tabular-nums">
+          {s.prevClose > 0 ? s.prevClose.toFixed(2) : '—'}
+          {losers && s.prevDayLow > 0 && (
+            <div
+              className={`text-[10px] ${s.preMarketPrice < s.prevDayLow ? 'text-[#ef5350]/70' : 'text-gray-700'}`}
+              title="Prior-day low"
+            >
+              L {s.prevDayLow.toFixed(2)}
+            </div>
+          )}
+        </td>
+      );
+  }
+}
+
+/** Add `v` to the list, or remove it if present */
+function toggle<T>(list: T[], v: T): T[] {
+  return list.includes(v) ? list.filter(x => x !== v) : [...list, v];
+}
+
 // ── Page ──────────────────────────────────────────────────────────────────────
 
 export default function ScannerPage() {
   const router = useRouter();
 
   const [activeTab, setActiveTab] = useState<MarketType>('pre_market');
-  const tab = TABS.find(t => t.key === activeTab)!;
+  const [direction, setDirection] = useState<Direction>('gainers');
+  const tab    = TABS.find(t => t.key === activeTab)!;
+  const losers = direction === 'losers';
 
-  // Filters — reset to tab defaults when tab changes
-  const [minChangePct, setMinChangePct] = useState(tab.defaults.minChangePct);
+  // Filters — reset to tab defaults when tab or direction changes. changePct
+  // is the minimum gain for gainers and the maximum (negative) change for losers.
+  const [changePct,    setChangePct]    = useState(tab.defaults.minChangePct);
+  const [belowLow,     setBelowLow]     = useState(false);
+  const [minPrice,     setMinPrice]     = useState(tab.defaults.minPrice);
   const [maxPrice,     setMaxPrice]     = useState(tab.defaults.maxPrice);
   const [minVol,       setMinVol]       = useState(tab.defaults.minVol);
+  const [maxCapM,      setMaxCapM]      = useState(tab.defaults.maxCapM);
+  const [maxFloatM,    setMaxFloatM]    = useState(tab.defaults.maxFloatM);
+  const [minRvol,      setMinRvol]      = useState(tab.defaults.minRvol);
+  const [minShortPct,  setMinShortPct]  = useState(tab.defaults.minShortPct);
+
+  // Universe — exchanges shown are the allowed ones, the rest are excluded
+  const [exchanges,  setExchanges]  = useState<string[]>(EXCHANGES.filter(e => e !== 'OTC'));
+  const [assetTypes, setAssetTypes] = useState<AssetType[]>(['common']);
+  const [blacklist,  setBlacklist]  = useState('');
+  const [where,      setWhere]      = useState('');
 
   // Scan state
   const [result,      setResult]      = useState<ScanResult | null>(null);
   const [scanning,    setScanning]    = useState(false);
   const [error,       setError]       = useState<string | null>(null);
-  const [autoScan,    setAutoScan]    = useState(false);
   const [force,       setForce]       = useState(false);
-  const [countdown,   setCountdown]   = useState(AUTO_INTERVAL);
   const [renderTick,  setRenderTick]  = useState(0);
+  const [wherePos,    setWherePos]    = useState<number | null>(null);   // where-expression error offset
+
+  // LIVE mode — /api/scan/stream patches the rows in place
+  const [live,        setLive]        = useState(false);
+  const [liveKey,     setLiveKey]     = useState(0);     // bump to reconnect with the current filters
+  const [progress,    setProgress]    = useState<{ done: number; total: number } | null>(null);
+  const [flash,       setFlash]       = useState<Record<string, Flash>>({});
+  const [exiting,     setExiting]     = useState<PreMarketStock[]>([]);
+  const rowsRef = useRef<PreMarketStock[]>([]);
+  rowsRef.current = result?.stocks ?? [];
 
-  // Sort
+  // Sort + visible columns
   const [sortKey, setSortKey] = useState<SortKey>('preMarketChangePct');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
+  const [columns, setColumns] = useState<SortKey[]>(COLUMNS.map(c => c.key));
+
+  // Presets — presetId is the loaded one (saving updates it), '' for a new scan
+  const [presets,    setPresets]    = useState<ScanPreset[]>([]);
+  const [presetId,   setPresetId]   = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [copied,     setCopied]     = useState(false);
 
   // Keep latest filter values accessible in stable callbacks
-  const stateRef = useRef({ minChangePct, maxPrice, minVol, force, activeTab });
-  stateRef.current = { minChangePct, maxPrice, minVol, force, activeTab };
+  const stateRef = useRef({
+    changePct, belowLow, minPrice, maxPrice, minVol, maxCapM, maxFloatM, minRvol, minShortPct,
+    exchanges, assetTypes, blacklist, where, force, activeTab, direction,
+  });
+  stateRef.current = {
+    changePct, belowLow, minPrice, maxPrice, minVol, maxCapM, maxFloatM, minRvol, minShortPct,
+    exchanges, assetTypes, blacklist, where, force, activeTab, direction,
+  };
 
-  // ── Switch tab ──────────────────────────────────────────────────────────────
-  function switchTab(next: MarketType) {
+  // ── Switch tab / direction ──────────────────────────────────────────────────
+  function switchTab(next: MarketType, nextDir: Direction = direction) {
     const nextTab = TABS.find(t => t.key === next)!;
     setActiveTab(next);
-    setMinChangePct(nextTab.defaults.minChangePct);
+    setDirection(nextDir);
+    setChangePct(nextDir === 'losers' ? nextTab.defaults.maxChangePct : nextTab.defaults.minChangePct);
+    setBelowLow(false);
+    setMinPrice(nextTab.defaults.minPrice);
     setMaxPrice(nextTab.defaults.maxPrice);
     setMinVol(nextTab.defaults.minVol);
+    setMaxCapM(nextTab.defaults.maxCapM);
+    setMaxFloatM(nextTab.defaults.maxFloatM);
+    setMinRvol(nextTab.defaults.minRvol);
+    setMinShortPct(nextTab.defaults.minShortPct);
     setResult(null);
     setError(null);
-    setAutoScan(false);
-    setCountdown(AUTO_INTERVAL);
+    setLive(false);
+    setSortKey('preMarketChangePct');
+    setSortDir(nextDir === 'losers' ? 'asc' : 'desc');
+  }
+
+  // ── Presets ─────────────────────────────────────────────────────────────────
+  function applyPreset(p: ScanPreset) {
+    const f       = p.filters;
+    const nextDir = f.direction ?? 'gainers';
+    const d       = TABS.find(t => t.key === p.marketType)!.defaults;
+    switchTab(p.marketType, nextDir);
+    setChangePct(nextDir === 'losers' ? f.maxChangePct ?? d.maxChangePct : f.minChangePct ?? d.minChangePct);
+    setBelowLow(f.belowPrevLow ?? false);
+    setMinPrice(f.minPrice ?? d.minPrice);
+    setMaxPrice(f.maxPrice ?? d.maxPrice);
+    setMinVol(f.minPreMarketVolume ?? d.minVol);
+    setMaxCapM(f.maxMarketCap != null ? f.maxMarketCap / 1e6 : d.maxCapM);
+    setMaxFloatM(f.maxFloat != null ? f.maxFloat / 1e6 : d.maxFloatM);
+    setMinRvol(f.minRelativeVolume ?? d.minRvol);
+    setMinShortPct(f.minShortInterestPct ?? d.minShortPct);
+    setExchanges(f.includeExchanges?.length
+      ? EXCHANGES.filter(e => f.includeExchanges!.includes(e))
+      : EXCHANGES.filter(e => !(f.excludeExchanges ?? ['OTC']).includes(e)));
+    setAssetTypes(f.assetTypes ?? ['common']);
+    setBlacklist((f.excludeSymbols ?? []).join(', '));
+    setWhere(f.where ?? '');
+    setSortKey(p.sort.key);
+    setSortDir(p.sort.dir);
+    setColumns(p.columns);
+    setPresetId(p.id);
+    setPresetName(p.name);
+  }
+
+  function selectPreset(id: string) {
+    const p = presets.find(x => x.id === id);
+    if (p) applyPreset(p);
+    else { setPresetId(''); setPresetName(''); }
+    window.history.replaceState(null, '', p ? `/scanner?preset=${p.id}` : '/scanner');
+  }
+
+  /** Current filters in the units the server saves and scans with */
+  function presetFilters(): PresetFilters {
+    return {
+      direction,
+      minChangePct:        losers ? 0 : changePct,
+      maxChangePct:        losers ? changePct : 0,
+      belowPrevLow:        losers && belowLow,
+      minPrice,
+      maxPrice,
+      minPreMarketVolume:  minVol,
+      maxMarketCap:        maxCapM * 1e6,
+      maxFloat:            maxFloatM * 1e6,
+      minRelativeVolume:   minRvol,
+      minShortInterestPct: minShortPct,
+      includeExchanges:    [],
+      excludeExchanges:    EXCHANGES.filter(e => !exchanges.includes(e)),
+      assetTypes,
+      excludeSymbols:      blacklist.split(/[\s,]+/).filter(Boolean),
+      where:               where.trim(),
+    };
   }
 
+  async function savePreset() {
+    const name = presetName.trim();
+    if (!name) { setError('Name the preset to save it'); return; }
+    const body = { name, marketType: activeTab, filters: presetFilters(), sort: { key: sortKey, dir: sortDir }, columns };
+    try {
+      const { data } = presetId
+        ? await axios.patch<{ preset: ScanPreset }>(`/api/scan/presets/${presetId}`, body)
+        : await axios.post<{ preset: ScanPreset }>('/api/scan/presets', body);
+      setPresets(list => [...list.filter(p => p.id !== data.preset.id), data.preset]);
+      setPresetId(data.preset.id);
+      setError(null);
+      window.history.replaceState(null, '', `/scanner?preset=${data.preset.id}`);
+    } catch (err: any) {
+      setError(apiError(err, 'Failed to save preset'));
+    }
+  }
+
+  async function deletePreset() {
+    if (!presetId) return;
+    try {
+      await axios.delete(`/api/scan/presets/${presetId}`);
+      setPresets(list => list.filter(p => p.id !== presetId));
+      selectPreset('');
+    } catch (err: any) {
+      setError(apiError(err, 'Failed to delete preset'));
+    }
+  }
+
+  async function sharePreset() {
+    if (!presetId) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/scanner?preset=${presetId}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1_500);
+    } catch {
+      setError('Could not copy the link — the address bar has it');
+    }
+  }
+
+  // Load the library, then the preset named in the URL (a shared link)
+  useEffect(() => {
+    const wanted = new URLSearchParams(window.location.search).get('preset');
+    axios.get<{ presets: ScanPreset[] }>('/api/scan/presets')
+      .then(({ data }) => {
+        setPresets(data.presets);
+        const p = wanted ? data.presets.find(x => x.id === wanted) : undefined;
+        if (p) applyPreset(p);
+        else if (wanted) setError(`No preset "${wanted}"`);
+      })
+      .catch(err => setError(apiError(err, 'Failed to load presets')));
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
   // ── Scan ────────────────────────────────────────────────────────────────────
-  const runScan = useCallback(async (silent = false) => {
-    const { minChangePct, maxPrice, minVol, force, activeTab } = stateRef.current;
-    if (!silent) { setScanning(true); setError(null); }
+  /** Query string for the current filters — shared by SCAN and LIVE */
+  const scanQuery = useCallback(() => {
+    const {
+      changePct, belowLow, minPrice, maxPrice, minVol, maxCapM, maxFloatM, minRvol, minShortPct,
+      exchanges, assetTypes, blacklist, where, force, activeTab, direction,
+    } = stateRef.current;
 
-    const q = new URLSearchParams({
+    return new URLSearchParams({
       marketType: activeTab,
-      minChange:  String(minChangePct),
+      direction,
+      ...(direction === 'losers'
+        ? { maxChange: String(changePct), belowLow: belowLow ? '1' : '0' }
+        : { minChange: String(changePct) }),
+      minPrice:   String(minPrice),
       maxPrice:   String(maxPrice),
       minVol:     String(minVol),
+      maxMcap:    String(maxCapM * 1e6),
+      maxFloat:   String(maxFloatM * 1e6),
+      minRvol:    String(minRvol),
+      minShort:   String(minShortPct),
+      excludeExchanges: EXCHANGES.filter(e => !exchanges.includes(e)).join(','),
+      types:      assetTypes.join(','),
+      exclude:    blacklist.split(/[\s,]+/).filter(Boolean).join(','),
+      where:      where.trim(),
       ...(force ? { force: '1' } : {}),
     });
+  }, []);
 
+  const runScan = useCallback(async () => {
+    setScanning(true);
+    setError(null);
     try {
-      const { data } = await axios.get<ScanResult>(`/api/scan/pre-market?${q}`);
+      const { data } = await axios.get<ScanResult>(`/api/scan/pre-market?${scanQuery()}`);
       setResult(data);
-      if (!silent) setCountdown(AUTO_INTERVAL);
+      setWherePos(null);
     } catch (err: any) {
-      if (!silent) setError(err?.response?.data?.error ?? err?.message ?? 'Scan failed');
+      setError(apiError(err, 'Scan failed'));
+      setWherePos((err?.response?.data as ScanError | undefined)?.pos ?? null);
     } finally {
-      if (!silent) setScanning(false);
+      setScanning(false);
     }
-  }, []);
+  }, [scanQuery]);
 
-  // ── Auto-scan ───────────────────────────────────────────────────────────────
+  // ── Live stream ─────────────────────────────────────────────────────────────
   useEffect(() => {
-    if (!autoScan) return;
-    const id = setInterval(() => {
-      setCountdown(n => {
-        if (n <= 1) { runScan(true); return AUTO_INTERVAL; }
-        return n - 1;
+    if (!live) return;
+    const url = `/api/scan/stream?${scanQuery()}`;
+    const es  = new EventSource(url);
+    let timers: ReturnType<typeof setTimeout>[] = [];
+    setScanning(true);
+    setError(null);
+
+    function highlight(symbols: string[], kind: Flash) {
+      if (!symbols.length) return;
+      setFlash(f => ({ ...f, ...Object.fromEntries(symbols.map(sym => [sym, kind])) }));
+      timers.push(setTimeout(() => {
+        setFlash(f => Object.fromEntries(Object.entries(f).filter(([sym, k]) => k !== kind || !symbols.includes(sym))));
+        if (kind === 'exit') setExiting(x => x.filter(s => !symbols.includes(s.symbol)));
+      }, FLASH_MS));
+    }
+
+    es.addEventListener('snapshot', e => {
+      setResult(JSON.parse((e as MessageEvent).data));
+      setExiting([]);
+      setFlash({});
+      setProgress(null);
+      setScanning(false);
+      setWherePos(null);
+    });
+
+    es.addEventListener('diff', e => {
+      const d = JSON.parse((e as MessageEvent).data) as StreamDiff;
+      const leaving = rowsRef.current.filter(s => d.removed.includes(s.symbol));
+      setResult(r => r && {
+        ...r,
+        scannedAt: d.scannedAt,
+        session:   d.session,
+        source:    d.source,
+        provider:  d.provider,
+        count:     d.count,
+        stocks:    applyDiff(r.stocks, d),
       });
-    }, 1_000);
-    return () => clearInterval(id);
-  }, [autoScan, runScan]);
+      setExiting(x => [...x.filter(s => !d.added.some(a => a.symbol === s.symbol)), ...leaving]);
+      highlight(d.added.map(s => s.symbol), 'enter');
+      highlight(d.changed.map(s => s.symbol), 'change');
+      highlight(d.removed, 'exit');
+      setProgress(null);
+    });
+
+    es.addEventListener('progress', e => setProgress(JSON.parse((e as MessageEvent).data)));
+
+    es.addEventListener('idle', e => {
+      setResult(JSON.parse((e as MessageEvent).data));
+      setExiting([]);
+      setScanning(false);
+    });
+
+    es.addEventListener('failed', e => {
+      setError(JSON.parse((e as MessageEvent).data).error);
+      setScanning(false);
+    });
+
+    // The browser reconnects by itself and the server starts over with a
+    // snapshot. A rejected request (bad params) closes the stream for good,
+    // and EventSource can't read the error body — fetch it once to show it.
+    es.onerror = async () => {
+      if (es.readyState !== EventSource.CLOSED) { setError('Live stream interrupted — reconnecting…'); return; }
+      const ctrl = new AbortController();
+      try {
+        const res  = await fetch(url, { signal: ctrl.signal });
+        const body = res.ok ? null : await res.json() as ScanError;
+        setError(body?.error ?? 'Live stream closed');
+        setWherePos(body?.pos ?? null);
+      } catch {
+        setError('Live stream closed');
+      } finally {
+        ctrl.abort();
+      }
+      setLive(false);
+    };
+
+    return () => {
+      es.close();
+      timers.forEach(clearTimeout);
+      timers = [];
+      setProgress(null);
+      setExiting([]);
+      setFlash({});
+      setScanning(false);
+    };
+  }, [live, liveKey, scanQuery]);
+
+  /** SCAN — a one-shot request, or a reconnect with the new filters in LIVE mode */
+  function scanNow() {
+    if (live) setLiveKey(k => k + 1);
+    else runScan();
+  }
 
   // ── "X ago" tick ────────────────────────────────────────────────────────────
   useEffect(() => {
@@ -214,13 +693,29 @@ export default function ScannerPage() {
     else { setSortKey(k); setSortDir('desc'); }
   }
 
+  // Rows that just dropped out stay in place, faded, until their highlight ends
   const sorted = useMemo(() => {
-    if (!result?.stocks?.length) return [];
-    return [...result.stocks].sort((a, b) => {
+    const rows = [...(result?.stocks ?? []), ...exiting];
+    return rows.sort((a, b) => {
       const av = a[sortKey] as number, bv = b[sortKey] as number;
       return sortDir === 'desc' ? bv - av : av - bv;
     });
-  }, [result?.stocks, sortKey, sortDir]);
+  }, [result?.stocks, exiting, sortKey, sortDir]);
+
+  // ── Open a row ──────────────────────────────────────────────────────────────
+  // A chart grid with its scanner link on (another tab) takes the symbol into
+  // its focused cell; otherwise go to the chart page
+  const linkedCharts = useRef<LinkedCharts | null>(null);
+  useEffect(() => {
+    const charts = watchLinkedCharts();
+    linkedCharts.current = charts;
+    return () => charts.close();
+  }, []);
+
+  async function openChart(symbol: string) {
+    if (await linkedCharts.current?.send(symbol)) return;
+    router.push(`/?symbol=${symbol}&tf=1m`);
+  }
 
   // ── Session indicator ───────────────────────────────────────────────────────
   const sess     = result?.session;
@@ -259,17 +754,51 @@ export default function ScannerPage() {
           </div>
         )}
 
-        {/* Countdown */}
-        {autoScan && (
-          <span className="text-[10px] font-mono text-gray-700 pb-2 pl-2">↻ {countdown}s</span>
+        {/* Fallback-scan progress */}
+        {live && progress && (
+          <span className="text-[10px] font-mono text-gray-700 pb-2 pl-2">
+            {Math.round((progress.done / Math.max(progress.total, 1)) * 100)}% of {progress.total.toLocaleString()}
+          </span>
         )}
       </div>
 
       {/* ── Filter bar ── */}
       <div className="flex items-center gap-3 px-5 py-2 border-b border-[#0d0d0d] bg-[#020202] shrink-0 flex-wrap gap-y-2">
-        <FilterNum label="CHG% ≥"    value={minChangePct} onChange={setMinChangePct} suffix="%" />
+        <div className="flex items-center rounded overflow-hidden border border-[#1a1a1a]">
+          {(['gainers', 'losers'] as Direction[]).map(d => (
+            <button
+              key={d}
+              onClick={() => d !== direction && switchTab(activeTab, d)}
+              title={d === 'losers' ? 'Gap-downs for the short side' : 'Gap-ups'}
+              className={`px-2 py-1 text-[10px] font-bold tracking-wider transition-all ${
+                direction === d
+                  ? d === 'losers' ? 'bg-[#ef5350]/15 text-[#ef5350]' : 'bg-[#26a69a]/15 text-[#26a69a]'
+                  : 'bg-[#0a0a0a] text-gray-700 hover:text-gray-500'
+              }`}
+            >
+              {d.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <FilterNum label={losers ? 'CHG% ≤' : 'CHG% ≥'} value={changePct} onChange={setChangePct} suffix="%" />
+        {losers && (
+          <button
+            onClick={() => setBelowLow(b => !b)}
+            title="Only stocks trading under the prior-day low"
+            className={`px-2 py-1 rounded text-[10px] font-bold tracking-wider border transition-all ${
+              belowLow
+                ? 'bg-[#ef5350]/10 border-[#ef5350]/30 text-[#ef5350]'
+                : 'bg-[#0a0a0a] border-[#1a1a1a] text-gray-600 hover:text-gray-400'
+            }`}
+          >&lt; D-LOW</button>
+        )}
+        <FilterNum label="PRICE ≥"   value={minPrice}     onChange={setMinPrice}     prefix="$" step={0.5} />
         <FilterNum label="PRICE ≤"   value={maxPrice}     onChange={setMaxPrice}     prefix="$" />
         <FilterNum label={tab.volLabel} value={minVol}    onChange={setMinVol}       step={1000} />
+        <FilterNum label="CAP ≤"     value={maxCapM}      onChange={setMaxCapM}      prefix="$" suffix="M" step={100} />
+        <FilterNum label="FLOAT ≤"   value={maxFloatM}    onChange={setMaxFloatM}    suffix="M" step={5} />
+        <FilterNum label="RVOL ≥"    value={minRvol}      onChange={setMinRvol}      suffix="x" step={0.5} />
+        <FilterNum label="SI ≥"      value={minShortPct}  onChange={setMinShortPct}  suffix="%" />
 
         <div className="flex-1" />
 
@@ -284,21 +813,21 @@ export default function ScannerPage() {
         >FORCE</button>
 
         <button
-          onClick={() => { setAutoScan(a => !a); setCountdown(AUTO_INTERVAL); }}
-          title="Auto-rescan every 60 seconds"
+          onClick={() => setLive(l => !l)}
+          title="Stream live updates — rows are patched as the scan changes"
           className={`flex items-center gap-1.5 px-2.5 py-1 rounded text-[10px] font-bold tracking-wider border transition-all ${
-            autoScan
+            live
               ? 'bg-[#26a69a]/10 border-[#26a69a]/30 text-[#26a69a]'
               : 'bg-[#0d0d0d] border-[#1a1a1a] text-gray-500 hover:text-gray-300'
           }`}
         >
-          <span className={`w-1.5 h-1.5 rounded-full ${autoScan ? 'bg-[#26a69a] animate-pulse' : 'bg-[#333]'}`} />
-          AUTO
+          <span className={`w-1.5 h-1.5 rounded-full ${live ? 'bg-[#26a69a] animate-pulse' : 'bg-[#333]'}`} />
+          LIVE
         </button>
 
         <button
-          onClick={() => runScan(false)}
-          disabled={scanning}
+          onClick={scanNow}
+          disabled={scanning && !live}
           className="flex items-center gap-1.5 px-4 py-1.5 rounded bg-[#26a69a]/10 border border-[#26a69a]/25 text-[#26a69a] text-xs font-bold hover:bg-[#26a69a]/20 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
         >
           {scanning ? <RefreshCw size={11} className="animate-spin" /> : <Play size={11} />}
@@ -306,6 +835,90 @@ export default function ScannerPage() {
         </button>
       </div>
 
+      {/* ── Universe bar ── */}
+      <div className="flex items-center gap-4 px-5 py-2 border-b border-[#0d0d0d] bg-[#020202] shrink-0 flex-wrap gap-y-2">
+        <FilterChips
+          label="EXCH"
+          options={EXCHANGES.map(e => ({ value: e, label: e }))}
+          selected={exchanges}
+          onToggle={e => setExchanges(l => toggle(l, e))}
+          title="Exchanges to scan — unknown exchanges always pass"
+        />
+        <FilterChips
+          label="TYPE"
+          options={ASSET_TYPES}
+          selected={assetTypes}
+          onToggle={t => setAssetTypes(l => toggle(l, t))}
+          title="Asset types to keep — none selected keeps all; unknown types always pass"
+        />
+        <FilterText label="EXCLUDE" value={blacklist} onChange={setBlacklist} placeholder="GME, AMC" />
+        <div className="flex items-center gap-1.5 flex-1 min-w-[320px]" title="Scan expression, e.g. relVol > 5 and price > prevDayHigh — runs after the filters">
+          <span className="text-[10px] text-gray-600 tracking-wider uppercase shrink-0">WHERE</span>
+          <input
+            type="text" value={where} spellCheck={false}
+            placeholder="relVol > 5 and price > prevDayHigh and not isSpac"
+            onChange={e => { setWhere(e.target.value); setWherePos(null); }}
+            onKeyDown={e => e.key === 'Enter' && scanNow()}
+            className={`flex-1 px-2 py-1 bg-[#0a0a0a] border rounded text-white text-xs font-mono placeholder:text-gray-800 focus:outline-none transition-colors ${
+              wherePos != null ? 'border-[#ef5350]/50' : 'border-[#1a1a1a] focus:border-[#26a69a]/40'
+            }`}
+          />
+        </div>
+      </div>
+
+      {/* ── Preset bar ── */}
+      <div className="flex items-center gap-4 px-5 py-2 border-b border-[#0d0d0d] bg-[#020202] shrink-0 flex-wrap gap-y-2">
+        <div className="flex items-center gap-1.5">
+          <span className="text-[10px] text-gray-600 tracking-wider uppercase shrink-0">PRESET</span>
+          <select
+            value={presetId}
+            onChange={e => selectPreset(e.target.value)}
+            className="px-2 py-1 bg-[#0a0a0a] border border-[#1a1a1a] rounded text-white text-xs font-mono focus:outline-none focus:border-[#26a69a]/40 transition-colors"
+          >
+            <option value="">— new scan —</option>
+            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <input
+            type="text" value={presetName} placeholder="Preset name" maxLength={60}
+            onChange={e => setPresetName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && savePreset()}
+            className="w-40 px-2 py-1 bg-[#0a0a0a] border border-[#1a1a1a] rounded text-white text-xs placeholder:text-gray-800 focus:outline-none focus:border-[#26a69a]/40 transition-colors"
+          />
+          <button
+            onClick={savePreset}
+            title={presetId ? 'Update this preset' : 'Save as a new preset'}
+            className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold tracking-wider border bg-[#0d0d0d] border-[#1a1a1a] text-gray-500 hover:text-gray-300 transition-all"
+          >
+            <Save size={10} /> SAVE
+          </button>
+          {presetId && (
+            <>
+              <button
+                onClick={sharePreset}
+                title="Copy a link to this preset"
+                className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold tracking-wider border bg-[#0d0d0d] border-[#1a1a1a] text-gray-500 hover:text-gray-300 transition-all"
+              >
+                <Link2 size={10} /> {copied ? 'COPIED' : 'SHARE'}
+              </button>
+              <button
+                onClick={deletePreset}
+                title="Delete this preset"
+                className="p-1 rounded text-gray-700 hover:text-[#ef5350] transition-colors"
+              >
+                <X size={12} />
+              </button>
+            </>
+          )}
+        </div>
+        <FilterChips
+          label="COLS"
+          options={COLUMNS.map(c => ({ value: c.key, label: c.label }))}
+          selected={columns}
+          onToggle={k => setColumns(l => COLUMNS.map(c => c.key).filter(c => c === k ? !l.includes(c) : l.includes(c)))}
+          title="Result columns to show"
+        />
+      </div>
+
       {/* ── Status bar ── */}
       {(result || error) && (
         <div className="flex items-center gap-2 px-5 py-1.5 border-b border-[#080808] bg-[#010101] shrink-0">
@@ -320,7 +933,7 @@ export default function ScannerPage() {
               <span className={`text-[10px] font-mono uppercase tracking-wide ${
                 result.source === 'primary' ? 'text-[#26a69a]/50' : 'text-amber-600/50'
               }`}>
-                Alpaca {result.source}
+                {result.provider ?? 'snapshot'} {result.source}
               </span>
               <span className="text-[#1a1a1a]">·</span>
               <span className="text-[10px] text-gray-700 font-mono" suppressHydrationWarning>
@@ -381,66 +994,62 @@ export default function ScannerPage() {
 
         {/* Results table */}
         {sorted.length > 0 && (
-          <table className="w-full border-collapse text-sm min-w-[600px]">
+          <table className="w-full border-collapse text-sm min-w-[900px]">
             <thead>
               <tr className="bg-[#050505] border-b border-[#0f0f0f] sticky top-0 z-10">
                 <th className="px-3 py-2.5 text-left text-[10px] font-bold text-gray-700 uppercase tracking-widest w-8 select-none">#</th>
                 <th className="px-3 py-2.5 text-left text-[10px] font-bold text-gray-600 uppercase tracking-widest select-none">SYMBOL</th>
-                <SortTh label="PRICE"  k="preMarketPrice"     active={sortKey==='preMarketPrice'}     dir={sortDir} onSort={handleSort} />
-                <SortTh label="CHG %"  k="preMarketChangePct" active={sortKey==='preMarketChangePct'} dir={sortDir} onSort={handleSort} />
-                <SortTh label="CHG $"  k="preMarketChange"    active={sortKey==='preMarketChange'}    dir={sortDir} onSort={handleSort} />
-                <SortTh label="VOL"    k="preMarketVolume"    active={sortKey==='preMarketVolume'}    dir={sortDir} onSort={handleSort} />
-                <SortTh label="PREV"   k="prevClose"          active={sortKey==='prevClose'}          dir={sortDir} onSort={handleSort} />
+                {COLUMNS.filter(c => columns.includes(c.key)).map(c => (
+                  <SortTh
+                    key={c.key}
+                    label={c.key === 'prevClose' && activeTab === 'post_market' ? 'CLOSE' : c.label}
+                    k={c.key}
+                    active={sortKey === c.key}
+                    dir={sortDir}
+                    onSort={handleSort}
+                  />
+                ))}
                 <th className="w-14 select-none" />
               </tr>
             </thead>
             <tbody>
-              {sorted.map((s, i) => {
-                const up    = s.preMarketChangePct >= 0;
-                const color = up ? '#26a69a' : '#ef5350';
-                return (
-                  <tr
-                    key={s.symbol}
-                    onClick={() => router.push(`/?symbol=${s.symbol}&tf=1m`)}
-                    className="border-b border-[#080808] hover:bg-[#0c1a18] cursor-pointer transition-colors group"
-                  >
-                    <td className="px-3 py-3 text-gray-800 font-mono text-xs w-8">{i + 1}</td>
+              {sorted.map((s, i) => (
+                <tr
+                  key={s.symbol}
+                  onClick={() => openChart(s.symbol)}
+                  className={`border-b border-[#080808] hover:bg-[#0c1a18] cursor-pointer transition-colors duration-700 group ${
+                    flash[s.symbol] ? FLASH_ROW[flash[s.symbol]] : ''
+                  }`}
+                >
+                  <td className="px-3 py-3 text-gray-800 font-mono text-xs w-8">{i + 1}</td>
 
-                    <td className="px-3 py-3">
-                      <div className="flex items-baseline gap-2">
-                        <span className="font-bold font-mono text-white text-[13px] tracking-wide">{s.symbol}</span>
-                        {s.exchange && <span className="text-[10px] text-gray-700 uppercase">{s.exchange}</span>}
+                  <td className="px-3 py-3">
+                    <div className="flex items-baseline gap-2">
+                      <span className="font-bold font-mono text-white text-[13px] tracking-wide">{s.symbol}</span>
+                      {s.exchange && <span className="text-[10px] text-gray-700 uppercase">{s.exchange}</span>}
+                      <AssetFlags isEtf={s.isEtf} isAdr={s.isAdr} isSpac={s.isSpac} />
+                    </div>
+                    {s.name !== s.symbol && (
+                      <div
+                        className="text-[10px] text-gray-600 truncate max-w-[180px]"
+                        title={s.sector ? `${s.name} · ${s.sector}` : s.name}
+                      >
+                        {s.name}
                       </div>
-                    </td>
-
-                    <td className="px-3 py-3 font-mono text-white tabular-nums">
-                      ${s.preMarketPrice.toFixed(2)}
-                    </td>
-
-                    <td className="px-3 py-3 font-mono font-bold tabular-nums" style={{ color }}>
-                      {up ? '+' : ''}{s.preMarketChangePct.toFixed(2)}%
-                    </td>
-
-                    <td className="px-3 py-3 font-mono tabular-nums" style={{ color }}>
-                      {up ? '+' : ''}{s.preMarketChange.toFixed(2)}
-                    </td>
-
-                    <td className="px-3 py-3 font-mono text-gray-400 tabular-nums">
-                      {fmtVol(s.preMarketVolume)}
-                    </td>
-
-                    <td className="px-3 py-3 font-mono text-gray-600 tabular-nums">
-                      {s.prevClose > 0 ? s.prevClose.toFixed(2) : '—'}
-                    </td>
-
-                    <td className="px-3 py-3 w-14 text-right">
-                      <span className="inline-flex items-center gap-0.5 text-[10px] text-gray-800 group-hover:text-[#26a69a] transition-colors">
-                        CHART <ArrowUpRight size={10} />
-                      </span>
-                    </td>
-                  </tr>
-                );
-              })}
+                    )}
+                  </td>
+
+                  {COLUMNS.filter(c => columns.includes(c.key)).map(c => (
+                    <StockCell key={c.key} k={c.key} s={s} losers={losers} />
+                  ))}
+
+                  <td className="px-3 py-3 w-14 text-right">
+                    <span className="inline-flex items-center gap-0.5 text-[10px] text-gray-800 group-hover:text-[#26a69a] transition-colors">
+                      CHART <ArrowUpRight size={10} />
+                    </span>
+                  </td>
+                </tr>
+              ))}
             </tbody>
           </table>
         )}
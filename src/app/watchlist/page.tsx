@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import axios from 'axios';
+import { Plus, RefreshCw, X, ArrowUpRight } from 'lucide-react';
+import type { NewsCategory } from '@/lib/news-fetch';
+import { CAT_META } from '@/lib/news-meta';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+interface LastCatalyst {
+  ts:       string;
+  category: string;
+  title:    string;
+  url:      string | null;
+  sent:     boolean;
+}
+
+interface WatchRow {
+  symbol:         string;
+  note:           string;
+  alertAbove:     number | null;
+  alertBelow:     number | null;
+  alertChangePct: number | null;
+  addedAt:        string;
+  price:          number;
+  prevClose:      number;
+  change:         number;
+  changePct:      number;
+  lastCatalyst:   LastCatalyst | null;
+}
+
+type Editable = 'note' | 'alertAbove' | 'alertBelow' | 'alertChangePct';
+
+const REFRESH_SEC = 30;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function timeAgo(iso: string): string {
+  const s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+  if (s < 60)    return `${s}s`;
+  if (s < 3600)  return `${Math.floor(s / 60)}m`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h`;
+  return `${Math.floor(s / 86400)}d`;
+}
+
+function apiError(err: any, fallback: string): string {
+  return err?.response?.data?.error ?? err?.message ?? fallback;
+}
+
+// ── Sub-components ────────────────────────────────────────────────────────────
+
+/** Inline cell that commits on blur / Enter and reverts on Escape */
+function EditCell({ value, onCommit, numeric = false, prefix, suffix, placeholder, width = 'w-16' }: {
+  value: string | number | null; onCommit: (v: string) => Promise<boolean>;
+  numeric?: boolean; prefix?: string; suffix?: string; placeholder?: string; width?: string;
+}) {
+  const initial = value == null ? '' : String(value);
+  const [draft, setDraft] = useState(initial);
+  useEffect(() => setDraft(initial), [initial]);
+
+  async function commit() {
+    if (draft.trim() === initial) return;
+    if (!(await onCommit(draft.trim()))) setDraft(initial);
+  }
+
+  return (
+    <div className="flex items-center bg-[#0a0a0a] border border-[#141414] rounded overflow-hidden focus-within:border-[#26a69a]/40 transition-colors">
+      {prefix && <span className="pl-1.5 text-[10px] text-gray-700 select-none">{prefix}</span>}
+      <input
+        type={numeric ? 'number' : 'text'}
+        value={draft}
+        placeholder={placeholder}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter')  (e.target as HTMLInputElement).blur();
+          if (e.key === 'Escape') setDraft(initial);
+        }}
+        className={`${width} px-1.5 py-1 bg-transparent text-white text-[11px] font-mono placeholder-gray-800 focus:outline-none`}
+      />
+      {suffix && <span className="pr-1.5 text-[10px] text-gray-700 select-none">{suffix}</span>}
+    </div>
+  );
+}
+
+// ── Page ──────────────────────────────────────────────────────────────────────
+
+export default function WatchlistPage() {
+  const router = useRouter();
+
+  const [rows,      setRows]      = useState<WatchRow[]>([]);
+  const [loading,   setLoading]   = useState(true);
+  const [error,     setError]     = useState<string | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+
+  const [newSymbol, setNewSymbol] = useState('');
+  const [newNote,   setNewNote]   = useState('');
+  const [adding,    setAdding]    = useState(false);
+
+  const fetchingRef = useRef(false);
+
+  const load = useCallback(async (silent = false) => {
+    if (fetchingRef.current) return;
+    fetchingRef.current = true;
+    if (!silent) setLoading(true);
+    try {
+      const { data } = await axios.get<{ entries: WatchRow[]; fetchedAt: number }>('/api/watchlist');
+      setRows(data.entries);
+      setFetchedAt(data.fetchedAt);
+      setError(null);
+    } catch (err: any) {
+      if (!silent) setError(apiError(err, 'Failed to load watchlist'));
+    } finally {
+      fetchingRef.current = false;
+      if (!silent) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(() => load(true), REFRESH_SEC * 1000);
+    return () => clearInterval(id);
+  }, [load]);
+
+  // ── Mutations ───────────────────────────────────────────────────────────────
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault();
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol) return;
+    setAdding(true);
+    try {
+      await axios.post('/api/watchlist', { symbol, note: newNote });
+      setNewSymbol('');
+      setNewNote('');
+      await load(true);
+    } catch (err: any) {
+      setError(apiError(err, 'Failed to add ticker'));
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  async function handleEdit(symbol: string, field: Editable, raw: string): Promise<boolean> {
+    const value = field === 'note' ? raw : raw === '' ? null : Number(raw);
+    try {
+      const { data } = await axios.patch<{ entry: WatchRow }>(
+        `/api/watchlist/${encodeURIComponent(symbol)}`, { [field]: value },
+      );
+      setRows(rs => rs.map(r => (r.symbol === symbol ? { ...r, ...data.entry } : r)));
+      setError(null);
+      return true;
+    } catch (err: any) {
+      setError(apiError(err, 'Failed to save'));
+      return false;
+    }
+  }
+
+  async function handleRemove(symbol: string) {
+    try {
+      await axios.delete(`/api/watchlist/${encodeURIComponent(symbol)}`);
+      setRows(rs => rs.filter(r => r.symbol !== symbol));
+    } catch (err: any) {
+      setError(apiError(err, 'Failed to remove ticker'));
+    }
+  }
+
+  const updatedStr = fetchedAt
+    ? new Date(fetchedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })
+    : null;
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+  return (
+    <div className="flex flex-col h-full bg-black text-white overflow-hidden">
+
+      {/* ── Header / add bar ── */}
+      <form
+        onSubmit={handleAdd}
+        className="flex items-center gap-3 px-5 py-3 border-b border-[#111] bg-[#030303] shrink-0 flex-wrap gap-y-2"
+      >
+        <span className="text-[11px] font-black tracking-[0.2em] text-[#26a69a] uppercase">Watchlist</span>
+        <span className="text-[10px] text-gray-700 font-mono">{rows.length}</span>
+
+        <div className="flex-1" />
+
+        <input
+          value={newSymbol}
+          onChange={e => setNewSymbol(e.target.value.toUpperCase())}
+          placeholder="TICKER"
+          maxLength={10}
+          className="w-24 px-2 py-1 bg-[#0a0a0a] border border-[#1a1a1a] rounded text-white text-xs font-mono placeholder-gray-700 focus:outline-none focus:border-[#26a69a]/40"
+        />
+        <input
+          value={newNote}
+          onChange={e => setNewNote(e.target.value)}
+          placeholder="Note (optional)"
+          className="w-56 px-2 py-1 bg-[#0a0a0a] border border-[#1a1a1a] rounded text-white text-xs placeholder-gray-700 focus:outline-none focus:border-[#26a69a]/40"
+        />
+        <button
+          type="submit"
+          disabled={adding || !newSymbol.trim()}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-[#26a69a]/10 border border-[#26a69a]/25 text-[#26a69a] text-xs font-bold hover:bg-[#26a69a]/20 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Plus size={11} /> ADD
+        </button>
+
+        <button
+          type="button"
+          onClick={() => load()}
+          disabled={loading}
+          title="Refresh now"
+          className="text-gray-700 hover:text-gray-400 transition-colors disabled:opacity-40"
+        >
+          <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
+        </button>
+        {updatedStr && <span className="text-[10px] text-gray-700 font-mono">{updatedStr}</span>}
+      </form>
+
+      {error && (
+        <div className="px-5 py-1.5 border-b border-[#080808] bg-[#010101] shrink-0">
+          <span className="text-[11px] text-[#ef5350]">{error}</span>
+        </div>
+      )}
+
+      {/* ── Content ── */}
+      <div className="flex-1 overflow-auto">
+
+        {loading && rows.length === 0 && (
+          <div className="flex items-center justify-center h-full gap-3 text-gray-600 text-sm">
+            <RefreshCw size={15} className="animate-spin" /> Loading watchlist…
+          </div>
+        )}
+
+        {!loading && rows.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-full gap-3">
+            <p className="text-[#0d0d0d] text-5xl font-black tracking-[0.2em]">WATCH</p>
+            <p className="text-gray-700 text-sm">No tickers yet</p>
+            <p className="text-gray-800 text-xs">The news monitor alerts on catalysts and price thresholds for every ticker here</p>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <table className="w-full border-collapse text-sm min-w-[900px]">
+            <thead>
+              <tr className="bg-[#050505] border-b border-[#0f0f0f] sticky top-0 z-10 text-[10px] font-bold text-gray-600 uppercase tracking-widest">
+                <th className="px-3 py-2.5 text-left">SYMBOL</th>
+                <th className="px-3 py-2.5 text-left">LAST</th>
+                <th className="px-3 py-2.5 text-left">CHG %</th>
+                <th className="px-3 py-2.5 text-left">NOTE</th>
+                <th className="px-3 py-2.5 text-left" title="Telegram alert once per day when crossed">ALERT ≥ / ≤ / ±%</th>
+                <th className="px-3 py-2.5 text-left">LAST CATALYST</th>
+                <th className="w-20" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => {
+                const up      = r.changePct >= 0;
+                const color   = r.price > 0 ? (up ? '#26a69a' : '#ef5350') : '#444';
+                const cat     = r.lastCatalyst;
+                const catMeta = cat ? CAT_META[cat.category as NewsCategory] : null;
+                return (
+                  <tr key={r.symbol} className="border-b border-[#080808] hover:bg-[#070707] transition-colors group">
+
+                    <td className="px-3 py-2.5">
+                      <button
+                        onClick={() => router.push(`/?symbol=${r.symbol}&tf=1m`)}
+                        className="font-bold font-mono text-white text-[13px] tracking-wide hover:text-[#26a69a] transition-colors"
+                      >
+                        {r.symbol}
+                      </button>
+                    </td>
+
+                    <td className="px-3 py-2.5 font-mono text-white tabular-nums">
+                      {r.price > 0 ? `$${r.price.toFixed(2)}` : '—'}
+                    </td>
+
+                    <td className="px-3 py-2.5 font-mono font-bold tabular-nums" style={{ color }}>
+                      {r.price > 0 && r.prevClose > 0 ? `${up ? '+' : ''}${r.changePct.toFixed(2)}%` : '—'}
+                    </td>
+
+                    <td className="px-3 py-2.5">
+                      <EditCell
+                        value={r.note}
+                        placeholder="—"
+                        width="w-48"
+                        onCommit={v => handleEdit(r.symbol, 'note', v)}
+                      />
+                    </td>
+
+                    <td className="px-3 py-2.5">
+                      <div className="flex items-center gap-1.5">
+                        <EditCell numeric value={r.alertAbove}     prefix="≥$" onCommit={v => handleEdit(r.symbol, 'alertAbove', v)} />
+                        <EditCell numeric value={r.alertBelow}     prefix="≤$" onCommit={v => handleEdit(r.symbol, 'alertBelow', v)} />
+                        <EditCell numeric value={r.alertChangePct} prefix="±"  suffix="%" width="w-10" onCommit={v => handleEdit(r.symbol, 'alertChangePct', v)} />
+                      </div>
+                    </td>
+
+                    <td className="px-3 py-2.5 max-w-[360px]">
+                      {cat ? (
+                        <div className="flex items-center gap-1.5 min-w-0">
+                          {catMeta?.label && (
+                            <span className={`text-[7px] font-bold tracking-wider px-1 py-0.5 rounded border shrink-0 ${catMeta.cls}`}>
+                              {catMeta.label}
+                            </span>
+                          )}
+                          {cat.url ? (
+                            <a
+                              href={cat.url} target="_blank" rel="noopener noreferrer"
+                              className="text-[11px] text-gray-400 hover:text-gray-100 truncate transition-colors"
+                              title={cat.title}
+                            >{cat.title}</a>
+                          ) : (
+                            <span className="text-[11px] text-gray-400 truncate" title={cat.title}>{cat.title}</span>
+                          )}
+                          <span className="text-[9px] font-mono text-gray-600 tabular-nums shrink-0" suppressHydrationWarning>
+                            {timeAgo(cat.ts)}
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="text-[11px] text-gray-800">—</span>
+                      )}
+                    </td>
+
+                    <td className="px-3 py-2.5 w-20 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => router.push(`/?symbol=${r.symbol}&tf=1m`)}
+                        className="inline-flex items-center gap-0.5 text-[10px] text-gray-800 group-hover:text-[#26a69a] transition-colors"
+                      >
+                        CHART <ArrowUpRight size={10} />
+                      </button>
+                      <button
+                        onClick={() => handleRemove(r.symbol)}
+                        title={`Remove ${r.symbol}`}
+                        className="ml-2 text-gray-800 hover:text-[#ef5350] transition-colors align-middle"
+                      >
+                        <X size={12} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+interface Props {
+  isEtf:  boolean;
+  isAdr:  boolean;
+  isSpac: boolean;
+}
+
+const FLAGS = [
+  { key: 'isEtf',  label: 'ETF',  color: '#60a5fa' },
+  { key: 'isAdr',  label: 'ADR',  color: '#a78bfa' },
+  { key: 'isSpac', label: 'SPAC', color: '#f59e0b' },
+] as const;
+
+/** Small ETF / ADR / SPAC chips — renders nothing for a plain common stock */
+export default function AssetFlags(props: Props) {
+  const on = FLAGS.filter(f => props[f.key]);
+  if (!on.length) return null;
+
+  return (
+    <>
+      {on.map(f => (
+        <span
+          key={f.key}
+          className="px-1 rounded text-[9px] font-bold tracking-wider border"
+          style={{ color: f.color, borderColor: `${f.color}4d` }}
+        >
+          {f.label}
+        </span>
+      ))}
+    </>
+  );
+}
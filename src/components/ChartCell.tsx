@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo, FormEvent } from 'react';
+import dynamic from 'next/dynamic';
+import axios from 'axios';
+import type { IndicatorSettings } from '@/lib/indicators';
+
+const NxChart = dynamic(() => import('@/components/NxChart'), { ssr: false });
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  session: 'pre' | 'regular' | 'post';
+}
+
+interface ChartData {
+  symbol: string;
+  currentPrice: number;
+  previousClose: number;
+  preMarketPrice: number;
+  postMarketPrice: number;
+  lastDayHigh: number;
+  lastDayLow: number;
+  lastDayClose: number;
+  lastWeekHigh: number;
+  lastMonthHigh: number;
+  regularStart: number;
+  regularEnd: number;
+  candles: Candle[];
+}
+
+export type TF = '1m' | '1h' | '1d' | '1w' | '1mo';
+
+export interface CellState {
+  symbol: string;   // '' for an empty cell
+  tf:     TF;
+}
+
+interface Props {
+  cell: CellState;
+  focused: boolean;
+  linked: boolean;                       // scanner rows load into this cell
+  indicators: IndicatorSettings;
+  onFocus: () => void;
+  onChange: (next: CellState) => void;
+}
+
+const TIMEFRAMES: { label: string; value: TF }[] = [
+  { label: '1M', value: '1m'  },
+  { label: '1H', value: '1h'  },
+  { label: '1D', value: '1d'  },
+  { label: '1W', value: '1w'  },
+  { label: 'MO', value: '1mo' },
+];
+
+const INTRADAY: TF[] = ['1m', '1h'];
+const REFRESH_SEC = 10;
+
+// ── Cell ──────────────────────────────────────────────────────────────────────
+
+/**
+ * One chart of the grid on the chart page — its own symbol and timeframe,
+ * polled like the single chart (no trade stream, news or drawings).
+ */
+export default function ChartCell({ cell, focused, linked, indicators, onFocus, onChange }: Props) {
+  const [input, setInput]     = useState(cell.symbol);
+  const [data, setData]       = useState<ChartData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError]     = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  useEffect(() => setInput(cell.symbol), [cell.symbol]);
+
+  // Load on symbol / timeframe change, then refresh intraday charts
+  useEffect(() => {
+    setData(null);
+    setError(null);
+    if (!cell.symbol) return;
+
+    async function load(silent: boolean) {
+      const id = ++requestId.current;
+      if (!silent) setLoading(true);
+      try {
+        const { data: res } = await axios.get<ChartData>(`/api/chart?symbol=${cell.symbol}&tf=${cell.tf}`);
+        if (id === requestId.current) setData(res);
+      } catch (err: unknown) {
+        if (!silent && id === requestId.current) {
+          setError(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to load chart');
+        }
+      } finally {
+        if (!silent && id === requestId.current) setLoading(false);
+      }
+    }
+
+    load(false);
+    if (!INTRADAY.includes(cell.tf)) return;
+    const refresh = setInterval(() => load(true), REFRESH_SEC * 1000);
+    return () => clearInterval(refresh);
+  }, [cell.symbol, cell.tf]);
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const sym = input.trim().toUpperCase();
+    if (sym && sym !== cell.symbol) onChange({ ...cell, symbol: sym });
+  }
+
+  const intraday  = INTRADAY.includes(cell.tf);
+  const change    = data ? data.currentPrice - data.previousClose : 0;
+  const changePct = data?.previousClose ? (change / data.previousClose) * 100 : 0;
+  const isUp      = change >= 0;
+
+  // VWAP restarts every session — off on daily and longer bars, as on the single chart
+  const cellIndicators = useMemo(
+    () => (intraday ? indicators : { ...indicators, vwap: false }),
+    [indicators, intraday],
+  );
+
+  return (
+    <div
+      onMouseDown={onFocus}
+      className={`flex flex-col min-w-0 min-h-0 border ${focused ? 'border-[#26a69a]/40' : 'border-[#111]'}`}
+    >
+      {/* ── Cell header ── */}
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-[#111] shrink-0">
+        <form onSubmit={handleSubmit}>
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value.toUpperCase())}
+            placeholder="Ticker…"
+            maxLength={10}
+            className="w-20 px-1.5 py-0.5 rounded bg-[#0a0a0a] border border-[#1a1a1a] text-white text-xs placeholder-gray-700 focus:outline-none focus:border-[#26a69a]/50 font-mono uppercase"
+          />
+        </form>
+        <div className="flex items-center gap-0.5">
+          {TIMEFRAMES.map((t) => (
+            <button
+              key={t.value}
+              onClick={() => onChange({ ...cell, tf: t.value })}
+              className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${
+                cell.tf === t.value ? 'text-[#26a69a] bg-[#26a69a]/10' : 'text-gray-700 hover:text-gray-400'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        {data && (
+          <>
+            <span className="font-mono text-xs font-bold text-white">${data.currentPrice.toFixed(2)}</span>
+            <span className={`font-mono text-[10px] font-bold ${isUp ? 'text-[#26a69a]' : 'text-[#ef5350]'}`}>
+              {isUp ? '+' : ''}{changePct.toFixed(2)}%
+            </span>
+          </>
+        )}
+        {linked && (
+          <span className="ml-auto text-[9px] font-bold tracking-wider text-[#fbc02d] uppercase" title="Rows clicked on /scanner load here">
+            Scanner
+          </span>
+        )}
+      </div>
+
+      {/* ── Chart ── */}
+      <div className="flex-1 min-h-0 relative">
+        {!cell.symbol && (
+          <div className="absolute inset-0 flex items-center justify-center text-[11px] text-gray-800">Empty</div>
+        )}
+        {loading && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="w-4 h-4 border-2 border-[#26a69a]/30 border-t-[#26a69a] rounded-full animate-spin" />
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center px-3 text-center text-[11px] text-[#ef5350]">{error}</div>
+        )}
+        {data && data.candles.length > 0 && (
+          <NxChart
+            candles={data.candles}
+            regularStart={data.regularStart}
+            regularEnd={data.regularEnd}
+            closePrice={!intraday ? data.currentPrice : 0}
+            preMarketPrice={!intraday ? data.preMarketPrice : 0}
+            postMarketPrice={!intraday ? data.postMarketPrice : 0}
+            lastDayHigh={data.lastDayHigh}
+            lastDayLow={data.lastDayLow}
+            lastDayClose={data.lastDayClose}
+            lastWeekHigh={data.lastWeekHigh}
+            lastMonthHigh={data.lastMonthHigh}
+            indicators={cellIndicators}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
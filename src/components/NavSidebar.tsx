@@ -2,12 +2,13 @@
 
 import Link     from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LineChart, ScanLine, Newspaper } from 'lucide-react';
+import { LineChart, ScanLine, Newspaper, Star } from 'lucide-react';
 
 const NAV = [
-  { href: '/',        icon: LineChart,  label: 'Chart'   },
-  { href: '/scanner', icon: ScanLine,   label: 'Scanner' },
-  { href: '/news',    icon: Newspaper,  label: 'News'    },
+  { href: '/',          icon: LineChart,  label: 'Chart'     },
+  { href: '/scanner',   icon: ScanLine,   label: 'Scanner'   },
+  { href: '/news',      icon: Newspaper,  label: 'News'      },
+  { href: '/watchlist', icon: Star,       label: 'Watchlist' },
 ];
 
 export default function NavSidebar() {
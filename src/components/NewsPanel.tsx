@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import axios from 'axios';
+import type { NewsItem } from '@/lib/news-fetch';
+import { CAT_META, SENT_CLS } from '@/lib/news-meta';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+type SymbolNewsResponse = {
+  symbol: string;
+  items: NewsItem[];
+  sources: Record<string, number>;
+  total: number;
+  fetchedAt: number;
+};
+
+interface Props {
+  symbol: string;
+  /** Bumped by the chart page on every intraday refresh; news follows it */
+  refreshTick?: number;
+  /** Every load's items, for the chart's news markers */
+  onItems?: (items: NewsItem[]) => void;
+}
+
+// News is ~15 upstream requests per load — refresh at most this often even
+// though the chart ticks every 10 s.
+const MIN_REFRESH_MS = 60_000;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function fmtTime(unixSec: number): string {
+  return new Date(unixSec * 1000).toLocaleTimeString('en-US', {
+    timeZone: 'America/New_York',
+    hour:     '2-digit',
+    minute:   '2-digit',
+    hour12:   false,
+  });
+}
+
+function timeAgo(unixSec: number): string {
+  const diff = Math.floor(Date.now() / 1000) - unixSec;
+  if (diff < 60)    return `${diff}s`;
+  if (diff < 3600)  return `${Math.floor(diff / 60)}m`;
+  if (diff < 86400) return `${Math.floor(diff / 3600)}h`;
+  return `${Math.floor(diff / 86400)}d`;
+}
+
+// ── Row ───────────────────────────────────────────────────────────────────────
+
+function PanelRow({ item, isNew }: { item: NewsItem; isNew: boolean }) {
+  const catMeta = CAT_META[item.category];
+
+  return (
+    <a
+      href={item.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`block px-3 py-2 border-b border-[#0d0d0d] border-l-2 hover:bg-[#0f0f0f] group transition-colors ${
+        isNew ? 'border-l-[#26a69a] bg-[#26a69a]/5' : 'border-l-transparent'
+      }`}
+    >
+      <div className="flex items-center gap-1.5 mb-1">
+        <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${SENT_CLS[item.sentiment]}`} title={item.sentiment} />
+        {catMeta.label && (
+          <span className={`text-[7px] font-bold tracking-wider px-1 py-0.5 rounded border ${catMeta.cls}`}>
+            {catMeta.label}
+          </span>
+        )}
+        <span className="text-[9px] text-gray-700 truncate flex-1">{item.publisher}</span>
+        {item.publishedAt > 0 && (
+          <span className="text-[9px] font-mono text-gray-600 tabular-nums shrink-0" title={`${fmtTime(item.publishedAt)} ET`}>
+            {timeAgo(item.publishedAt)}
+          </span>
+        )}
+      </div>
+      <p className="text-[11px] leading-snug text-gray-400 group-hover:text-gray-100 transition-colors line-clamp-2">
+        {item.title}
+      </p>
+    </a>
+  );
+}
+
+// ── Panel ─────────────────────────────────────────────────────────────────────
+
+export default function NewsPanel({ symbol, refreshTick = 0, onItems }: Props) {
+  const [items,     setItems]     = useState<NewsItem[]>([]);
+  const [loading,   setLoading]   = useState(false);
+  const [error,     setError]     = useState<string | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+  const [newIds,    setNewIds]    = useState<Set<string>>(new Set());
+
+  const fetchingRef = useRef(false);
+  const requestId   = useRef(0);
+  const lastFetch   = useRef(0);
+  const seenIdsRef  = useRef<Set<string>>(new Set());
+  const symbolRef   = useRef(symbol);
+  symbolRef.current = symbol;
+
+  const doFetch = useCallback(async (sym: string, silent = false) => {
+    if (silent && fetchingRef.current) return;
+    const id = ++requestId.current;
+    fetchingRef.current = true;
+    lastFetch.current   = Date.now();
+    if (!silent) { setLoading(true); setError(null); }
+    try {
+      const { data } = await axios.get<SymbolNewsResponse>(
+        `/api/news/symbol?symbol=${encodeURIComponent(sym)}`,
+      );
+      // A newer request (e.g. symbol changed) superseded this one — drop it
+      if (id !== requestId.current) return;
+
+      const incoming = data.items ?? [];
+      const added    = incoming.filter(i => !seenIdsRef.current.has(i.id)).map(i => i.id);
+      if (silent && added.length > 0) {
+        setNewIds(new Set(added));
+        setTimeout(() => setNewIds(new Set()), 8_000);
+      }
+      seenIdsRef.current = new Set(incoming.map(i => i.id));
+      setItems(incoming);
+      setFetchedAt(data.fetchedAt);
+    } catch {
+      if (!silent && id === requestId.current) setError('Failed to load news');
+    } finally {
+      if (id === requestId.current) {
+        fetchingRef.current = false;
+        if (!silent) setLoading(false);
+      }
+    }
+  }, []);
+
+  // New symbol → fresh load
+  useEffect(() => {
+    seenIdsRef.current = new Set();
+    setItems([]);
+    setNewIds(new Set());
+    doFetch(symbol);
+  }, [symbol, doFetch]);
+
+  // Chart refresh tick → throttled silent reload
+  useEffect(() => {
+    if (!refreshTick) return;
+    if (Date.now() - lastFetch.current < MIN_REFRESH_MS) return;
+    doFetch(symbolRef.current, true);
+  }, [refreshTick, doFetch]);
+
+  useEffect(() => {
+    onItems?.(items);
+  }, [items, onItems]);
+
+  const pinned = items.filter(i => i.isPinned);
+  const others = items.filter(i => !i.isPinned);
+
+  const updatedStr = fetchedAt
+    ? new Date(fetchedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })
+    : null;
+
+  return (
+    <aside className="w-80 shrink-0 flex flex-col border-l border-[#111] bg-black overflow-hidden">
+
+      {/* ── Header ── */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-[#111] shrink-0">
+        <span className="text-[10px] font-black tracking-[0.2em] text-[#26a69a] uppercase">News</span>
+        <span className="text-[10px] font-mono font-bold text-white">{symbol}</span>
+        <span className="text-[10px] text-gray-700 font-mono">{items.length}</span>
+        <span className="flex-1" />
+        {updatedStr && <span className="text-[9px] text-gray-700 font-mono">{updatedStr}</span>}
+        <button
+          onClick={() => doFetch(symbol)}
+          disabled={loading}
+          className="text-gray-700 hover:text-gray-400 transition-colors disabled:opacity-40"
+          title="Refresh now"
+        >
+          <svg className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5">
+            <path d="M23 4v6h-6M1 20v-6h6" strokeLinecap="round" strokeLinejoin="round"/>
+            <path d="M3.51 9a9 9 0 0114.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0020.49 15" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+        </button>
+      </div>
+
+      {/* ── List ── */}
+      <div className="flex-1 overflow-y-auto">
+
+        {loading && items.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-32 gap-2">
+            <span className="w-4 h-4 border-2 border-[#26a69a]/30 border-t-[#26a69a] rounded-full animate-spin" />
+            <span className="text-[10px] text-gray-700">Fetching {symbol} news…</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center h-32">
+            <p className="text-[11px] text-[#ef5350]">{error}</p>
+          </div>
+        )}
+
+        {!loading && !error && items.length === 0 && (
+          <div className="flex items-center justify-center h-32">
+            <p className="text-[10px] text-gray-700">No recent news for {symbol}</p>
+          </div>
+        )}
+
+        {pinned.length > 0 && (
+          <>
+            <div className="px-3 py-1 bg-[#050505] border-b border-[#0d0d0d] text-[8px] font-bold tracking-widest text-amber-500/70 uppercase">
+              ⚡ Catalysts · {pinned.length}
+            </div>
+            {pinned.map(item => (
+              <PanelRow key={item.id} item={item} isNew={newIds.has(item.id)} />
+            ))}
+          </>
+        )}
+
+        {others.length > 0 && (
+          <>
+            <div className="px-3 py-1 bg-[#050505] border-b border-[#0d0d0d] text-[8px] font-bold tracking-widest text-gray-700 uppercase">
+              Latest · {others.length}
+            </div>
+            {others.map(item => (
+              <PanelRow key={item.id} item={item} isNew={newIds.has(item.id)} />
+            ))}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -1,18 +1,51 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   createChart,
+  createSeriesMarkers,
   CandlestickSeries,
   HistogramSeries,
+  LineSeries,
   ColorType,
   CrosshairMode,
+  LineStyle,
   IChartApi,
   ISeriesApi,
+  IPriceLine,
+  ISeriesMarkersPluginApi,
+  SeriesMarker,
+  ISeriesPrimitive,
+  IPrimitivePaneView,
+  IPrimitivePaneRenderer,
+  SeriesType,
   CandlestickData,
   HistogramData,
+  MouseEventParams,
+  Logical,
   Time,
 } from 'lightweight-charts';
+import { diffCandles } from '@/lib/live-bar';
+import { sessionLevels, roundLevels, sessionBands, type SessionBand } from '@/lib/key-levels';
+import {
+  timeToLogical,
+  logicalToTime,
+  segmentDistance,
+  type Annotation,
+  type AnchorPoint,
+  type DrawingTool,
+} from '@/lib/annotations';
+import { newsMarkers, type NewsMarker } from '@/lib/news-markers';
+import { CAT_META, CATEGORY_EMOJI } from '@/lib/news-meta';
+import type { NewsItem } from '@/lib/news-fetch';
+import {
+  vwap,
+  ema,
+  volumeProfile,
+  type IndicatorSettings,
+  type LinePoint,
+  type VolumeProfile,
+} from '@/lib/indicators';
 
 interface Candle {
   time: number;       // unix seconds
@@ -28,22 +61,618 @@ interface Props {
   candles: Candle[];
   regularStart: number;
   regularEnd: number;
+  closePrice?: number;       // 0 = hidden (intraday shows it in the candles)
+  preMarketPrice?: number;
+  postMarketPrice?: number;
+  lastDayHigh?: number;
+  lastDayLow?: number;
+  lastDayClose?: number;
+  lastWeekHigh?: number;
+  lastMonthHigh?: number;
+  liveBars?: Candle[];       // streamed updates to the newest bars, oldest first
+  indicators?: IndicatorSettings;
+  annotations?: Annotation[];
+  tool?: DrawingTool | 'erase' | null;   // what a click on the chart does
+  onAnnotationsChange?: (next: Annotation[]) => void;
+  news?: NewsItem[];         // headlines to mark on the bars they landed in
+}
+
+const NO_LIVE_BARS: Candle[] = [];
+
+const NO_ANNOTATIONS: Annotation[] = [];
+
+const NO_NEWS: NewsItem[] = [];
+
+const NO_INDICATORS: IndicatorSettings = { vwap: false, vwapAnchor: 'regular', emas: [], volumeProfile: false };
+
+// ── Bar colours — by session, then direction ──────────────────────────────────
+
+function candleBar(c: Candle): CandlestickData<Time> {
+  const body =
+    c.session === 'pre'
+      ? c.close >= c.open ? '#7c3aed' : '#5b21b6'
+      : c.session === 'post'
+      ? c.close >= c.open ? '#d97706' : '#b45309'
+      : c.close >= c.open ? '#00e5ff' : '#ff6b35';
+  return {
+    time: c.time as Time,
+    open: c.open,
+    high: c.high,
+    low: c.low,
+    close: c.close,
+    color: body,
+    borderColor: body,
+    wickColor:
+      c.session === 'pre'
+        ? '#7c3aed'
+        : c.session === 'post'
+        ? '#d97706'
+        : c.close >= c.open ? '#00e5ff' : '#ff6b35',
+  };
+}
+
+function volumeBar(c: Candle): HistogramData<Time> {
+  return {
+    time: c.time as Time,
+    value: c.volume,
+    color:
+      c.session === 'pre'
+        ? '#3b1f6a'
+        : c.session === 'post'
+        ? '#44290a'
+        : c.close >= c.open ? '#003d4d' : '#4d1f0a',
+  };
+}
+
+// ── Indicators ────────────────────────────────────────────────────────────────
+// Calculations live in src/lib/indicators.ts; this only draws them.
+
+const LINE_COLORS: Record<string, string> = {
+  vwap:   '#fbc02d',
+  ema9:   '#ec407a',
+  ema20:  '#5c6bc0',
+  ema200: '#9e9e9e',
+};
+
+/** Overlay lines by key (vwap, ema9, …) for the enabled indicators */
+function indicatorLines(candles: Candle[], settings: IndicatorSettings): Record<string, LinePoint[]> {
+  const lines: Record<string, LinePoint[]> = {};
+  if (settings.vwap) lines.vwap = vwap(candles, settings.vwapAnchor);
+  for (const period of settings.emas) lines[`ema${period}`] = ema(candles, period);
+  return lines;
+}
+
+// The volume profile is a series primitive — horizontal bars along the right
+// edge of the pane, on the candles' price scale
+
+const PROFILE_WIDTH = 0.25;   // longest row, as a share of the pane width
+
+function createProfilePrimitive() {
+  let series: ISeriesApi<SeriesType> | null = null;
+  let requestUpdate = () => {};
+  let profile: VolumeProfile | null = null;
+
+  const renderer: IPrimitivePaneRenderer = {
+    draw(target) {
+      const s = series;
+      const p = profile;
+      if (!s || !p) return;
+      target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+        const max = Math.max(...p.rows.map((r) => r.volume));
+        if (!max) return;
+        p.rows.forEach((row, i) => {
+          const top    = s.priceToCoordinate(row.high);
+          const bottom = s.priceToCoordinate(row.low);
+          if (top === null || bottom === null) return;
+          const width = (row.volume / max) * mediaSize.width * PROFILE_WIDTH;
+          ctx.fillStyle =
+            i === p.poc
+              ? 'rgba(251, 192, 45, 0.35)'
+              : row.low >= p.valueLow && row.high <= p.valueHigh
+              ? 'rgba(120, 144, 156, 0.28)'
+              : 'rgba(120, 144, 156, 0.14)';
+          ctx.fillRect(mediaSize.width - width, top, width, Math.max(1, bottom - top - 1));
+        });
+      });
+    },
+  };
+  const views: IPrimitivePaneView[] = [{ zOrder: () => 'bottom', renderer: () => renderer }];
+
+  const primitive: ISeriesPrimitive<Time> = {
+    attached(param) {
+      series        = param.series;
+      requestUpdate = param.requestUpdate;
+    },
+    detached() {
+      series = null;
+    },
+    paneViews: () => views,
+  };
+
+  return {
+    primitive,
+    set(next: VolumeProfile | null) {
+      profile = next;
+      requestUpdate();
+    },
+  };
+}
+
+// ── Key levels ────────────────────────────────────────────────────────────────
+// Labelled price lines: the route's prior-period levels, today's pre-market
+// range and open (src/lib/key-levels.ts) and the nearest round numbers.
+
+type LevelInputs = Required<Pick<Props,
+  | 'regularStart' | 'regularEnd' | 'closePrice' | 'preMarketPrice' | 'postMarketPrice'
+  | 'lastDayHigh' | 'lastDayLow' | 'lastDayClose' | 'lastWeekHigh' | 'lastMonthHigh'>>;
+
+interface Level {
+  price: number;
+  color: string;
+  title: string;
+  style: LineStyle;
+}
+
+/** Price lines by key; levels that are unknown (0) are left out */
+function keyLevels(p: LevelInputs, candles: Candle[]): Record<string, Level> {
+  const today = sessionLevels(candles, p);
+  const last  = candles.length ? candles[candles.length - 1].close : 0;
+
+  const levels: Record<string, Level> = {
+    close:     { price: p.closePrice,      color: '#666666', title: 'Close',   style: LineStyle.Dotted },
+    pm:        { price: p.preMarketPrice,  color: '#7c3aed', title: 'PM',      style: LineStyle.Dotted },
+    ah:        { price: p.postMarketPrice, color: '#d97706', title: 'AH',      style: LineStyle.Dotted },
+    dayHigh:   { price: p.lastDayHigh,     color: '#26a69a', title: 'D-High',  style: LineStyle.Dashed },
+    dayLow:    { price: p.lastDayLow,      color: '#ef5350', title: 'D-Low',   style: LineStyle.Dashed },
+    dayClose:  { price: p.lastDayClose,    color: '#9e9e9e', title: 'D-Close', style: LineStyle.Dashed },
+    weekHigh:  { price: p.lastWeekHigh,    color: '#42a5f5', title: 'W-High',  style: LineStyle.Dashed },
+    monthHigh: { price: p.lastMonthHigh,   color: '#ab47bc', title: 'M-High',  style: LineStyle.Dashed },
+    preHigh:   { price: today.preHigh,     color: '#7c3aed', title: 'PM-High', style: LineStyle.Solid },
+    preLow:    { price: today.preLow,      color: '#7c3aed', title: 'PM-Low',  style: LineStyle.Solid },
+    open:      { price: today.open,        color: '#e0e0e0', title: 'Open',    style: LineStyle.Solid },
+  };
+  for (const r of roundLevels(last)) {
+    levels[`round${r.price}`] = {
+      price: r.price,
+      color: r.whole ? '#2a2a2a' : '#1a1a1a',
+      title: '',
+      style: r.whole ? LineStyle.Solid : LineStyle.Dotted,
+    };
+  }
+  for (const key of Object.keys(levels)) {
+    if (levels[key].price <= 0) delete levels[key];
+  }
+  return levels;
 }
 
-export default function NxChart({ candles, regularStart, regularEnd }: Props) {
+// Pre / post-market runs are shaded behind the candles — another primitive
+
+const BAND_COLORS: Record<SessionBand['session'], string> = {
+  pre:  'rgba(124, 58, 237, 0.07)',
+  post: 'rgba(217, 119, 6, 0.07)',
+};
+
+function createBandsPrimitive() {
+  let chart: IChartApi | null = null;
+  let requestUpdate = () => {};
+  let bands: SessionBand[] = [];
+
+  const renderer: IPrimitivePaneRenderer = {
+    draw() {},
+    drawBackground(target) {
+      const c = chart;
+      if (!c || !bands.length) return;
+      const timeScale = c.timeScale();
+      const half      = timeScale.options().barSpacing / 2;
+      target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+        for (const band of bands) {
+          const from = timeScale.timeToCoordinate(band.from as Time);
+          const to   = timeScale.timeToCoordinate(band.to as Time);
+          if (from === null || to === null) continue;
+          ctx.fillStyle = BAND_COLORS[band.session];
+          ctx.fillRect(from - half, 0, to - from + half * 2, mediaSize.height);
+        }
+      });
+    },
+  };
+  const views: IPrimitivePaneView[] = [{ zOrder: () => 'bottom', renderer: () => renderer }];
+
+  const primitive: ISeriesPrimitive<Time> = {
+    attached(param) {
+      chart         = param.chart as IChartApi;
+      requestUpdate = param.requestUpdate;
+    },
+    detached() {
+      chart = null;
+    },
+    paneViews: () => views,
+  };
+
+  return {
+    primitive,
+    set(next: SessionBand[]) {
+      bands = next;
+      requestUpdate();
+    },
+  };
+}
+
+// ── Drawings ──────────────────────────────────────────────────────────────────
+// The user's annotations, one more primitive. Anchors are placed by bar index
+// (src/lib/annotations.ts) so they line up on any timeframe.
+
+const DRAW_COLOR = '#29b6f6';
+const HIT_PX     = 6;
+
+function createDrawingsPrimitive(bars: () => Candle[]) {
+  let chart: IChartApi | null = null;
+  let series: ISeriesApi<SeriesType> | null = null;
+  let requestUpdate = () => {};
+  let annotations: Annotation[] = [];
+  let draft: Annotation | null = null;        // trend line / rectangle being placed
+  const textBoxes = new Map<string, { x: number; y: number; w: number; h: number }>();
+
+  const xOf = (t: number) => {
+    const logical = chart ? timeToLogical(bars(), t) : null;
+    return logical === null ? null : chart!.timeScale().logicalToCoordinate(logical as Logical);
+  };
+  const yOf = (price: number) => series?.priceToCoordinate(price) ?? null;
+  const pointOf = (p: AnchorPoint) => {
+    const x = xOf(p.time);
+    const y = yOf(p.price);
+    return x === null || y === null ? null : { x, y };
+  };
+
+  function drawOne(ctx: CanvasRenderingContext2D, a: Annotation, width: number) {
+    if (a.kind === 'hline') {
+      const y = yOf(a.price);
+      if (y === null) return;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.fillText(a.price.toFixed(2), 4, y - 3);
+      return;
+    }
+    if (a.kind === 'text') {
+      const p = pointOf(a.at);
+      if (!p) return;
+      const w = ctx.measureText(a.text).width + 8;
+      textBoxes.set(a.id, { x: p.x, y: p.y - 16, w, h: 16 });
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+      ctx.fillRect(p.x, p.y - 16, w, 16);
+      ctx.fillStyle = DRAW_COLOR;
+      ctx.fillText(a.text, p.x + 4, p.y - 4);
+      return;
+    }
+    const from = pointOf(a.from);
+    const to   = pointOf(a.to);
+    if (!from || !to) return;
+    if (a.kind === 'trend') {
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    } else {
+      ctx.fillStyle = 'rgba(41, 182, 246, 0.08)';
+      ctx.fillRect(from.x, from.y, to.x - from.x, to.y - from.y);
+      ctx.strokeRect(from.x, from.y, to.x - from.x, to.y - from.y);
+    }
+  }
+
+  const renderer: IPrimitivePaneRenderer = {
+    draw(target) {
+      if (!chart || !series) return;
+      target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+        textBoxes.clear();
+        ctx.lineWidth = 1;
+        ctx.font      = '11px sans-serif';
+        for (const a of draft ? [...annotations, draft] : annotations) {
+          ctx.strokeStyle = DRAW_COLOR;
+          ctx.fillStyle   = DRAW_COLOR;
+          ctx.setLineDash(a === draft ? [4, 4] : []);
+          drawOne(ctx, a, mediaSize.width);
+        }
+        ctx.setLineDash([]);
+      });
+    },
+  };
+  const views: IPrimitivePaneView[] = [{ zOrder: () => 'top', renderer: () => renderer }];
+
+  const primitive: ISeriesPrimitive<Time> = {
+    attached(param) {
+      chart         = param.chart as IChartApi;
+      series        = param.series;
+      requestUpdate = param.requestUpdate;
+    },
+    detached() {
+      chart  = null;
+      series = null;
+    },
+    paneViews: () => views,
+  };
+
+  return {
+    primitive,
+    set(next: Annotation[], nextDraft: Annotation | null = null) {
+      annotations = next;
+      draft       = nextDraft;
+      requestUpdate();
+    },
+    /** Id of the topmost annotation under (x, y), for the eraser */
+    hit(x: number, y: number): string | null {
+      for (let i = annotations.length - 1; i >= 0; i--) {
+        const a = annotations[i];
+        if (a.kind === 'hline') {
+          const ly = yOf(a.price);
+          if (ly !== null && Math.abs(ly - y) <= HIT_PX) return a.id;
+        } else if (a.kind === 'text') {
+          const box = textBoxes.get(a.id);
+          if (box && x >= box.x && x <= box.x + box.w && y >= box.y && y <= box.y + box.h) return a.id;
+        } else {
+          const from = pointOf(a.from);
+          const to   = pointOf(a.to);
+          if (!from || !to) continue;
+          if (a.kind === 'trend' && segmentDistance(x, y, from.x, from.y, to.x, to.y) <= HIT_PX) return a.id;
+          if (a.kind === 'rect'
+            && x >= Math.min(from.x, to.x) - HIT_PX && x <= Math.max(from.x, to.x) + HIT_PX
+            && y >= Math.min(from.y, to.y) - HIT_PX && y <= Math.max(from.y, to.y) + HIT_PX) return a.id;
+        }
+      }
+      return null;
+    },
+  };
+}
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+// ── News ──────────────────────────────────────────────────────────────────────
+// Series markers at the bars headlines landed in (src/lib/news-markers.ts):
+// bullish below the bar, bearish and neutral above it.
+
+const NEWS_ID       = 'news:';
+const TOOLTIP_WIDTH = 288;
+
+function newsMarker(m: NewsMarker): SeriesMarker<Time> {
+  const { category, sentiment } = m.lead;
+  const label = CAT_META[category].label;
+  return {
+    id:       `${NEWS_ID}${m.time}`,
+    time:     m.time as Time,
+    position: sentiment === 'bullish' ? 'belowBar' : 'aboveBar',
+    shape:    sentiment === 'bullish' ? 'arrowUp' : sentiment === 'bearish' ? 'arrowDown' : 'circle',
+    color:    sentiment === 'bullish' ? '#26a69a' : sentiment === 'bearish' ? '#ef5350' : '#757575',
+    text:     `${CATEGORY_EMOJI[category]}${label ? ` ${label}` : ''}${m.items.length > 1 ? ` +${m.items.length - 1}` : ''}`,
+  };
+}
+
+function fmtNewsTime(unixSec: number): string {
+  return new Date(unixSec * 1000).toLocaleString('en-US', {
+    timeZone: 'America/New_York',
+    month:    'short',
+    day:      'numeric',
+    hour:     '2-digit',
+    minute:   '2-digit',
+    hour12:   false,
+  });
+}
+
+/**
+ * Draw `bars` (oldest first) over `shown` in place — edits to existing bars
+ * and bars after the newest. Returns the candles now on the chart.
+ */
+function applyBars(
+  candleSeries: ISeriesApi<'Candlestick'>,
+  volumeSeries: ISeriesApi<'Histogram'>,
+  shown:        Candle[],
+  bars:         Candle[],
+): Candle[] {
+  const out = [...shown];
+  for (const c of bars) {
+    const newest = out.length ? out[out.length - 1].time : -Infinity;
+    const at     = c.time > newest ? out.length : out.findLastIndex((s) => s.time === c.time);
+    if (at < 0) continue;   // a new bar mid-history can't be drawn in place
+    const historical = at < out.length - 1;
+    candleSeries.update(candleBar(c), historical);
+    volumeSeries.update(volumeBar(c), historical);
+    out[at] = c;
+  }
+  return out;
+}
+
+export default function NxChart({
+  candles,
+  regularStart,
+  regularEnd,
+  closePrice      = 0,
+  preMarketPrice  = 0,
+  postMarketPrice = 0,
+  lastDayHigh     = 0,
+  lastDayLow      = 0,
+  lastDayClose    = 0,
+  lastWeekHigh    = 0,
+  lastMonthHigh   = 0,
+  liveBars        = NO_LIVE_BARS,
+  indicators      = NO_INDICATORS,
+  annotations     = NO_ANNOTATIONS,
+  tool            = null,
+  onAnnotationsChange,
+  news            = NO_NEWS,
+}: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
   const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const shownRef = useRef<Candle[]>([]);            // what the series currently draw
+  const linesRef = useRef(new Map<string, ISeriesApi<'Line'>>());
+  const profileRef = useRef<ReturnType<typeof createProfilePrimitive> | null>(null);
+  const indicatorsRef = useRef(indicators);
+  const bandsRef = useRef<ReturnType<typeof createBandsPrimitive> | null>(null);
+  const priceLinesRef = useRef(new Map<string, IPriceLine>());
+  const levelInputs = useMemo<LevelInputs>(() => ({
+    regularStart, regularEnd, closePrice, preMarketPrice, postMarketPrice,
+    lastDayHigh, lastDayLow, lastDayClose, lastWeekHigh, lastMonthHigh,
+  }), [
+    regularStart, regularEnd, closePrice, preMarketPrice, postMarketPrice,
+    lastDayHigh, lastDayLow, lastDayClose, lastWeekHigh, lastMonthHigh,
+  ]);
+  const levelsRef = useRef(levelInputs);
+  const drawingsRef = useRef<ReturnType<typeof createDrawingsPrimitive> | null>(null);
+  const annotationsRef = useRef(annotations);
+  const toolRef = useRef(tool);
+  const draftRef = useRef<AnchorPoint | null>(null);   // first click of a trend line / rectangle
+  const onChangeRef = useRef(onAnnotationsChange);
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  const newsRef = useRef(news);
+  const newsMarkersRef = useRef(new Map<string, NewsMarker>());   // by marker id
+  const [hovered, setHovered] = useState<{ marker: NewsMarker; left: number; top: number } | null>(null);
 
-  useEffect(() => {
-    if (!containerRef.current || candles.length === 0) return;
+  // Recompute the overlays from the drawn candles — cheap next to a redraw,
+  // so it runs after every change. The draw functions read only refs, so
+  // they are stable across renders.
+  const drawIndicators = useCallback(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const settings = indicatorsRef.current;
+    const wanted   = indicatorLines(shownRef.current, settings);
 
-    // Destroy previous chart if re-rendering with new data
-    if (chartRef.current) {
-      chartRef.current.remove();
-      chartRef.current = null;
+    for (const [key, series] of linesRef.current) {
+      if (key in wanted) continue;
+      chart.removeSeries(series);
+      linesRef.current.delete(key);
     }
+    for (const [key, points] of Object.entries(wanted)) {
+      let series = linesRef.current.get(key);
+      if (!series) {
+        series = chart.addSeries(LineSeries, {
+          color: LINE_COLORS[key],
+          lineWidth: key === 'vwap' ? 2 : 1,
+          priceLineVisible: false,
+          lastValueVisible: false,
+          crosshairMarkerVisible: false,
+        });
+        linesRef.current.set(key, series);
+      }
+      series.setData(points.map((p) => ({ time: p.time as Time, value: p.value })));
+    }
+
+    profileRef.current?.set(settings.volumeProfile ? volumeProfile(shownRef.current) : null);
+  }, []);
+
+  // Key levels and session bands follow the drawn candles too — lines are
+  // moved in place rather than recreated
+  const drawLevels = useCallback(() => {
+    const candleSeries = candleSeriesRef.current;
+    if (!candleSeries) return;
+    const wanted = keyLevels(levelsRef.current, shownRef.current);
+    const lines  = priceLinesRef.current;
+
+    for (const [key, line] of lines) {
+      if (key in wanted) continue;
+      candleSeries.removePriceLine(line);
+      lines.delete(key);
+    }
+    for (const [key, l] of Object.entries(wanted)) {
+      const line = lines.get(key);
+      if (line) {
+        if (line.options().price !== l.price) line.applyOptions({ price: l.price });
+        continue;
+      }
+      lines.set(key, candleSeries.createPriceLine({
+        price: l.price,
+        color: l.color,
+        lineWidth: 1,
+        lineStyle: l.style,
+        axisLabelVisible: l.title !== '',
+        title: l.title,
+      }));
+    }
+
+    bandsRef.current?.set(sessionBands(shownRef.current));
+  }, []);
+
+  // News markers are keyed to bar times, so they follow the candles too
+  const drawNews = useCallback(() => {
+    const markers = markersRef.current;
+    if (!markers) return;
+    const placed = newsMarkers(shownRef.current, newsRef.current);
+    newsMarkersRef.current = new Map(placed.map((m) => [`${NEWS_ID}${m.time}`, m]));
+    markers.setMarkers(placed.map(newsMarker));
+  }, []);
+
+  const newsAt = (param: MouseEventParams<Time>) =>
+    typeof param.hoveredObjectId === 'string' ? newsMarkersRef.current.get(param.hoveredObjectId) ?? null : null;
+
+  // Drawing — clicks place annotations with the active tool. Handlers only
+  // read refs, so the ones subscribed at mount stay current.
+  function anchorAt(param: MouseEventParams<Time>): AnchorPoint | null {
+    const price = param.point ? candleSeriesRef.current?.coordinateToPrice(param.point.y) : null;
+    const time  = param.logical === undefined ? null : logicalToTime(shownRef.current, param.logical);
+    return price && price > 0 && time !== null ? { time: Math.round(time), price } : null;
+  }
+
+  function commitAnnotations(next: Annotation[]) {
+    annotationsRef.current = next;
+    drawingsRef.current?.set(next);
+    onChangeRef.current?.(next);
+  }
+
+  function handleClick(param: MouseEventParams<Time>) {
+    const active = toolRef.current;
+    if (!active) {
+      const marker = newsAt(param);
+      if (marker) window.open(marker.lead.url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    if (!param.point) return;
+    const current = annotationsRef.current;
+
+    if (active === 'erase') {
+      const id = drawingsRef.current?.hit(param.point.x, param.point.y);
+      if (id) commitAnnotations(current.filter((a) => a.id !== id));
+      return;
+    }
+    const at = anchorAt(param);
+    if (!at) return;
+    if (active === 'hline') {
+      commitAnnotations([...current, { id: newId(), kind: 'hline', price: at.price }]);
+    } else if (active === 'text') {
+      const text = window.prompt('Note')?.trim();
+      if (text) commitAnnotations([...current, { id: newId(), kind: 'text', at, text }]);
+    } else if (!draftRef.current) {
+      draftRef.current = at;
+    } else {
+      const from = draftRef.current;
+      draftRef.current = null;
+      commitAnnotations([...current, { id: newId(), kind: active, from, to: at }]);
+    }
+  }
+
+  // Rubber-band preview between the first click and the pointer
+  function handleMove(param: MouseEventParams<Time>) {
+    const marker = newsAt(param);
+    const point  = param.point;
+    const width  = containerRef.current?.clientWidth ?? 0;
+    setHovered((cur) =>
+      marker && point
+        ? cur?.marker === marker
+          ? cur
+          // The tooltip flips left near the price scale
+          : { marker, left: point.x + TOOLTIP_WIDTH + 30 > width ? point.x - TOOLTIP_WIDTH - 14 : point.x + 14, top: point.y + 14 }
+        : null,
+    );
+
+    const active = toolRef.current;
+    const from   = draftRef.current;
+    if (!from || (active !== 'trend' && active !== 'rect')) return;
+    const to = anchorAt(param);
+    if (to) drawingsRef.current?.set(annotationsRef.current, { id: 'draft', kind: active, from, to });
+  }
+
+  // Chart and series — created once; data changes below are applied in
+  // place so zoom, scroll and crosshair survive every refresh
+  useEffect(() => {
+    if (!containerRef.current) return;
 
     const chart = createChart(containerRef.current, {
       layout: {
@@ -77,7 +706,7 @@ export default function NxChart({ candles, regularStart, regularEnd }: Props) {
     chartRef.current = chart;
 
     // Candlestick series
-    const candleSeries = chart.addSeries(CandlestickSeries, {
+    candleSeriesRef.current = chart.addSeries(CandlestickSeries, {
       upColor: '#00e5ff',
       downColor: '#ff6b35',
       borderUpColor: '#00e5ff',
@@ -85,10 +714,9 @@ export default function NxChart({ candles, regularStart, regularEnd }: Props) {
       wickUpColor: '#00e5ff',
       wickDownColor: '#ff6b35',
     });
-    candleSeriesRef.current = candleSeries;
 
     // Volume series (bottom pane via price scale)
-    const volumeSeries = chart.addSeries(HistogramSeries, {
+    volumeSeriesRef.current = chart.addSeries(HistogramSeries, {
       color: '#1a1a1a',
       priceFormat: { type: 'volume' },
       priceScaleId: 'volume',
@@ -97,63 +725,24 @@ export default function NxChart({ candles, regularStart, regularEnd }: Props) {
       scaleMargins: { top: 0.85, bottom: 0 },
       borderVisible: false,
     });
-    volumeSeriesRef.current = volumeSeries;
-
-    // Colour each candle by session
-    const candleData: CandlestickData<Time>[] = candles.map((c) => ({
-      time: c.time as Time,
-      open: c.open,
-      high: c.high,
-      low: c.low,
-      close: c.close,
-      color:
-        c.session === 'pre'
-          ? c.close >= c.open ? '#7c3aed' : '#5b21b6'
-          : c.session === 'post'
-          ? c.close >= c.open ? '#d97706' : '#b45309'
-          : c.close >= c.open ? '#00e5ff' : '#ff6b35',
-      borderColor:
-        c.session === 'pre'
-          ? c.close >= c.open ? '#7c3aed' : '#5b21b6'
-          : c.session === 'post'
-          ? c.close >= c.open ? '#d97706' : '#b45309'
-          : c.close >= c.open ? '#00e5ff' : '#ff6b35',
-      wickColor:
-        c.session === 'pre'
-          ? '#7c3aed'
-          : c.session === 'post'
-          ? '#d97706'
-          : c.close >= c.open ? '#00e5ff' : '#ff6b35',
-    }));
-
-    const volumeData: HistogramData<Time>[] = candles.map((c) => ({
-      time: c.time as Time,
-      value: c.volume,
-      color:
-        c.session === 'pre'
-          ? '#3b1f6a'
-          : c.session === 'post'
-          ? '#44290a'
-          : c.close >= c.open ? '#003d4d' : '#4d1f0a',
-    }));
-
-    candleSeries.setData(candleData);
-    volumeSeries.setData(volumeData);
-
-    // Draw vertical lines at regular session open/close
-    if (regularStart && regularEnd) {
-      // session open line
-      candleSeries.createPriceLine({
-        price: 0,
-        color: 'transparent',
-        lineWidth: 1,
-        lineStyle: 0,
-        axisLabelVisible: false,
-        title: '',
-      });
-    }
 
-    chart.timeScale().fitContent();
+    const profile = createProfilePrimitive();
+    candleSeriesRef.current.attachPrimitive(profile.primitive);
+    profileRef.current = profile;
+
+    const bands = createBandsPrimitive();
+    candleSeriesRef.current.attachPrimitive(bands.primitive);
+    bandsRef.current = bands;
+
+    const drawings = createDrawingsPrimitive(() => shownRef.current);
+    candleSeriesRef.current.attachPrimitive(drawings.primitive);
+    drawings.set(annotationsRef.current);
+    drawingsRef.current = drawings;
+
+    markersRef.current = createSeriesMarkers(candleSeriesRef.current, []);
+
+    chart.subscribeClick(handleClick);
+    chart.subscribeCrosshairMove(handleMove);
 
     // Responsive resize
     const ro = new ResizeObserver(() => {
@@ -166,12 +755,123 @@ export default function NxChart({ candles, regularStart, regularEnd }: Props) {
     });
     ro.observe(containerRef.current);
 
+    const lines      = linesRef.current;
+    const priceLines = priceLinesRef.current;
     return () => {
       ro.disconnect();
       chart.remove();
       chartRef.current = null;
+      candleSeriesRef.current = null;
+      volumeSeriesRef.current = null;
+      shownRef.current = [];
+      lines.clear();
+      priceLines.clear();
+      profileRef.current = null;
+      bandsRef.current = null;
+      drawingsRef.current = null;
+      draftRef.current = null;
+      markersRef.current = null;
+      newsMarkersRef.current.clear();
     };
-  }, [candles, regularStart, regularEnd]);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Candles — diffed against what is drawn. Only the first load fits the
+  // view; a full redraw keeps the bars the user was looking at.
+  useEffect(() => {
+    const chart = chartRef.current;
+    const candleSeries = candleSeriesRef.current;
+    const volumeSeries = volumeSeriesRef.current;
+    if (!chart || !candleSeries || !volumeSeries || candles.length === 0) return;
+
+    const diff = diffCandles(shownRef.current, candles);
+    if (diff.kind === 'update') {
+      shownRef.current = applyBars(candleSeries, volumeSeries, shownRef.current, diff.bars);
+    } else {
+      const range = shownRef.current.length ? chart.timeScale().getVisibleLogicalRange() : null;
+      candleSeries.setData(candles.map(candleBar));
+      volumeSeries.setData(candles.map(volumeBar));
+      shownRef.current = candles;
+      if (range) chart.timeScale().setVisibleLogicalRange(range);
+      else       chart.timeScale().fitContent();
+    }
+    drawIndicators();
+    drawLevels();
+    drawNews();
+  }, [candles, drawIndicators, drawLevels, drawNews]);
+
+  // Streamed trades — the newest bars update in place (or one is appended)
+  useEffect(() => {
+    const candleSeries = candleSeriesRef.current;
+    const volumeSeries = volumeSeriesRef.current;
+    if (!candleSeries || !volumeSeries || !liveBars.length) return;
+    shownRef.current = applyBars(candleSeries, volumeSeries, shownRef.current, liveBars);
+    drawIndicators();
+    drawLevels();
+    drawNews();
+  }, [liveBars, drawIndicators, drawLevels, drawNews]);
+
+  // Indicator toggles
+  useEffect(() => {
+    indicatorsRef.current = indicators;
+    drawIndicators();
+  }, [indicators, drawIndicators]);
+
+  // Level inputs from the route — prior-period levels and session bounds
+  useEffect(() => {
+    levelsRef.current = levelInputs;
+    drawLevels();
+  }, [levelInputs, drawLevels]);
+
+  // Annotations from the page (loaded for a symbol, or echoed back after an edit)
+  useEffect(() => {
+    annotationsRef.current = annotations;
+    drawingsRef.current?.set(annotations);
+  }, [annotations]);
+
+  useEffect(() => {
+    onChangeRef.current = onAnnotationsChange;
+  }, [onAnnotationsChange]);
+
+  useEffect(() => {
+    newsRef.current = news;
+    drawNews();
+  }, [news, drawNews]);
+
+  // Switching tools drops a half-placed drawing
+  useEffect(() => {
+    toolRef.current  = tool;
+    draftRef.current = null;
+    drawingsRef.current?.set(annotationsRef.current);
+  }, [tool]);
+
+  return (
+    <div className="relative w-full h-full">
+      <div ref={containerRef} className="w-full h-full" />
 
-  return <div ref={containerRef} className="w-full h-full" />;
+      {/* Headlines under the hovered news marker — click the marker to open the lead one */}
+      {hovered && (
+        <div
+          className="absolute z-10 pointer-events-none rounded border border-[#222] bg-black/90 px-2.5 py-2 space-y-1.5"
+          style={{ left: hovered.left, top: hovered.top, width: TOOLTIP_WIDTH }}
+        >
+          {hovered.marker.items.slice(0, 5).map((item) => (
+            <div key={item.id}>
+              <div className="flex items-center gap-1.5 text-[9px] text-gray-600">
+                <span>{CATEGORY_EMOJI[item.category]}</span>
+                <span className="font-bold uppercase">{CAT_META[item.category].label || item.category}</span>
+                <span className="truncate flex-1">{item.publisher}</span>
+                <span className="font-mono shrink-0">{fmtNewsTime(item.publishedAt)}</span>
+              </div>
+              <p className={`text-[11px] leading-snug line-clamp-2 ${item === hovered.marker.lead ? 'text-gray-100' : 'text-gray-400'}`}>
+                {item.title}
+              </p>
+            </div>
+          ))}
+          {hovered.marker.items.length > 5 && (
+            <p className="text-[9px] text-gray-700">+{hovered.marker.items.length - 5} more in the news panel</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
 }
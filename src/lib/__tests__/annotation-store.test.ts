@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const files = new Map<string, string>();
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: async (p: string) => {
+      if (!files.has(p)) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return files.get(p);
+    },
+    writeFile: async (p: string, data: string) => { files.set(p, data); },
+    mkdir:     async () => undefined,
+  },
+}));
+
+const { readAnnotations, writeAnnotations } = await import('../annotation-store');
+
+const PATH = `${process.cwd()}/data/annotations.json`;
+const HLINE = { annotations: [{ id: 'a', kind: 'hline' as const, price: 4 }], updatedAt: 1 };
+
+beforeEach(() => {
+  files.clear();
+});
+
+describe('annotation store', () => {
+  it('keeps other symbols when one is saved or cleared', async () => {
+    await writeAnnotations('NVLX', HLINE);
+    await writeAnnotations('QBTR', HLINE);
+    await writeAnnotations('NVLX', { annotations: [], updatedAt: 2 });
+    expect(Object.keys(JSON.parse(files.get(PATH)!))).toEqual(['QBTR']);
+    expect(await readAnnotations('QBTR')).toEqual(HLINE);
+  });
+
+  it('refuses to save over a file it cannot parse, but still reads as empty', async () => {
+    files.set(PATH, '{"NVLX": {');
+    await expect(writeAnnotations('QBTR', HLINE)).rejects.toThrow(/not valid JSON/);
+    files.set(PATH, '[]');
+    await expect(writeAnnotations('QBTR', HLINE)).rejects.toThrow(/must be a JSON object/);
+    expect(files.get(PATH)).toBe('[]');
+    expect(await readAnnotations('QBTR')).toBeNull();
+  });
+});
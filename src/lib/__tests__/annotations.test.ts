@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { parseAnnotations, timeToLogical, logicalToTime, segmentDistance } from '../annotations';
+
+// ── parseAnnotations ──────────────────────────────────────────────────────────
+
+describe('parseAnnotations', () => {
+  const point = { time: 1_749_562_200, price: 3.85 };
+
+  it('accepts every kind', () => {
+    const list = [
+      { id: 'a', kind: 'hline', price: 4 },
+      { id: 'b', kind: 'trend', from: point, to: { ...point, price: 4.2 } },
+      { id: 'c', kind: 'rect',  from: point, to: point },
+      { id: 'd', kind: 'text',  at: point, text: '  PM high  ' },
+    ];
+    expect(parseAnnotations(list)).toEqual([...list.slice(0, 3), { id: 'd', kind: 'text', at: point, text: 'PM high' }]);
+  });
+
+  it('names the first bad entry', () => {
+    expect(parseAnnotations([{ id: 'a', kind: 'hline', price: 4 }, { id: 'b', kind: 'trend', from: point }]))
+      .toBe('annotations[1] is invalid');
+    expect(parseAnnotations([{ id: 'a', kind: 'text', at: point, text: ' ' }])).toBe('annotations[0] is invalid');
+    expect(parseAnnotations([{ kind: 'hline', price: 4 }])).toBe('annotations[0] is invalid');
+    expect(parseAnnotations([{ id: 'a', kind: 'arrow' }])).toBe('annotations[0] is invalid');
+  });
+
+  it('wants an array', () => {
+    expect(parseAnnotations({})).toBe('annotations must be an array');
+    expect(parseAnnotations([])).toEqual([]);
+  });
+});
+
+// ── Anchors ↔ bars ────────────────────────────────────────────────────────────
+
+describe('timeToLogical / logicalToTime', () => {
+  // Minute bars with an hour gap after the third
+  const bars = [{ time: 0 }, { time: 60 }, { time: 120 }, { time: 3_720 }, { time: 3_780 }];
+
+  it('lands on bars and between them', () => {
+    expect(timeToLogical(bars, 60)).toBe(1);
+    expect(timeToLogical(bars, 90)).toBe(1.5);
+    expect(timeToLogical(bars, 1_920)).toBe(2.5);
+  });
+
+  it('extrapolates past either end', () => {
+    expect(timeToLogical(bars, -120)).toBe(-2);
+    expect(timeToLogical(bars, 3_900)).toBe(6);
+  });
+
+  it('round-trips', () => {
+    for (const logical of [-1.5, 0, 2.25, 3, 7]) {
+      expect(timeToLogical(bars, logicalToTime(bars, logical)!)).toBeCloseTo(logical);
+    }
+  });
+
+  it('needs two bars', () => {
+    expect(timeToLogical([{ time: 0 }], 0)).toBeNull();
+    expect(logicalToTime([], 0)).toBeNull();
+  });
+});
+
+// ── segmentDistance ───────────────────────────────────────────────────────────
+
+describe('segmentDistance', () => {
+  it('measures to the nearest point on the segment', () => {
+    expect(segmentDistance(5, 3, 0, 0, 10, 0)).toBe(3);
+    expect(segmentDistance(13, 4, 0, 0, 10, 0)).toBe(5);
+    expect(segmentDistance(3, 4, 0, 0, 0, 0)).toBe(5);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+import type { Fundamentals } from '../market-data';
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const files = new Map<string, string>();
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: async (p: string) => {
+      if (!files.has(p)) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return files.get(p);
+    },
+    writeFile: async (p: string, data: string) => { files.set(p, data); },
+    mkdir:     async () => undefined,
+  },
+}));
+
+const listAssets         = vi.fn();
+const lookupFundamentals = vi.fn();
+vi.mock('@/lib/market-data', () => ({ listAssets: () => listAssets() }));
+vi.mock('@/lib/fundamentals', () => ({ lookupFundamentals: (s: string[]) => lookupFundamentals(s) }));
+
+const { classify, assetType, displayName, getAssetMeta } = await import('../asset-meta');
+
+function fundamentals(over: Partial<Fundamentals>): Fundamentals {
+  return {
+    symbol: 'X', name: '', sector: '', industry: '', country: '', securityType: '',
+    sharesOutstanding: 0, floatShares: 0, sharesShort: 0, marketCap: 0,
+    ...over,
+  };
+}
+
+const ASSETS = [
+  { symbol: 'QBTR', name: 'Quantabit Robotics Corp. Class A Common Stock', exchange: 'NASDAQ', tradable: true },
+  { symbol: 'SPY',  name: 'SPDR S&P 500 ETF Trust',                        exchange: 'ARCA',   tradable: true },
+];
+
+beforeEach(() => {
+  files.clear();
+  listAssets.mockReset();
+  lookupFundamentals.mockReset();
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-06-10T12:45:00Z'));   // Tue 08:45 ET
+});
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+// ── classify ──────────────────────────────────────────────────────────────────
+
+describe('classify', () => {
+  const none = { isEtf: false, isAdr: false, isSpac: false };
+
+  it('flags nothing for a common stock', () => {
+    expect(classify('Apple Inc. Common Stock', null)).toEqual(none);
+  });
+
+  it('reads ETFs and ADRs from the listing name', () => {
+    expect(classify('SPDR S&P 500 ETF Trust', null)).toEqual({ ...none, isEtf: true });
+    expect(classify('Taiwan Semiconductor Manufacturing Company Ltd. American Depositary Shares', null))
+      .toEqual({ ...none, isAdr: true });
+    expect(classify('NIO Inc. ADS', null)).toEqual({ ...none, isAdr: true });
+  });
+
+  it('prefers the vendor security type over the name', () => {
+    expect(classify('iShares Bitcoin Trust ETF', fundamentals({ securityType: 'stock' }))).toEqual(none);
+    expect(classify('Grayscale Bitcoin Trust', fundamentals({ securityType: 'etf' }))).toEqual({ ...none, isEtf: true });
+    expect(classify('Sony Group Corporation', fundamentals({ securityType: 'adr' }))).toEqual({ ...none, isAdr: true });
+  });
+
+  it('reads SPACs from the name or the industry', () => {
+    expect(classify('Churchill Capital Acquisition Corp. Class A Common Stock', null)).toEqual({ ...none, isSpac: true });
+    expect(classify('Ace Global Business', fundamentals({ industry: 'Shell Companies' }))).toEqual({ ...none, isSpac: true });
+  });
+});
+
+// ── assetType ─────────────────────────────────────────────────────────────────
+
+describe('assetType', () => {
+  const plain = { isEtf: false, isAdr: false };
+  const type  = (symbol: string, listing: string, f: Fundamentals | null = null) =>
+    assetType(symbol, listing, f, classify(listing, f));
+
+  it('reads NYSE-style share-class suffixes', () => {
+    expect(assetType('ACAC.WS', '', null, plain)).toBe('warrant');
+    expect(assetType('ACAC.U',  '', null, plain)).toBe('unit');
+    expect(assetType('ACAC.RT', '', null, plain)).toBe('right');
+    expect(assetType('BAC.PRL', '', null, plain)).toBe('preferred');
+    expect(assetType('BRK.B',   '', null, plain)).toBeNull();
+  });
+
+  it('reads the listing name', () => {
+    expect(type('ACACW', 'Acri Capital Acquisition Corporation Warrant')).toBe('warrant');
+    expect(type('ACACU', 'Acri Capital Acquisition Corporation Units, each consisting of one share')).toBe('unit');
+    expect(type('ACACR', 'Acri Capital Acquisition Corporation Rights')).toBe('right');
+    expect(type('GSPA',  'Goldman Sachs 6.375% Series K Non-Cumulative Preferred Stock')).toBe('preferred');
+    expect(type('SPY',   'SPDR S&P 500 ETF Trust')).toBe('etf');
+    expect(type('TSM',   'Taiwan Semiconductor Manufacturing Company Ltd. American Depositary Shares')).toBe('adr');
+  });
+
+  it('does not mistake company names for descriptors', () => {
+    expect(type('UNT',  'Unit Corporation Common Stock')).toBe('common');
+    expect(type('PFBC', 'Preferred Bank Common Stock')).toBe('common');
+  });
+
+  it('is null when nothing is known', () => {
+    expect(type('ZZZZ', '')).toBeNull();
+    expect(type('ZZZZ', '', fundamentals({ securityType: 'stock' }))).toBe('common');
+  });
+});
+
+// ── displayName ───────────────────────────────────────────────────────────────
+
+describe('displayName', () => {
+  it('prefers the fundamentals name', () => {
+    expect(displayName('Novalink Therapeutics Inc. Common Stock', fundamentals({ name: 'Novalink Therapeutics, Inc.' })))
+      .toBe('Novalink Therapeutics, Inc.');
+  });
+
+  it('strips the share-class suffix from the listing name', () => {
+    expect(displayName('Quantabit Robotics Corp. Class A Common Stock', null)).toBe('Quantabit Robotics Corp.');
+    expect(displayName('Arm Holdings plc American Depositary Shares', null)).toBe('Arm Holdings plc');
+    expect(displayName('SPDR S&P 500 ETF Trust', null)).toBe('SPDR S&P 500 ETF Trust');
+  });
+});
+
+// ── getAssetMeta ──────────────────────────────────────────────────────────────
+
+// The module keeps today's directory in memory, so each test starts on a new day
+describe('getAssetMeta', () => {
+  it('merges the directory with fundamentals and skips unknown symbols', async () => {
+    listAssets.mockResolvedValue(ASSETS);
+    lookupFundamentals.mockResolvedValue({
+      QBTR: fundamentals({ symbol: 'QBTR', sector: 'Technology', industry: 'Computer Hardware', country: 'United States' }),
+      ZZZZ: null,
+    });
+
+    expect(await getAssetMeta(['QBTR', 'ZZZZ'])).toEqual({
+      QBTR: {
+        symbol: 'QBTR', name: 'Quantabit Robotics Corp.', exchange: 'NASDAQ',
+        sector: 'Technology', industry: 'Computer Hardware', country: 'United States',
+        assetType: 'common', isEtf: false, isAdr: false, isSpac: false,
+      },
+    });
+  });
+
+  it('uses fundamentals the caller already looked up', async () => {
+    listAssets.mockResolvedValue(ASSETS);
+    vi.setSystemTime(new Date('2025-06-14T12:45:00Z'));
+
+    const meta = await getAssetMeta(['QBTR'], { QBTR: fundamentals({ symbol: 'QBTR', sector: 'Technology' }) });
+    expect(meta.QBTR?.sector).toBe('Technology');
+    expect(lookupFundamentals).not.toHaveBeenCalled();
+  });
+
+  it('fetches the directory once per ET day', async () => {
+    listAssets.mockResolvedValue(ASSETS);
+    lookupFundamentals.mockResolvedValue({});
+    vi.setSystemTime(new Date('2025-06-11T12:45:00Z'));
+
+    expect((await getAssetMeta(['SPY'])).SPY).toMatchObject({ exchange: 'ARCA', isEtf: true });
+    await getAssetMeta(['QBTR']);
+    expect(listAssets).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(new Date('2025-06-12T12:45:00Z'));
+    await getAssetMeta(['QBTR']);
+    expect(listAssets).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the last directory when the asset list fails', async () => {
+    listAssets.mockRejectedValue(new Error('all providers down'));
+    lookupFundamentals.mockResolvedValue({});
+    vi.setSystemTime(new Date('2025-06-13T12:45:00Z'));
+
+    expect((await getAssetMeta(['QBTR'])).QBTR?.exchange).toBe('NASDAQ');
+  });
+});
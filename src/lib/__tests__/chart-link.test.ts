@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { watchLinkedCharts, listenForLinkedSymbols } from '../chart-link';
+
+describe('chart link', () => {
+  it('hands the symbol to a listening grid', async () => {
+    const got: string[] = [];
+    const stop   = listenForLinkedSymbols(symbol => got.push(symbol));
+    const charts = watchLinkedCharts();
+    try {
+      await vi.waitFor(() => expect(charts.alive()).toBe(true));
+      expect(await charts.send('NVLX')).toBe(true);
+      expect(got).toEqual(['NVLX']);
+    } finally {
+      charts.close();
+      stop();
+    }
+  });
+
+  it('finds grids that were listening before the scanner opened', async () => {
+    const charts = watchLinkedCharts();
+    const stop   = listenForLinkedSymbols(() => {});
+    const late   = watchLinkedCharts();
+    try {
+      await vi.waitFor(() => expect(late.alive()).toBe(true));
+    } finally {
+      charts.close();
+      late.close();
+      stop();
+    }
+  });
+
+  it('does not wait for an answer with no grid listening', async () => {
+    const charts = watchLinkedCharts();
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    try {
+      // Would hang on the fake answer timer if the offer were made
+      expect(await charts.send('NVLX')).toBe(false);
+    } finally {
+      vi.useRealTimers();
+      charts.close();
+    }
+  });
+
+  it('forgets a grid once it stops listening', async () => {
+    const got: string[] = [];
+    const stop   = listenForLinkedSymbols(symbol => got.push(symbol));
+    const charts = watchLinkedCharts();
+    try {
+      await vi.waitFor(() => expect(charts.alive()).toBe(true));
+      stop();
+      await vi.waitFor(() => expect(charts.alive()).toBe(false));
+      expect(await charts.send('NVLX')).toBe(false);
+      expect(got).toEqual([]);
+    } finally {
+      charts.close();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+import type { Fundamentals, MarketDataProvider } from '../market-data/types';
+import { settledBySymbol, bySymbol } from '../market-data/util';
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+// Two fundamentals providers; the test decides what each answers per symbol.
+
+type Answer = Fundamentals | null | Error;
+const answers: Record<'yahoo' | 'sec', Record<string, Answer>> = { yahoo: {}, sec: {} };
+const asked:   Record<'yahoo' | 'sec', string[][]>             = { yahoo: [], sec: [] };
+
+function mockProvider(name: 'yahoo' | 'sec'): MarketDataProvider {
+  return {
+    name,
+    authHint:   '',
+    configured: () => true,
+    getFundamentals: symbols => {
+      asked[name].push(symbols);
+      return settledBySymbol(symbols, 5, async s => {
+        const a = answers[name][s];
+        if (a instanceof Error) throw a;
+        return a ?? null;
+      });
+    },
+  };
+}
+
+vi.mock('../market-data/yahoo', async importOriginal => ({
+  ...(await importOriginal<typeof import('../market-data/yahoo')>()),
+  yahoo: mockProvider('yahoo'),
+}));
+vi.mock('../market-data/sec', () => ({ sec: mockProvider('sec') }));
+
+const { getFundamentals } = await import('../market-data');
+
+const f = (symbol: string): Fundamentals => ({
+  symbol, name: symbol, sector: '', industry: '', country: '', securityType: '',
+  sharesOutstanding: 1_000_000, floatShares: 0, sharesShort: 0, marketCap: 0,
+});
+const RATE_LIMITED = Object.assign(new Error('429'), { response: { status: 429 } });
+
+beforeEach(() => {
+  process.env.MARKET_DATA_FUNDAMENTALS = 'yahoo,sec';
+  for (const name of ['yahoo', 'sec'] as const) {
+    answers[name] = {};
+    asked[name]   = [];
+  }
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterAll(() => {
+  delete process.env.MARKET_DATA_FUNDAMENTALS;
+});
+
+// ── settledBySymbol ───────────────────────────────────────────────────────────
+
+describe('settledBySymbol', () => {
+  it('keeps unknowns as null and leaves failures out', async () => {
+    const fn = async (s: string) => (s === 'BAD' ? Promise.reject(RATE_LIMITED) : s === 'NONE' ? null : s);
+    expect(await settledBySymbol(['A', 'NONE', 'BAD'], 2, fn)).toEqual({ A: 'A', NONE: null });
+    expect(await bySymbol(['A', 'NONE', 'BAD'], 2, fn)).toEqual({ A: 'A' });
+  });
+
+  it('throws when every symbol failed', async () => {
+    await expect(settledBySymbol(['BAD'], 2, () => Promise.reject(RATE_LIMITED))).rejects.toBe(RATE_LIMITED);
+  });
+});
+
+// ── getFundamentals ───────────────────────────────────────────────────────────
+
+describe('getFundamentals', () => {
+  it('asks the next provider only for what the first did not have', async () => {
+    answers.yahoo = { NVLX: f('NVLX'), QBTR: RATE_LIMITED, ZZZZ: null };
+    answers.sec   = { QBTR: f('QBTR') };
+
+    expect(await getFundamentals(['NVLX', 'QBTR', 'ZZZZ'])).toEqual({ NVLX: f('NVLX'), QBTR: f('QBTR'), ZZZZ: null });
+    expect(asked.sec).toEqual([['QBTR', 'ZZZZ']]);
+  });
+
+  it('leaves out symbols no provider could answer for', async () => {
+    answers.yahoo = { NVLX: f('NVLX'), QBTR: RATE_LIMITED };
+    answers.sec   = { NVLX: RATE_LIMITED, QBTR: RATE_LIMITED };
+    expect(await getFundamentals(['NVLX', 'QBTR'])).toEqual({ NVLX: f('NVLX') });
+  });
+
+  it('throws when no provider answered at all', async () => {
+    answers.yahoo = { NVLX: RATE_LIMITED };
+    answers.sec   = { NVLX: RATE_LIMITED };
+    await expect(getFundamentals(['NVLX'])).rejects.toThrow(/fundamentals/);
+  });
+});
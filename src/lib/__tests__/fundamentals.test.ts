@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const files = new Map<string, string>();
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: async (p: string) => {
+      if (!files.has(p)) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return files.get(p);
+    },
+    writeFile: async (p: string, data: string) => { files.set(p, data); },
+    mkdir:     async () => undefined,
+  },
+}));
+
+const getFundamentals = vi.fn();
+vi.mock('@/lib/market-data', () => ({ getFundamentals: (s: string[]) => getFundamentals(s) }));
+
+const { lookupFundamentals, getMarketCaps, marketCapAt, shortInterestPct } = await import('../fundamentals');
+const { parseProfile }       = await import('../market-data/finnhub');
+const { parseKeyStatistics } = await import('../market-data/yahoo');
+
+const NO_PROFILE = { name: '', sector: '', industry: '', country: '', securityType: '' as const };
+const NVLX = { symbol: 'NVLX', ...NO_PROFILE, sharesOutstanding: 38_200_000, floatShares: 0, sharesShort: 0, marketCap: 81_750_000 };
+
+beforeEach(() => {
+  files.clear();
+  getFundamentals.mockReset();
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-06-10T12:45:00Z'));   // Tue 08:45 ET
+});
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+// ── marketCapAt ───────────────────────────────────────────────────────────────
+
+describe('marketCapAt', () => {
+  it('values shares at the given price', () => {
+    expect(marketCapAt(NVLX, 3.87)).toBe(147_834_000);
+  });
+
+  it("falls back to the vendor's cap without shares or price", () => {
+    expect(marketCapAt({ ...NVLX, sharesOutstanding: 0 }, 3.87)).toBe(81_750_000);
+    expect(marketCapAt(NVLX, 0)).toBe(81_750_000);
+  });
+
+  it('is 0 when unknown', () => {
+    expect(marketCapAt(null, 3.87)).toBe(0);
+    expect(marketCapAt(undefined, 3.87)).toBe(0);
+  });
+});
+
+// ── shortInterestPct ──────────────────────────────────────────────────────────
+
+describe('shortInterestPct', () => {
+  it('is a percentage of float', () => {
+    expect(shortInterestPct({ ...NVLX, floatShares: 31_600_000, sharesShort: 4_900_000 })).toBeCloseTo(15.51, 2);
+  });
+
+  it('uses shares outstanding when float is unknown', () => {
+    expect(shortInterestPct({ ...NVLX, sharesShort: 3_820_000 })).toBeCloseTo(10, 6);
+  });
+
+  it('is 0 without short interest', () => {
+    expect(shortInterestPct(NVLX)).toBe(0);
+    expect(shortInterestPct(null)).toBe(0);
+  });
+});
+
+// ── Daily cache ───────────────────────────────────────────────────────────────
+
+describe('lookupFundamentals', () => {
+  it('fetches once per ET day, including symbols nobody knows', async () => {
+    getFundamentals.mockResolvedValue({ NVLX, ZZZZ: null });
+
+    expect(await lookupFundamentals(['NVLX', 'ZZZZ'])).toEqual({ NVLX, ZZZZ: null });
+    expect(await lookupFundamentals(['NVLX', 'ZZZZ'])).toEqual({ NVLX, ZZZZ: null });
+    expect(getFundamentals).toHaveBeenCalledTimes(1);
+
+    // 20:00 ET — still the same ET day although UTC has rolled over
+    vi.setSystemTime(new Date('2025-06-11T00:00:00Z'));
+    await lookupFundamentals(['NVLX']);
+    expect(getFundamentals).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(new Date('2025-06-11T12:45:00Z'));
+    await lookupFundamentals(['NVLX']);
+    expect(getFundamentals).toHaveBeenCalledTimes(2);
+  });
+
+  it('only asks for symbols missing from the cache', async () => {
+    getFundamentals.mockResolvedValue({ NVLX });
+    await lookupFundamentals(['NVLX']);
+    getFundamentals.mockResolvedValue({});
+    await lookupFundamentals(['NVLX', 'QBTR']);
+    expect(getFundamentals).toHaveBeenLastCalledWith(['QBTR']);
+  });
+
+  it('does not cache a failed lookup', async () => {
+    getFundamentals.mockRejectedValueOnce(new Error('all providers down'));
+    expect(await lookupFundamentals(['NVLX'])).toEqual({});
+
+    getFundamentals.mockResolvedValue({ NVLX });
+    expect(await lookupFundamentals(['NVLX'])).toEqual({ NVLX });
+  });
+
+  it('does not cache symbols whose lookup failed', async () => {
+    getFundamentals.mockResolvedValueOnce({ NVLX });    // QBTR failed on every provider
+    expect(await lookupFundamentals(['NVLX', 'QBTR'])).toEqual({ NVLX });
+
+    getFundamentals.mockResolvedValue({ QBTR: null });
+    expect(await lookupFundamentals(['NVLX', 'QBTR'])).toEqual({ NVLX, QBTR: null });
+    expect(getFundamentals).toHaveBeenLastCalledWith(['QBTR']);
+  });
+
+  it('batches large symbol lists for per-symbol vendors', async () => {
+    getFundamentals.mockResolvedValue({});
+    await lookupFundamentals(Array.from({ length: 120 }, (_, i) => `S${i}`));
+    expect(getFundamentals.mock.calls.map(c => c[0].length)).toEqual([50, 50, 20]);
+  });
+});
+
+describe('getMarketCaps', () => {
+  it('returns 0 for unknown symbols', async () => {
+    getFundamentals.mockResolvedValue({ NVLX, ZZZZ: null });
+    expect(await getMarketCaps({ NVLX: 3.87, ZZZZ: 1.5 })).toEqual({ NVLX: 147_834_000, ZZZZ: 0 });
+  });
+});
+
+// ── Vendor payloads ───────────────────────────────────────────────────────────
+
+describe('parseKeyStatistics', () => {
+  const raw = (n: number) => ({ raw: n, fmt: String(n) });
+
+  it('reads share counts, short interest and market cap', () => {
+    const body = { quoteSummary: { result: [{
+      defaultKeyStatistics: { sharesOutstanding: raw(38_200_000), floatShares: raw(31_600_000), sharesShort: raw(4_900_000) },
+      price:                { marketCap: raw(147_834_000) },
+    }], error: null } };
+    expect(parseKeyStatistics('NVLX', body)).toEqual({
+      symbol: 'NVLX', ...NO_PROFILE,
+      sharesOutstanding: 38_200_000, floatShares: 31_600_000, sharesShort: 4_900_000, marketCap: 147_834_000,
+    });
+  });
+
+  it('reads the company profile', () => {
+    const body = { quoteSummary: { result: [{
+      price:        { longName: 'Novalux Therapeutics, Inc.', shortName: 'Novalux', quoteType: 'EQUITY' },
+      assetProfile: { sector: 'Healthcare', industry: 'Biotechnology', country: 'United States' },
+    }] } };
+    expect(parseKeyStatistics('NVLX', body)).toMatchObject({
+      name: 'Novalux Therapeutics, Inc.', sector: 'Healthcare', industry: 'Biotechnology',
+      country: 'United States', securityType: 'stock',
+    });
+    expect(parseKeyStatistics('SPY', { quoteSummary: { result: [{ price: { shortName: 'SPDR S&P 500', quoteType: 'ETF' } }] } }))
+      .toMatchObject({ name: 'SPDR S&P 500', securityType: 'etf' });
+  });
+
+  it('falls back to implied shares outstanding', () => {
+    const body = { quoteSummary: { result: [{ defaultKeyStatistics: { impliedSharesOutstanding: raw(1_000_000) } }] } };
+    expect(parseKeyStatistics('X', body)?.sharesOutstanding).toBe(1_000_000);
+  });
+
+  it('is null without share counts or a name', () => {
+    expect(parseKeyStatistics('ZZZZ', { quoteSummary: { result: [{ defaultKeyStatistics: {} }] } })).toBeNull();
+    expect(parseKeyStatistics('ZZZZ', null)).toBeNull();
+  });
+});
+
+describe('parseProfile', () => {
+  it('converts millions to units', () => {
+    expect(parseProfile('NVLX', { shareOutstanding: 38.2, marketCapitalization: 81.75 })).toEqual(NVLX);
+  });
+
+  it('reads name, industry and country', () => {
+    const data = { shareOutstanding: 38.2, name: 'Novalux Therapeutics Inc', finnhubIndustry: 'Biotechnology', country: 'US' };
+    expect(parseProfile('NVLX', data)).toMatchObject({ name: 'Novalux Therapeutics Inc', industry: 'Biotechnology', country: 'US' });
+  });
+
+  it('is null for an unknown symbol', () => {
+    expect(parseProfile('ZZZZ', {})).toBeNull();
+    expect(parseProfile('ZZZZ', undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Labelled headlines for the news classifier tests
+ *
+ * Real-world headline shapes — wire-service press releases, Google News
+ * titles with a " - Publisher" suffix, analyst notes, $cashtag posts — each
+ * labelled with what a trader would expect: category, sentiment and the
+ * ticker the alert should be routed to (null when the text names none).
+ *
+ * Entries marked `gap` document misses in the current rules; their tests
+ * are `it.fails`, so fixing a rule flags the entry for promotion.
+ */
+
+import type { NewsCategory, NewsSentiment } from '../news-fetch';
+
+export interface LabelledHeadline {
+  title:     string;
+  summary?:  string;
+  category:  NewsCategory;
+  sentiment: NewsSentiment;
+  ticker:    string | null;
+  /** Known classifier miss — the test is expected to fail until the rules catch up */
+  gap?:      string;
+}
+
+export const HEADLINES: LabelledHeadline[] = [
+  // ── FDA ──
+  { title: 'Eli Lilly\'s Zepbound approved by FDA as first treatment for obstructive sleep apnea (NYSE: LLY)', category: 'FDA Approval', sentiment: 'bullish', ticker: 'LLY' },
+  { title: 'FDA approves Vertex\'s non-opioid painkiller Journavx', category: 'FDA Approval', sentiment: 'bullish', ticker: null, gap: '"approves" is not a bullish word' },
+  { title: 'Novavax shares plunge after FDA misses target date for COVID vaccine decision', category: 'FDA Approval', sentiment: 'bearish', ticker: null },
+  { title: 'Sarepta Therapeutics Announces FDA Approval of ELEVIDYS Label Expansion (Nasdaq: SRPT)', category: 'FDA Approval', sentiment: 'bullish', ticker: 'SRPT', gap: '"approval" is not a bullish word' },
+  { title: 'FDA issues complete response letter for Regeneron\'s Eylea HD, citing third-party manufacturer - Reuters', category: 'FDA Approval', sentiment: 'neutral', ticker: null },
+  { title: 'Intuitive Surgical receives 510(k) clearance for da Vinci 5 (NASDAQ: ISRG)', category: 'FDA Approval', sentiment: 'neutral', ticker: 'ISRG' },
+  { title: '$VKTX Viking Therapeutics submits NDA for VK2735', category: 'FDA Approval', sentiment: 'neutral', ticker: 'VKTX' },
+
+  // ── Clinical trials ──
+  { title: 'Cassava Sciences Phase 3 trial of simufilam fails to meet primary endpoint (NASDAQ: SAVA)', category: 'Clinical Trial', sentiment: 'bearish', ticker: 'SAVA' },
+  { title: 'Summit Therapeutics soars after ivonescimab beats Keytruda in Phase 3 lung cancer trial', category: 'Clinical Trial', sentiment: 'bullish', ticker: null },
+  { title: 'Madrigal reports positive results from pivotal study of resmetirom in NASH', category: 'Clinical Trial', sentiment: 'bullish', ticker: null },
+  { title: 'Biogen to present new clinical trial data at AAIC 2025 (NASDAQ: BIIB)', category: 'Clinical Trial', sentiment: 'neutral', ticker: 'BIIB' },
+
+  // ── M&A ──
+  { title: 'Microsoft completes acquisition of Activision Blizzard', category: 'Merger & Acquisition', sentiment: 'neutral', ticker: null },
+  { title: 'Cisco to acquire Splunk for $157 per share in cash (NASDAQ: CSCO)', category: 'Merger & Acquisition', sentiment: 'neutral', ticker: 'CSCO' },
+  { title: 'Exxon Mobil agrees to buy Pioneer Natural Resources in $59.5 billion all-stock deal - CNBC', category: 'Merger & Acquisition', sentiment: 'neutral', ticker: null },
+  { title: 'Spirit Airlines shares drop after JetBlue merger blocked by judge', category: 'Merger & Acquisition', sentiment: 'bearish', ticker: null },
+  { title: 'Toshiba board accepts $15 billion buyout offer from JIP consortium', category: 'Merger & Acquisition', sentiment: 'neutral', ticker: null },
+
+  // ── Partnerships ──
+  { title: 'NVIDIA and Foxconn announce strategic partnership to build AI factories', category: 'Partnership', sentiment: 'bullish', ticker: null },
+  { title: 'Moderna and Merck expand collaboration on personalized cancer vaccine (NASDAQ: MRNA)', category: 'Partnership', sentiment: 'neutral', ticker: 'MRNA' },
+  { title: 'Ginkgo Bioworks signs licensing agreement with Novo Nordisk (NYSE: DNA)', category: 'Partnership', sentiment: 'neutral', ticker: 'DNA' },
+
+  // ── Government contracts ──
+  { title: 'Palantir awarded $480 million U.S. Army contract for Maven Smart System (NYSE: PLTR)', category: 'Government Contract', sentiment: 'neutral', ticker: 'PLTR' },
+  { title: 'Intuitive Machines wins $4.82 billion NASA lunar communications contract', category: 'Government Contract', sentiment: 'bullish', ticker: null },
+  { title: 'Kratos receives Department of Defense order for drone target systems (NASDAQ: KTOS)', category: 'Government Contract', sentiment: 'neutral', ticker: 'KTOS' },
+
+  // ── Financing / investment ──
+  { title: 'Reddit prices IPO at $34 a share, top of range', category: 'Major Investment', sentiment: 'neutral', ticker: null },
+  { title: 'Amazon invests additional $2.75 billion in AI startup Anthropic', category: 'Major Investment', sentiment: 'neutral', ticker: null },
+  { title: 'Mullen Automotive announces $15 million private placement priced at-the-market (NASDAQ: MULN)', category: 'Major Investment', sentiment: 'neutral', ticker: 'MULN' },
+  { title: 'Lucid raises $1.75 billion from Saudi PIF affiliate to fund next-generation EV', category: 'Major Investment', sentiment: 'neutral', ticker: null },
+
+  // ── Geopolitical ──
+  { title: 'Chip stocks fall as U.S. tightens export controls on AI chips to China', category: 'Geopolitical', sentiment: 'bearish', ticker: null },
+  { title: 'Oil jumps as Iran tensions threaten Middle East supply', category: 'Geopolitical', sentiment: 'bullish', ticker: null },
+  { title: 'Trump announces 25% tariffs on imported cars', category: 'Geopolitical', sentiment: 'neutral', ticker: null },
+
+  // ── Earnings ──
+  { title: 'Nvidia beats estimates on record data center revenue, guides above Street (NASDAQ: NVDA)', category: 'Earnings', sentiment: 'bullish', ticker: 'NVDA' },
+  { title: 'Snowflake shares plunge after weak product revenue guidance (NYSE: SNOW)', category: 'Earnings', sentiment: 'bearish', ticker: 'SNOW' },
+  { title: 'Target misses estimates, cuts guidance as shoppers pull back', category: 'Earnings', sentiment: 'bearish', ticker: null, gap: 'no earnings keyword besides "misses estimates"' },
+  { title: 'Tesla Q2 2025 deliveries decline for second straight quarter', category: 'Earnings', sentiment: 'bearish', ticker: null },
+  { title: 'Palantir reports Q1 2025 results; U.S. commercial revenue grows 71%', category: 'Earnings', sentiment: 'bullish', ticker: null, gap: '"grows" is not a bullish word' },
+  { title: 'Super Micro Computer to report fiscal fourth-quarter results on August 5', category: 'Earnings', sentiment: 'neutral', ticker: null, gap: '"fiscal fourth-quarter" does not match /fiscal (year|quarter)/' },
+
+  // ── Analyst ratings ──
+  { title: 'Morgan Stanley upgrades Apple to overweight, sees AI-driven upgrade cycle', category: 'Analyst Rating', sentiment: 'bullish', ticker: null },
+  { title: 'Goldman downgrades Tesla to neutral, trims price target to $250', category: 'Analyst Rating', sentiment: 'bearish', ticker: null },
+  { title: 'Jefferies initiates coverage of SoundHound AI with buy rating (NASDAQ: SOUN)', category: 'Analyst Rating', sentiment: 'neutral', ticker: 'SOUN' },
+  { title: '$AMD price target raised to $200 at Bank of America', category: 'Analyst Rating', sentiment: 'neutral', ticker: 'AMD' },
+
+  // ── General / no catalyst ──
+  { title: 'Stock futures are little changed as investors await Fed minutes', category: 'General', sentiment: 'neutral', ticker: null },
+  { title: 'Warren Buffett\'s annual letter: 5 takeaways for investors', category: 'General', sentiment: 'neutral', ticker: null },
+  { title: 'GameStop shares surge as Roaring Kitty returns to social media', category: 'General', sentiment: 'bullish', ticker: null },
+  { title: 'Boeing faces new DOJ probe over 737 MAX door plug blowout', category: 'General', sentiment: 'neutral', ticker: null },
+  { title: 'Intel CEO Pat Gelsinger steps down, effective immediately (NASDAQ: INTC)', category: 'General', sentiment: 'neutral', ticker: 'INTC' },
+  { title: 'Recall: Ford recalls 850,000 vehicles over fuel pump defect (NYSE: F)', category: 'General', sentiment: 'bearish', ticker: 'F' },
+];
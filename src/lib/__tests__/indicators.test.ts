@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { vwap, ema, volumeProfile } from '../indicators';
+import type { Candle } from '../live-bar';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const et = (date: string, hhmm: string) => Date.parse(`${date}T${hhmm}:00-04:00`) / 1000;
+
+/** A bar whose typical price is `price` (h = l = c) */
+function bar(date: string, hhmm: string, price: number, volume: number, session: Candle['session']): Candle {
+  return { time: et(date, hhmm), open: price, high: price, low: price, close: price, volume, session };
+}
+
+const TWO_DAYS: Candle[] = [
+  bar('2025-06-09', '15:59', 3.00, 1_000, 'regular'),
+  bar('2025-06-10', '08:00', 2.00, 1_000, 'pre'),
+  bar('2025-06-10', '09:00', 4.00, 3_000, 'pre'),
+  bar('2025-06-10', '09:30', 5.00, 1_000, 'regular'),
+  bar('2025-06-10', '09:31', 6.00, 3_000, 'regular'),
+  bar('2025-06-10', '16:05', 7.00, 0,     'post'),
+];
+
+const closes = (values: number[]): Candle[] =>
+  values.map((c, i) => ({ time: i * 60, open: c, high: c, low: c, close: c, volume: 100, session: 'regular' }));
+
+// ── VWAP ──────────────────────────────────────────────────────────────────────
+
+describe('vwap', () => {
+  it('anchors at the regular open, restarting each day', () => {
+    expect(vwap(TWO_DAYS).map(p => p.value)).toEqual([3, 5, 5.75, 5.75]);
+    expect(vwap(TWO_DAYS)[1].time).toBe(et('2025-06-10', '09:30'));
+  });
+
+  it('takes in the pre-market when anchored there', () => {
+    expect(vwap(TWO_DAYS, 'pre').map(p => p.value)).toEqual([3, 2, 3.5, 3.8, 4.625, 4.625]);
+  });
+
+  it('uses the typical price', () => {
+    const [p] = vwap([{ time: 0, open: 1, high: 6, low: 3, close: 3, volume: 10, session: 'regular' }]);
+    expect(p.value).toBe(4);
+  });
+
+  it('waits for volume before the first point', () => {
+    expect(vwap([bar('2025-06-10', '09:30', 5, 0, 'regular')])).toEqual([]);
+  });
+});
+
+// ── EMA ───────────────────────────────────────────────────────────────────────
+
+describe('ema', () => {
+  it('seeds with the simple average, then smooths', () => {
+    const points = ema(closes([1, 2, 3, 4, 5, 6]), 3);
+    expect(points.map(p => p.time)).toEqual([120, 180, 240, 300]);
+    expect(points.map(p => p.value)).toEqual([2, 3, 4, 5]);
+  });
+
+  it('weights recent closes by 2 / (period + 1)', () => {
+    const [, next] = ema(closes([10, 10, 10, 20]), 3);
+    expect(next.value).toBe(15);
+  });
+
+  it('is empty with fewer bars than the period', () => {
+    expect(ema(closes([1, 2]), 3)).toEqual([]);
+  });
+});
+
+// ── Volume profile ────────────────────────────────────────────────────────────
+
+describe('volumeProfile', () => {
+  const candle = (low: number, high: number, volume: number): Candle =>
+    ({ time: 0, open: low, high, low, close: high, volume, session: 'regular' });
+
+  it('spreads each bar over the rows it covers', () => {
+    const profile = volumeProfile([candle(1, 3, 400), candle(2, 3, 100)], 4)!;
+    expect(profile.rows.map(r => [r.low, r.high])).toEqual([[1, 1.5], [1.5, 2], [2, 2.5], [2.5, 3]]);
+    expect(profile.rows.map(r => r.volume)).toEqual([100, 100, 150, 150]);
+  });
+
+  it('finds the POC and grows the value area towards the busier side', () => {
+    const profile = volumeProfile([candle(1, 2, 100), candle(2, 3, 600), candle(3, 4, 300), candle(4, 5, 50)], 4)!;
+    expect(profile.poc).toBe(1);
+    expect([profile.valueLow, profile.valueHigh]).toEqual([2, 4]);
+  });
+
+  it('puts a flat bar in its row and ignores bars without volume', () => {
+    const profile = volumeProfile([candle(2, 2, 500), candle(1, 1, 0)], 10)!;
+    expect(profile.rows).toEqual([{ low: 2, high: 2, volume: 500 }]);
+    expect(volumeProfile([candle(1, 2, 0)])).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { sessionLevels, roundLevels, sessionBands } from '../key-levels';
+import type { Candle } from '../live-bar';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const et = (date: string, hhmm: string) => Date.parse(`${date}T${hhmm}:00-04:00`) / 1000;
+
+const BOUNDS = { regularStart: et('2025-06-10', '09:30'), regularEnd: et('2025-06-10', '16:00') };
+
+function bar(date: string, hhmm: string, low: number, high: number, session: Candle['session']): Candle {
+  return { time: et(date, hhmm), open: low, high, low, close: high, volume: 1_000, session };
+}
+
+const BARS: Candle[] = [
+  bar('2025-06-09', '08:00', 1.50, 9.00, 'pre'),       // yesterday's pre-market
+  bar('2025-06-09', '16:30', 2.10, 2.20, 'post'),
+  bar('2025-06-10', '07:00', 2.90, 3.40, 'pre'),
+  bar('2025-06-10', '09:00', 3.30, 4.10, 'pre'),
+  bar('2025-06-10', '09:30', 3.95, 4.20, 'regular'),
+  bar('2025-06-10', '09:31', 4.00, 4.30, 'regular'),
+];
+
+// ── sessionLevels ─────────────────────────────────────────────────────────────
+
+describe('sessionLevels', () => {
+  it("takes the chart day's pre-market range and regular open", () => {
+    expect(sessionLevels(BARS, BOUNDS)).toEqual({ preHigh: 4.10, preLow: 2.90, open: 3.95 });
+  });
+
+  it('is 0 for what has not happened yet', () => {
+    expect(sessionLevels(BARS.slice(0, 2), BOUNDS)).toEqual({ preHigh: 0, preLow: 0, open: 0 });
+  });
+});
+
+// ── roundLevels ───────────────────────────────────────────────────────────────
+
+describe('roundLevels', () => {
+  it('picks the nearest whole and half dollars', () => {
+    expect(roundLevels(3.87, 4)).toEqual([
+      { price: 3,   whole: true },
+      { price: 3.5, whole: false },
+      { price: 4,   whole: true },
+      { price: 4.5, whole: false },
+    ]);
+  });
+
+  it('stays at or above $1', () => {
+    expect(roundLevels(1.2, 3).map(l => l.price)).toEqual([1, 1.5, 2]);
+    expect(roundLevels(0.42)).toEqual([]);
+  });
+});
+
+// ── sessionBands ──────────────────────────────────────────────────────────────
+
+describe('sessionBands', () => {
+  it('groups runs of extended-hours bars', () => {
+    expect(sessionBands(BARS)).toEqual([
+      { session: 'pre',  from: et('2025-06-09', '08:00'), to: et('2025-06-09', '08:00') },
+      { session: 'post', from: et('2025-06-09', '16:30'), to: et('2025-06-09', '16:30') },
+      { session: 'pre',  from: et('2025-06-10', '07:00'), to: et('2025-06-10', '09:00') },
+    ]);
+  });
+});
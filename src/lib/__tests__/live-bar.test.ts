@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { foldTrades, diffCandles, tradeSession, barTime, type Candle } from '../live-bar';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+// 2025-06-10 (EDT): 09:30 ET = 13:30Z, 16:00 ET = 20:00Z
+const et = (hhmmss: string) => Date.parse(`2025-06-10T${hhmmss}-04:00`) / 1000;
+
+const BOUNDS = { regularStart: et('09:30:00'), regularEnd: et('16:00:00') };
+
+const BAR: Candle = {
+  time: et('09:41:00'), open: 3.80, high: 3.90, low: 3.75, close: 3.85, volume: 12_000, session: 'regular',
+};
+
+const trade = (hhmmss: string, price: number, size = 100) => ({ price, size, t: et(hhmmss) });
+
+// ── Sessions and buckets ──────────────────────────────────────────────────────
+
+describe('tradeSession', () => {
+  it('splits the chart day at the regular open and close', () => {
+    expect(tradeSession(et('04:00:00'), BOUNDS)).toBe('pre');
+    expect(tradeSession(et('09:29:59'), BOUNDS)).toBe('pre');
+    expect(tradeSession(et('09:30:00'), BOUNDS)).toBe('regular');
+    expect(tradeSession(et('16:00:00'), BOUNDS)).toBe('post');
+  });
+
+  it('is null outside 04:00–20:00 ET', () => {
+    expect(tradeSession(et('03:59:59'), BOUNDS)).toBeNull();
+    expect(tradeSession(et('20:00:00'), BOUNDS)).toBeNull();
+  });
+});
+
+describe('barTime', () => {
+  it('puts minute bars on the minute', () => {
+    expect(barTime(et('09:41:37'), 'regular', 1, BOUNDS)).toBe(et('09:41:00'));
+  });
+
+  it('anchors hourly bars at the session open', () => {
+    expect(barTime(et('10:45:00'), 'regular', 60, BOUNDS)).toBe(et('10:30:00'));
+    expect(barTime(et('09:10:00'), 'pre',     60, BOUNDS)).toBe(et('09:00:00'));
+    expect(barTime(et('16:59:00'), 'post',    60, BOUNDS)).toBe(et('16:00:00'));
+  });
+});
+
+// ── foldTrades ────────────────────────────────────────────────────────────────
+
+describe('foldTrades', () => {
+  it('updates the newest bar in place', () => {
+    const bars = foldTrades(BAR, [trade('09:41:10', 3.95, 300), trade('09:41:20', 3.70, 200)], 1, BOUNDS);
+    expect(bars).toEqual([{ ...BAR, high: 3.95, low: 3.70, close: 3.70, volume: 12_500 }]);
+    expect(BAR.close).toBe(3.85);
+  });
+
+  it('returns every bar a batch touched, oldest first', () => {
+    const bars = foldTrades(BAR, [trade('09:41:50', 3.88), trade('09:42:05', 3.91, 500), trade('09:42:30', 3.93)], 1, BOUNDS);
+    expect(bars.map(b => b.time)).toEqual([et('09:41:00'), et('09:42:00')]);
+    expect(bars[0].close).toBe(3.88);
+    expect(bars[1]).toEqual({
+      time: et('09:42:00'), open: 3.91, high: 3.93, low: 3.91, close: 3.93, volume: 600, session: 'regular',
+    });
+  });
+
+  it('tags a new bar with the session it opens in', () => {
+    const [bar] = foldTrades(null, [trade('16:00:01', 4.10)], 60, BOUNDS);
+    expect(bar).toMatchObject({ time: et('16:00:00'), session: 'post' });
+  });
+
+  it('drops late trades and trades off the chart day', () => {
+    expect(foldTrades(BAR, [trade('09:40:59', 9), trade('20:00:00', 9), trade('09:41:30', 0)], 1, BOUNDS)).toEqual([]);
+  });
+});
+
+// ── diffCandles ───────────────────────────────────────────────────────────────
+
+describe('diffCandles', () => {
+  const minute = (hhmm: string, close: number): Candle => ({
+    time: et(`${hhmm}:00`), open: 3.8, high: 4, low: 3.7, close, volume: 1_000, session: 'regular',
+  });
+  const shown = [minute('09:40', 3.81), minute('09:41', 3.85)];
+
+  it('is an empty update when nothing moved', () => {
+    expect(diffCandles(shown, shown.map(c => ({ ...c })))).toEqual({ kind: 'update', bars: [] });
+  });
+
+  it('updates edited bars and appends new ones', () => {
+    const next = [minute('09:40', 3.81), minute('09:41', 3.9), minute('09:42', 3.95)];
+    expect(diffCandles(shown, next)).toEqual({ kind: 'update', bars: next.slice(1) });
+  });
+
+  it('resets when the history itself changed', () => {
+    expect(diffCandles(shown, [minute('09:41', 3.85)])).toEqual({ kind: 'reset' });
+    expect(diffCandles(shown, [minute('09:39', 3.8), ...shown])).toEqual({ kind: 'reset' });
+    expect(diffCandles([], shown)).toEqual({ kind: 'reset' });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { categorize, getSentiment, extractTicker, HIGH_IMPACT } from '../news-fetch';
+import { HEADLINES } from './headline-corpus';
+
+// ── Labelled corpus ───────────────────────────────────────────────────────────
+
+describe('headline corpus', () => {
+  for (const h of HEADLINES) {
+    const run = h.gap ? it.fails : it;
+    run(h.title, () => {
+      const text = `${h.title} ${h.summary ?? ''}`;
+      expect({
+        category:  categorize(h.title, h.summary ?? null),
+        sentiment: getSentiment(h.title, h.summary ?? null),
+        ticker:    extractTicker(text),
+      }).toEqual({ category: h.category, sentiment: h.sentiment, ticker: h.ticker });
+    });
+  }
+
+  it('covers every category', () => {
+    const seen = new Set(HEADLINES.map(h => h.category));
+    for (const cat of [...HIGH_IMPACT, 'General' as const]) expect(seen).toContain(cat);
+  });
+});
+
+// ── categorize ────────────────────────────────────────────────────────────────
+
+describe('categorize', () => {
+  it('looks at the summary when the title has no keyword', () => {
+    expect(categorize('Shares of XYZ halted', 'Pending news: company to acquire rival')).toBe('Merger & Acquisition');
+  });
+
+  it('applies rules in priority order — FDA beats clinical trial', () => {
+    expect(categorize('FDA accepts filing after positive phase 3 trial', null)).toBe('FDA Approval');
+  });
+
+  it('falls back to General', () => {
+    expect(categorize('Markets close mixed', null)).toBe('General');
+  });
+});
+
+// ── getSentiment ──────────────────────────────────────────────────────────────
+
+describe('getSentiment', () => {
+  it('is neutral when bullish and bearish words tie', () => {
+    expect(getSentiment('Revenue beats but guidance misses', null)).toBe('neutral');
+  });
+
+  it('counts the summary', () => {
+    expect(getSentiment('Company update', 'Shares plunge after the lawsuit')).toBe('bearish');
+  });
+});
+
+// ── extractTicker ─────────────────────────────────────────────────────────────
+
+describe('extractTicker', () => {
+  it.each([
+    ['$TSLA deliveries top estimates',                  'TSLA'],
+    ['Acme Corp (NASDAQ: ACME) announces buyback',      'ACME'],
+    ['Acme Corp (nasdaq:acme) announces buyback',       'ACME'],
+    ['Acme Corp announces buyback (ACME)',              'ACME'],
+    ['Acme Corp announces buyback (ACME) - Reuters',    'ACME'],
+    ['Why ACME stock is soaring today',                 'ACME'],
+  ])('%s → %s', (text, ticker) => {
+    expect(extractTicker(text)).toBe(ticker);
+  });
+
+  it.each([
+    'FDA stock approvals hit a record',
+    '$USD weakens against the yen',
+    'Company names new CEO (CEO) effective today',
+    'Futures rise ahead of CPI report',
+  ])('ignores non-tickers: %s', text => {
+    expect(extractTicker(text)).toBeNull();
+  });
+
+  it('prefers a cashtag over an exchange tag', () => {
+    expect(extractTicker('$ABC partners with Xyz Inc (NYSE: XYZ)')).toBe('ABC');
+  });
+});
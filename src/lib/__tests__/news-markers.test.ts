@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { newsMarkers, barIndexAt } from '../news-markers';
+import type { NewsItem } from '../news-fetch';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const et = (date: string, hhmm: string) => Date.parse(`${date}T${hhmm}:00-04:00`) / 1000;
+
+// Minute bars: yesterday's last post-market minutes, then today's pre-market
+const BARS = [
+  et('2025-06-09', '19:58'),
+  et('2025-06-09', '19:59'),
+  et('2025-06-10', '04:00'),
+  et('2025-06-10', '04:01'),
+  et('2025-06-10', '04:02'),
+].map(time => ({ time }));
+
+function item(id: string, publishedAt: number, extra: Partial<NewsItem> = {}): NewsItem {
+  return {
+    id, publishedAt, title: id, url: `https://example.com/${id}`, publisher: 'Wire', thumbnail: null,
+    summary: null, source: 'fake', category: 'General', sentiment: 'neutral', isPinned: false, ...extra,
+  };
+}
+
+// ── barIndexAt ────────────────────────────────────────────────────────────────
+
+describe('barIndexAt', () => {
+  it('finds the bar open at the time', () => {
+    expect(barIndexAt(BARS, et('2025-06-10', '04:01') + 30, 60)).toBe(3);
+    expect(barIndexAt(BARS, et('2025-06-09', '19:58'), 60)).toBe(0);
+  });
+
+  it('moves overnight headlines to the next bar', () => {
+    expect(barIndexAt(BARS, et('2025-06-10', '02:15'), 60)).toBe(2);
+  });
+
+  it('keeps late headlines on the newest bar and drops early ones', () => {
+    expect(barIndexAt(BARS, et('2025-06-10', '08:00'), 60)).toBe(4);
+    expect(barIndexAt(BARS, et('2025-06-09', '12:00'), 60)).toBe(-1);
+  });
+});
+
+// ── newsMarkers ───────────────────────────────────────────────────────────────
+
+describe('newsMarkers', () => {
+  it('groups headlines per bar, newest first, ascending by bar', () => {
+    const markers = newsMarkers(BARS, [
+      item('late',  et('2025-06-10', '04:02')),
+      item('night', et('2025-06-10', '01:00')),
+      item('open',  et('2025-06-10', '04:00') + 20),
+      item('undated', 0),
+    ]);
+    expect(markers.map(m => m.time)).toEqual([et('2025-06-10', '04:00'), et('2025-06-10', '04:02')]);
+    expect(markers[0].items.map(i => i.id)).toEqual(['open', 'night']);
+    expect(markers[0].lead.id).toBe('open');
+  });
+
+  it('leads with a pinned catalyst over a newer headline', () => {
+    const [marker] = newsMarkers(BARS, [
+      item('fda', et('2025-06-10', '04:01'), { isPinned: true, category: 'FDA Approval' }),
+      item('pr',  et('2025-06-10', '04:01') + 40),
+    ]);
+    expect(marker.lead.id).toBe('fda');
+  });
+
+  it('is empty without bars', () => {
+    expect(newsMarkers([], [item('a', et('2025-06-10', '04:00'))])).toEqual([]);
+  });
+});
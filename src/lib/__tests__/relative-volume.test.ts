@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { volumeCurve, relativeVolume, etMinuteOfDay, SESSION_WINDOW } from '../relative-volume';
+import type { Bar } from '../market-data';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+/** `count` 15-min bars of `v` volume from `fromHour`:00 ET (EDT) on `date` */
+function session(date: string, count: number, v: number, fromHour = 4): Bar[] {
+  const open = Date.parse(`${date}T${String(fromHour + 4).padStart(2, '0')}:00:00Z`) / 1000;
+  return Array.from({ length: count }, (_, i) => ({ t: open + i * 900, o: 1, h: 1, l: 1, c: 1, v }));
+}
+
+const PRE = SESSION_WINDOW.pre_market;
+
+// ── etMinuteOfDay ─────────────────────────────────────────────────────────────
+
+describe('etMinuteOfDay', () => {
+  it('handles EDT and EST', () => {
+    expect(etMinuteOfDay(Date.parse('2025-06-10T12:45:00Z') / 1000)).toBe(8 * 60 + 45);
+    expect(etMinuteOfDay(Date.parse('2025-01-10T14:30:00Z') / 1000)).toBe(9 * 60 + 30);
+  });
+
+  it('wraps at ET midnight', () => {
+    expect(etMinuteOfDay(Date.parse('2025-06-11T04:05:00Z') / 1000)).toBe(5);
+  });
+});
+
+// ── volumeCurve ───────────────────────────────────────────────────────────────
+
+describe('volumeCurve', () => {
+  it('averages cumulative volume per 15-minute step', () => {
+    const bars  = [...session('2025-06-06', 22, 1000), ...session('2025-06-09', 22, 3000)];
+    const curve = volumeCurve(bars, '2025-06-10', 10, PRE)!;
+    expect(curve).toHaveLength(23);
+    expect(curve[0]).toBe(0);
+    expect(curve[1]).toBe(2000);
+    expect(curve[22]).toBe(44_000);
+  });
+
+  it('keeps only the last N sessions and ignores today', () => {
+    const bars = [
+      ...session('2025-06-05', 22, 9000),
+      ...session('2025-06-06', 22, 1000),
+      ...session('2025-06-09', 22, 3000),
+      ...session('2025-06-10', 22, 50_000),
+    ];
+    expect(volumeCurve(bars, '2025-06-10', 2, PRE)![1]).toBe(2000);
+  });
+
+  it('ignores bars outside the session window', () => {
+    const bars = [...session('2025-06-09', 22, 1000), ...session('2025-06-09', 24, 1e6, 10)];
+    expect(volumeCurve(bars, '2025-06-10', 10, PRE)![22]).toBe(22_000);
+  });
+
+  it('counts a session with no bars in the window as zero volume', () => {
+    // 06-06 only traded in regular hours: a quiet pre-market, not missing data
+    const bars = [...session('2025-06-06', 24, 5000, 10), ...session('2025-06-09', 22, 2000)];
+    expect(volumeCurve(bars, '2025-06-10', 10, PRE)![1]).toBe(1000);
+  });
+
+  it('is null without history', () => {
+    expect(volumeCurve(session('2025-06-10', 5, 100), '2025-06-10', 10, PRE)).toBeNull();
+    expect(volumeCurve([], '2025-06-10', 10, PRE)).toBeNull();
+  });
+});
+
+// ── relativeVolume ────────────────────────────────────────────────────────────
+
+describe('relativeVolume', () => {
+  const curve = [0, 1000, 3000, 6000];
+
+  it('divides by the curve at the step', () => {
+    expect(relativeVolume(curve, 30, 9000)).toBe(3);
+  });
+
+  it('interpolates between steps', () => {
+    expect(relativeVolume(curve, 22.5, 4000)).toBe(2);
+  });
+
+  it('clamps past the end of the curve', () => {
+    expect(relativeVolume(curve, 500, 12_000)).toBe(2);
+  });
+
+  it('is 0 without a baseline', () => {
+    expect(relativeVolume(curve, 0, 5000)).toBe(0);
+    expect(relativeVolume(null, 30, 5000)).toBe(0);
+    expect(relativeVolume([0, 0, 0], 30, 5000)).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { diffScan, applyDiff, isEmptyDiff } from '../scan-diff';
+import type { PreMarketStock } from '../pre-market-scanner';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+function stock(symbol: string, price: number, over: Partial<PreMarketStock> = {}): PreMarketStock {
+  return {
+    symbol, name: symbol, exchange: 'NASDAQ',
+    prevClose: 2, prevDayHigh: 2.2, prevDayLow: 1.9,
+    preMarketPrice: price, preMarketChange: price - 2, preMarketChangePct: ((price - 2) / 2) * 100,
+    preMarketVolume: 50_000, marketCap: 0, sharesOutstanding: 0, floatShares: 0, shortInterestPct: 0, relativeVolume: 0,
+    sector: null, industry: null, country: null, assetType: 'common', isEtf: false, isAdr: false, isSpac: false,
+    ...over,
+  };
+}
+
+const BEFORE = [stock('NVLX', 3), stock('QBTR', 2.5), stock('DRFT', 2.4)];
+const AFTER  = [stock('NVLX', 3.2), stock('QBTR', 2.5), stock('PRSN', 2.6)];
+
+// ── diffScan ──────────────────────────────────────────────────────────────────
+
+describe('diffScan', () => {
+  it('splits rows into added, changed and removed', () => {
+    const d = diffScan(BEFORE, AFTER);
+    expect(d.added.map(s => s.symbol)).toEqual(['PRSN']);
+    expect(d.removed).toEqual(['DRFT']);
+    expect(d.changed.map(s => s.symbol)).toEqual(['NVLX']);
+  });
+
+  it('carries only the fields that changed', () => {
+    const [patch] = diffScan(BEFORE, AFTER).changed;
+    expect(Object.keys(patch).sort()).toEqual(['preMarketChange', 'preMarketChangePct', 'preMarketPrice', 'symbol']);
+    expect(patch.preMarketPrice).toBe(3.2);
+  });
+
+  it('is empty when nothing moved', () => {
+    expect(isEmptyDiff(diffScan(BEFORE, BEFORE.map(s => ({ ...s }))))).toBe(true);
+    expect(isEmptyDiff(diffScan([], []))).toBe(true);
+  });
+});
+
+// ── applyDiff ─────────────────────────────────────────────────────────────────
+
+describe('applyDiff', () => {
+  it('rebuilds the new result set from the old one', () => {
+    const rows = applyDiff(BEFORE, diffScan(BEFORE, AFTER));
+    expect(rows).toEqual(AFTER);
+  });
+
+  it('keeps rows in place and appends new ones', () => {
+    const rows = applyDiff(BEFORE, diffScan(BEFORE, [stock('PRSN', 2.6), stock('DRFT', 2.4), stock('NVLX', 3)]));
+    expect(rows.map(s => s.symbol)).toEqual(['NVLX', 'DRFT', 'PRSN']);
+  });
+});
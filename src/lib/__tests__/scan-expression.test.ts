@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { compileExpression, ScanExpressionError } from '../scan-expression';
+import type { PreMarketStock } from '../pre-market-scanner';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const NVLX: PreMarketStock = {
+  symbol:             'NVLX',
+  name:               'Novalink Therapeutics',
+  exchange:           'NASDAQ',
+  prevClose:          2.14,
+  prevDayHigh:        2.30,
+  prevDayLow:         2.02,
+  preMarketPrice:     3.87,
+  preMarketChange:    1.73,
+  preMarketChangePct: 80.84,
+  preMarketVolume:    2_400_000,
+  marketCap:          147_834_000,
+  sharesOutstanding:  38_200_000,
+  floatShares:        0,              // unknown
+  shortInterestPct:   15.5,
+  relativeVolume:     48.2,
+  sector:             'Healthcare',
+  industry:           'Biotechnology',
+  country:            null,
+  assetType:          'common',
+  isEtf:              false,
+  isAdr:              false,
+  isSpac:             false,
+};
+
+const test = (src: string, s: PreMarketStock = NVLX) => compileExpression(src).test(s);
+
+/** The ScanExpressionError thrown by compiling `src` */
+function error(src: string): ScanExpressionError {
+  try { compileExpression(src); } catch (err) {
+    if (err instanceof ScanExpressionError) return err;
+    throw err;
+  }
+  throw new Error(`"${src}" compiled`);
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+describe('compileExpression', () => {
+  it('evaluates the example criteria', () => {
+    expect(test('changePct >= 12 and price < 30 and relVol > 5 and price > prevDayHigh')).toBe(true);
+    expect(test('changePct >= 12 and price < 3')).toBe(false);
+  });
+
+  it('honours precedence and parentheses', () => {
+    expect(test('price < 1 and changePct > 50 or isEtf == false')).toBe(true);
+    expect(test('price < 1 and (changePct > 50 or isEtf == false)')).toBe(false);
+    expect(test('not isSpac and not (price > 100)')).toBe(true);
+  });
+
+  it('does arithmetic with K / M / B suffixes', () => {
+    expect(test('price > prevDayHigh * 1.5')).toBe(true);
+    expect(test('volume / 1M >= 2.4 and marketCap < 0.2B and volume > 500k')).toBe(true);
+    expect(test('-change < 0')).toBe(true);
+  });
+
+  it('compares strings case-insensitively', () => {
+    expect(test("exchange == 'nasdaq' and sector != \"Technology\"")).toBe(true);
+    expect(test("type = 'ADR'")).toBe(false);
+  });
+
+  it('accepts row property names and case-insensitive keywords', () => {
+    expect(test('preMarketChangePct > 80 AND RVOL > 40')).toBe(true);
+  });
+});
+
+// ── Unknown values ────────────────────────────────────────────────────────────
+
+describe('unknown values', () => {
+  it('never reject a row on their own', () => {
+    expect(test('float < 20M')).toBe(true);
+    expect(test('float > 20M')).toBe(true);
+    expect(test('not (float < 20M)')).toBe(true);
+    expect(test("country == 'US'")).toBe(true);
+  });
+
+  it('follow three-valued logic', () => {
+    expect(test('float < 20M and price > 100')).toBe(false);
+    expect(test('float < 20M or price > 100')).toBe(true);
+    expect(test('float > 0 and float < 20M')).toBe(true);
+    expect(test('float > 0 and float < 20M', { ...NVLX, floatShares: 31_600_000 })).toBe(false);
+  });
+
+  it('include division by zero', () => {
+    expect(test('price / (prevClose - prevClose) > 1')).toBe(true);
+  });
+});
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+describe('errors', () => {
+  it('report unknown fields with their offset', () => {
+    const err = error('price > 1 and flaot < 20M');
+    expect(err.message).toMatch(/unknown field "flaot"/);
+    expect(err.pos).toBe(14);
+  });
+
+  it('do not take Object.prototype members for fields', () => {
+    for (const word of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+      expect(error(`${word} == ${word}`).message).toMatch(`unknown field "${word}"`);
+    }
+  });
+
+  it('type-check operands', () => {
+    expect(error("exchange > 'N'").message).toMatch(/">" needs a number, got a string/);
+    expect(error('price == isEtf').message).toMatch(/cannot compare a number with a boolean/);
+    expect(error('price and isEtf').message).toMatch(/"and" needs a boolean/);
+    expect(error('price + 1').message).toMatch(/needs a boolean/);
+  });
+
+  it('report syntax errors', () => {
+    expect(error('price > ').message).toMatch(/expected a value but found "end of expression"/);
+    expect(error('(price > 1').message).toMatch(/expected "\)"/);
+    expect(error('price > 1 1').pos).toBe(10);
+    expect(error('price > 12%').pos).toBe(10);
+    expect(error('price > 12abc').pos).toBe(8);
+    expect(error('').message).toMatch(/expected a value/);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const files = new Map<string, string>();
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: async (p: string) => {
+      if (!files.has(p)) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return files.get(p);
+    },
+    writeFile: async (p: string, data: string) => { files.set(p, data); },
+    mkdir:     async () => undefined,
+  },
+}));
+
+const { presetId, parsePresetPatch, readPresets, mutatePresets, SCAN_COLUMNS } = await import('../scan-presets');
+
+beforeEach(() => {
+  files.clear();
+});
+
+// ── presetId ──────────────────────────────────────────────────────────────────
+
+describe('presetId', () => {
+  it('slugs the name', () => {
+    expect(presetId('Low-float runners!')).toBe('low-float-runners');
+    expect(presetId('  AH  gap downs ')).toBe('ah-gap-downs');
+  });
+
+  it('is null when nothing URL-safe is left', () => {
+    expect(presetId('🚀🚀')).toBeNull();
+    expect(presetId('')).toBeNull();
+  });
+});
+
+// ── parsePresetPatch ──────────────────────────────────────────────────────────
+
+describe('parsePresetPatch', () => {
+  it('keeps known filters and normalizes lists', () => {
+    expect(parsePresetPatch({
+      name:       ' Runners ',
+      marketType: 'pre_market',
+      filters:    { minChangePct: 20, excludeSymbols: [' gme', 'amc '], assetTypes: ['common', 'adr'], bogus: 1 },
+    })).toEqual({
+      name:       'Runners',
+      marketType: 'pre_market',
+      filters:    { minChangePct: 20, excludeSymbols: ['GME', 'AMC'], assetTypes: ['common', 'adr'] },
+    });
+  });
+
+  it('puts columns in display order', () => {
+    const patch = parsePresetPatch({ columns: ['marketCap', 'preMarketPrice'] });
+    expect(patch).toEqual({ columns: ['preMarketPrice', 'marketCap'] });
+  });
+
+  it('rejects bad values', () => {
+    expect(parsePresetPatch({ name: '' })).toMatch(/name/);
+    expect(parsePresetPatch({ marketType: 'overnight' })).toMatch(/marketType/);
+    expect(parsePresetPatch({ filters: { maxPrice: '30' } })).toMatch(/maxPrice/);
+    expect(parsePresetPatch({ filters: { direction: 'up' } })).toMatch(/direction/);
+    expect(parsePresetPatch({ filters: { assetTypes: ['spac'] } })).toMatch(/assetTypes/);
+    expect(parsePresetPatch({ sort: { key: 'symbol', dir: 'asc' } })).toMatch(/sort/);
+    expect(parsePresetPatch({ columns: ['name'] })).toMatch(/columns/);
+  });
+});
+
+// ── Store ─────────────────────────────────────────────────────────────────────
+
+const PATH = `${process.cwd()}/data/scan-presets.json`;
+const RUNNERS = {
+  id: 'runners', name: 'Runners', marketType: 'pre_market' as const, filters: { minChangePct: 20 },
+  sort: { key: 'relativeVolume' as const, dir: 'desc' as const }, columns: [...SCAN_COLUMNS], createdAt: '', updatedAt: '',
+};
+
+describe('readPresets', () => {
+  it('skips entries that no longer validate and fills defaults', async () => {
+    await mutatePresets(presets => {
+      presets.push({
+        id: 'runners', name: 'Runners', marketType: 'pre_market', filters: { minChangePct: 20 },
+        sort: { key: 'relativeVolume', dir: 'desc' }, columns: [...SCAN_COLUMNS], createdAt: '', updatedAt: '',
+      });
+    });
+    const [path] = [...files.keys()];
+    const saved  = JSON.parse(files.get(path)!);
+    files.set(path, JSON.stringify([
+      ...saved,
+      { id: 'Bad Id', name: 'x', marketType: 'pre_market' },
+      { id: 'old', name: 'Old', marketType: 'regular' },
+    ]));
+
+    const presets = await readPresets();
+    expect(presets.map(p => p.id)).toEqual(['runners', 'old']);
+    expect(presets[1]).toMatchObject({ filters: {}, sort: { key: 'preMarketChangePct', dir: 'desc' }, columns: SCAN_COLUMNS });
+  });
+});
+
+describe('mutatePresets', () => {
+  it('keeps a preset whose where expression no longer compiles through an unrelated save', async () => {
+    const stale = { id: 'old-where', name: 'Old where', marketType: 'pre_market', filters: { where: 'gapPercent > 5' } };
+    files.set(PATH, JSON.stringify([stale]));
+
+    await mutatePresets(presets => { presets.push(RUNNERS); });
+    expect(JSON.parse(files.get(PATH)!)).toEqual([RUNNERS, stale]);
+    expect((await readPresets()).map(p => p.id)).toEqual(['runners']);
+
+    await mutatePresets(presets => { presets.splice(0, 1); });
+    expect(JSON.parse(files.get(PATH)!)).toEqual([stale]);
+  });
+
+  it('refuses to save over a file it cannot parse', async () => {
+    files.set(PATH, '[{"id": "runners",');
+    await expect(mutatePresets(presets => { presets.push(RUNNERS); })).rejects.toThrow(/not valid JSON/);
+    files.set(PATH, '{}');
+    await expect(mutatePresets(presets => { presets.push(RUNNERS); })).rejects.toThrow(/must be a JSON array/);
+    expect(files.get(PATH)).toBe('{}');
+    expect(await readPresets()).toEqual([]);
+  });
+
+  it('writes nothing when nothing changed', async () => {
+    await mutatePresets(presets => presets.some(p => p.id === 'runners'));
+    expect(files.has(PATH)).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const runScanRequest = vi.fn();
+let gate: string | null = null;
+
+vi.mock('@/lib/scan-request', () => ({
+  runScanRequest:     (req: unknown, onProgress: unknown) => runScanRequest(req, onProgress),
+  sessionGateMessage: () => gate,
+}));
+vi.mock('@/lib/pre-market-scanner', () => ({ getMarketSession: () => 'pre' }));
+
+const { subscribeScan, scanInterval } = await import('../scan-stream');
+import type { ScanRequest } from '../scan-request';
+
+function request(minPrice: number): ScanRequest {
+  return { marketType: 'pre_market', direction: 'gainers', filters: { minPrice } as ScanRequest['filters'], preset: null };
+}
+
+const result = (symbols: string[]) => ({ source: 'snapshots', provider: 'fake', stocks: symbols.map(symbol => ({ symbol })) });
+
+beforeEach(() => {
+  gate = null;
+  runScanRequest.mockReset();
+  vi.useFakeTimers();
+});
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+// ── scanInterval ──────────────────────────────────────────────────────────────
+
+describe('scanInterval', () => {
+  it('falls back to 15 s when unset or not a number', () => {
+    expect(scanInterval(undefined)).toBe(15_000);
+    expect(scanInterval('fast')).toBe(15_000);
+  });
+
+  it('takes whole seconds, no fewer than 5', () => {
+    expect(scanInterval('30')).toBe(30_000);
+    expect(scanInterval('1')).toBe(5_000);
+  });
+});
+
+// ── subscribeScan ─────────────────────────────────────────────────────────────
+
+describe('subscribeScan', () => {
+  it('runs one scan for every subscriber to the same query', async () => {
+    runScanRequest.mockResolvedValue(result(['QBTR']));
+    const a = vi.fn();
+    const b = vi.fn();
+    const stopA = subscribeScan(request(1), false, a);
+    const stopB = subscribeScan(request(1), false, b);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(runScanRequest).toHaveBeenCalledTimes(1);
+    expect(a).toHaveBeenCalledWith(expect.objectContaining({ type: 'result', provider: 'fake' }));
+    expect(b).toHaveBeenCalledWith(expect.objectContaining({ type: 'result', provider: 'fake' }));
+
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(runScanRequest).toHaveBeenCalledTimes(2);
+    stopA();
+    stopB();
+  });
+
+  it('hands a late subscriber the latest result', async () => {
+    runScanRequest.mockResolvedValue(result(['NVLX']));
+    const stopA = subscribeScan(request(2), false, () => {});
+    await vi.advanceTimersByTimeAsync(0);
+
+    const late = vi.fn();
+    const stopB = subscribeScan(request(2), false, late);
+    expect(late).toHaveBeenCalledWith(expect.objectContaining({ type: 'result', stocks: [{ symbol: 'NVLX' }] }));
+    expect(runScanRequest).toHaveBeenCalledTimes(1);
+    stopA();
+    stopB();
+  });
+
+  it('scans different queries separately', async () => {
+    runScanRequest.mockResolvedValue(result([]));
+    const stopA = subscribeScan(request(3), false, () => {});
+    const stopB = subscribeScan(request(4), false, () => {});
+    const stopC = subscribeScan(request(3), true,  () => {});
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(runScanRequest).toHaveBeenCalledTimes(3);
+    stopA();
+    stopB();
+    stopC();
+  });
+
+  it('stops once the last subscriber has gone', async () => {
+    runScanRequest.mockResolvedValue(result([]));
+    const stop = subscribeScan(request(5), false, () => {});
+    await vi.advanceTimersByTimeAsync(0);
+    stop();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(runScanRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends idle ticks outside the session and keeps scanning after a failure', async () => {
+    gate = 'pre market scanner only runs 4:00–9:30 AM ET';
+    const ticks = vi.fn();
+    const stop  = subscribeScan(request(6), false, ticks);
+    expect(ticks).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'idle', message: gate }));
+
+    gate = null;
+    runScanRequest.mockRejectedValueOnce(new Error('all providers down')).mockResolvedValue(result(['QBTR']));
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(ticks).toHaveBeenLastCalledWith({ type: 'failed', error: 'all providers down' });
+
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(ticks).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'result' }));
+    stop();
+  });
+});
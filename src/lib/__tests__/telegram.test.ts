@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import {
+  truncateLines,
+  buildMomentumAlertMessage,
+  buildAlertMessage,
+  buildChartOpenMessage,
+  buildCatalystBriefMessage,
+  buildPriceAlertMessage,
+  buildMarketScanAlertMessage,
+  buildPreMarketDigestMessage,
+  buildGapDownDigestMessage,
+} from '../telegram';
+import type { NewsItem } from '../news-fetch';
+import type { PreMarketStock, ScanFilters } from '../pre-market-scanner';
+
+const TELEGRAM_LIMIT = 4096;
+const NOW            = new Date('2025-06-10T12:45:00Z');   // Tue 08:45 ET
+const NOW_SEC        = NOW.getTime() / 1000;
+const CHART_URL      = 'http://localhost:3000/?symbol=NVLX&tf=1m';
+
+beforeAll(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+function news(overrides: Partial<NewsItem> = {}): NewsItem {
+  return {
+    id:          'https://example.com/a',
+    title:       'Novalink Therapeutics Announces FDA Approval of NLX-204',
+    url:         'https://example.com/a',
+    publisher:   'GlobeNewswire',
+    publishedAt: NOW_SEC - 25 * 60,
+    thumbnail:   null,
+    summary:     null,
+    source:      'rss',
+    category:    'FDA Approval',
+    sentiment:   'bullish',
+    isPinned:    true,
+    ...overrides,
+  };
+}
+
+const FEED: NewsItem[] = [
+  news(),
+  news({
+    id: 'b', url: 'https://example.com/b?ref=rss&utm="x"', publisher: 'Street <Insider>',
+    title: 'Novalink price target raised to $9 at H.C. Wainwright & Co.',
+    category: 'Analyst Rating', publishedAt: NOW_SEC - 3 * 3600,
+  }),
+  news({
+    id: 'c', url: 'https://example.com/c', title: 'Novalink to host conference call at 8:30 a.m. ET',
+    category: 'General', sentiment: 'neutral', isPinned: false, publishedAt: NOW_SEC - 40,
+  }),
+  news({
+    id: 'd', url: 'https://example.com/d', title: 'Biotech stocks fall as rates climb',
+    category: 'General', sentiment: 'bearish', isPinned: false, publishedAt: NOW_SEC - 2 * 86400,
+  }),
+];
+
+function stock(symbol: string, prevClose: number, price: number, volume: number): PreMarketStock {
+  return {
+    symbol,
+    name:               symbol,
+    exchange:           'NASDAQ',
+    prevClose,
+    prevDayHigh:        prevClose * 1.05,
+    prevDayLow:         prevClose * 0.95,
+    preMarketPrice:     price,
+    preMarketChange:    price - prevClose,
+    preMarketChangePct: ((price - prevClose) / prevClose) * 100,
+    preMarketVolume:    volume,
+    marketCap:          180_000_000,
+    sharesOutstanding:  46_500_000,
+    floatShares:        31_600_000,
+    shortInterestPct:   15.5,
+    relativeVolume:     48.2,
+    sector:             null,
+    industry:           null,
+    country:            null,
+    assetType:          'common',
+    isEtf:              false,
+    isAdr:              false,
+    isSpac:             false,
+  };
+}
+
+const FILTERS: ScanFilters = {
+  direction: 'gainers', maxChangePct: 0, belowPrevLow: false,
+  minPrice: 0, maxPrice: 30, minPreMarketVolume: 12_000, maxMarketCap: 2e9, minChangePct: 12,
+  maxFloat: 0, minRelativeVolume: 0, minShortInterestPct: 0,
+  includeExchanges: [], excludeExchanges: ['OTC'], assetTypes: ['common'], excludeSymbols: [],
+  where: '',
+};
+
+// ── HTML checks ───────────────────────────────────────────────────────────────
+
+const TAG = /<(\/?)(b|i|a)(?:\s[^>]*)?>/g;
+
+/** Only <b>, <i>, <a> — balanced — and every other <, >, & escaped */
+function expectTelegramHtml(html: string) {
+  const open: string[] = [];
+  const text = html.replace(TAG, (_m, close: string, tag: string) => {
+    if (close) expect(open.pop(), `unbalanced </${tag}>`).toBe(tag);
+    else       open.push(tag);
+    return '';
+  });
+  expect(open, 'unclosed tags').toEqual([]);
+  expect(text).not.toMatch(/[<>]/);
+  expect(text).not.toMatch(/&(?!amp;|lt;|gt;)/);
+}
+
+function expectSendable(text: string) {
+  expectTelegramHtml(text);
+  expect(`${text}\n\n📈 ${CHART_URL}`.length).toBeLessThanOrEqual(TELEGRAM_LIMIT);
+}
+
+// ── Snapshots ─────────────────────────────────────────────────────────────────
+
+describe('message builders', () => {
+  it('buildMomentumAlertMessage — pre-market above day high', () => {
+    const msg = buildMomentumAlertMessage('NVLX', 'Novalink Therapeutics', 3.87, 80.84, FEED[0], 'pre', 2.19);
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildMomentumAlertMessage — regular session', () => {
+    const msg = buildMomentumAlertMessage('NVLX', 'Novalink & Co <Holdings>', 3.87, 80.84, FEED[1], 'regular');
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildAlertMessage', () => {
+    const msg = buildAlertMessage(FEED[1], 'NVLX');
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildChartOpenMessage', () => {
+    const msg = buildChartOpenMessage('NVLX', 'Novalink Therapeutics', 3.87, 1.73, 80.84, '1m', FEED);
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildChartOpenMessage — down, no news', () => {
+    const msg = buildChartOpenMessage('CLVR', 'Cloverstone', 5.12, -3.78, -42.47, '1d', []);
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildCatalystBriefMessage', () => {
+    const msg = buildCatalystBriefMessage('NVLX', 'Novalink Therapeutics', 3.87, FEED);
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildCatalystBriefMessage — no news, no price', () => {
+    const msg = buildCatalystBriefMessage('NVLX', 'NVLX', 0, []);
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildPriceAlertMessage', () => {
+    expect(buildPriceAlertMessage('NVLX', 3.87, 80.84, 'crossed above $3.50')).toMatchSnapshot();
+  });
+
+  it('buildPriceAlertMessage — with note', () => {
+    const msg = buildPriceAlertMessage('CLVR', 5.12, -42.47, 'fell below $6.00', 'Trial readout <today> & PDUFA next week');
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildMarketScanAlertMessage — ticker detected', () => {
+    expect(buildMarketScanAlertMessage(FEED[0], 'NVLX')).toMatchSnapshot();
+  });
+
+  it('buildMarketScanAlertMessage — no ticker', () => {
+    expect(buildMarketScanAlertMessage(FEED[3], null)).toMatchSnapshot();
+  });
+
+  it('buildPreMarketDigestMessage', () => {
+    const msg = buildPreMarketDigestMessage(
+      [stock('NVLX', 2.14, 3.87, 2_140_000), stock('QBTR', 5.6, 7.42, 640_000), stock('HLIO', 11.2, 13.05, 212_000)],
+      FILTERS,
+      'primary',
+    );
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  it('buildPreMarketDigestMessage — unknown fundamentals', () => {
+    const unknown = { marketCap: 0, sharesOutstanding: 0, floatShares: 0, shortInterestPct: 0, relativeVolume: 0 };
+    const msg = buildPreMarketDigestMessage([{ ...stock('NVLX', 2.14, 3.87, 2_140_000), ...unknown }], FILTERS, 'primary');
+    expect(msg).toContain('Vol: 2.1M  ·  Cap: —');
+    expect(msg).toContain('Float: —  ·  Shs: —  ·  SI: —');
+    expect(msg).not.toContain('$0');
+  });
+
+  it('buildPreMarketDigestMessage — optional filters in the footer', () => {
+    const msg = buildPreMarketDigestMessage([], { ...FILTERS, maxFloat: 20e6, minRelativeVolume: 3, minShortInterestPct: 10 }, 'primary');
+    expect(msg).toContain('chg ≥12% · float &lt;20.0M · rvol ≥3x · SI ≥10%');
+  });
+
+  it('buildPreMarketDigestMessage — universe filters in the footer', () => {
+    const msg = buildPreMarketDigestMessage([], {
+      ...FILTERS, minPrice: 1, assetTypes: ['common', 'adr'], includeExchanges: ['NASDAQ', 'NYSE'], excludeSymbols: ['GME', 'AMC'],
+    }, 'primary');
+    expect(msg).toContain('price $1–$30');
+    expect(msg).toContain('common/adr · NASDAQ/NYSE only · 2 blacklisted');
+  });
+
+  it('buildPreMarketDigestMessage — no matches', () => {
+    expect(buildPreMarketDigestMessage([], FILTERS, 'primary')).toMatchSnapshot();
+  });
+
+  it('buildPreMarketDigestMessage — more than 20, fallback mode', () => {
+    const many = Array.from({ length: 23 }, (_, i) => stock(`T${String(i).padStart(2, '0')}`, 2, 2.5 + i / 10, 20_000 + i * 1000));
+    const msg  = buildPreMarketDigestMessage(many, FILTERS, 'fallback');
+    expect(msg).toMatchSnapshot();
+    expectSendable(msg);
+  });
+
+  const LOSERS: ScanFilters = { ...FILTERS, direction: 'losers', minChangePct: 0, maxChangePct: -10, belowPrevLow: true };
+
+  it('buildGapDownDigestMessage', () => {
+    const msg = buildGapDownDigestMessage(
+      [stock('CLVR', 8.9, 5.12, 1_480_000), stock('DRFT', 17.5, 14.9, 320_000)],
+      LOSERS,
+      'primary',
+    );
+    expect(msg).toMatchSnapshot();
+    expect(msg).toContain('chg ≤-10% · under D-Low');
+    expectSendable(msg);
+  });
+
+  it('buildGapDownDigestMessage — no matches', () => {
+    expect(buildGapDownDigestMessage([], LOSERS, 'primary')).toMatchSnapshot();
+  });
+});
+
+// ── Oversized input ───────────────────────────────────────────────────────────
+
+describe('oversized input stays under the Telegram limit', () => {
+  const hostile = (i: number) => news({
+    id:        `x${i}`,
+    url:       `https://example.com/${i}?a=1&b="<2>"`,
+    title:     `<script>alert(${i})</script> & ${'Very long headline '.repeat(40)}`,
+    publisher: 'Evil <b>Wire</b>',
+    isPinned:  i % 2 === 0,
+  });
+  const flood = Array.from({ length: 60 }, (_, i) => hostile(i));
+
+  it.each([
+    ['momentum',    () => buildMomentumAlertMessage('NVLX', 'N'.repeat(5000), 1, 1, flood[0], 'pre', 0.5)],
+    ['catalyst',    () => buildAlertMessage({ ...flood[0], title: 'T'.repeat(5000) }, 'NVLX')],
+    ['market scan', () => buildMarketScanAlertMessage({ ...flood[0], title: '&'.repeat(3000) }, null)],
+    ['chart open',  () => buildChartOpenMessage('NVLX', 'Novalink', 1, 1, 1, '1m', flood)],
+    ['brief',       () => buildCatalystBriefMessage('NVLX', 'Novalink', 1, flood)],
+    ['price',       () => buildPriceAlertMessage('NVLX', 1, 1, 'crossed', '<note> & '.repeat(600))],
+    ['digest',      () => buildPreMarketDigestMessage(
+      Array.from({ length: 40 }, (_, i) => ({ ...stock('S' + i, 1, 2, 50_000), exchange: '<&>'.repeat(200) })),
+      FILTERS, 'primary',
+    )],
+  ])('%s', (_name, build) => {
+    expectSendable(build());
+  });
+});
+
+// ── truncateLines ─────────────────────────────────────────────────────────────
+
+describe('truncateLines', () => {
+  it('returns short input unchanged', () => {
+    expect(truncateLines(['<b>a</b>', '', 'b'])).toBe('<b>a</b>\n\nb');
+  });
+
+  it('cuts at a line boundary and marks the cut', () => {
+    const out = truncateLines(['aaaa', 'bbbb', 'cccc'], 10);
+    expect(out).toBe('aaaa\n…');
+  });
+
+  it('keeps input that is exactly at the limit', () => {
+    expect(truncateLines(['aaaa', 'bbbb'], 9)).toBe('aaaa\nbbbb');
+  });
+
+  // Seeded generator so failures reproduce
+  let seed = 42;
+  const rand = () => ((seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31) / 2 ** 31);
+  const pieces = [
+    () => `<b>${'x'.repeat(Math.floor(rand() * 80))}</b>`,
+    () => `<i>${'y'.repeat(Math.floor(rand() * 300))}</i>`,
+    () => `<a href="https://example.com/?q=1&amp;r=2">${'z'.repeat(Math.floor(rand() * 120))}</a>`,
+    () => `• &lt;tag&gt; &amp; ${'w'.repeat(Math.floor(rand() * 2000))}`,
+    () => '',
+  ];
+
+  it('never exceeds the limit or splits a tag across 500 random messages', () => {
+    for (let run = 0; run < 500; run++) {
+      const lines = Array.from({ length: 1 + Math.floor(rand() * 120) }, () => pieces[Math.floor(rand() * pieces.length)]());
+      const max   = 200 + Math.floor(rand() * TELEGRAM_LIMIT);
+      const out   = truncateLines(lines, max);
+
+      expect(out.length).toBeLessThanOrEqual(max);
+      expectTelegramHtml(out);
+
+      const full = lines.join('\n');
+      if (full.length <= max) {
+        expect(out).toBe(full);
+      } else {
+        expect(out.endsWith('\n…')).toBe(true);
+        expect(full.startsWith(out.slice(0, -'\n…'.length))).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTradeHub } from '../market-data/stream';
+import { parseStreamFrame } from '../market-data/alpaca';
+import { parseTradeMessage } from '../market-data/finnhub';
+import type { MarketDataProvider, TradeStreamHandlers, Trade } from '../market-data/types';
+
+// ── Fake provider ─────────────────────────────────────────────────────────────
+// Records what the hub sends upstream; the test drives the socket callbacks.
+
+let socket: TradeStreamHandlers;
+let sent:   string[];
+let opened: number;
+
+const provider: MarketDataProvider = {
+  name:       'fake',
+  authHint:   '',
+  configured: () => true,
+  openTradeStream(handlers) {
+    socket = handlers;
+    opened++;
+    return {
+      subscribe:   symbols => { sent.push(`+${symbols.join(',')}`); },
+      unsubscribe: symbols => { sent.push(`-${symbols.join(',')}`); },
+      close:       ()      => { sent.push('close'); },
+    };
+  },
+};
+
+const trade = (symbol: string, price: number): Trade => ({ symbol, price, size: 100, t: 1_749_562_860 });
+
+let failures: string[];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  sent     = [];
+  opened   = 0;
+  failures = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+const hub = () => createTradeHub(() => provider, (_, error) => { failures.push(error); });
+
+// ── Hub ───────────────────────────────────────────────────────────────────────
+
+describe('createTradeHub', () => {
+  it('subscribes each symbol upstream once, after the socket is ready', () => {
+    const h = hub();
+    h.subscribe('NVLX', () => {});
+    h.subscribe('NVLX', () => {});
+    expect(opened).toBe(1);
+    expect(sent).toEqual([]);
+
+    socket.onReady();
+    h.subscribe('ABCD', () => {});
+    expect(sent).toEqual(['+NVLX', '+ABCD']);
+  });
+
+  it('delivers trades to the listeners of their symbol', () => {
+    const h = hub();
+    const a = vi.fn(), b = vi.fn();
+    h.subscribe('NVLX', a);
+    h.subscribe('ABCD', b);
+    socket.onReady();
+
+    socket.onTrades([trade('NVLX', 3.9), trade('ZZZZ', 1), trade('NVLX', 3.91)]);
+    expect(a).toHaveBeenCalledWith([trade('NVLX', 3.9), trade('NVLX', 3.91)]);
+    expect(b).not.toHaveBeenCalled();
+  });
+
+  it('unsubscribes with the last listener and closes once idle', () => {
+    const h = hub();
+    const off1 = h.subscribe('NVLX', () => {});
+    const off2 = h.subscribe('NVLX', () => {});
+    socket.onReady();
+
+    off1();
+    off1();
+    expect(sent).toEqual(['+NVLX']);
+    off2();
+    expect(sent).toEqual(['+NVLX', '-NVLX']);
+
+    // A quick re-subscribe reuses the socket
+    const off3 = h.subscribe('NVLX', () => {});
+    off3();
+    vi.advanceTimersByTime(30_000);
+    expect(opened).toBe(1);
+    expect(sent).toEqual(['+NVLX', '-NVLX', '+NVLX', '-NVLX', 'close']);
+  });
+
+  it('reconnects with backoff and re-subscribes', () => {
+    const h = hub();
+    h.subscribe('NVLX', () => {});
+    socket.onReady();
+    expect(h.provider()).toBe('fake');
+
+    socket.onClose('auth failed (402)');
+    expect(failures).toEqual(['auth failed (402)']);
+    expect(h.provider()).toBeNull();
+
+    vi.advanceTimersByTime(999);
+    expect(opened).toBe(1);
+    vi.advanceTimersByTime(1);
+    expect(opened).toBe(2);
+
+    socket.onClose('connection closed');
+    vi.advanceTimersByTime(1_999);
+    expect(opened).toBe(2);
+    vi.advanceTimersByTime(1);
+    socket.onReady();
+    expect(sent).toEqual(['+NVLX', '+NVLX']);
+  });
+});
+
+// ── Wire parsers ──────────────────────────────────────────────────────────────
+
+describe('parseStreamFrame (Alpaca)', () => {
+  it('reads trades, the auth ack and errors', () => {
+    expect(parseStreamFrame([
+      { T: 'success', msg: 'authenticated' },
+      { T: 't', S: 'NVLX', p: 3.87, s: 200, t: '2025-06-10T12:41:00.123Z', x: 'V' },
+    ])).toEqual({
+      trades:        [{ symbol: 'NVLX', price: 3.87, size: 200, t: 1_749_559_260 }],
+      authenticated: true,
+      error:         '',
+    });
+    expect(parseStreamFrame([{ T: 'error', code: 406, msg: 'connection limit exceeded' }]).error)
+      .toBe('connection limit exceeded (406)');
+  });
+});
+
+describe('parseTradeMessage (Finnhub)', () => {
+  it('reads trades and ignores pings', () => {
+    expect(parseTradeMessage({ type: 'trade', data: [{ s: 'NVLX', p: 3.87, v: 200, t: 1_749_559_260_123 }] }))
+      .toEqual([{ symbol: 'NVLX', price: 3.87, size: 200, t: 1_749_559_260 }]);
+    expect(parseTradeMessage({ type: 'ping' })).toEqual([]);
+  });
+});
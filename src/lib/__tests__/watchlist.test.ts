@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const files = new Map<string, string>();
+const writeFile = vi.fn(async (p: string, data: string) => { files.set(p, data); });
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: async (p: string) => {
+      if (!files.has(p)) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return files.get(p);
+    },
+    writeFile: (p: string, data: string) => writeFile(p, data),
+    mkdir:     async () => undefined,
+  },
+}));
+
+const { readWatchlist, mutateWatchlist } = await import('../watchlist');
+
+const PATH = `${process.cwd()}/data/watchlist.json`;
+const saved = () => JSON.parse(files.get(PATH)!);
+
+beforeEach(() => {
+  files.clear();
+  writeFile.mockClear();
+});
+
+// ── readWatchlist ─────────────────────────────────────────────────────────────
+
+describe('readWatchlist', () => {
+  it('reads bare tickers and objects, first occurrence wins', async () => {
+    files.set(PATH, JSON.stringify(['nvlx', { symbol: 'QBTR', note: 'PR 7:00' }, 'NVLX']));
+    expect((await readWatchlist()).map(e => [e.symbol, e.note])).toEqual([['NVLX', ''], ['QBTR', 'PR 7:00']]);
+  });
+
+  it('is empty for a file it cannot parse', async () => {
+    files.set(PATH, '["NVLX",');
+    expect(await readWatchlist()).toEqual([]);
+  });
+});
+
+// ── mutateWatchlist ───────────────────────────────────────────────────────────
+
+describe('mutateWatchlist', () => {
+  const add = (symbol: string) => mutateWatchlist(entries => {
+    entries.push({ symbol, note: '', alertAbove: null, alertBelow: null, alertChangePct: null, addedAt: '' });
+  });
+
+  it('refuses to save over a file it cannot parse', async () => {
+    files.set(PATH, '["NVLX",');
+    await expect(add('QBTR')).rejects.toThrow(/not valid JSON/);
+    files.set(PATH, '{"NVLX": true}');
+    await expect(add('QBTR')).rejects.toThrow(/must be a JSON array/);
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('keeps items it cannot read', async () => {
+    files.set(PATH, JSON.stringify(['NVLX', 'not a ticker', { sym: 'QBTR' }]));
+    await add('SPY');
+    expect(saved().slice(0, 2).map((e: any) => e.symbol)).toEqual(['NVLX', 'SPY']);
+    expect(saved().slice(2)).toEqual(['not a ticker', { sym: 'QBTR' }]);
+  });
+
+  it('writes nothing when nothing changed', async () => {
+    files.set(PATH, JSON.stringify(['NVLX']));
+    expect(await mutateWatchlist(entries => entries.some(e => e.symbol === 'NVLX'))).toBe(true);
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('starts a missing file', async () => {
+    await add('NVLX');
+    expect(saved().map((e: any) => e.symbol)).toEqual(['NVLX']);
+  });
+});
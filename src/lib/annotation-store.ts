@@ -0,0 +1,66 @@
+/**
+ * Annotation store — data/annotations.json
+ *
+ * One object keyed by symbol: { "NVDA": { annotations: [...], updatedAt } }.
+ * Written by /api/annotations/[symbol] whenever the chart's drawings change;
+ * the chart page keeps a localStorage copy and syncs with whichever is newer.
+ */
+
+import fs   from 'fs/promises';
+import path from 'path';
+import { parseAnnotations, type AnnotationSet } from '@/lib/annotations';
+
+const DATA_DIR         = path.join(process.cwd(), 'data');
+const ANNOTATIONS_PATH = path.join(DATA_DIR, 'annotations.json');
+
+type Store = Record<string, AnnotationSet>;
+
+/** Empty when there is no file; throws when there is one that isn't a JSON object */
+async function readStore(): Promise<Store> {
+  let text: string;
+  try { text = await fs.readFile(ANNOTATIONS_PATH, 'utf-8'); } catch (err: any) {
+    if (err?.code === 'ENOENT') return {};
+    throw err;
+  }
+
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch (err: any) {
+    throw new Error(`data/annotations.json is not valid JSON (${err?.message}) — fix it by hand`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('data/annotations.json must be a JSON object — fix it by hand');
+  }
+  return raw as Store;
+}
+
+/** A symbol's saved drawings, or null when it has none. Never throws. */
+export async function readAnnotations(symbol: string): Promise<AnnotationSet | null> {
+  let store: Store;
+  try { store = await readStore(); } catch { return null; }
+  const set = store[symbol];
+  if (!set) return null;
+  const annotations = parseAnnotations(set.annotations);
+  if (typeof annotations === 'string') return null;
+  return { annotations, updatedAt: typeof set.updatedAt === 'number' ? set.updatedAt : 0 };
+}
+
+// Writes are chained so two quick saves can't interleave their
+// read-modify-write — same as the watchlist
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Replace a symbol's drawings; an empty list removes the symbol. Rejects,
+ * leaving the file alone, when it can't be parsed — writing just this
+ * symbol would erase every other one.
+ */
+export function writeAnnotations(symbol: string, set: AnnotationSet): Promise<void> {
+  const run = queue.then(async () => {
+    const store = await readStore();
+    if (set.annotations.length) store[symbol] = set;
+    else                        delete store[symbol];
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.writeFile(ANNOTATIONS_PATH, JSON.stringify(store, null, 2));
+  });
+  queue = run.catch(() => {});
+  return run;
+}
@@ -0,0 +1,131 @@
+/**
+ * Chart annotations — what the user draws on a symbol's chart
+ *
+ * Horizontal lines, trend lines, rectangles and text notes, anchored in
+ * time and price so they survive a reload, a refresh and a timeframe
+ * change. Kept per symbol in localStorage and in data/annotations.json
+ * (src/lib/annotation-store.ts, /api/annotations/[symbol]); whichever copy
+ * was saved last wins.
+ *
+ *   parseAnnotations  validate a request body / stored list
+ *   timeToLogical     anchor time → fractional bar index on the drawn candles
+ *   logicalToTime     the inverse, for clicks
+ *   segmentDistance   pixel distance to a line segment, for the eraser
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type DrawingTool = 'hline' | 'trend' | 'rect' | 'text';
+
+export interface AnchorPoint {
+  time:  number;   // unix seconds — may fall between bars
+  price: number;
+}
+
+export type Annotation =
+  | { id: string; kind: 'hline'; price: number }
+  | { id: string; kind: 'trend'; from: AnchorPoint; to: AnchorPoint }
+  | { id: string; kind: 'rect';  from: AnchorPoint; to: AnchorPoint }
+  | { id: string; kind: 'text';  at: AnchorPoint; text: string };
+
+export interface AnnotationSet {
+  annotations: Annotation[];
+  updatedAt:   number;   // ms — the newer of the local and stored copies wins
+}
+
+export const MAX_ANNOTATIONS = 200;
+const MAX_TEXT = 140;
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function toPoint(raw: unknown): AnchorPoint | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  return finite(r.time) && finite(r.price) && r.price > 0 ? { time: r.time, price: r.price } : null;
+}
+
+function toAnnotation(raw: unknown): Annotation | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r  = raw as Record<string, unknown>;
+  const id = typeof r.id === 'string' && r.id ? r.id.slice(0, 40) : null;
+  if (!id) return null;
+
+  switch (r.kind) {
+    case 'hline':
+      return finite(r.price) && r.price > 0 ? { id, kind: 'hline', price: r.price } : null;
+    case 'trend':
+    case 'rect': {
+      const from = toPoint(r.from);
+      const to   = toPoint(r.to);
+      return from && to ? { id, kind: r.kind, from, to } : null;
+    }
+    case 'text': {
+      const at   = toPoint(r.at);
+      const text = typeof r.text === 'string' ? r.text.trim().slice(0, MAX_TEXT) : '';
+      return at && text ? { id, kind: 'text', at, text } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** A full annotation list, or an error string */
+export function parseAnnotations(raw: unknown): Annotation[] | string {
+  if (!Array.isArray(raw)) return 'annotations must be an array';
+  if (raw.length > MAX_ANNOTATIONS) return `at most ${MAX_ANNOTATIONS} annotations per symbol`;
+  const out: Annotation[] = [];
+  for (const [i, item] of raw.entries()) {
+    const a = toAnnotation(item);
+    if (!a) return `annotations[${i}] is invalid`;
+    out.push(a);
+  }
+  return out;
+}
+
+// ── Anchors ↔ bars ────────────────────────────────────────────────────────────
+// The chart positions by bar index (logical), not time: sessions leave gaps
+// and another timeframe has other bars. Anchors are placed proportionally
+// between the bars around them, and extrapolated past either end.
+
+type Bars = { time: number }[];
+
+/** Fractional bar index of `t` on `bars` (ascending). Null with fewer than 2 bars. */
+export function timeToLogical(bars: Bars, t: number): number | null {
+  const n = bars.length;
+  if (n < 2) return null;
+  let i: number;
+  if (t <= bars[0].time)          i = 0;
+  else if (t >= bars[n - 1].time) i = n - 2;
+  else {
+    let lo = 0;
+    let hi = n - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (bars[mid].time <= t) lo = mid;
+      else                     hi = mid;
+    }
+    i = lo;
+  }
+  return i + (t - bars[i].time) / (bars[i + 1].time - bars[i].time);
+}
+
+/** Time at fractional bar index `logical` — the inverse of timeToLogical */
+export function logicalToTime(bars: Bars, logical: number): number | null {
+  const n = bars.length;
+  if (n < 2) return null;
+  const i = Math.min(n - 2, Math.max(0, Math.floor(logical)));
+  return bars[i].time + (logical - i) * (bars[i + 1].time - bars[i].time);
+}
+
+// ── Hit testing ───────────────────────────────────────────────────────────────
+
+/** Distance from (px, py) to the segment (ax, ay)–(bx, by) */
+export function segmentDistance(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+  const dx  = bx - ax;
+  const dy  = by - ay;
+  const len = dx * dx + dy * dy;
+  const k   = len ? Math.min(1, Math.max(0, ((px - ax) * dx + (py - ay) * dy) / len)) : 0;
+  return Math.hypot(px - (ax + k * dx), py - (ay + k * dy));
+}
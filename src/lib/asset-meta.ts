@@ -0,0 +1,193 @@
+/**
+ * Asset metadata — data/asset-meta.json
+ *
+ * Company name, listing exchange, sector / industry / country and ETF, ADR
+ * and SPAC flags per symbol, for the scanner rows, momentum alerts and the
+ * chart header.
+ *
+ * The directory (name + exchange of every active US equity) comes from the
+ * market-data layer's asset list (Alpaca /v2/assets by default) and is
+ * refreshed once per ET day to disk. Sector, industry, country and the
+ * vendor's security type come from the daily fundamentals cache
+ * (src/lib/fundamentals.ts), so they are only fetched for symbols somebody
+ * actually looks at.
+ *
+ * ETF / ADR / SPAC are derived: the vendor's security type when it has one,
+ * else the listing name ("… American Depositary Shares", "… Acquisition
+ * Corp"), and for SPACs the "Shell Companies" / "Blank Checks" industry.
+ * The asset type (common / ETF / ADR / warrant / unit / right / preferred)
+ * that the scanner filters on comes from the symbol suffix (NYSE "ABC.WS",
+ * "ABC.U", "ABC.PRA") or the listing name ("… Warrants", "… Units, each
+ * consisting of …").
+ */
+
+import fs   from 'fs/promises';
+import path from 'path';
+import { listAssets, type Fundamentals } from '@/lib/market-data';
+import { etDate } from '@/lib/market-data/util';
+import { lookupFundamentals } from '@/lib/fundamentals';
+import { nowSec } from '@/lib/clock';
+
+const DATA_DIR   = path.join(process.cwd(), 'data');
+const CACHE_PATH = path.join(DATA_DIR, 'asset-meta.json');
+
+export type AssetType = 'common' | 'etf' | 'adr' | 'warrant' | 'unit' | 'right' | 'preferred';
+
+export const ASSET_TYPES: AssetType[] = ['common', 'etf', 'adr', 'warrant', 'unit', 'right', 'preferred'];
+
+export interface AssetMeta {
+  symbol:    string;
+  name:      string;
+  exchange:  string;              // NASDAQ | NYSE | ARCA | AMEX | …, '' if unknown
+  sector:    string;              // '' if unknown
+  industry:  string;
+  country:   string;
+  assetType: AssetType | null;    // null if unknown
+  isEtf:     boolean;
+  isAdr:     boolean;
+  isSpac:    boolean;
+}
+
+interface Listing { name: string; exchange: string }
+
+interface CacheFile {
+  date:   string;                     // ET date the directory was fetched on
+  assets: Record<string, Listing>;
+}
+
+// ── Classification ────────────────────────────────────────────────────────────
+
+const ETF_NAME  = /\b(ETF|ETN|Exchange[- ]Traded|Index Fund)\b/i;
+const ADR_NAME  = /\b(American Depositary|ADRs?|ADSs?)\b/i;
+const SPAC_NAME = /\bAcquisition (Corp|Corporation|Company|Co|Holdings|Inc)\b/i;
+const SPAC_IND  = /^(Shell Companies|Blank Checks?)\b/i;
+
+/** ETF / ADR / SPAC flags from the listing name and (when known) fundamentals */
+export function classify(name: string, f: Fundamentals | null | undefined): Pick<AssetMeta, 'isEtf' | 'isAdr' | 'isSpac'> {
+  const type   = f?.securityType ?? '';
+  const isEtf  = type === 'etf' || (!type && ETF_NAME.test(name));
+  const isAdr  = type === 'adr' || (!isEtf && ADR_NAME.test(name));
+  const isSpac = !isEtf && (SPAC_IND.test(f?.industry ?? '') || SPAC_NAME.test(name));
+  return { isEtf, isAdr, isSpac };
+}
+
+// Share-class suffixes: NYSE-style "ABC.WS" / "ABC-WT", "ABC.U", "ABC.RT", "ABC.PRA" / "ABC-PA"
+const SUFFIX_TYPE: [RegExp, AssetType][] = [
+  [/[.-](WS|WT)(\.[A-Z])?$/, 'warrant'],
+  [/[.-]U(N)?$/,             'unit'],
+  [/[.-](R|RT)$/,            'right'],
+  [/[.-]P(R)?[A-Z]?$/,       'preferred'],
+];
+
+// Descriptors the listing name ends with (or leads a clause with — "Units, each consisting of …")
+const NAME_TYPE: [RegExp, AssetType][] = [
+  [/\bWarrants?\b(,|\s+(each|to|expiring)|\s*$)/i,                       'warrant'],
+  [/\bUnits?\b(,|\s+each|\s*$)/i,                                        'unit'],
+  [/\bRights?\b(,|\s+(each|to)|\s*$)/i,                                  'right'],
+  [/\bPreferred (Stock|Shares|Securities)\b|\b(Preferred|Pfd)\.?\s*$/i, 'preferred'],
+];
+
+/**
+ * Asset type from the symbol suffix, else the listing name, else the ETF /
+ * ADR flags; common when the listing or vendor calls it a stock, null when
+ * nothing is known.
+ */
+export function assetType(
+  symbol:  string,
+  listing: string,
+  f:       Fundamentals | null | undefined,
+  flags:   Pick<AssetMeta, 'isEtf' | 'isAdr'>,
+): AssetType | null {
+  for (const [re, type] of SUFFIX_TYPE) if (re.test(symbol))  return type;
+  for (const [re, type] of NAME_TYPE)   if (re.test(listing)) return type;
+  if (flags.isEtf) return 'etf';
+  if (flags.isAdr) return 'adr';
+  if (f?.securityType === 'other') return null;
+  return listing || f?.securityType === 'stock' ? 'common' : null;
+}
+
+/**
+ * Display name — the fundamentals name when there is one, else the listing
+ * name without its share-class suffix ("Foo Inc. Class A Common Stock" → "Foo Inc.")
+ */
+export function displayName(listing: string, f: Fundamentals | null | undefined): string {
+  if (f?.name) return f.name;
+  return listing
+    .replace(/\s+(Class [A-Z]\s+)?(Common|Ordinary) (Stock|Shares)\b.*$/i, '')
+    .replace(/\s+American Depositary (Shares|Receipts?)\b.*$/i, '')
+    .trim();
+}
+
+// ── Directory cache ───────────────────────────────────────────────────────────
+
+// Some 10k rows; keep today's copy in memory rather than re-parse it per scan
+let memo: CacheFile | null = null;
+
+async function readCache(today: string): Promise<CacheFile | null> {
+  if (memo?.date === today) return memo;
+  try {
+    const c = JSON.parse(await fs.readFile(CACHE_PATH, 'utf-8')) as CacheFile;
+    if (c.date === today && c.assets) return (memo = c);
+  } catch { /* missing or corrupt — refetch */ }
+  return null;
+}
+
+async function writeCache(c: CacheFile): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(CACHE_PATH, JSON.stringify(c));
+}
+
+/** Today's asset directory; yesterday's (or none) when every provider fails */
+async function directory(): Promise<Record<string, Listing>> {
+  const today  = etDate(nowSec());
+  const cached = await readCache(today);
+  if (cached) return cached.assets;
+
+  try {
+    const assets = await listAssets();
+    memo = {
+      date:   today,
+      assets: Object.fromEntries(assets.map(a => [a.symbol, { name: a.name, exchange: a.exchange }])),
+    };
+    await writeCache(memo).catch(err => console.error('[asset-meta] cache write failed:', err?.message));
+    return memo.assets;
+  } catch (err: any) {
+    console.warn('[asset-meta] asset list failed:', err?.message);
+    return memo?.assets ?? {};
+  }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Metadata per symbol, for the symbols either source knows. Never throws.
+ * Callers that already looked the fundamentals up pass them in, so a batch
+ * isn't fetched (and the fundamentals cache written) twice.
+ */
+export async function getAssetMeta(
+  symbols:       string[],
+  fundamentals?: Record<string, Fundamentals | null>,
+): Promise<Record<string, AssetMeta>> {
+  if (!symbols.length) return {};
+  const [dir, found] = await Promise.all([directory(), fundamentals ?? lookupFundamentals(symbols)]);
+
+  const out: Record<string, AssetMeta> = {};
+  for (const symbol of symbols) {
+    const listing = dir[symbol];
+    const f       = found[symbol];
+    if (!listing && !f) continue;
+    const name  = displayName(listing?.name ?? '', f);
+    const flags = classify(listing?.name || name, f);
+    out[symbol] = {
+      symbol,
+      name:      name || symbol,
+      exchange:  listing?.exchange ?? '',
+      sector:    f?.sector   ?? '',
+      industry:  f?.industry ?? '',
+      country:   f?.country  ?? '',
+      assetType: assetType(symbol, listing?.name ?? '', f, flags),
+      ...flags,
+    };
+  }
+  return out;
+}
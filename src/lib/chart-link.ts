@@ -0,0 +1,103 @@
+/**
+ * Chart link — hands a symbol from the /scanner page to a chart grid open
+ * in another tab
+ *
+ * A BroadcastChannel between same-origin tabs. A grid with its scanner link
+ * on announces itself when it starts listening, again every few seconds,
+ * and when it stops. The scanner tracks those announcements and only offers
+ * a symbol while a linked grid is known to be alive. The grid loads it into
+ * the focused cell and answers. With no grid known, or no answer in time,
+ * the scanner navigates to the chart as before.
+ */
+
+const CHANNEL   = 'nx-chart-link';
+const ANSWER_MS = 250;
+const BEAT_MS   = 5_000;     // a listening grid re-announces itself this often
+const ALIVE_MS  = 12_000;    // and counts as gone once unheard for this long
+
+type Message =
+  | { type: 'symbol'; id: string; symbol: string }
+  | { type: 'loaded'; id: string }
+  | { type: 'who' }
+  | { type: 'here';   grid: string }
+  | { type: 'gone';   grid: string };
+
+export interface LinkedCharts {
+  /** Whether a linked grid has been heard from recently */
+  alive(): boolean;
+  /** Offer `symbol` to the linked grids. Resolves true once one has taken it, false at once with none alive. */
+  send(symbol: string): Promise<boolean>;
+  close(): void;
+}
+
+const randomId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Track the linked grids open in other tabs, for the scanner to send rows to */
+export function watchLinkedCharts(): LinkedCharts {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { alive: () => false, send: () => Promise.resolve(false), close: () => {} };
+  }
+  const channel = new BroadcastChannel(CHANNEL);
+  const heard   = new Map<string, number>();                      // grid id → last heard, ms
+  const pending = new Map<string, (taken: boolean) => void>();    // offer id → settle
+
+  channel.onmessage = (e: MessageEvent<Message>) => {
+    const msg = e.data;
+    if      (msg?.type === 'here')   heard.set(msg.grid, Date.now());
+    else if (msg?.type === 'gone')   heard.delete(msg.grid);
+    else if (msg?.type === 'loaded') pending.get(msg.id)?.(true);
+  };
+  // Grids that were already open answer this
+  channel.postMessage({ type: 'who' } satisfies Message);
+
+  function alive(): boolean {
+    const now = Date.now();
+    for (const [grid, at] of heard) if (now - at > ALIVE_MS) heard.delete(grid);
+    return heard.size > 0;
+  }
+
+  function send(symbol: string): Promise<boolean> {
+    if (!alive()) return Promise.resolve(false);
+    const id = randomId();
+    return new Promise((resolve) => {
+      const done = (taken: boolean) => {
+        clearTimeout(timer);
+        pending.delete(id);
+        resolve(taken);
+      };
+      const timer = setTimeout(() => done(false), ANSWER_MS);
+      pending.set(id, done);
+      channel.postMessage({ type: 'symbol', id, symbol } satisfies Message);
+    });
+  }
+
+  function close() {
+    for (const done of [...pending.values()]) done(false);
+    channel.close();
+  }
+
+  return { alive, send, close };
+}
+
+/** Take symbols offered by the scanner until the returned function is called */
+export function listenForLinkedSymbols(onSymbol: (symbol: string) => void): () => void {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+  const channel  = new BroadcastChannel(CHANNEL);
+  const grid     = randomId();
+  const announce = () => channel.postMessage({ type: 'here', grid } satisfies Message);
+
+  channel.onmessage = (e: MessageEvent<Message>) => {
+    if (e.data?.type === 'who') return announce();
+    if (e.data?.type !== 'symbol') return;
+    onSymbol(e.data.symbol);
+    channel.postMessage({ type: 'loaded', id: e.data.id } satisfies Message);
+  };
+  announce();
+  const beat = setInterval(announce, BEAT_MS);
+
+  return () => {
+    clearInterval(beat);
+    channel.postMessage({ type: 'gone', grid } satisfies Message);
+    channel.close();
+  };
+}
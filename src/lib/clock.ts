@@ -0,0 +1,37 @@
+/**
+ * Market clock — wall time, or a replayed morning
+ *
+ * Anything that asks "which session is it?" or "what is today in New York?"
+ * reads this instead of Date.now(), so an offline fixture replay can pretend
+ * it is the moment the fixtures were recorded (see fixtures/README.md).
+ *
+ * Env vars:
+ *   MARKET_CLOCK — ISO timestamp the clock starts at, e.g.
+ *                  2025-06-10T08:45:00-04:00. Time keeps moving from there,
+ *                  so cooldowns and refresh loops still behave.
+ */
+
+const BOOT_MS = Date.now();
+
+function startMs(): number | null {
+  const raw = process.env.MARKET_CLOCK?.trim();
+  if (!raw) return null;
+  const ms = new Date(raw).getTime();
+  if (Number.isNaN(ms)) {
+    console.warn(`[clock] ignoring invalid MARKET_CLOCK "${raw}"`);
+    return null;
+  }
+  return ms;
+}
+
+const START_MS = startMs();
+
+/** Current market time in ms */
+export function now(): number {
+  return START_MS == null ? Date.now() : START_MS + (Date.now() - BOOT_MS);
+}
+
+/** Current market time in unix seconds */
+export function nowSec(): number {
+  return Math.floor(now() / 1000);
+}
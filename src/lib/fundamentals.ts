@@ -0,0 +1,91 @@
+/**
+ * Fundamentals lookup — data/fundamentals-cache.json
+ *
+ * Share counts and short interest change a few times a month at most, so
+ * each symbol is looked up once per ET trading day through the market-data
+ * layer (Yahoo → Finnhub → Polygon → SEC EDGAR by default) and cached.
+ * Symbols a provider reported unknown are cached as null so an unlisted
+ * warrant costs one lookup a day, not one per scan; symbols whose lookup
+ * failed everywhere (an outage, a 429) are not cached and the next call
+ * retries them.
+ *
+ * Market cap is shares × the caller's live price — a stock up 80 % in
+ * pre-market is valued at its pre-market price, not yesterday's close. The
+ * vendor's own cap figure is only used when shares are unknown.
+ */
+
+import fs   from 'fs/promises';
+import path from 'path';
+import { getFundamentals, type Fundamentals } from '@/lib/market-data';
+import { etDate } from '@/lib/market-data/util';
+import { nowSec } from '@/lib/clock';
+
+const DATA_DIR   = path.join(process.cwd(), 'data');
+const CACHE_PATH = path.join(DATA_DIR, 'fundamentals-cache.json');
+
+// Per-symbol vendors reject bigger batches (see market-data/util.ts)
+const BATCH = 50;
+
+interface CacheFile {
+  date:    string;                                 // ET date the entries belong to
+  symbols: Record<string, Fundamentals | null>;   // null = no provider knows it
+}
+
+// ── Cache ─────────────────────────────────────────────────────────────────────
+
+async function readCache(today: string): Promise<CacheFile> {
+  try {
+    const c = JSON.parse(await fs.readFile(CACHE_PATH, 'utf-8')) as CacheFile;
+    if (c.date === today && c.symbols) return c;
+  } catch { /* missing or corrupt — start fresh */ }
+  return { date: today, symbols: {} };
+}
+
+async function writeCache(c: CacheFile): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(CACHE_PATH, JSON.stringify(c, null, 2));
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Today's fundamentals per symbol, null where no provider has any; symbols
+ * that could not be looked up are left out. Never throws.
+ */
+export async function lookupFundamentals(symbols: string[]): Promise<Record<string, Fundamentals | null>> {
+  const cache   = await readCache(etDate(nowSec()));
+  const missing = [...new Set(symbols)].filter(s => !(s in cache.symbols));
+
+  for (let i = 0; i < missing.length; i += BATCH) {
+    const batch = missing.slice(i, i + BATCH);
+    try {
+      const found = await getFundamentals(batch);
+      for (const sym of batch) if (sym in found) cache.symbols[sym] = found[sym];
+    } catch (err: any) {
+      console.warn('[fundamentals] lookup failed:', err?.message);
+    }
+  }
+
+  if (missing.some(s => s in cache.symbols)) {
+    await writeCache(cache).catch(err => console.error('[fundamentals] cache write failed:', err?.message));
+  }
+  return Object.fromEntries(symbols.filter(s => s in cache.symbols).map(s => [s, cache.symbols[s]]));
+}
+
+/** Market cap at a given price — shares × price, else the vendor's figure, else 0 (unknown) */
+export function marketCapAt(f: Fundamentals | null | undefined, price: number): number {
+  if (f?.sharesOutstanding && price > 0) return Math.round(f.sharesOutstanding * price);
+  return f?.marketCap ?? 0;
+}
+
+/** Short interest as % of float (of shares outstanding when float is unknown); 0 if unknown */
+export function shortInterestPct(f: Fundamentals | null | undefined): number {
+  const base = f?.floatShares || f?.sharesOutstanding || 0;
+  return f?.sharesShort && base ? (f.sharesShort / base) * 100 : 0;
+}
+
+/** Market cap per symbol at the given prices; 0 where unknown */
+export async function getMarketCaps(prices: Record<string, number>): Promise<Record<string, number>> {
+  const found = await lookupFundamentals(Object.keys(prices));
+  return Object.fromEntries(Object.entries(prices).map(([sym, price]) => [sym, marketCapAt(found[sym], price)]));
+}
@@ -0,0 +1,157 @@
+/**
+ * Chart indicators — computed from the chart route's candles
+ *
+ * Pure functions over a Candle[] ascending by time, so NxChart only draws
+ * the output. Lines carry a point only where the indicator is defined.
+ *
+ *   vwap           session-anchored volume-weighted average price
+ *   ema            exponential moving average of the close
+ *   volumeProfile  volume traded at each price, with POC and value area
+ */
+
+import type { Candle } from '@/lib/live-bar';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface LinePoint {
+  time:  number;   // bar open, unix seconds
+  value: number;
+}
+
+/** Where each day's VWAP starts: the 09:30 open, or 04:00 to take in the pre-market */
+export type VwapAnchor = 'regular' | 'pre';
+
+export const EMA_PERIODS = [9, 20, 200] as const;
+export type EmaPeriod = (typeof EMA_PERIODS)[number];
+
+/** What the chart overlays — toggled from the chart header */
+export interface IndicatorSettings {
+  vwap:          boolean;
+  vwapAnchor:    VwapAnchor;
+  emas:          EmaPeriod[];
+  volumeProfile: boolean;
+}
+
+export const DEFAULT_INDICATORS: IndicatorSettings = {
+  vwap:          true,
+  vwapAnchor:    'regular',
+  emas:          [9, 20],
+  volumeProfile: false,
+};
+
+export interface ProfileRow {
+  low:    number;
+  high:   number;
+  volume: number;
+}
+
+export interface VolumeProfile {
+  rows:      ProfileRow[];   // equal-height price rows, bottom to top
+  poc:       number;         // index of the row with the most volume (point of control)
+  valueLow:  number;         // price range holding VALUE_AREA of the volume around the POC
+  valueHigh: number;
+}
+
+// ── VWAP ──────────────────────────────────────────────────────────────────────
+
+const ET_DATE = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year:     'numeric',
+  month:    '2-digit',
+  day:      '2-digit',
+});
+
+/**
+ * VWAP of the typical price ((h + l + c) / 3), restarting each ET trading
+ * day. Anchored at the regular open it skips pre-market bars and runs on
+ * through the post-market. Meant for intraday candles — daily bars are all
+ * tagged 'regular', so it would restart on every bar.
+ */
+export function vwap(candles: Candle[], anchor: VwapAnchor = 'regular'): LinePoint[] {
+  const out: LinePoint[] = [];
+  let day    = '';
+  let pv     = 0;
+  let volume = 0;
+
+  for (const c of candles) {
+    if (anchor === 'regular' && c.session === 'pre') continue;
+    const date = ET_DATE.format(new Date(c.time * 1000));
+    if (date !== day) {
+      day    = date;
+      pv     = 0;
+      volume = 0;
+    }
+    pv     += ((c.high + c.low + c.close) / 3) * c.volume;
+    volume += c.volume;
+    if (volume > 0) out.push({ time: c.time, value: pv / volume });
+  }
+  return out;
+}
+
+// ── EMA ───────────────────────────────────────────────────────────────────────
+
+/** EMA of the close, seeded with the simple average of the first `period` closes */
+export function ema(candles: Candle[], period: number): LinePoint[] {
+  if (period < 1 || candles.length < period) return [];
+  const k = 2 / (period + 1);
+
+  let value = candles.slice(0, period).reduce((sum, c) => sum + c.close, 0) / period;
+  const out: LinePoint[] = [{ time: candles[period - 1].time, value }];
+  for (let i = period; i < candles.length; i++) {
+    value = candles[i].close * k + value * (1 - k);
+    out.push({ time: candles[i].time, value });
+  }
+  return out;
+}
+
+// ── Volume profile ────────────────────────────────────────────────────────────
+
+const VALUE_AREA = 0.7;
+
+/**
+ * Volume by price over `candles`, in `rowCount` rows from the lowest low to
+ * the highest high. Each bar's volume is spread evenly over its high–low
+ * range. Null when nothing traded.
+ */
+export function volumeProfile(candles: Candle[], rowCount = 24): VolumeProfile | null {
+  const traded = candles.filter(c => c.volume > 0);
+  if (!traded.length || rowCount < 1) return null;
+
+  const lo   = Math.min(...traded.map(c => c.low));
+  const hi   = Math.max(...traded.map(c => c.high));
+  const n    = hi > lo ? rowCount : 1;
+  const step = (hi - lo) / n || 1;
+  const rows: ProfileRow[] = Array.from({ length: n }, (_, i) => ({
+    low:    lo + i * step,
+    high:   i === n - 1 ? hi : lo + (i + 1) * step,
+    volume: 0,
+  }));
+  const rowOf = (price: number) => Math.min(n - 1, Math.max(0, Math.floor((price - lo) / step)));
+
+  for (const c of traded) {
+    if (c.high <= c.low) {
+      rows[rowOf(c.close)].volume += c.volume;
+      continue;
+    }
+    for (let r = rowOf(c.low); r <= rowOf(c.high); r++) {
+      const overlap = Math.min(c.high, rows[r].high) - Math.max(c.low, rows[r].low);
+      if (overlap > 0) rows[r].volume += (c.volume * overlap) / (c.high - c.low);
+    }
+  }
+
+  const total = rows.reduce((sum, r) => sum + r.volume, 0);
+  const poc   = rows.reduce((best, r, i) => (r.volume > rows[best].volume ? i : best), 0);
+
+  // Grow the value area from the POC, one row at a time towards the busier side
+  let below = poc;
+  let above = poc;
+  let inside = rows[poc].volume;
+  while (inside < total * VALUE_AREA && (below > 0 || above < n - 1)) {
+    const down = below > 0     ? rows[below - 1].volume : -1;
+    const up   = above < n - 1 ? rows[above + 1].volume : -1;
+    if (up >= down) inside += rows[++above].volume;
+    else            inside += rows[--below].volume;
+  }
+
+  return { rows, poc, valueLow: rows[below].low, valueHigh: rows[above].high };
+}
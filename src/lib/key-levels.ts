@@ -0,0 +1,87 @@
+/**
+ * Key levels — the prices momentum traders watch, derived from the candles
+ *
+ * NxChart draws these as labelled price lines alongside the route's prior
+ * day / week / month levels, and shades the extended sessions. Derived
+ * from whatever candles are drawn (streamed bars included), so the
+ * pre-market high moves as the pre-market prints.
+ *
+ *   sessionLevels  pre-market high / low and the regular open of the chart's day
+ *   roundLevels    the whole- and half-dollar prices nearest the last price
+ *   sessionBands   runs of pre / post-market bars, for background shading
+ */
+
+import type { Candle, SessionBounds } from '@/lib/live-bar';
+
+const PRE_LENGTH = 330 * 60;   // 04:00 → 09:30
+
+// ── Session levels ────────────────────────────────────────────────────────────
+
+export interface SessionLevels {
+  preHigh: number;   // 0 when the day has no pre-market bars (yet)
+  preLow:  number;
+  open:    number;   // first regular-session bar's open, 0 before 09:30
+}
+
+/** Pre-market range and regular open of the day bounded by regularStart / regularEnd */
+export function sessionLevels(candles: Candle[], b: SessionBounds): SessionLevels {
+  const out: SessionLevels = { preHigh: 0, preLow: 0, open: 0 };
+  for (const c of candles) {
+    if (c.session === 'pre' && c.time >= b.regularStart - PRE_LENGTH && c.time < b.regularStart) {
+      out.preHigh = Math.max(out.preHigh, c.high);
+      out.preLow  = out.preLow ? Math.min(out.preLow, c.low) : c.low;
+    } else if (!out.open && c.session === 'regular' && c.time >= b.regularStart && c.time < b.regularEnd) {
+      out.open = c.open;
+    }
+  }
+  return out;
+}
+
+// ── Round numbers ─────────────────────────────────────────────────────────────
+
+export interface RoundLevel {
+  price: number;
+  whole: boolean;   // whole dollar, else half
+}
+
+/**
+ * The `count` whole- and half-dollar prices nearest `price`, ascending.
+ * Sub-dollar stocks get none — every level would be a round number.
+ */
+export function roundLevels(price: number, count = 6): RoundLevel[] {
+  if (price < 1 || count < 1) return [];
+  const mid    = Math.round(price * 2);                  // nearest half, in halves
+  const halves = Array.from({ length: count * 2 + 1 }, (_, i) => mid - count + i).filter(h => h >= 2);
+  return halves
+    .sort((a, b) => Math.abs(a / 2 - price) - Math.abs(b / 2 - price) || a - b)
+    .slice(0, count)
+    .sort((a, b) => a - b)
+    .map(h => ({ price: h / 2, whole: h % 2 === 0 }));
+}
+
+// ── Session bands ─────────────────────────────────────────────────────────────
+
+export interface SessionBand {
+  session: 'pre' | 'post';
+  from:    number;   // first bar's time
+  to:      number;   // last bar's time
+}
+
+/** Contiguous runs of extended-hours bars — one pre and one post band per day */
+export function sessionBands(candles: Candle[]): SessionBand[] {
+  const bands: SessionBand[] = [];
+  let open: SessionBand | null = null;
+  for (const c of candles) {
+    if (c.session === 'regular') {
+      open = null;
+      continue;
+    }
+    if (open && open.session === c.session) {
+      open.to = c.time;
+      continue;
+    }
+    open = { session: c.session, from: c.time, to: c.time };
+    bands.push(open);
+  }
+  return bands;
+}
@@ -0,0 +1,151 @@
+/**
+ * Live bars — keeps a drawn chart current without redrawing it
+ *
+ * The chart page loads candles from /api/chart, keeps the last one current
+ * from /api/chart/stream, and refreshes from /api/chart every few seconds;
+ * NxChart applies each change in place (series.update) so zoom and scroll
+ * survive. Two pieces:
+ *
+ *   foldTrades   streamed trades → the newest bars
+ *   diffCandles  a refreshed candle list → the bars that changed
+ *
+ * Trades are bucketed the way the chart route builds its bars: 1-minute
+ * bars on the minute, hourly bars anchored at the open of the session the
+ * trade printed in (04:00 / 09:30 / 16:00 ET), so the last hour of a
+ * session is cut short rather than spilling into the next. Session edges
+ * come from the route's regularStart / regularEnd.
+ */
+
+export type Session = 'pre' | 'regular' | 'post';
+
+export interface Candle {
+  time:    number;   // bar open, unix seconds
+  open:    number;
+  high:    number;
+  low:     number;
+  close:   number;
+  volume:  number;
+  session: Session;
+}
+
+export interface LiveTrade {
+  price: number;
+  size:  number;
+  t:     number;   // unix seconds
+}
+
+/** Regular-session open and close of the day on the chart, unix seconds */
+export interface SessionBounds {
+  regularStart: number;
+  regularEnd:   number;
+}
+
+const PRE_LENGTH  = 330 * 60;   // 04:00 → 09:30
+const POST_LENGTH = 240 * 60;   // 16:00 → 20:00
+
+/** The session a trade printed in, or null outside 04:00–20:00 ET of the chart's day */
+export function tradeSession(t: number, b: SessionBounds): Session | null {
+  if (t < b.regularStart - PRE_LENGTH || t >= b.regularEnd + POST_LENGTH) return null;
+  if (t < b.regularStart) return 'pre';
+  if (t >= b.regularEnd)  return 'post';
+  return 'regular';
+}
+
+/** Open time of the `minutes`-wide bar a trade belongs to */
+export function barTime(t: number, session: Session, minutes: number, b: SessionBounds): number {
+  const anchor =
+    session === 'pre'     ? b.regularStart - PRE_LENGTH :
+    session === 'regular' ? b.regularStart :
+                            b.regularEnd;
+  const size = minutes * 60;
+  return anchor + Math.floor((t - anchor) / size) * size;
+}
+
+/**
+ * Apply trades (oldest first) on top of `last`, the newest bar the chart
+ * has. Returns every bar they touched, oldest first — the last entry is the
+ * new newest bar. Trades older than `last`, or outside the chart's day,
+ * are dropped.
+ */
+export function foldTrades(
+  last:    Candle | null,
+  trades:  LiveTrade[],
+  minutes: number,
+  bounds:  SessionBounds,
+): Candle[] {
+  const touched: Candle[] = [];
+  let bar = last;
+
+  for (const trade of trades) {
+    const session = tradeSession(trade.t, bounds);
+    if (!session || !trade.price) continue;
+    const time = barTime(trade.t, session, minutes, bounds);
+    if (bar && time < bar.time) continue;
+
+    if (bar && time === bar.time) {
+      bar = {
+        ...bar,
+        high:   Math.max(bar.high, trade.price),
+        low:    Math.min(bar.low, trade.price),
+        close:  trade.price,
+        volume: bar.volume + trade.size,
+      };
+      if (touched.length) touched.pop();
+    } else {
+      bar = {
+        time,
+        open:    trade.price,
+        high:    trade.price,
+        low:     trade.price,
+        close:   trade.price,
+        volume:  trade.size,
+        session,
+      };
+    }
+    touched.push(bar);
+  }
+  return touched;
+}
+
+// ── Refresh diff ──────────────────────────────────────────────────────────────
+
+export type CandleDiff =
+  | { kind: 'update'; bars: Candle[] }   // changed or appended bars, oldest first — may be empty
+  | { kind: 'reset' };                   // history changed — replace everything
+
+// Past this many changed bars one setData is cheaper than that many updates
+const MAX_UPDATES = 50;
+
+function sameCandle(a: Candle, b: Candle): boolean {
+  return a.open === b.open && a.high === b.high && a.low === b.low &&
+    a.close === b.close && a.volume === b.volume && a.session === b.session;
+}
+
+/**
+ * What a refreshed candle list changes on a chart drawing `shown` (both
+ * ascending by time). Edited bars and bars after the newest one can be
+ * updated in place; a bar that vanished, or appeared mid-history, means
+ * the history itself changed.
+ */
+export function diffCandles(shown: Candle[], next: Candle[]): CandleDiff {
+  if (!shown.length || !next.length) return { kind: 'reset' };
+
+  const before = new Map(shown.map(c => [c.time, c]));
+  const newest = shown[shown.length - 1].time;
+  const bars: Candle[] = [];
+  let kept = 0;
+
+  for (const c of next) {
+    const old = before.get(c.time);
+    if (old) {
+      kept++;
+      if (!sameCandle(old, c)) bars.push(c);
+    } else if (c.time > newest) {
+      bars.push(c);
+    } else {
+      return { kind: 'reset' };
+    }
+  }
+  if (kept < shown.length || bars.length > MAX_UPDATES) return { kind: 'reset' };
+  return { kind: 'update', bars };
+}
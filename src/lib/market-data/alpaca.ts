@@ -0,0 +1,250 @@
+/**
+ * Alpaca Markets adapter — snapshots, bars, movers, assets, quote, trades
+ *
+ * Market data comes from the free IEX feed; the asset list from the
+ * paper-trading API (same keys). Live trades come over the IEX WebSocket,
+ * which the free plan allows one connection to per key.
+ *
+ * Env vars:
+ *   ALPACA_KEY    — Alpaca API key ID
+ *   ALPACA_SECRET — Alpaca API secret key
+ */
+
+import axios     from 'axios';
+import WebSocket from 'ws';
+import type {
+  MarketDataProvider, Snapshot, Bar, BarsRequest, Movers, MoversRequest, Asset, Quote,
+  Trade, TradeStream, TradeStreamHandlers,
+} from './types';
+
+const ALPACA_DATA   = 'https://data.alpaca.markets';
+const ALPACA_API    = 'https://paper-api.alpaca.markets';
+const ALPACA_STREAM = 'wss://stream.data.alpaca.markets/v2/iex';
+
+const MAX_BAR_PAGES = 10;
+
+function alpacaHeaders() {
+  return {
+    'APCA-API-KEY-ID':     process.env.ALPACA_KEY    ?? '',
+    'APCA-API-SECRET-KEY': process.env.ALPACA_SECRET ?? '',
+    Accept:                'application/json',
+  };
+}
+
+// ── Wire shapes ───────────────────────────────────────────────────────────────
+
+interface AlpacaBar {
+  t: string; o: number; h: number; l: number; c: number; v: number; vw: number;
+}
+
+interface AlpacaSnapshot {
+  latestTrade:  { p: number; s: number; t: string }                           | null;
+  latestQuote:  { ap: number; as: number; bp: number; bs: number; t: string } | null;
+  minuteBar:    AlpacaBar | null;
+  dailyBar:     AlpacaBar | null;
+  prevDailyBar: AlpacaBar | null;
+}
+
+interface AlpacaMover {
+  symbol: string; percent_change: number; change: number; price: number;
+}
+
+/** One message of a stream frame — T is t (trade), success, error or subscription */
+interface AlpacaStreamMessage {
+  T: string; S?: string; p?: number; s?: number; t?: string; msg?: string; code?: number;
+}
+
+const unix = (iso: string | undefined) => (iso ? Math.floor(new Date(iso).getTime() / 1000) : 0);
+
+function toBar(b: AlpacaBar | null | undefined): Bar | null {
+  return b ? { t: unix(b.t), o: b.o, h: b.h, l: b.l, c: b.c, v: b.v } : null;
+}
+
+function toMover(m: AlpacaMover) {
+  return { symbol: m.symbol, price: m.price, change: m.change, changePct: m.percent_change };
+}
+
+// ── Wire parsers ──────────────────────────────────────────────────────────────
+// Exported so recorded Alpaca payloads (the offline `fake` provider) go
+// through exactly the same mapping as live ones.
+
+/** GET /v2/stocks/snapshots response body */
+export function parseSnapshots(data: unknown): Record<string, Snapshot> {
+  const out: Record<string, Snapshot> = {};
+  for (const [symbol, s] of Object.entries((data ?? {}) as Record<string, AlpacaSnapshot | null>)) {
+    if (!s) continue;
+    out[symbol] = {
+      symbol,
+      price:     s.latestTrade?.p  ?? 0,
+      tradeTime: unix(s.latestTrade?.t),
+      bid:       s.latestQuote?.bp ?? 0,
+      ask:       s.latestQuote?.ap ?? 0,
+      bidSize:   s.latestQuote?.bs ?? 0,
+      askSize:   s.latestQuote?.as ?? 0,
+      day:       toBar(s.dailyBar),
+      prevDay:   toBar(s.prevDailyBar),
+    };
+  }
+  return out;
+}
+
+/** One page of GET /v2/stocks/bars */
+export function parseBars(data: any): Record<string, Bar[]> {
+  const bars: Record<string, AlpacaBar[]> = data?.bars ?? {};
+  return Object.fromEntries(
+    Object.entries(bars).map(([sym, symBars]) => [sym, (symBars ?? []).map(b => toBar(b)!)]),
+  );
+}
+
+/** GET /v1beta1/screener/stocks/movers response body */
+export function parseMovers(data: any): Omit<Movers, 'rankedBy'> {
+  return {
+    gainers: ((data?.gainers ?? []) as AlpacaMover[]).map(toMover),
+    losers:  ((data?.losers  ?? []) as AlpacaMover[]).map(toMover),
+  };
+}
+
+/** GET /v2/assets response body */
+export function parseAssets(data: unknown): Asset[] {
+  const assets = (data ?? []) as { symbol: string; name: string; exchange: string; tradable: boolean }[];
+  return assets.map(a => ({ symbol: a.symbol, name: a.name ?? a.symbol, exchange: a.exchange, tradable: a.tradable }));
+}
+
+/**
+ * One frame from the trade stream — a JSON array of messages. `error` is
+ * set when Alpaca refused the connection (bad keys, connection limit).
+ */
+export function parseStreamFrame(data: unknown): { trades: Trade[]; authenticated: boolean; error: string } {
+  const out = { trades: [] as Trade[], authenticated: false, error: '' };
+  for (const m of (Array.isArray(data) ? data : []) as AlpacaStreamMessage[]) {
+    if (m.T === 't' && m.S && m.p) {
+      out.trades.push({ symbol: m.S, price: m.p, size: m.s ?? 0, t: unix(m.t) });
+    } else if (m.T === 'success' && m.msg === 'authenticated') {
+      out.authenticated = true;
+    } else if (m.T === 'error') {
+      out.error = `${m.msg ?? 'stream error'} (${m.code ?? '?'})`;
+    }
+  }
+  return out;
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+export const alpaca: MarketDataProvider = {
+  name:     'alpaca',
+  authHint:
+    'Check ALPACA_KEY and ALPACA_SECRET in your .env.local — ' +
+    'regenerate them at https://app.alpaca.markets/paper/dashboard/overview',
+
+  configured: () => !!process.env.ALPACA_KEY && !!process.env.ALPACA_SECRET,
+
+  async getSnapshots(symbols: string[]): Promise<Record<string, Snapshot>> {
+    if (!symbols.length) return {};
+    const res = await axios.get(`${ALPACA_DATA}/v2/stocks/snapshots`, {
+      headers: alpacaHeaders(),
+      params:  { symbols: symbols.join(','), feed: 'iex' },
+      timeout: 15_000,
+    });
+    return parseSnapshots(res.data);
+  },
+
+  // Multi-symbol bars are paginated across all symbols — follow the token
+  async getBars(symbols: string[], req: BarsRequest): Promise<Record<string, Bar[]>> {
+    if (!symbols.length) return {};
+    const out: Record<string, Bar[]> = {};
+    let pageToken: string | undefined;
+
+    for (let page = 0; page < MAX_BAR_PAGES; page++) {
+      const res = await axios.get(`${ALPACA_DATA}/v2/stocks/bars`, {
+        headers: alpacaHeaders(),
+        params: {
+          symbols:    symbols.join(','),
+          timeframe:  req.timeframe,
+          start:      new Date((req.start || 0) * 1000).toISOString(),
+          end:        new Date((req.end ?? Math.floor(Date.now() / 1000)) * 1000).toISOString(),
+          feed:       'iex',
+          limit:      10_000,
+          adjustment: 'raw',
+          ...(pageToken ? { page_token: pageToken } : {}),
+        },
+        timeout: 20_000,
+      });
+
+      for (const [sym, symBars] of Object.entries(parseBars(res.data))) {
+        (out[sym] ??= []).push(...symBars);
+      }
+
+      pageToken = res.data?.next_page_token ?? undefined;
+      if (!pageToken) break;
+    }
+    return out;
+  },
+
+  async getMovers(req: MoversRequest): Promise<Movers> {
+    const res = await axios.get(`${ALPACA_DATA}/v1beta1/screener/stocks/movers`, {
+      headers: alpacaHeaders(),
+      params:  { top: Math.min(req.top, 100), ...(req.marketType ? { market_type: req.marketType } : {}) },
+      timeout: 15_000,
+    });
+    // Latest trade vs the prior close — right for pre-market and regular only
+    const session = req.marketType ?? 'regular';
+    return { ...parseMovers(res.data), rankedBy: session === 'post_market' ? null : session };
+  },
+
+  async listAssets(): Promise<Asset[]> {
+    const res = await axios.get(`${ALPACA_API}/v2/assets`, {
+      headers: alpacaHeaders(),
+      params:  { status: 'active', asset_class: 'us_equity' },
+      timeout: 30_000,
+    });
+    return parseAssets(res.data);
+  },
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const snaps = await alpaca.getSnapshots!([symbol]);
+    const s     = snaps[symbol];
+    if (!s) throw new Error(`no snapshot for ${symbol}`);
+    return {
+      symbol,
+      name:      symbol,  // snapshots carry no name
+      price:     s.price,
+      prevClose: s.prevDay?.c ?? 0,
+      time:      s.tradeTime,
+    };
+  },
+
+  // Auth goes in the first message; subscriptions only after Alpaca confirms it
+  openTradeStream(handlers: TradeStreamHandlers): TradeStream {
+    const ws    = new WebSocket(ALPACA_STREAM);
+    let failure = '';
+    let closing = false;
+
+    const send = (msg: object) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+    };
+
+    ws.on('open', () => send({ action: 'auth', key: process.env.ALPACA_KEY, secret: process.env.ALPACA_SECRET }));
+    ws.on('message', raw => {
+      let frame: ReturnType<typeof parseStreamFrame>;
+      try { frame = parseStreamFrame(JSON.parse(raw.toString())); } catch { return; }
+      if (frame.error) {
+        failure = frame.error;
+        ws.close();
+        return;
+      }
+      if (frame.authenticated)  handlers.onReady();
+      if (frame.trades.length)  handlers.onTrades(frame.trades);
+    });
+    ws.on('error', err => { failure ||= err.message; });
+    ws.on('close', () => handlers.onClose(closing ? undefined : failure || 'connection closed'));
+
+    return {
+      subscribe:   symbols => send({ action: 'subscribe',   trades: symbols }),
+      unsubscribe: symbols => send({ action: 'unsubscribe', trades: symbols }),
+      close() {
+        closing = true;
+        ws.close();
+      },
+    };
+  },
+};
@@ -0,0 +1,206 @@
+/**
+ * Offline stand-in — replays recorded Alpaca payloads from fixture files
+ *
+ * Never in the default order; select it explicitly with
+ * MARKET_DATA_PROVIDERS=fake (pair with MARKET_CLOCK so the bar windows and
+ * session gates line up with the recording — see fixtures/README.md).
+ *
+ * Fixture layout (raw Alpaca response bodies, parsed by ./alpaca.ts):
+ *   snapshots.json     — GET /v2/stocks/snapshots
+ *   movers.json        — GET /v1beta1/screener/stocks/movers
+ *   assets.json        — GET /v2/assets
+ *   bars/<tf>.json     — GET /v2/stocks/bars, one file per timeframe; 15Min
+ *                        and 1Hour fall back to 1Min, 1Week and 1Month to 1Day
+ *   fundamentals.json  — Yahoo GET /v10/finance/quoteSummary bodies keyed by
+ *                        symbol (Alpaca has none; parsed by ./yahoo.ts)
+ *
+ * Live trades aren't recorded: the trade stream makes up a random walk
+ * from each symbol's recorded snapshot price, a few prints a second,
+ * stamped with the market clock.
+ *
+ * Env vars:
+ *   MARKET_DATA_FIXTURES — fixture directory (default fixtures/market-data)
+ */
+
+import fs   from 'fs';
+import path from 'path';
+import type {
+  MarketDataProvider, Snapshot, Bar, BarsRequest, BarTimeframe, Movers, MoversRequest, Asset, Quote, Fundamentals,
+  Trade, TradeStream, TradeStreamHandlers,
+} from './types';
+import { parseSnapshots, parseBars, parseMovers, parseAssets } from './alpaca';
+import { parseKeyStatistics } from './yahoo';
+import { etDate } from './util';
+import { nowSec } from '../clock';
+
+function fixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.MARKET_DATA_FIXTURES ?? 'fixtures/market-data');
+}
+
+async function readFixture(name: string): Promise<unknown | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(fixtureDir(), name), 'utf-8'));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return null;
+    throw new Error(`fixture ${name}: ${err?.message}`);
+  }
+}
+
+// ── Resampling ────────────────────────────────────────────────────────────────
+// Timeframes without their own recording are built from a finer one.
+
+const DERIVED: Partial<Record<BarTimeframe, { from: BarTimeframe; bucket: (t: number) => string | number }>> = {
+  '15Min':  { from: '1Min', bucket: t => Math.floor(t / 900)  * 900 },
+  '1Hour':  { from: '1Min', bucket: t => Math.floor(t / 3600) * 3600 },
+  '1Week':  { from: '1Day', bucket: t => weekOf(etDate(t)) },
+  '1Month': { from: '1Day', bucket: t => etDate(t).slice(0, 7) },
+};
+
+/** Monday (YYYY-MM-DD) of the week containing an ET calendar date */
+function weekOf(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function resample(bars: Bar[], bucket: (t: number) => string | number): Bar[] {
+  const out = new Map<string | number, Bar>();
+  for (const b of bars) {
+    const key = bucket(b.t);
+    const cur = out.get(key);
+    if (!cur) { out.set(key, { ...b }); continue; }
+    cur.h  = Math.max(cur.h, b.h);
+    cur.l  = Math.min(cur.l, b.l);
+    cur.c  = b.c;
+    cur.v += b.v;
+  }
+  return [...out.values()];
+}
+
+async function recordedBars(tf: BarTimeframe): Promise<Record<string, Bar[]>> {
+  const own = await readFixture(`bars/${tf}.json`);
+  if (own) return parseBars(own);
+
+  const derived = DERIVED[tf];
+  if (!derived) return {};
+  const base = await readFixture(`bars/${derived.from}.json`);
+  if (!base) return {};
+  return Object.fromEntries(
+    Object.entries(parseBars(base)).map(([sym, bars]) => [sym, resample(bars, derived.bucket)]),
+  );
+}
+
+// ── Made-up trades ────────────────────────────────────────────────────────────
+
+const TRADE_TICK_MS = 1000;
+
+/** A print near `price` — moves are ±0.2 % at most, sizes in round lots */
+function nextTrade(symbol: string, price: number): Trade {
+  const moved = price * (1 + (Math.random() - 0.5) * 0.004);
+  return {
+    symbol,
+    price: Math.round(moved * 100) / 100 || price,
+    size:  100 * (1 + Math.floor(Math.random() * 10)),
+    t:     nowSec(),
+  };
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+export const fake: MarketDataProvider = {
+  name:     'fake',
+  authHint:
+    'No fixtures found — record some with `node scripts/record-fixtures.js` ' +
+    'or point MARKET_DATA_FIXTURES at a fixture directory',
+
+  configured: () => fs.existsSync(fixtureDir()),
+
+  async getSnapshots(symbols: string[]): Promise<Record<string, Snapshot>> {
+    const all = parseSnapshots(await readFixture('snapshots.json'));
+    return Object.fromEntries(symbols.filter(s => all[s]).map(s => [s, all[s]]));
+  },
+
+  async getBars(symbols: string[], req: BarsRequest): Promise<Record<string, Bar[]>> {
+    const all = await recordedBars(req.timeframe);
+    const end = req.end ?? nowSec();
+
+    const out: Record<string, Bar[]> = {};
+    for (const sym of symbols) {
+      const bars = (all[sym] ?? []).filter(b => b.t >= req.start && b.t <= end);
+      if (bars.length) out[sym] = bars;
+    }
+    return out;
+  },
+
+  async getMovers(req: MoversRequest): Promise<Movers> {
+    const { gainers, losers } = parseMovers(await readFixture('movers.json'));
+    // Recorded from Alpaca, so ranked the way Alpaca ranks
+    const session = req.marketType ?? 'regular';
+    return {
+      gainers:  gainers.slice(0, req.top),
+      losers:   losers.slice(0, req.top),
+      rankedBy: session === 'post_market' ? null : session,
+    };
+  },
+
+  async listAssets(): Promise<Asset[]> {
+    return parseAssets(await readFixture('assets.json'));
+  },
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const [snaps, assets] = await Promise.all([fake.getSnapshots!([symbol]), fake.listAssets!()]);
+    const s = snaps[symbol];
+    if (!s) throw new Error(`no recorded snapshot for ${symbol}`);
+    return {
+      symbol,
+      name:      assets.find(a => a.symbol === symbol)?.name || symbol,
+      price:     s.price,
+      prevClose: s.prevDay?.c ?? 0,
+      time:      s.tradeTime,
+    };
+  },
+
+  async getFundamentals(symbols: string[]): Promise<Record<string, Fundamentals | null>> {
+    const summaries = ((await readFixture('fundamentals.json')) ?? {}) as Record<string, unknown>;
+    return Object.fromEntries(symbols.map(sym => [sym, parseKeyStatistics(sym, summaries[sym])]));
+  },
+
+  openTradeStream(handlers: TradeStreamHandlers): TradeStream {
+    const prices = new Map<string, number>();   // last made-up price; 0 until the snapshot is read
+
+    const timer = setInterval(() => {
+      const trades: Trade[] = [];
+      for (const [symbol, price] of prices) {
+        if (!price) continue;
+        for (let n = 1 + Math.floor(Math.random() * 3); n > 0; n--) {
+          const trade = nextTrade(symbol, prices.get(symbol)!);
+          prices.set(symbol, trade.price);
+          trades.push(trade);
+        }
+      }
+      if (trades.length) handlers.onTrades(trades);
+    }, TRADE_TICK_MS);
+
+    setTimeout(() => handlers.onReady(), 0);
+
+    return {
+      subscribe(symbols) {
+        for (const s of symbols) prices.set(s, 0);
+        fake.getSnapshots!(symbols)
+          .then(snaps => {
+            for (const s of symbols) {
+              if (prices.get(s) === 0 && snaps[s]?.price) prices.set(s, snaps[s].price);
+            }
+          })
+          .catch(err => console.warn('[market-data] fake trades:', err?.message));
+      },
+      unsubscribe(symbols) {
+        for (const s of symbols) prices.delete(s);
+      },
+      close() {
+        clearInterval(timer);
+        handlers.onClose();
+      },
+    };
+  },
+};
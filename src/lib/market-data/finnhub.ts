@@ -0,0 +1,172 @@
+/**
+ * Finnhub adapter — snapshots, bars, assets, quote, fundamentals, trades
+ *
+ * Free tier is 60 calls/min and per-symbol only, so this is a failover
+ * for small batches. /quote has no bid/ask or prior-day high/low; candles
+ * need a paid plan on newer keys. No movers endpoint. Fundamentals come
+ * from /stock/profile2, which is free and reports in millions. The trade
+ * WebSocket is free too (US stocks, last-sale only).
+ *
+ * Env vars:
+ *   FINNHUB_KEY — API key (FINNHUB_API_KEY, used by the legacy api/*.js, also accepted)
+ */
+
+import axios     from 'axios';
+import WebSocket from 'ws';
+import type {
+  MarketDataProvider, Snapshot, Bar, BarsRequest, BarTimeframe, Asset, Quote, Fundamentals,
+  Trade, TradeStream, TradeStreamHandlers,
+} from './types';
+import { bySymbol, settledBySymbol, exchangeFromMic } from './util';
+
+const FINNHUB        = 'https://finnhub.io/api/v1';
+const FINNHUB_STREAM = 'wss://ws.finnhub.io';
+
+const RESOLUTION: Record<BarTimeframe, string> = {
+  '1Min':   '1',
+  '15Min':  '15',
+  '1Hour':  '60',
+  '1Day':   'D',
+  '1Week':  'W',
+  '1Month': 'M',
+};
+
+const CONCURRENCY = 5;
+
+function token(): string {
+  return process.env.FINNHUB_KEY || process.env.FINNHUB_API_KEY || '';
+}
+
+async function get(path: string, params: Record<string, string | number>) {
+  const { data } = await axios.get(`${FINNHUB}${path}`, {
+    params:  { ...params, token: token() },
+    timeout: 10_000,
+  });
+  return data;
+}
+
+interface FinnhubQuote { c: number; pc: number; o: number; h: number; l: number; t: number }
+
+// ── Wire parsers ──────────────────────────────────────────────────────────────
+// Exported so the offline `fake` provider can replay recorded payloads.
+
+/** GET /stock/profile2 → Fundamentals, or null for an unknown symbol (Finnhub answers {}) */
+export function parseProfile(symbol: string, data: any): Fundamentals | null {
+  if (!data?.shareOutstanding && !data?.marketCapitalization) return null;
+  return {
+    symbol,
+    name:              data.name            ?? '',
+    sector:            '',                          // profile2 has one industry field only
+    industry:          data.finnhubIndustry ?? '',
+    country:           data.country         ?? '',
+    securityType:      '',
+    sharesOutstanding: Math.round((data.shareOutstanding     ?? 0) * 1e6),
+    floatShares:       0,
+    sharesShort:       0,
+    marketCap:         Math.round((data.marketCapitalization ?? 0) * 1e6),
+  };
+}
+
+/** One trade-stream message — { type: 'trade', data: [{ s, p, v, t (ms) }] }; pings and errors carry no trades */
+export function parseTradeMessage(data: any): Trade[] {
+  if (data?.type !== 'trade' || !Array.isArray(data.data)) return [];
+  return (data.data as { s: string; p: number; v: number; t: number }[])
+    .filter(d => d?.s && d.p)
+    .map(d => ({ symbol: d.s, price: d.p, size: d.v ?? 0, t: Math.floor((d.t ?? 0) / 1000) }));
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+export const finnhub: MarketDataProvider = {
+  name:       'finnhub',
+  authHint:   'Check FINNHUB_KEY in your .env.local — https://finnhub.io/dashboard',
+  configured: () => !!token(),
+
+  async getSnapshots(symbols: string[]): Promise<Record<string, Snapshot>> {
+    return bySymbol(symbols, CONCURRENCY, async symbol => {
+      const q: FinnhubQuote = await get('/quote', { symbol });
+      if (!q?.c) return null;
+      return {
+        symbol,
+        price:     q.c,
+        tradeTime: q.t ?? 0,
+        bid:       0,
+        ask:       0,
+        bidSize:   0,
+        askSize:   0,
+        day:       { t: q.t ?? 0, o: q.o, h: q.h, l: q.l, c: q.c, v: 0 },
+        prevDay:   q.pc ? { t: 0, o: 0, h: 0, l: 0, c: q.pc, v: 0 } : null,
+      };
+    });
+  },
+
+  async getBars(symbols: string[], req: BarsRequest): Promise<Record<string, Bar[]>> {
+    const to = req.end ?? Math.floor(Date.now() / 1000);
+    return bySymbol(symbols, CONCURRENCY, async symbol => {
+      const d = await get('/stock/candle', {
+        symbol,
+        resolution: RESOLUTION[req.timeframe],
+        from:       req.start,
+        to,
+      });
+      if (d?.s !== 'ok' || !Array.isArray(d.t)) return [];
+      return (d.t as number[]).map((t, i) => ({
+        t, o: d.o[i], h: d.h[i], l: d.l[i], c: d.c[i], v: d.v?.[i] ?? 0,
+      }));
+    });
+  },
+
+  async listAssets(): Promise<Asset[]> {
+    const rows: { symbol: string; description: string; mic: string; type: string }[] =
+      await get('/stock/symbol', { exchange: 'US' });
+    return (rows ?? []).map(r => ({
+      symbol:   r.symbol,
+      name:     r.description || r.symbol,
+      exchange: exchangeFromMic(r.mic),
+      tradable: true,
+    }));
+  },
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const q: FinnhubQuote = await get('/quote', { symbol });
+    if (!q?.c) throw new Error(`no quote for ${symbol}`);
+    return { symbol, name: symbol, price: q.c, prevClose: q.pc ?? 0, time: q.t ?? 0 };
+  },
+
+  async getFundamentals(symbols: string[]): Promise<Record<string, Fundamentals | null>> {
+    return settledBySymbol(symbols, CONCURRENCY, async symbol => parseProfile(symbol, await get('/stock/profile2', { symbol })));
+  },
+
+  // The token is checked at the handshake (a bad one fails with 401), so
+  // the socket is ready as soon as it opens. One subscribe message per symbol.
+  openTradeStream(handlers: TradeStreamHandlers): TradeStream {
+    const ws    = new WebSocket(`${FINNHUB_STREAM}?token=${encodeURIComponent(token())}`);
+    let failure = '';
+    let closing = false;
+
+    const send = (type: string, symbols: string[]) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      for (const symbol of symbols) ws.send(JSON.stringify({ type, symbol }));
+    };
+
+    ws.on('open', () => handlers.onReady());
+    ws.on('message', raw => {
+      let msg: any;
+      try { msg = JSON.parse(raw.toString()); } catch { return; }
+      if (msg?.type === 'error') failure = msg.msg ?? 'stream error';
+      const trades = parseTradeMessage(msg);
+      if (trades.length) handlers.onTrades(trades);
+    });
+    ws.on('error', err => { failure ||= err.message; });
+    ws.on('close', () => handlers.onClose(closing ? undefined : failure || 'connection closed'));
+
+    return {
+      subscribe:   symbols => send('subscribe',   symbols),
+      unsubscribe: symbols => send('unsubscribe', symbols),
+      close() {
+        closing = true;
+        ws.close();
+      },
+    };
+  },
+};
@@ -0,0 +1,265 @@
+/**
+ * Market data — provider selection with automatic failover
+ *
+ * Callers use the functions below and never name a vendor. For each
+ * capability the configured providers are tried in order; the first one
+ * that answers with data wins. A provider that throws is backed off
+ * (60 s, or 10 min on 401/403) so an outage or expired key costs one
+ * timeout, not one per request.
+ *
+ * Default order per capability:
+ *   snapshots     alpaca  → polygon → finnhub → yahoo
+ *   bars          yahoo   → alpaca  → polygon → finnhub
+ *   movers        alpaca  → polygon → yahoo
+ *   assets        alpaca  → polygon → finnhub
+ *   quote         yahoo   → alpaca  → finnhub → polygon
+ *   fundamentals  yahoo   → finnhub → polygon → sec
+ *   trades        alpaca  → finnhub            (live WebSocket, ./stream.ts)
+ *
+ * Providers without keys are skipped (Yahoo needs none; SEC EDGAR only a
+ * contact User-Agent). The offline `fake` provider (recorded fixtures,
+ * ./fake.ts) is never tried unless named below.
+ *
+ * Env vars (comma-separated provider names, optional):
+ *   MARKET_DATA_PROVIDERS   — order + allow-list applied to every capability
+ *   MARKET_DATA_SNAPSHOTS   — per-capability override, wins over the above
+ *   …                         (likewise _BARS, _MOVERS, _ASSETS, _QUOTE,
+ *                             _FUNDAMENTALS, _TRADES)
+ */
+
+import { alpaca }  from './alpaca';
+import { yahoo }   from './yahoo';
+import { finnhub } from './finnhub';
+import { polygon } from './polygon';
+import { sec }     from './sec';
+import { fake }    from './fake';
+import { createTradeHub, type TradeListener } from './stream';
+import {
+  MarketDataError,
+  type MarketDataProvider,
+  type ProviderName,
+  type ProviderAttempt,
+  type Capability,
+  type Snapshot,
+  type Bar,
+  type BarsRequest,
+  type Movers,
+  type MoversRequest,
+  type Asset,
+  type Quote,
+  type Fundamentals,
+} from './types';
+
+export * from './types';
+
+const PROVIDERS: Record<ProviderName, MarketDataProvider> = { alpaca, yahoo, finnhub, polygon, sec, fake };
+
+const DEFAULT_ORDER: Record<Capability, ProviderName[]> = {
+  snapshots:    ['alpaca', 'polygon', 'finnhub', 'yahoo'],
+  bars:         ['yahoo',  'alpaca',  'polygon', 'finnhub'],
+  movers:       ['alpaca', 'polygon', 'yahoo'],
+  assets:       ['alpaca', 'polygon', 'finnhub'],
+  quote:        ['yahoo',  'alpaca',  'finnhub', 'polygon'],
+  fundamentals: ['yahoo',  'finnhub', 'polygon', 'sec'],   // only Yahoo has float + short interest
+  trades:       ['alpaca', 'finnhub'],
+};
+
+const METHOD: Record<Capability, keyof MarketDataProvider> = {
+  snapshots:    'getSnapshots',
+  bars:         'getBars',
+  movers:       'getMovers',
+  assets:       'listAssets',
+  quote:        'getQuote',
+  fundamentals: 'getFundamentals',
+  trades:       'openTradeStream',
+};
+
+const ERROR_BACKOFF_MS = 60_000;
+const AUTH_BACKOFF_MS  = 10 * 60_000;
+
+// ── Selection ─────────────────────────────────────────────────────────────────
+
+function parseList(raw: string | undefined): ProviderName[] | null {
+  if (!raw?.trim()) return null;
+  const names = raw.split(',').map(s => s.trim().toLowerCase()).filter(s => s in PROVIDERS);
+  return names.length ? (names as ProviderName[]) : null;
+}
+
+/** Providers implementing a capability, in the order they are tried */
+function candidates(cap: Capability): ProviderName[] {
+  const order =
+    parseList(process.env[`MARKET_DATA_${cap.toUpperCase()}`]) ??
+    parseList(process.env.MARKET_DATA_PROVIDERS) ??
+    DEFAULT_ORDER[cap];
+  return order.filter(n => PROVIDERS[n][METHOD[cap]]);
+}
+
+/** The subset of candidates() that has keys — what actually gets called */
+export function providerOrder(cap: Capability): ProviderName[] {
+  return candidates(cap).filter(n => PROVIDERS[n].configured());
+}
+
+// ── Health ────────────────────────────────────────────────────────────────────
+
+const downUntil = new Map<string, number>();
+
+function describe(p: MarketDataProvider, err: any): { message: string; auth: boolean } {
+  const status = err?.response?.status;
+  if (status === 401 || status === 403) {
+    return { message: `authentication failed (${status}). ${p.authHint}`, auth: true };
+  }
+  return { message: err?.message ?? String(err), auth: false };
+}
+
+/** Configured providers, backed-off ones last rather than away — better a slow answer than none */
+function rankedOrder(cap: Capability): ProviderName[] {
+  const now   = Date.now();
+  const order = providerOrder(cap);
+  return [
+    ...order.filter(n => (downUntil.get(`${n}:${cap}`) ?? 0) <= now),
+    ...order.filter(n => (downUntil.get(`${n}:${cap}`) ?? 0) >  now),
+  ];
+}
+
+/** Candidates without keys, as attempts that name the keys that would have helped */
+function unconfigured(cap: Capability): ProviderAttempt[] {
+  return candidates(cap)
+    .filter(n => !PROVIDERS[n].configured())
+    .map(n => ({ provider: n, error: `not configured. ${PROVIDERS[n].authHint}` }));
+}
+
+// ── Failover core ─────────────────────────────────────────────────────────────
+
+/** Back a provider off after it threw, and record the attempt */
+function backOff(name: ProviderName, cap: Capability, err: unknown): ProviderAttempt {
+  const { message, auth } = describe(PROVIDERS[name], err);
+  downUntil.set(`${name}:${cap}`, Date.now() + (auth ? AUTH_BACKOFF_MS : ERROR_BACKOFF_MS));
+  console.warn(`[market-data] ${name} ${cap} failed: ${message}`);
+  return { provider: name, error: message };
+}
+
+async function withFailover<T>(
+  cap:     Capability,
+  call:    (p: MarketDataProvider) => Promise<T>,
+  isEmpty: (v: T) => boolean,
+): Promise<{ data: T; provider: ProviderName }> {
+  // Unconfigured providers only matter if nothing else works — then the
+  // error should say which keys would have helped
+  const attempts = unconfigured(cap);
+  let empty: { data: T; provider: ProviderName } | null = null;
+
+  for (const name of rankedOrder(cap)) {
+    const p = PROVIDERS[name];
+    try {
+      const data = await call(p);
+      downUntil.delete(`${name}:${cap}`);
+      if (!isEmpty(data)) return { data, provider: name };
+      empty ??= { data, provider: name };
+    } catch (err) {
+      attempts.push(backOff(name, cap, err));
+    }
+  }
+
+  // Someone answered, just with nothing — that's a real (empty) result
+  if (empty) return empty;
+  throw new MarketDataError(cap, attempts);
+}
+
+const emptyRecord = (v: Record<string, unknown>) => Object.keys(v).length === 0;
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/** Latest trade / quote / day bars per symbol. Never throws — resolves {} when every provider fails. */
+export async function getSnapshots(symbols: string[]): Promise<Record<string, Snapshot>> {
+  if (!symbols.length) return {};
+  try {
+    return (await withFailover('snapshots', p => p.getSnapshots!(symbols), emptyRecord)).data;
+  } catch (err: any) {
+    console.warn('[market-data] snapshots unavailable:', err?.message);
+    return {};
+  }
+}
+
+export async function getBars(symbols: string[], req: BarsRequest): Promise<Record<string, Bar[]>> {
+  if (!symbols.length) return {};
+  return (await withFailover('bars', p => p.getBars!(symbols, req), emptyRecord)).data;
+}
+
+export async function getMovers(req: MoversRequest): Promise<Movers & { provider: ProviderName }> {
+  const { data, provider } = await withFailover(
+    'movers', p => p.getMovers!(req), m => m.gainers.length === 0 && m.losers.length === 0,
+  );
+  return { ...data, provider };
+}
+
+export async function listAssets(): Promise<Asset[]> {
+  return (await withFailover('assets', p => p.listAssets!(), a => a.length === 0)).data;
+}
+
+export async function getQuote(symbol: string): Promise<Quote> {
+  return (await withFailover('quote', p => p.getQuote!(symbol), q => !q.price)).data;
+}
+
+/**
+ * Shares outstanding / vendor market cap per symbol. Fails over per symbol:
+ * each provider is asked only for what the ones before it didn't have —
+ * symbols they reported unknown, or whose request failed (a 429 on one
+ * symbol fails that symbol, not the batch).
+ *
+ * Null where every provider that answered for the symbol doesn't know it;
+ * left out where none answered. Throws only when no provider answered at all.
+ */
+export async function getFundamentals(symbols: string[]): Promise<Record<string, Fundamentals | null>> {
+  if (!symbols.length) return {};
+  const attempts = unconfigured('fundamentals');
+  const out: Record<string, Fundamentals | null> = {};
+  let answered = false;
+
+  for (const name of rankedOrder('fundamentals')) {
+    const pending = symbols.filter(s => !out[s]);
+    if (!pending.length) break;
+    try {
+      const found = await PROVIDERS[name].getFundamentals!(pending);
+      downUntil.delete(`${name}:fundamentals`);
+      answered = true;
+      for (const s of pending) if (s in found) out[s] = found[s];
+    } catch (err) {
+      attempts.push(backOff(name, 'fundamentals', err));
+    }
+  }
+
+  if (!answered) throw new MarketDataError('fundamentals', attempts);
+  return out;
+}
+
+// ── Live trades ───────────────────────────────────────────────────────────────
+
+// Vendors report refused keys inside the stream, not as an HTTP status —
+// Alpaca sends 402 "auth failed", Finnhub fails the handshake with 401
+const STREAM_AUTH_ERROR = /\b40[123]\b/;
+
+const tradeHub = createTradeHub(
+  () => {
+    const [name] = rankedOrder('trades');
+    return name ? PROVIDERS[name] : null;
+  },
+  (name, error) => {
+    const backoff = STREAM_AUTH_ERROR.test(error) ? AUTH_BACKOFF_MS : ERROR_BACKOFF_MS;
+    downUntil.set(`${name}:trades`, Date.now() + backoff);
+  },
+);
+
+/**
+ * Listen to live trades for a symbol over the shared upstream socket;
+ * returns the unsubscribe. Throws MarketDataError when no configured
+ * provider streams trades.
+ */
+export function subscribeTrades(symbol: string, listener: TradeListener): () => void {
+  if (!providerOrder('trades').length) throw new MarketDataError('trades', unconfigured('trades'));
+  return tradeHub.subscribe(symbol.toUpperCase(), listener);
+}
+
+/** Provider trades are streaming from — or, between connections, the next one tried */
+export function tradeStreamProvider(): ProviderName | null {
+  return tradeHub.provider() ?? rankedOrder('trades')[0] ?? null;
+}
@@ -0,0 +1,194 @@
+/**
+ * Polygon.io adapter — snapshots, bars, movers, assets, quote, fundamentals
+ *
+ * Snapshot and movers endpoints need a Stocks Starter plan or above; the
+ * free tier only serves aggregates (15-min delayed) and reference data —
+ * which includes the ticker details behind getFundamentals.
+ *
+ * Env vars:
+ *   POLYGON_KEY — API key
+ */
+
+import axios from 'axios';
+import type {
+  MarketDataProvider, Snapshot, Bar, BarsRequest, BarTimeframe, Movers, Mover, MoversRequest, Asset, Quote,
+  Fundamentals, SecurityType,
+} from './types';
+import { bySymbol, settledBySymbol, exchangeFromMic } from './util';
+
+const POLYGON = 'https://api.polygon.io';
+
+const RANGE: Record<BarTimeframe, [number, string]> = {
+  '1Min':   [1,  'minute'],
+  '15Min':  [15, 'minute'],
+  '1Hour':  [1,  'hour'],
+  '1Day':   [1,  'day'],
+  '1Week':  [1,  'week'],
+  '1Month': [1,  'month'],
+};
+
+const CONCURRENCY     = 5;
+const MAX_ASSET_PAGES = 15;
+
+function apiKey(): string {
+  return process.env.POLYGON_KEY ?? '';
+}
+
+async function get(url: string, params: Record<string, string | number | boolean> = {}) {
+  const { data } = await axios.get(url.startsWith('http') ? url : `${POLYGON}${url}`, {
+    params:  { ...params, apiKey: apiKey() },
+    timeout: 15_000,
+  });
+  return data;
+}
+
+// ── Wire shapes ───────────────────────────────────────────────────────────────
+
+interface PolygonAgg { o: number; h: number; l: number; c: number; v: number; t?: number }
+
+interface PolygonTicker {
+  ticker:           string;
+  todaysChange:     number;
+  todaysChangePerc: number;
+  day?:             PolygonAgg;
+  prevDay?:         PolygonAgg;
+  lastTrade?:       { p: number; t: number };           // t in ns
+  lastQuote?:       { p: number; P: number; s: number; S: number };
+}
+
+interface PolygonTickerDetails {
+  ticker:                          string;
+  name?:                           string;
+  type?:                           string;   // CS, ADRC, ETF, ETN, PFD, WARRANT, …
+  sic_description?:                string;
+  market_cap?:                     number;
+  share_class_shares_outstanding?: number;
+  weighted_shares_outstanding?:    number;
+}
+
+function securityType(type: string | undefined): SecurityType {
+  if (!type)                            return '';
+  if (type === 'CS')                    return 'stock';
+  if (type.startsWith('ADR'))           return 'adr';
+  if (/^ET[FNVS]$/.test(type))          return 'etf';
+  return 'other';
+}
+
+function toBar(a: PolygonAgg | undefined): Bar | null {
+  return a && a.c ? { t: a.t ? Math.floor(a.t / 1000) : 0, o: a.o, h: a.h, l: a.l, c: a.c, v: a.v } : null;
+}
+
+function toSnapshot(t: PolygonTicker): Snapshot {
+  return {
+    symbol:    t.ticker,
+    price:     t.lastTrade?.p || t.day?.c || 0,
+    tradeTime: t.lastTrade?.t ? Math.floor(t.lastTrade.t / 1e9) : 0,
+    bid:       t.lastQuote?.p ?? 0,
+    ask:       t.lastQuote?.P ?? 0,
+    bidSize:   t.lastQuote?.s ?? 0,
+    askSize:   t.lastQuote?.S ?? 0,
+    day:       toBar(t.day),
+    prevDay:   toBar(t.prevDay),
+  };
+}
+
+function toMover(t: PolygonTicker): Mover {
+  return {
+    symbol:    t.ticker,
+    price:     t.lastTrade?.p || t.day?.c || 0,
+    change:    t.todaysChange,
+    changePct: t.todaysChangePerc,
+  };
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+export const polygon: MarketDataProvider = {
+  name:       'polygon',
+  authHint:   'Check POLYGON_KEY in your .env.local — https://polygon.io/dashboard/api-keys',
+  configured: () => !!apiKey(),
+
+  async getSnapshots(symbols: string[]): Promise<Record<string, Snapshot>> {
+    if (!symbols.length) return {};
+    const data = await get('/v2/snapshot/locale/us/markets/stocks/tickers', { tickers: symbols.join(',') });
+    const out: Record<string, Snapshot> = {};
+    for (const t of (data?.tickers ?? []) as PolygonTicker[]) out[t.ticker] = toSnapshot(t);
+    return out;
+  },
+
+  async getBars(symbols: string[], req: BarsRequest): Promise<Record<string, Bar[]>> {
+    const [mult, span] = RANGE[req.timeframe];
+    const fromMs = req.start * 1000;
+    const toMs   = (req.end ?? Math.floor(Date.now() / 1000)) * 1000;
+
+    return bySymbol(symbols, CONCURRENCY, async symbol => {
+      const data = await get(
+        `/v2/aggs/ticker/${encodeURIComponent(symbol)}/range/${mult}/${span}/${fromMs}/${toMs}`,
+        { adjusted: true, sort: 'asc', limit: 50_000 },
+      );
+      return ((data?.results ?? []) as PolygonAgg[]).map(toBar).filter((b): b is Bar => b !== null);
+    });
+  },
+
+  async getMovers(req: MoversRequest): Promise<Movers> {
+    const [g, l] = await Promise.all([
+      get('/v2/snapshot/locale/us/markets/stocks/gainers'),
+      get('/v2/snapshot/locale/us/markets/stocks/losers'),
+    ]);
+    return {
+      gainers: ((g?.tickers ?? []) as PolygonTicker[]).map(toMover),
+      losers:  ((l?.tickers ?? []) as PolygonTicker[]).map(toMover),
+      // todaysChangePerc is the latest trade vs the prior close, extended hours included
+      rankedBy: req.marketType === 'post_market' ? null : req.marketType ?? 'regular',
+    };
+  },
+
+  async listAssets(): Promise<Asset[]> {
+    const out: Asset[] = [];
+    let url: string | null = '/v3/reference/tickers';
+    let params: Record<string, string | number | boolean> = { market: 'stocks', active: true, limit: 1000 };
+
+    for (let page = 0; url && page < MAX_ASSET_PAGES; page++) {
+      const data = await get(url, params);
+      for (const r of (data?.results ?? []) as { ticker: string; name: string; primary_exchange: string }[]) {
+        out.push({ symbol: r.ticker, name: r.name || r.ticker, exchange: exchangeFromMic(r.primary_exchange), tradable: true });
+      }
+      url    = data?.next_url ?? null;   // already carries the cursor
+      params = {};
+    }
+    return out;
+  },
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const data = await get(`/v2/snapshot/locale/us/markets/stocks/tickers/${encodeURIComponent(symbol)}`);
+    const t: PolygonTicker | undefined = data?.ticker;
+    if (!t) throw new Error(`no snapshot for ${symbol}`);
+    const s = toSnapshot(t);
+    return { symbol, name: symbol, price: s.price, prevClose: s.prevDay?.c ?? 0, time: s.tradeTime };
+  },
+
+  async getFundamentals(symbols: string[]): Promise<Record<string, Fundamentals | null>> {
+    return settledBySymbol(symbols, CONCURRENCY, async symbol => {
+      let d: PolygonTickerDetails | undefined;
+      try {
+        d = (await get(`/v3/reference/tickers/${encodeURIComponent(symbol)}`))?.results;
+      } catch (err: any) {
+        if (err?.response?.status === 404) return null;   // unknown ticker, not an outage
+        throw err;
+      }
+      if (!d) return null;
+      return {
+        symbol,
+        name:              d.name            ?? '',
+        sector:            '',
+        industry:          d.sic_description ?? '',
+        country:           '',
+        securityType:      securityType(d.type),
+        sharesOutstanding: d.share_class_shares_outstanding || d.weighted_shares_outstanding || 0,
+        floatShares:       0,
+        sharesShort:       0,
+        marketCap:         d.market_cap ?? 0,
+      };
+    });
+  },
+};
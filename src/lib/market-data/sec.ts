@@ -0,0 +1,99 @@
+/**
+ * SEC EDGAR adapter — fundamentals only
+ *
+ * Shares outstanding from XBRL company facts (the dei cover-page figure of
+ * the latest 10-K / 10-Q), mapped from ticker to CIK with the SEC's own
+ * ticker file. No key, but the SEC blocks requests without a descriptive
+ * User-Agent and allows 10 requests/s. No market cap — the fundamentals
+ * layer derives it from the live price.
+ *
+ * Env vars:
+ *   SEC_USER_AGENT — "Company or name contact@email", sent as User-Agent
+ */
+
+import axios from 'axios';
+import type { MarketDataProvider, Fundamentals } from './types';
+import { settledBySymbol } from './util';
+
+const TICKERS_URL = 'https://www.sec.gov/files/company_tickers.json';
+const CONCEPT_URL = 'https://data.sec.gov/api/xbrl/companyconcept';
+
+const CONCURRENCY    = 5;
+const TICKERS_TTL_MS = 24 * 60 * 60_000;
+
+function userAgent(): string {
+  return process.env.SEC_USER_AGENT ?? '';
+}
+
+async function get(url: string) {
+  const { data } = await axios.get(url, {
+    headers: { 'User-Agent': userAgent(), Accept: 'application/json' },
+    timeout: 15_000,
+  });
+  return data;
+}
+
+// ── Ticker → CIK ──────────────────────────────────────────────────────────────
+
+interface Filer { cik: number; title: string }
+
+let filers: { at: number; map: Map<string, Filer> } | null = null;
+
+async function filerFor(symbol: string): Promise<Filer | undefined> {
+  if (!filers || Date.now() - filers.at > TICKERS_TTL_MS) {
+    const rows: Record<string, { cik_str: number; ticker: string; title: string }> = await get(TICKERS_URL);
+    filers = {
+      at:  Date.now(),
+      map: new Map(Object.values(rows).map(r => [r.ticker.toUpperCase(), { cik: r.cik_str, title: r.title }])),
+    };
+  }
+  // EDGAR writes share classes with a dash (BRK-B), the feeds with a dot (BRK.B)
+  return filers.map.get(symbol.replace('.', '-'));
+}
+
+// ── Wire shapes ───────────────────────────────────────────────────────────────
+
+interface SecFact { end: string; val: number; filed: string; form: string }
+
+/** Most recently filed value; ties go to the later period end */
+function latest(facts: SecFact[]): SecFact | null {
+  return facts.reduce<SecFact | null>((best, f) =>
+    !best || f.filed > best.filed || (f.filed === best.filed && f.end > best.end) ? f : best, null);
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+export const sec: MarketDataProvider = {
+  name:       'sec',
+  authHint:   'Set SEC_USER_AGENT in your .env.local to "Your Name you@example.com" — https://www.sec.gov/os/accessing-edgar-data',
+  configured: () => !!userAgent(),
+
+  async getFundamentals(symbols: string[]): Promise<Record<string, Fundamentals | null>> {
+    return settledBySymbol(symbols, CONCURRENCY, async symbol => {
+      const filer = await filerFor(symbol);
+      if (!filer) return null;
+
+      let data: any;
+      try {
+        data = await get(`${CONCEPT_URL}/CIK${String(filer.cik).padStart(10, '0')}/dei/EntityCommonStockSharesOutstanding.json`);
+      } catch (err: any) {
+        if (err?.response?.status === 404) return null;   // filer never tagged it (e.g. multi-class)
+        throw err;
+      }
+      const fact = latest(data?.units?.shares ?? []);
+      if (!fact?.val) return null;
+      return {
+        symbol,
+        name:              filer.title,
+        sector:            '',
+        industry:          '',
+        country:           '',
+        securityType:      '',
+        sharesOutstanding: fact.val,
+        floatShares:       0,
+        sharesShort:       0,
+        marketCap:         0,
+      };
+    });
+  },
+};
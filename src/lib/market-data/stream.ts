@@ -0,0 +1,129 @@
+/**
+ * Live trade hub — one upstream WebSocket per process, shared by every listener
+ *
+ * /api/chart/stream subscribes once per open chart; the hub ref-counts
+ * symbols so the vendor sees each one once. The socket opens on the first
+ * subscription and closes IDLE_CLOSE_MS after the last one leaves, so a
+ * reload or timeframe switch reuses it (Alpaca's free plan allows a single
+ * connection — reconnecting on every page load gets refused). When the
+ * vendor drops the socket the hub reconnects with backoff, picking the
+ * provider afresh, and re-subscribes whatever is still wanted.
+ */
+
+import type { MarketDataProvider, ProviderName, Trade, TradeStream, TradeStreamHandlers } from './types';
+
+const RETRY_MIN_MS  = 1_000;
+const RETRY_MAX_MS  = 60_000;
+const IDLE_CLOSE_MS = 30_000;
+
+export type TradeListener = (trades: Trade[]) => void;
+
+export interface TradeHub {
+  /** Listen to one symbol's trades; returns the unsubscribe */
+  subscribe(symbol: string, listener: TradeListener): () => void;
+  /** Provider of the open connection, or null between connections */
+  provider(): ProviderName | null;
+}
+
+interface Connection {
+  provider: MarketDataProvider;
+  stream:   TradeStream;
+  ready:    boolean;      // subscriptions can be sent
+}
+
+/**
+ * `pick` chooses the provider for each (re)connect; `onFailure` hears about
+ * every connection that closed with an error.
+ */
+export function createTradeHub(
+  pick:      () => MarketDataProvider | null,
+  onFailure: (provider: ProviderName, error: string) => void,
+): TradeHub {
+  const listeners = new Map<string, Set<TradeListener>>();
+  let conn: Connection | null = null;
+  let retryMs = RETRY_MIN_MS;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let idle:  ReturnType<typeof setTimeout> | undefined;
+
+  // Callbacks from a connection that has since been replaced are ignored
+  function handlers(c: Connection): TradeStreamHandlers {
+    return {
+      onReady() {
+        if (conn !== c) return;
+        c.ready = true;
+        retryMs = RETRY_MIN_MS;
+        if (listeners.size) c.stream.subscribe([...listeners.keys()]);
+      },
+      onTrades(trades) {
+        if (conn !== c) return;
+        const bySymbol = new Map<string, Trade[]>();
+        for (const t of trades) {
+          if (!listeners.has(t.symbol)) continue;
+          const list = bySymbol.get(t.symbol);
+          if (list) list.push(t);
+          else      bySymbol.set(t.symbol, [t]);
+        }
+        for (const [symbol, list] of bySymbol) {
+          for (const listener of listeners.get(symbol)!) listener(list);
+        }
+      },
+      onClose(error) {
+        if (conn !== c) return;
+        conn = null;
+        if (error) {
+          console.warn(`[market-data] ${c.provider.name} trades stream closed: ${error}`);
+          onFailure(c.provider.name, error);
+        }
+        if (!listeners.size) return;
+        retry = setTimeout(() => { retry = undefined; connect(); }, retryMs);
+        retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+      },
+    };
+  }
+
+  function connect() {
+    if (conn || retry || !listeners.size) return;
+    const provider = pick();
+    if (!provider?.openTradeStream) return;
+
+    const c = { provider, ready: false } as Connection;
+    conn     = c;
+    c.stream = provider.openTradeStream(handlers(c));
+  }
+
+  function closeIdle() {
+    idle = undefined;
+    if (listeners.size) return;
+    clearTimeout(retry);
+    retry   = undefined;
+    retryMs = RETRY_MIN_MS;
+    const c = conn;
+    conn    = null;
+    c?.stream.close();
+  }
+
+  return {
+    subscribe(symbol, listener) {
+      clearTimeout(idle);
+      idle = undefined;
+
+      let set = listeners.get(symbol);
+      if (!set) {
+        listeners.set(symbol, set = new Set());
+        if (conn?.ready) conn.stream.subscribe([symbol]);
+      }
+      set.add(listener);
+      connect();
+
+      const own = set;
+      return () => {
+        if (!own.delete(listener) || own.size) return;
+        listeners.delete(symbol);
+        if (conn?.ready) conn.stream.unsubscribe([symbol]);
+        if (!listeners.size) idle = setTimeout(closeIdle, IDLE_CLOSE_MS);
+      };
+    },
+
+    provider: () => conn?.provider.name ?? null,
+  };
+}
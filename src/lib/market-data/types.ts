@@ -0,0 +1,177 @@
+/**
+ * Market-data provider contract
+ *
+ * Every vendor (Alpaca, Yahoo, Finnhub, Polygon, SEC EDGAR, and the
+ * offline `fake` replay) is adapted to these normalised shapes so the
+ * scanner, cron routes and chart never see a vendor payload. A provider
+ * implements only the capabilities its API offers — the failover layer in
+ * ./index.ts skips the rest.
+ *
+ * Conventions:
+ *   • timestamps are unix seconds
+ *   • missing numbers are 0, never null / NaN
+ *   • methods THROW on transport or auth failure (the failover layer
+ *     catches); an empty result means "no data", not "failed"
+ */
+
+export type ProviderName = 'alpaca' | 'yahoo' | 'finnhub' | 'polygon' | 'sec' | 'fake';
+
+export type Capability = 'snapshots' | 'bars' | 'movers' | 'assets' | 'quote' | 'fundamentals' | 'trades';
+
+export type MarketType = 'pre_market' | 'regular' | 'post_market';
+
+export type SecurityType = 'stock' | 'etf' | 'adr' | 'other' | '';   // '' = unknown
+
+export type BarTimeframe = '1Min' | '15Min' | '1Hour' | '1Day' | '1Week' | '1Month';
+
+// ── Shapes ────────────────────────────────────────────────────────────────────
+
+export interface Bar {
+  t: number;  // bar open, unix seconds
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+export interface Snapshot {
+  symbol:    string;
+  price:     number;      // latest trade
+  tradeTime: number;      // latest trade time, 0 if unknown
+  bid:       number;
+  ask:       number;
+  bidSize:   number;
+  askSize:   number;
+  day:       Bar | null;  // current session so far
+  prevDay:   Bar | null;  // last completed regular session
+}
+
+export interface Mover {
+  symbol:    string;
+  price:     number;
+  change:    number;
+  changePct: number;
+}
+
+/**
+ * rankedBy is the requested session when the vendor ranks by that session's
+ * change, else null. Screeners that measure the latest trade against the
+ * prior close rank pre-market and regular correctly but not post-market,
+ * which should be measured against today's close.
+ */
+export interface Movers {
+  gainers:  Mover[];
+  losers:   Mover[];
+  rankedBy: MarketType | null;
+}
+
+export interface Asset {
+  symbol:   string;
+  name:     string;
+  exchange: string;   // NASDAQ | NYSE | ARCA | AMEX | BATS | OTC | …
+  tradable: boolean;
+}
+
+export interface Quote {
+  symbol:    string;
+  name:      string;   // symbol when the vendor has no name
+  price:     number;
+  prevClose: number;
+  time:      number;
+}
+
+/** Share counts plus the company profile; strings are '' when unknown */
+export interface Fundamentals {
+  symbol:            string;
+  name:              string;
+  sector:            string;
+  industry:          string;
+  country:           string;
+  securityType:      SecurityType;
+  sharesOutstanding: number;   // latest reported, 0 if unknown
+  floatShares:       number;   // shares available to trade, 0 if unknown
+  sharesShort:       number;   // last reported short interest, 0 if unknown
+  marketCap:         number;   // vendor's own USD figure (possibly stale), 0 if unknown
+}
+
+/** One print from a live trade stream */
+export interface Trade {
+  symbol: string;
+  price:  number;
+  size:   number;
+  t:      number;   // unix seconds
+}
+
+export interface BarsRequest {
+  timeframe: BarTimeframe;
+  start:     number;    // unix seconds; 0 = as far back as the vendor allows
+  end?:      number;    // unix seconds; default now
+  extended?: boolean;   // include pre/post-market bars where the vendor makes it optional
+}
+
+export interface MoversRequest {
+  top:         number;
+  marketType?: MarketType;
+}
+
+// ── Trade stream ──────────────────────────────────────────────────────────────
+
+/** What a provider's socket reports back to the hub in ./stream.ts */
+export interface TradeStreamHandlers {
+  /** Connected and authenticated — (re)send subscriptions now */
+  onReady(): void;
+  onTrades(trades: Trade[]): void;
+  /** The socket is gone; `error` is set when it did not close on request */
+  onClose(error?: string): void;
+}
+
+/** An open upstream connection; subscriptions are sent once onReady fired */
+export interface TradeStream {
+  subscribe(symbols: string[]): void;
+  unsubscribe(symbols: string[]): void;
+  close(): void;
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+export interface MarketDataProvider {
+  readonly name: ProviderName;
+  /** Shown when the vendor answers 401/403 */
+  readonly authHint: string;
+  /** False when required keys are missing — the provider is skipped */
+  configured(): boolean;
+
+  getSnapshots?(symbols: string[]): Promise<Record<string, Snapshot>>;
+  getBars?(symbols: string[], req: BarsRequest): Promise<Record<string, Bar[]>>;
+  getMovers?(req: MoversRequest): Promise<Movers>;
+  listAssets?(): Promise<Asset[]>;
+  getQuote?(symbol: string): Promise<Quote>;
+  /** Null for symbols the vendor doesn't know; symbols whose request failed are left out */
+  getFundamentals?(symbols: string[]): Promise<Record<string, Fundamentals | null>>;
+  /** Live trades over the vendor's WebSocket — see ./stream.ts */
+  openTradeStream?(handlers: TradeStreamHandlers): TradeStream;
+}
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+export interface ProviderAttempt {
+  provider: ProviderName;
+  error:    string;
+}
+
+/** Thrown when every provider for a capability failed or was unavailable */
+export class MarketDataError extends Error {
+  constructor(
+    readonly capability: Capability,
+    readonly attempts:   ProviderAttempt[],
+  ) {
+    super(
+      attempts.length
+        ? `No market-data provider could serve ${capability}: ` +
+          attempts.map(a => `${a.provider} — ${a.error}`).join('; ')
+        : `No market-data provider offers ${capability}`,
+    );
+    this.name = 'MarketDataError';
+  }
+}
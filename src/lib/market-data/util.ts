@@ -0,0 +1,81 @@
+/**
+ * Small helpers shared by the per-symbol vendor adapters
+ */
+
+// Past this a per-symbol API is too slow (and too rate-limited) to be a
+// useful fallback — e.g. a full-market snapshot sweep.
+const MAX_SYMBOLS = 50;
+
+/**
+ * Run `fn` for every symbol, `limit` at a time, collecting results by symbol.
+ * Symbols that resolve to null are kept as null (the vendor doesn't know
+ * them); symbols that fail are left out. If every symbol failed the first
+ * error is rethrown so the failover layer moves on.
+ */
+export async function settledBySymbol<T>(
+  symbols: string[],
+  limit:   number,
+  fn:      (symbol: string) => Promise<T | null>,
+): Promise<Record<string, T | null>> {
+  if (symbols.length > MAX_SYMBOLS) {
+    throw new Error(`${symbols.length} symbols is too many for a per-symbol API (max ${MAX_SYMBOLS})`);
+  }
+
+  const out: Record<string, T | null> = {};
+  let firstError: unknown = null;
+  let failed = 0;
+
+  for (let i = 0; i < symbols.length; i += limit) {
+    const batch   = symbols.slice(i, i + limit);
+    const results = await Promise.allSettled(batch.map(fn));
+    results.forEach((r, j) => {
+      if (r.status === 'rejected') {
+        failed++;
+        firstError ??= r.reason;
+      } else {
+        out[batch[j]] = r.value ?? null;
+      }
+    });
+  }
+
+  if (symbols.length > 0 && failed === symbols.length) throw firstError;
+  return out;
+}
+
+/** settledBySymbol without the unknowns — symbols that fail or resolve to null are left out */
+export async function bySymbol<T>(
+  symbols: string[],
+  limit:   number,
+  fn:      (symbol: string) => Promise<T | null>,
+): Promise<Record<string, T>> {
+  const out: Record<string, T> = {};
+  for (const [symbol, v] of Object.entries(await settledBySymbol(symbols, limit, fn))) {
+    if (v !== null) out[symbol] = v;
+  }
+  return out;
+}
+
+const ET_DATE = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year:     'numeric',
+  month:    '2-digit',
+  day:      '2-digit',
+});
+
+/** ET calendar date (YYYY-MM-DD) for a unix timestamp */
+export function etDate(t: number): string {
+  return ET_DATE.format(new Date(t * 1000));
+}
+
+/** Map an ISO-10383 MIC to the exchange names Alpaca uses */
+export function exchangeFromMic(mic: string): string {
+  switch (mic) {
+    case 'XNAS': case 'XNGS': case 'XNCM': case 'XNMS': return 'NASDAQ';
+    case 'XNYS':                                         return 'NYSE';
+    case 'ARCX':                                         return 'ARCA';
+    case 'XASE':                                         return 'AMEX';
+    case 'BATS': case 'XCBO':                            return 'BATS';
+    case 'OOTC': case 'OTCM':                            return 'OTC';
+    default:                                             return mic;
+  }
+}
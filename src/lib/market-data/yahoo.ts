@@ -0,0 +1,226 @@
+/**
+ * Yahoo Finance adapter — bars, snapshots, movers, quote, fundamentals
+ *
+ * Keyless. Everything except movers and fundamentals goes through the v8
+ * chart endpoint, one request per symbol, so snapshots here are a fallback
+ * for small batches rather than full-market scans. No bid/ask, no asset
+ * list. Fundamentals (the only keyless source of float and short interest)
+ * come from v10 quoteSummary, which wants a session cookie + crumb.
+ */
+
+import axios from 'axios';
+import type {
+  MarketDataProvider, Snapshot, Bar, BarsRequest, BarTimeframe, Movers, Mover, MoversRequest, Quote, Fundamentals,
+  SecurityType,
+} from './types';
+import { bySymbol, settledBySymbol, etDate } from './util';
+
+const YAHOO_CHART    = 'https://query1.finance.yahoo.com/v8/finance/chart';
+const YAHOO_SCREENER = 'https://query1.finance.yahoo.com/v1/finance/screener/predefined/saved';
+const YAHOO_SUMMARY  = 'https://query2.finance.yahoo.com/v10/finance/quoteSummary';
+const YAHOO_COOKIE   = 'https://fc.yahoo.com';
+const YAHOO_CRUMB    = 'https://query1.finance.yahoo.com/v1/test/getcrumb';
+
+const YAHOO_HEADERS = {
+  'User-Agent':
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+  Accept: 'application/json',
+};
+
+const INTERVAL: Record<BarTimeframe, string> = {
+  '1Min':   '1m',
+  '15Min':  '15m',
+  '1Hour':  '60m',
+  '1Day':   '1d',
+  '1Week':  '1wk',
+  '1Month': '1mo',
+};
+
+const CONCURRENCY    = 5;
+const SESSION_TTL_MS = 60 * 60_000;
+
+// ── Chart endpoint ────────────────────────────────────────────────────────────
+
+async function fetchChart(symbol: string, params: Record<string, string | number | boolean>) {
+  const { data } = await axios.get(`${YAHOO_CHART}/${encodeURIComponent(symbol)}`, {
+    params,
+    headers: YAHOO_HEADERS,
+    timeout: 10_000,
+  });
+  return data?.chart?.result?.[0] ?? null;
+}
+
+function toBars(result: any): Bar[] {
+  const timestamps: number[] = result?.timestamp || [];
+  const quote = result?.indicators?.quote?.[0] || {};
+
+  const out: Bar[] = [];
+  timestamps.forEach((t, i) => {
+    const o = quote.open?.[i], h = quote.high?.[i], l = quote.low?.[i], c = quote.close?.[i];
+    // Skip bars where any OHLC is null (market closed gaps)
+    if (o == null || h == null || l == null || c == null) return;
+    out.push({ t, o, h, l, c, v: quote.volume?.[i] || 0 });
+  });
+  return out;
+}
+
+// ── quoteSummary ──────────────────────────────────────────────────────────────
+// Cookie from fc.yahoo.com (the response itself is a 404), then a crumb
+// bound to that cookie. Both are reused for an hour or until Yahoo says 401.
+
+let session: { cookie: string; crumb: string; at: number } | null = null;
+
+async function summarySession(): Promise<{ cookie: string; crumb: string }> {
+  if (session && Date.now() - session.at < SESSION_TTL_MS) return session;
+
+  const res = await axios.get(YAHOO_COOKIE, {
+    headers: YAHOO_HEADERS, timeout: 10_000, maxRedirects: 0, validateStatus: () => true,
+  });
+  const cookie = (res.headers['set-cookie'] ?? []).map(c => c.split(';')[0]).join('; ');
+  if (!cookie) throw new Error('Yahoo set no session cookie');
+
+  const { data: crumb } = await axios.get<string>(YAHOO_CRUMB, {
+    headers: { ...YAHOO_HEADERS, Cookie: cookie }, timeout: 10_000, responseType: 'text',
+  });
+  if (!crumb || crumb.includes('<')) throw new Error('Yahoo returned no crumb');
+
+  session = { cookie, crumb, at: Date.now() };
+  return session;
+}
+
+async function fetchSummary(symbol: string, modules: string) {
+  const { cookie, crumb } = await summarySession();
+  try {
+    const { data } = await axios.get(`${YAHOO_SUMMARY}/${encodeURIComponent(symbol)}`, {
+      params:  { modules, crumb },
+      headers: { ...YAHOO_HEADERS, Cookie: cookie },
+      timeout: 10_000,
+    });
+    return data;
+  } catch (err: any) {
+    if (err?.response?.status === 401) session = null;   // crumb expired — next call starts over
+    if (err?.response?.status === 404) return null;      // unknown symbol
+    throw err;
+  }
+}
+
+const QUOTE_TYPE: Record<string, SecurityType> = { EQUITY: 'stock', ETF: 'etf', MUTUALFUND: 'other' };
+
+/**
+ * GET /v10/finance/quoteSummary?modules=defaultKeyStatistics,price,assetProfile
+ * → Fundamentals, or null when Yahoo has neither share counts nor a name.
+ * Exported so the offline `fake` provider can replay recorded payloads.
+ */
+export function parseKeyStatistics(symbol: string, data: any): Fundamentals | null {
+  const r       = data?.quoteSummary?.result?.[0];
+  const stats   = r?.defaultKeyStatistics ?? {};
+  const profile = r?.assetProfile ?? {};
+  const out: Fundamentals = {
+    symbol,
+    name:              r?.price?.longName || r?.price?.shortName || '',
+    sector:            profile.sector   ?? '',
+    industry:          profile.industry ?? '',
+    country:           profile.country  ?? '',
+    securityType:      QUOTE_TYPE[r?.price?.quoteType] ?? (r?.price?.quoteType ? 'other' : ''),
+    sharesOutstanding: stats.sharesOutstanding?.raw ?? stats.impliedSharesOutstanding?.raw ?? 0,
+    floatShares:       stats.floatShares?.raw ?? 0,
+    sharesShort:       stats.sharesShort?.raw ?? 0,
+    marketCap:         r?.price?.marketCap?.raw ?? 0,
+  };
+  return out.sharesOutstanding || out.floatShares || out.marketCap || out.name ? out : null;
+}
+
+// ── Screener ──────────────────────────────────────────────────────────────────
+
+function toMover(q: any, pre: boolean): Mover {
+  const usePre = pre && q.preMarketPrice > 0;
+  return {
+    symbol:    q.symbol,
+    price:     usePre ? q.preMarketPrice         : q.regularMarketPrice         ?? 0,
+    change:    usePre ? q.preMarketChange        : q.regularMarketChange        ?? 0,
+    changePct: usePre ? q.preMarketChangePercent : q.regularMarketChangePercent ?? 0,
+  };
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+export const yahoo: MarketDataProvider = {
+  name:       'yahoo',
+  authHint:   'Yahoo is keyless — the endpoint may be rate-limiting this IP',
+  configured: () => true,
+
+  async getBars(symbols: string[], req: BarsRequest): Promise<Record<string, Bar[]>> {
+    const window: Record<string, string | number> = req.start > 0
+      ? { period1: req.start, period2: req.end ?? Math.floor(Date.now() / 1000) }
+      : { range: 'max' };
+
+    return bySymbol(symbols, CONCURRENCY, async symbol => {
+      const result = await fetchChart(symbol, {
+        interval:       INTERVAL[req.timeframe],
+        includePrePost: !!req.extended,
+        ...window,
+      });
+      return result ? toBars(result) : null;
+    });
+  },
+
+  async getSnapshots(symbols: string[]): Promise<Record<string, Snapshot>> {
+    return bySymbol(symbols, CONCURRENCY, async symbol => {
+      const result = await fetchChart(symbol, { interval: '1d', range: '5d' });
+      if (!result) return null;
+
+      const meta      = result.meta ?? {};
+      const tradeTime = meta.regularMarketTime ?? 0;
+      const today     = etDate(tradeTime || Math.floor(Date.now() / 1000));
+      const days      = toBars(result);
+      const prior     = days.filter(d => etDate(d.t) < today);
+
+      return {
+        symbol,
+        price:   meta.regularMarketPrice ?? 0,
+        tradeTime,
+        bid:     0,
+        ask:     0,
+        bidSize: 0,
+        askSize: 0,
+        day:     days.find(d => etDate(d.t) === today) ?? null,
+        prevDay: prior[prior.length - 1] ?? null,
+      };
+    });
+  },
+
+  async getMovers(req: MoversRequest): Promise<Movers> {
+    const pre    = req.marketType === 'pre_market';
+    const screen = async (scrId: string) => {
+      const { data } = await axios.get(YAHOO_SCREENER, {
+        params:  { scrIds: scrId, count: Math.min(req.top, 100) },
+        headers: YAHOO_HEADERS,
+        timeout: 10_000,
+      });
+      const quotes: any[] = data?.finance?.result?.[0]?.quotes ?? [];
+      return quotes.map(q => toMover(q, pre));
+    };
+    const [gainers, losers] = await Promise.all([screen('day_gainers'), screen('day_losers')]);
+    // day_gainers / day_losers rank by the regular-session change whatever the clock says
+    const session = req.marketType ?? 'regular';
+    return { gainers, losers, rankedBy: session === 'regular' ? session : null };
+  },
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const result = await fetchChart(symbol, { interval: '1d', range: '1d' });
+    if (!result) throw new Error(`no chart data for ${symbol}`);
+    const meta = result.meta ?? {};
+    return {
+      symbol,
+      name:      meta.longName || meta.shortName || symbol,
+      price:     meta.regularMarketPrice ?? 0,
+      prevClose: meta.previousClose || meta.chartPreviousClose || 0,
+      time:      meta.regularMarketTime ?? 0,
+    };
+  },
+
+  async getFundamentals(symbols: string[]): Promise<Record<string, Fundamentals | null>> {
+    return settledBySymbol(symbols, CONCURRENCY, async symbol =>
+      parseKeyStatistics(symbol, await fetchSummary(symbol, 'defaultKeyStatistics,price,assetProfile')));
+  },
+};
@@ -1,4 +1,7 @@
 import axios from 'axios';
+import fs    from 'fs/promises';
+import path  from 'path';
+import { nowSec } from './clock';
 
 const HEADERS = {
   'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -520,6 +523,44 @@ export function extractTicker(text: string): string | null {
   return null;
 }
 
+// ── Fixture replay (NEWS_PROVIDER=fake) ───────────────────────────────────────
+// Recorded RSS payloads instead of live feeds, for offline development:
+//   fixtures/news/market/<source>.xml  — broad feeds (file name = source id)
+//   fixtures/news/symbol/<SYMBOL>.xml  — everything recorded for one ticker
+// NEWS_FIXTURES overrides the fixtures/news directory.
+
+const replayNews = () => process.env.NEWS_PROVIDER === 'fake';
+
+function newsFixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.NEWS_FIXTURES ?? 'fixtures/news');
+}
+
+async function replayFeed(file: string, source: string): Promise<NewsItem[]> {
+  try {
+    const xml = await fs.readFile(file, 'utf-8');
+    return parseRssItems(xml, source === 'google' ? 'google' : 'rss').map(i => ({ ...i, source }));
+  } catch {
+    return [];
+  }
+}
+
+/** Every recorded broad-market feed, keyed by source id */
+async function replayMarketFeeds(): Promise<Record<string, NewsItem[]>> {
+  const dir = path.join(newsFixtureDir(), 'market');
+  let files: string[];
+  try { files = (await fs.readdir(dir)).filter(f => f.endsWith('.xml')).sort(); } catch { files = []; }
+
+  const out: Record<string, NewsItem[]> = {};
+  for (const f of files) {
+    const source = f.slice(0, -'.xml'.length);
+    out[source]  = await replayFeed(path.join(dir, f), source);
+  }
+  return out;
+}
+
+const countBySource = (feeds: Record<string, NewsItem[]>) =>
+  Object.fromEntries(Object.entries(feeds).map(([s, items]) => [s, items.length]));
+
 // ── Broad market news (no symbol required) ────────────────────────────────────
 
 /**
@@ -531,6 +572,24 @@ export async function fetchAllMarketNews(): Promise<{
   items: Array<NewsItem & { ticker: string | null }>;
   sources: Record<string, number>;
 }> {
+  if (replayNews()) {
+    const feeds       = await replayMarketFeeds();
+    const sixHoursAgo = nowSec() - 6 * 60 * 60;
+    const items = merge(...Object.values(feeds))
+      .filter(item => item.publishedAt > 0 && item.publishedAt >= sixHoursAgo)
+      .map(item => {
+        const category = categorize(item.title, item.summary);
+        return {
+          ...item,
+          category,
+          sentiment: getSentiment(item.title, item.summary),
+          isPinned:  HIGH_IMPACT.includes(category),
+          ticker:    extractTicker(`${item.title} ${item.summary ?? ''}`),
+        };
+      });
+    return { items, sources: countBySource(feeds) };
+  }
+
   const googleSearches = [
     'FDA approved OR "FDA approval" stock',
     '"clinical trial" OR "phase 3" OR "phase 2" stock results',
@@ -665,7 +724,7 @@ export async function fetchAllMarketNews(): Promise<{
   const nbcBizItems      = parseText(nbcBizRes,        'rss').map(i => ({ ...i, source: 'nbc',             publisher: i.publisher || 'NBC News' }));
   const googleItems     = googleRes.flatMap(r => parseText(r, 'google'));
 
-  const sixHoursAgo = Math.floor(Date.now() / 1000) - 6 * 60 * 60;
+  const sixHoursAgo = nowSec() - 6 * 60 * 60;
 
   const all = merge(
     cnbcItems, mwItems, wsjItems, benzItems,
@@ -748,6 +807,18 @@ export async function fetchAllMarketNews(): Promise<{
  * Only HIGH_IMPACT items are returned.
  */
 export async function fetchBroadMarketNews(): Promise<Array<{ item: NewsItem; ticker: string | null }>> {
+  if (replayNews()) {
+    const feeds = await replayMarketFeeds();
+    return merge(...Object.values(feeds))
+      .map(item => {
+        const category  = categorize(item.title, item.summary);
+        const sentiment = getSentiment(item.title, item.summary);
+        return { ...item, category, sentiment, isPinned: HIGH_IMPACT.includes(category) };
+      })
+      .filter(item => item.isPinned)
+      .map(item => ({ item, ticker: extractTicker(`${item.title} ${item.summary ?? ''}`) }));
+  }
+
   // Google News searches for the specific event types we care about most
   const googleSearches = [
     'FDA approved OR "FDA approval" stock',
@@ -826,6 +897,16 @@ export async function fetchNewsForSymbol(symbol: string): Promise<{
   items: NewsItem[];
   sources: Record<string, number>;
 }> {
+  if (replayNews()) {
+    const file  = path.join(newsFixtureDir(), 'symbol', `${symbol.toUpperCase()}.xml`);
+    const items = merge(await replayFeed(file, 'fixture')).map(item => {
+      const category  = categorize(item.title, item.summary);
+      const sentiment = getSentiment(item.title, item.summary);
+      return { ...item, category, sentiment, isPinned: HIGH_IMPACT.includes(category) };
+    });
+    return { items, sources: { fixture: items.length } };
+  }
+
   const [
     jsonResult, rssResult, googleResult, edgarResult, gnwResult, bwResult,
     finnhubResult, tsResult, reutersResult, cnbcResult, mwResult,
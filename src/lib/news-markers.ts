@@ -0,0 +1,62 @@
+/**
+ * News markers — headlines placed on the chart bars they landed in
+ *
+ * NxChart draws one marker per bar that had news, so a catalyst lines up
+ * with the move it caused. Headlines are grouped per bar; the lead one
+ * (a pinned catalyst first, else the newest) sets the marker's colour
+ * and label, and is where a click goes.
+ */
+
+import type { NewsItem } from '@/lib/news-fetch';
+
+export interface NewsMarker {
+  time:  number;       // bar open, unix seconds
+  lead:  NewsItem;
+  items: NewsItem[];   // every headline on the bar, newest first
+}
+
+type Bars = { time: number }[];
+
+/**
+ * Index of the bar `t` belongs to: the bar open at `t`, or — when `t` falls
+ * in a gap between bars (overnight, a halt) — the next one, where the
+ * reaction shows. Headlines after the newest bar go on it; ones before
+ * the oldest are off the chart (-1).
+ */
+export function barIndexAt(bars: Bars, t: number, barSeconds: number): number {
+  const n = bars.length;
+  if (!n || t < bars[0].time) return -1;
+  let lo = 0;
+  let hi = n - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (bars[mid].time <= t) lo = mid;
+    else                     hi = mid - 1;
+  }
+  return lo < n - 1 && t >= bars[lo].time + barSeconds ? lo + 1 : lo;
+}
+
+/** One marker per bar with news, ascending by time (as series markers must be) */
+export function newsMarkers(bars: Bars, items: NewsItem[]): NewsMarker[] {
+  if (!bars.length) return [];
+  // The bar width is the smallest step between bars — gaps are longer
+  let barSeconds = Infinity;
+  for (let i = 1; i < bars.length; i++) barSeconds = Math.min(barSeconds, bars[i].time - bars[i - 1].time);
+
+  const byBar = new Map<number, NewsItem[]>();
+  for (const item of items) {
+    if (item.publishedAt <= 0) continue;
+    const i = barIndexAt(bars, item.publishedAt, barSeconds);
+    if (i < 0) continue;
+    const list = byBar.get(bars[i].time);
+    if (list) list.push(item);
+    else      byBar.set(bars[i].time, [item]);
+  }
+
+  return [...byBar.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, list]) => {
+      const sorted = [...list].sort((a, b) => b.publishedAt - a.publishedAt);
+      return { time, lead: sorted.find(i => i.isPinned) ?? sorted[0], items: sorted };
+    });
+}
@@ -0,0 +1,35 @@
+import type { NewsCategory, NewsSentiment } from './news-fetch';
+
+// ── Display metadata shared by the /news page, the chart and Telegram ─────────
+
+export const CAT_META: Record<NewsCategory, { label: string; cls: string }> = {
+  'FDA Approval':         { label: 'FDA',     cls: 'text-purple-300 bg-purple-950/60 border-purple-800/60' },
+  'Clinical Trial':       { label: 'TRIAL',   cls: 'text-blue-300 bg-blue-950/60 border-blue-800/60' },
+  'Merger & Acquisition': { label: 'M&A',     cls: 'text-orange-300 bg-orange-950/60 border-orange-800/60' },
+  'Partnership':          { label: 'DEAL',    cls: 'text-cyan-300 bg-cyan-950/60 border-cyan-800/60' },
+  'Government Contract':  { label: 'GOV',     cls: 'text-amber-300 bg-amber-950/60 border-amber-800/60' },
+  'Major Investment':     { label: 'INVEST',  cls: 'text-emerald-300 bg-emerald-950/60 border-emerald-800/60' },
+  'Geopolitical':         { label: 'GEO',     cls: 'text-red-300 bg-red-950/60 border-red-800/60' },
+  'Earnings':             { label: 'EARN',    cls: 'text-sky-300 bg-sky-950/60 border-sky-800/60' },
+  'Analyst Rating':       { label: 'ANALYST', cls: 'text-indigo-300 bg-indigo-950/60 border-indigo-800/60' },
+  'General':              { label: '',        cls: '' },
+};
+
+export const SENT_CLS: Record<NewsSentiment, string> = {
+  bullish: 'bg-[#26a69a]',
+  bearish: 'bg-[#ef5350]',
+  neutral: 'bg-gray-700',
+};
+
+export const CATEGORY_EMOJI: Record<NewsCategory, string> = {
+  'FDA Approval':         '💊',
+  'Clinical Trial':       '🧪',
+  'Merger & Acquisition': '🤝',
+  'Partnership':          '🤝',
+  'Government Contract':  '🏛️',
+  'Major Investment':     '💰',
+  'Geopolitical':         '🌍',
+  'Earnings':             '📊',
+  'Analyst Rating':       '📈',
+  'General':              '📰',
+};
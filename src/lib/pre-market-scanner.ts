@@ -1,47 +1,73 @@
 /**
- * Pre/Regular/Post-market stock scanner — Alpaca Markets edition
+ * Pre/Regular/Post-market stock scanner
  *
- * Scans the full US equity market using the Alpaca screener API.
- * Returns stocks that simultaneously satisfy all active filters.
+ * Scans the full US equity market through the market-data provider layer
+ * (src/lib/market-data — Alpaca first, failing over to Polygon / Yahoo /
+ * Finnhub). Returns stocks that simultaneously satisfy all active filters.
  *
- * Supports three market sessions:
- *   pre_market   — 4:00–9:30 AM ET   | volume from minute bars 4:00–9:30
- *   regular      — 9:30 AM–4:00 PM ET | volume from snapshot dailyBar.v
- *   post_market  — 4:00–8:00 PM ET   | volume from minute bars 16:00–20:00
+ * Supports three market sessions, each with its own change and volume:
+ *   pre_market   — 4:00–9:30 AM ET   | vs prior close  | volume from minute bars 4:00–9:30
+ *   regular      — 9:30 AM–4:00 PM ET | vs prior close  | volume from snapshot day bar
+ *   post_market  — 4:00–8:00 PM ET   | vs today's close | volume from minute bars 16:00–20:00
+ * Today's close is the last regular-session minute bar, else the snapshot
+ * day bar.
+ *
+ * Two directions: gainers (change ≥ minChangePct) and losers — gap-downs
+ * with change ≤ maxChangePct, optionally trading under the prior-day low —
+ * for the short side. Each has its own per-session defaults.
  *
  * Strategy:
- *   1. Primary  — Alpaca /v1beta1/screener/stocks/movers with matching
- *      market_type. Covers ALL US equities, sorted by % change.
+ *   1. Primary  — top movers (screener). Covers ALL US equities, sorted
+ *      by % change. Only used when the provider ranks by the scanned
+ *      session's change (Movers.rankedBy) — no vendor ranks post-market
+ *      moves against today's close.
  *   2. Fallback — Batched snapshots of every active US equity asset,
- *      filtered client-side. Used when the movers endpoint fails.
+ *      filtered client-side. Used when no movers provider answers, or none
+ *      can rank the session.
+ *
+ * Share counts, short interest, market cap (src/lib/fundamentals.ts),
+ * relative volume (src/lib/relative-volume.ts) and company name / exchange /
+ * sector (src/lib/asset-meta.ts) are looked up last, for the stocks that
+ * passed the price / change / volume filters; all are cached daily. The
+ * `where` expression (src/lib/scan-expression.ts) runs on those enriched
+ * rows, after every fixed filter.
  *
- * Env vars required:
- *   ALPACA_KEY    — Alpaca API key ID
- *   ALPACA_SECRET — Alpaca API secret key
+ * Env vars: see src/lib/market-data/index.ts (ALPACA_KEY / ALPACA_SECRET
+ * for the default provider order).
  */
 
-import axios from 'axios';
-
-const ALPACA_DATA  = 'https://data.alpaca.markets';
-const ALPACA_API   = 'https://paper-api.alpaca.markets';
-
-export type MarketType = 'pre_market' | 'regular' | 'post_market';
-
-function alpacaHeaders() {
-  return {
-    'APCA-API-KEY-ID':     process.env.ALPACA_KEY    ?? '',
-    'APCA-API-SECRET-KEY': process.env.ALPACA_SECRET ?? '',
-    Accept:                'application/json',
-  };
+import {
+  getSnapshots,
+  getBars,
+  getMovers,
+  listAssets,
+  type MarketType,
+  type ProviderName,
+  type Snapshot,
+} from '@/lib/market-data';
+import { lookupFundamentals, marketCapAt, shortInterestPct } from '@/lib/fundamentals';
+import { getRelativeVolumes } from '@/lib/relative-volume';
+import { getAssetMeta, type AssetType } from '@/lib/asset-meta';
+import { compileExpression, type ScanExpression } from '@/lib/scan-expression';
+import { now } from '@/lib/clock';
+
+export type { MarketType, AssetType };
+
+export type ScanDirection = 'gainers' | 'losers';
+
+/** Fallback-scan progress — symbols snapshotted so far out of the universe */
+export interface ScanProgress {
+  done:  number;
+  total: number;
 }
 
 // ── ET time helper ────────────────────────────────────────────────────────────
 
 /** Build a UTC Date from today's ET hours:minutes (handles EST/EDT automatically) */
 function etTimeToday(hours: number, mins: number): Date {
-  const now   = new Date();
-  const etNow = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-  const etToUtcMs = now.getTime() - etNow.getTime(); // ms offset ET→UTC
+  const utcNow = new Date(now());
+  const etNow  = new Date(utcNow.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const etToUtcMs = utcNow.getTime() - etNow.getTime(); // ms offset ET→UTC
   const target = new Date(etNow);
   target.setHours(hours, mins, 0, 0);
   return new Date(target.getTime() + etToUtcMs);
@@ -49,51 +75,131 @@ function etTimeToday(hours: number, mins: number): Date {
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
+// The fundamentals-based filters (cap, float, short interest, RVOL) keep a
+// stock whose value is unknown (0) — and treat a 0 limit as "no limit".
+// Likewise the universe filters keep a stock whose exchange or asset type is
+// unknown, and an empty list means "any".
 export interface ScanFilters {
+  direction:           ScanDirection;
+  minPrice:            number;
   maxPrice:            number;
   minPreMarketVolume:  number;  // "volume" field — applies to whichever session is active
-  maxMarketCap:        number;  // interface-compat; not enforced (Alpaca doesn't provide it)
-  minChangePct:        number;
+  maxMarketCap:        number;  // USD at the scanned price
+  minChangePct:        number;  // gainers: change ≥ this
+  maxChangePct:        number;  // losers: change ≤ this (negative)
+  belowPrevLow:        boolean; // losers: price under the prior-day low
+  maxFloat:            number;  // shares
+  minRelativeVolume:   number;  // × the usual volume by this time of day
+  minShortInterestPct: number;  // % of float
+  includeExchanges:    string[];     // only these (NASDAQ, NYSE, AMEX, ARCA, BATS, OTC)
+  excludeExchanges:    string[];
+  assetTypes:          AssetType[];  // allowed asset types
+  excludeSymbols:      string[];     // blacklist
+  where:               string;       // scan expression over enriched rows, '' = none
 }
 
 export const DEFAULT_FILTERS: ScanFilters = {
-  maxPrice:           30,
-  minPreMarketVolume: 12_000,
-  maxMarketCap:       2_000_000_000,
-  minChangePct:       12,
+  direction:           'gainers',
+  minPrice:            0,
+  maxPrice:            30,
+  minPreMarketVolume:  12_000,
+  maxMarketCap:        2_000_000_000,
+  minChangePct:        12,
+  maxChangePct:        0,
+  belowPrevLow:        false,
+  maxFloat:            0,
+  minRelativeVolume:   0,
+  minShortInterestPct: 0,
+  includeExchanges:    [],
+  excludeExchanges:    ['OTC'],
+  assetTypes:          ['common'],
+  excludeSymbols:      [],
+  where:               '',
 };
 
+const NO_EXTRAS = { minPrice: 0, maxFloat: 0, minRelativeVolume: 0, minShortInterestPct: 0, where: '' };
+
+// Common stock on a national exchange — no OTC, warrants, units, rights, ETFs or ADRs
+const UNIVERSE = { includeExchanges: [], excludeExchanges: ['OTC'], assetTypes: ['common'] as AssetType[], excludeSymbols: [] };
+
+const GAINERS = { direction: 'gainers' as const, maxChangePct: 0, belowPrevLow: false };
+const LOSERS  = { direction: 'losers'  as const, minChangePct: 0, belowPrevLow: false };
+
 export const SESSION_DEFAULTS: Record<MarketType, ScanFilters> = {
-  pre_market:  { maxPrice: 30,  minPreMarketVolume: 12_000,  maxMarketCap: 2e9, minChangePct: 12 },
-  regular:     { maxPrice: 500, minPreMarketVolume: 500_000, maxMarketCap: 2e9, minChangePct: 5  },
-  post_market: { maxPrice: 200, minPreMarketVolume: 10_000,  maxMarketCap: 2e9, minChangePct: 3  },
+  pre_market:  { maxPrice: 30,  minPreMarketVolume: 12_000,  maxMarketCap: 2e9, minChangePct: 12, ...GAINERS, ...NO_EXTRAS, ...UNIVERSE },
+  regular:     { maxPrice: 500, minPreMarketVolume: 500_000, maxMarketCap: 2e9, minChangePct: 5,  ...GAINERS, ...NO_EXTRAS, ...UNIVERSE },
+  post_market: { maxPrice: 200, minPreMarketVolume: 10_000,  maxMarketCap: 2e9, minChangePct: 3,  ...GAINERS, ...NO_EXTRAS, ...UNIVERSE },
+};
+
+export const LOSERS_SESSION_DEFAULTS: Record<MarketType, ScanFilters> = {
+  pre_market:  { maxPrice: 30,  minPreMarketVolume: 12_000,  maxMarketCap: 2e9, maxChangePct: -10, ...LOSERS, ...NO_EXTRAS, ...UNIVERSE },
+  regular:     { maxPrice: 500, minPreMarketVolume: 500_000, maxMarketCap: 2e9, maxChangePct: -5,  ...LOSERS, ...NO_EXTRAS, ...UNIVERSE },
+  post_market: { maxPrice: 200, minPreMarketVolume: 10_000,  maxMarketCap: 2e9, maxChangePct: -3,  ...LOSERS, ...NO_EXTRAS, ...UNIVERSE },
 };
 
 export interface PreMarketStock {
   symbol:             string;
   name:               string;
   exchange:           string;
-  prevClose:          number;
+  prevClose:          number;  // close the change is measured from — today's in post-market
+  prevDayHigh:        number;  // 0 if unknown
+  prevDayLow:         number;  // 0 if unknown
   preMarketPrice:     number;
   preMarketChange:    number;
   preMarketChangePct: number;
   preMarketVolume:    number;  // volume for whichever session was scanned
-  marketCap:          number;  // 0 — not available from Alpaca free tier
+  marketCap:          number;  // shares outstanding × scanned price, 0 if unknown
+  sharesOutstanding:  number;  // 0 if unknown
+  floatShares:        number;  // 0 if unknown
+  shortInterestPct:   number;  // short interest as % of float, 0 if unknown
+  relativeVolume:     number;  // session volume ÷ usual volume by this time of day, 0 if unknown
   sector:             string | null;
+  industry:           string | null;
+  country:            string | null;
+  assetType:          AssetType | null;
+  isEtf:              boolean;
+  isAdr:              boolean;
+  isSpac:             boolean;
+}
+
+const NO_FUNDAMENTALS = { marketCap: 0, sharesOutstanding: 0, floatShares: 0, shortInterestPct: 0, relativeVolume: 0 };
+const NO_META         = { sector: null, industry: null, country: null, assetType: null, isEtf: false, isAdr: false, isSpac: false };
+
+// ── Universe filters ──────────────────────────────────────────────────────────
+// Unknown exchange / asset type passes; an empty list allows everything.
+
+function exchangeAllowed(exchange: string, f: ScanFilters): boolean {
+  if (!exchange) return true;
+  const ex = exchange.toUpperCase();
+  if (f.includeExchanges.length && !f.includeExchanges.includes(ex)) return false;
+  return !f.excludeExchanges.includes(ex);
+}
+
+function typeAllowed(type: AssetType | null, f: ScanFilters): boolean {
+  return !type || !f.assetTypes.length || f.assetTypes.includes(type);
+}
+
+function priceAllowed(symbol: string, price: number, f: ScanFilters): boolean {
+  return price > 0 && price >= f.minPrice && price <= f.maxPrice && !f.excludeSymbols.includes(symbol);
 }
 
-// ── Alpaca shapes ─────────────────────────────────────────────────────────────
+// ── Direction ─────────────────────────────────────────────────────────────────
+
+function changeAllowed(changePct: number, f: ScanFilters): boolean {
+  return f.direction === 'losers' ? changePct <= f.maxChangePct : changePct >= f.minChangePct;
+}
 
-interface AlpacaBar {
-  t: string; o: number; h: number; l: number; c: number; v: number; vw: number;
+/** Losers only, when asked: price under the prior-day low (unknown low passes) */
+function belowLowAllowed(s: PreMarketStock, f: ScanFilters): boolean {
+  return f.direction !== 'losers' || !f.belowPrevLow || !s.prevDayLow || s.preMarketPrice < s.prevDayLow;
 }
 
-interface AlpacaSnapshot {
-  latestTrade:  { p: number; s: number; t: string } | null;
-  latestQuote:  { ap: number; bp: number }           | null;
-  minuteBar:    AlpacaBar | null;
-  dailyBar:     AlpacaBar | null;
-  prevDailyBar: AlpacaBar | null;
+/** Biggest move first — most positive for gainers, most negative for losers */
+function byMove(f: ScanFilters) {
+  return (a: PreMarketStock, b: PreMarketStock) =>
+    f.direction === 'losers'
+      ? a.preMarketChangePct - b.preMarketChangePct
+      : b.preMarketChangePct - a.preMarketChangePct;
 }
 
 // ── Session minute-bar volume ─────────────────────────────────────────────────
@@ -107,25 +213,17 @@ async function fetchSessionVolumes(
   if (!symbols.length) return {};
 
   const startUtc = etTimeToday(startH, startM);
-  const endUtc   = new Date(Math.min(etTimeToday(endH, endM).getTime(), Date.now()));
+  const endUtc   = new Date(Math.min(etTimeToday(endH, endM).getTime(), now()));
 
   if (endUtc <= startUtc) return {};
 
   try {
-    const res = await axios.get(`${ALPACA_DATA}/v2/stocks/bars`, {
-      headers: alpacaHeaders(),
-      params: {
-        symbols:    symbols.join(','),
-        timeframe:  '1Min',
-        start:      startUtc.toISOString(),
-        end:        endUtc.toISOString(),
-        feed:       'iex',
-        limit:      10_000,
-        adjustment: 'raw',
-      },
-      timeout: 20_000,
+    const bars = await getBars(symbols, {
+      timeframe: '1Min',
+      start:     Math.floor(startUtc.getTime() / 1000),
+      end:       Math.floor(endUtc.getTime()   / 1000),
+      extended:  true,
     });
-    const bars: Record<string, { v: number }[]> = res.data?.bars ?? {};
     const out: Record<string, number> = {};
     for (const [sym, symBars] of Object.entries(bars)) {
       out[sym] = symBars.reduce((s, b) => s + b.v, 0);
@@ -137,34 +235,84 @@ async function fetchSessionVolumes(
   }
 }
 
-// ── Batch snapshot fetch ──────────────────────────────────────────────────────
+// ── Session reference price ───────────────────────────────────────────────────
+// Pre-market and regular moves are measured from the prior close, post-market
+// moves from today's regular-session close.
+
+/** Close of the last regular-session minute bar today, per symbol (empty before 16:00 ET) */
+async function fetchRegularCloses(symbols: string[]): Promise<Record<string, number>> {
+  const startUtc = etTimeToday(15, 45);
+  const endUtc   = etTimeToday(16, 0);
+  if (!symbols.length || now() < endUtc.getTime()) return {};
 
-async function fetchSnapshots(symbols: string[]): Promise<Record<string, AlpacaSnapshot>> {
-  if (!symbols.length) return {};
   try {
-    const res = await axios.get(`${ALPACA_DATA}/v2/stocks/snapshots`, {
-      headers: alpacaHeaders(),
-      params:  { symbols: symbols.join(','), feed: 'iex' },
-      timeout: 15_000,
+    const bars = await getBars(symbols, {
+      timeframe: '1Min',
+      start:     Math.floor(startUtc.getTime() / 1000),
+      end:       Math.floor(endUtc.getTime()   / 1000) - 1,
+      extended:  false,
     });
-    return (res.data ?? {}) as Record<string, AlpacaSnapshot>;
+    const out: Record<string, number> = {};
+    for (const [sym, symBars] of Object.entries(bars)) {
+      if (symBars.length) out[sym] = symBars[symBars.length - 1].c;
+    }
+    return out;
   } catch (err: any) {
-    console.warn('[scanner] snapshot fetch failed:', err?.message);
+    console.warn('[scanner] regular-close fetch failed:', err?.message);
     return {};
   }
 }
 
+/** Snapshot-only reference price — cheap enough for the full-market first pass */
+function snapshotBase(snap: Snapshot | undefined, marketType: MarketType): number {
+  return (marketType === 'post_market' ? snap?.day?.c : snap?.prevDay?.c) ?? 0;
+}
+
+/** Reference price per symbol for the session's change; 0 if unknown */
+async function sessionBases(
+  symbols:    string[],
+  marketType: MarketType,
+  snapshots:  Record<string, Snapshot>,
+): Promise<Record<string, number>> {
+  const closes = marketType === 'post_market' ? await fetchRegularCloses(symbols) : {};
+  return Object.fromEntries(symbols.map(s => [s, closes[s] || snapshotBase(snapshots[s], marketType)]));
+}
+
+function toStock(
+  symbol:   string,
+  exchange: string,
+  price:    number,
+  base:     number,
+  snap:     Snapshot | undefined,
+  volume:   number,
+): PreMarketStock {
+  return {
+    symbol,
+    name:               symbol,
+    exchange,
+    prevClose:          base,
+    prevDayHigh:        snap?.prevDay?.h ?? 0,
+    prevDayLow:         snap?.prevDay?.l ?? 0,
+    preMarketPrice:     price,
+    preMarketChange:    base ? price - base : 0,
+    preMarketChangePct: base ? ((price - base) / base) * 100 : 0,
+    preMarketVolume:    volume,
+    ...NO_FUNDAMENTALS,
+    ...NO_META,
+  };
+}
+
 // ── Volume by market type ────────────────────────────────────────────────────
 
 async function getVolumeMap(
   symbols:    string[],
   marketType: MarketType,
-  snapshots:  Record<string, AlpacaSnapshot>,
+  snapshots:  Record<string, Snapshot>,
 ): Promise<Record<string, number>> {
   if (marketType === 'regular') {
     // Use cumulative daily bar volume — already in snapshot, no extra call
     const out: Record<string, number> = {};
-    for (const sym of symbols) out[sym] = snapshots[sym]?.dailyBar?.v ?? 0;
+    for (const sym of symbols) out[sym] = snapshots[sym]?.day?.v ?? 0;
     return out;
   }
   if (marketType === 'pre_market')  return fetchSessionVolumes(symbols, 4, 0, 9, 30);
@@ -172,61 +320,55 @@ async function getVolumeMap(
   return {};
 }
 
-// ── Primary: Alpaca screener movers ──────────────────────────────────────────
+// ── Primary: screener movers ──────────────────────────────────────────────────
 
 async function primaryScan(
   f:          ScanFilters,
   marketType: MarketType,
-): Promise<PreMarketStock[]> {
-  const res = await axios.get(`${ALPACA_DATA}/v1beta1/screener/stocks/movers`, {
-    headers: alpacaHeaders(),
-    params:  { top: 100 },
-    timeout: 15_000,
-  });
-
-  const gainers: { symbol: string; percent_change: number; change: number; price: number }[] =
-    res.data?.gainers ?? [];
+): Promise<{ stocks: PreMarketStock[]; provider: ProviderName }> {
+  const { gainers, losers, rankedBy, provider } = await getMovers({ top: 100, marketType });
+  if (rankedBy !== marketType) {
+    throw new Error(`${provider} movers are not ranked by ${marketType.replace(/_/g, '-')} change`);
+  }
 
-  const candidates = gainers.filter(
-    g => g.percent_change >= f.minChangePct && g.price > 0 && g.price <= f.maxPrice,
+  const candidates = (f.direction === 'losers' ? losers : gainers).filter(
+    g => changeAllowed(g.changePct, f) && priceAllowed(g.symbol, g.price, f),
   );
-  if (!candidates.length) return [];
+  if (!candidates.length) return { stocks: [], provider };
 
   const symbols    = candidates.map(g => g.symbol);
-  const snapshots  = await fetchSnapshots(symbols);
-  const volumeMap  = await getVolumeMap(symbols, marketType, snapshots);
+  const snapshots  = await getSnapshots(symbols);
+  const [bases, volumeMap] = await Promise.all([
+    sessionBases(symbols, marketType, snapshots),
+    getVolumeMap(symbols, marketType, snapshots),
+  ]);
+
+  // Re-measure from the snapshot so every row uses the same reference price;
+  // keep the screener's figures where the reference is unknown
+  const stocks = candidates
+    .map(g => {
+      const snap = snapshots[g.symbol];
+      const s    = toStock(g.symbol, '', snap?.price || g.price, bases[g.symbol], snap, volumeMap[g.symbol] ?? 0);
+      return bases[g.symbol] ? s : { ...s, preMarketPrice: g.price, preMarketChange: g.change, preMarketChangePct: g.changePct };
+    })
+    .filter(s =>
+      changeAllowed(s.preMarketChangePct, f)  &&
+      s.preMarketVolume >= f.minPreMarketVolume &&
+      belowLowAllowed(s, f))
+    .sort(byMove(f));
 
-  return candidates
-    .map(g => ({
-      symbol:             g.symbol,
-      name:               g.symbol,
-      exchange:           '',
-      prevClose:          snapshots[g.symbol]?.prevDailyBar?.c ?? 0,
-      preMarketPrice:     g.price,
-      preMarketChange:    g.change,
-      preMarketChangePct: g.percent_change,
-      preMarketVolume:    volumeMap[g.symbol] ?? 0,
-      marketCap:          0,
-      sector:             null,
-    } satisfies PreMarketStock))
-    .filter(s => s.preMarketVolume >= f.minPreMarketVolume)
-    .sort((a, b) => b.preMarketChangePct - a.preMarketChangePct);
+  return { stocks, provider };
 }
 
 // ── Fallback: batched full-market snapshot scan ───────────────────────────────
 
 async function fallbackScan(
-  f:          ScanFilters,
-  marketType: MarketType,
+  f:           ScanFilters,
+  marketType:  MarketType,
+  onProgress?: (p: ScanProgress) => void,
 ): Promise<PreMarketStock[]> {
-  const assetRes = await axios.get(`${ALPACA_API}/v2/assets`, {
-    headers: alpacaHeaders(),
-    params:  { status: 'active', asset_class: 'us_equity' },
-    timeout: 30_000,
-  });
-
-  const assets: { symbol: string; exchange: string; tradable: boolean }[] = assetRes.data ?? [];
-  const tradable = assets.filter(a => a.tradable && a.exchange !== 'OTC');
+  const assets   = await listAssets();
+  const tradable = assets.filter(a => a.tradable && exchangeAllowed(a.exchange, f) && !f.excludeSymbols.includes(a.symbol));
   const symbols  = tradable.map(a => a.symbol);
 
   // Batch into groups of 100, fetch 5 at a time
@@ -234,92 +376,122 @@ async function fallbackScan(
   const chunks: string[][] = [];
   for (let i = 0; i < symbols.length; i += CHUNK) chunks.push(symbols.slice(i, i + CHUNK));
 
-  const allSnapshots: Record<string, AlpacaSnapshot> = {};
+  const allSnapshots: Record<string, Snapshot> = {};
   for (let i = 0; i < chunks.length; i += CONCURRENCY) {
-    const results = await Promise.allSettled(chunks.slice(i, i + CONCURRENCY).map(fetchSnapshots));
+    const results = await Promise.allSettled(chunks.slice(i, i + CONCURRENCY).map(getSnapshots));
     for (const r of results) {
       if (r.status === 'fulfilled') Object.assign(allSnapshots, r.value);
     }
+    onProgress?.({ done: Math.min((i + CONCURRENCY) * CHUNK, symbols.length), total: symbols.length });
     await new Promise(r => setTimeout(r, 200));
   }
 
-  // First-pass price + change filter
+  // First-pass price + change filter, from the snapshot alone
   const candidates: string[] = [];
   for (const sym of symbols) {
-    const snap      = allSnapshots[sym];
-    const prevClose = snap?.prevDailyBar?.c ?? 0;
-    const curPrice  = snap?.latestTrade?.p  ?? 0;
-    if (!prevClose || !curPrice) continue;
-    const chgPct = ((curPrice - prevClose) / prevClose) * 100;
-    if (chgPct >= f.minChangePct && curPrice <= f.maxPrice) candidates.push(sym);
+    const snap     = allSnapshots[sym];
+    const base     = snapshotBase(snap, marketType);
+    const curPrice = snap?.price ?? 0;
+    if (!base || !curPrice) continue;
+    const chgPct = ((curPrice - base) / base) * 100;
+    if (changeAllowed(chgPct, f) && priceAllowed(sym, curPrice, f)) candidates.push(sym);
   }
   if (!candidates.length) return [];
 
-  const volumeMap    = await getVolumeMap(candidates, marketType, allSnapshots);
-  const exchangeMap  = Object.fromEntries(tradable.map(a => [a.symbol, a.exchange]));
+  const [bases, volumeMap] = await Promise.all([
+    sessionBases(candidates, marketType, allSnapshots),
+    getVolumeMap(candidates, marketType, allSnapshots),
+  ]);
+  const exchangeMap = Object.fromEntries(tradable.map(a => [a.symbol, a.exchange]));
 
   return candidates
-    .map(sym => {
-      const snap      = allSnapshots[sym]!;
-      const prevClose = snap.prevDailyBar?.c ?? 0;
-      const curPrice  = snap.latestTrade?.p  ?? 0;
+    .map(sym => toStock(sym, exchangeMap[sym] ?? '', allSnapshots[sym]!.price, bases[sym], allSnapshots[sym], volumeMap[sym] ?? 0))
+    .filter(s =>
+      changeAllowed(s.preMarketChangePct, f)  &&
+      s.preMarketVolume >= f.minPreMarketVolume &&
+      belowLowAllowed(s, f))
+    .sort(byMove(f));
+}
+
+// ── Enrichment ────────────────────────────────────────────────────────────────
+
+// Unknown (0) values never fail a filter; a 0 limit is off
+const over  = (v: number, max: number) => max > 0 && v > max;
+const under = (v: number, min: number) => min > 0 && v > 0 && v < min;
+
+async function enrich(
+  stocks:     PreMarketStock[],
+  f:          ScanFilters,
+  marketType: MarketType,
+  where:      ScanExpression | null,
+): Promise<PreMarketStock[]> {
+  if (!stocks.length) return stocks;
+  const symbols = stocks.map(s => s.symbol);
+  // One fundamentals lookup, shared with the asset metadata
+  const lookup  = lookupFundamentals(symbols);
+  const [fundamentals, rvol, meta] = await Promise.all([
+    lookup,
+    getRelativeVolumes(Object.fromEntries(stocks.map(s => [s.symbol, s.preMarketVolume])), marketType),
+    lookup.then(fd => getAssetMeta(symbols, fd)),
+  ]);
+
+  return stocks
+    .map(s => {
+      const fd = fundamentals[s.symbol];
+      const m  = meta[s.symbol];
       return {
-        symbol:             sym,
-        name:               sym,
-        exchange:           exchangeMap[sym] ?? '',
-        prevClose,
-        preMarketPrice:     curPrice,
-        preMarketChange:    curPrice - prevClose,
-        preMarketChangePct: ((curPrice - prevClose) / prevClose) * 100,
-        preMarketVolume:    volumeMap[sym] ?? 0,
-        marketCap:          0,
-        sector:             null,
-      } satisfies PreMarketStock;
+        ...s,
+        name:              m?.name            || s.name,
+        exchange:          m?.exchange        || s.exchange,
+        sector:            m?.sector          || null,
+        industry:          m?.industry        || null,
+        country:           m?.country         || null,
+        assetType:         m?.assetType       ?? null,
+        isEtf:             m?.isEtf           ?? false,
+        isAdr:             m?.isAdr           ?? false,
+        isSpac:            m?.isSpac          ?? false,
+        marketCap:         marketCapAt(fd, s.preMarketPrice),
+        sharesOutstanding: fd?.sharesOutstanding ?? 0,
+        floatShares:       fd?.floatShares       ?? 0,
+        shortInterestPct:  shortInterestPct(fd),
+        relativeVolume:    rvol[s.symbol] ?? 0,
+      };
     })
-    .filter(s => s.preMarketVolume >= f.minPreMarketVolume)
-    .sort((a, b) => b.preMarketChangePct - a.preMarketChangePct);
+    .filter(s =>
+      exchangeAllowed(s.exchange, f)                    &&
+      typeAllowed(s.assetType, f)                       &&
+      !over(s.marketCap,         f.maxMarketCap)        &&
+      !over(s.floatShares,       f.maxFloat)            &&
+      !under(s.relativeVolume,   f.minRelativeVolume)   &&
+      !under(s.shortInterestPct, f.minShortInterestPct) &&
+      (!where || where.test(s)));
 }
 
 // ── Public API ────────────────────────────────────────────────────────────────
 
 export async function scanPreMarket(
-  filters:    ScanFilters  = DEFAULT_FILTERS,
-  marketType: MarketType   = 'pre_market',
-): Promise<{ stocks: PreMarketStock[]; source: 'primary' | 'fallback' }> {
+  filters:     ScanFilters  = DEFAULT_FILTERS,
+  marketType:  MarketType   = 'pre_market',
+  onProgress?: (p: ScanProgress) => void,
+): Promise<{ stocks: PreMarketStock[]; source: 'primary' | 'fallback'; provider: ProviderName | null }> {
+  // Compiled up front so a bad expression fails before any provider call
+  const where = filters.where.trim() ? compileExpression(filters.where) : null;
+
   try {
-    const stocks = await primaryScan(filters, marketType);
-    return { stocks, source: 'primary' };
+    const { stocks, provider } = await primaryScan(filters, marketType);
+    return { stocks: await enrich(stocks, filters, marketType, where), source: 'primary', provider };
   } catch (err: any) {
-    const status = err?.response?.status;
-    if (status === 401 || status === 403) {
-      throw new Error(
-        `Alpaca authentication failed (${status}). ` +
-        `Check ALPACA_KEY and ALPACA_SECRET in your .env.local — ` +
-        `regenerate them at https://app.alpaca.markets/paper/dashboard/overview`,
-      );
-    }
     console.warn('[scanner] primary failed, trying fallback:', err?.message);
   }
-  try {
-    const stocks = await fallbackScan(filters, marketType);
-    return { stocks, source: 'fallback' };
-  } catch (err: any) {
-    const status = err?.response?.status;
-    if (status === 401 || status === 403) {
-      throw new Error(
-        `Alpaca authentication failed (${status}). ` +
-        `Check ALPACA_KEY and ALPACA_SECRET in your .env.local — ` +
-        `regenerate them at https://app.alpaca.markets/paper/dashboard/overview`,
-      );
-    }
-    throw err;
-  }
+  // Provider auth / outage details are already in the MarketDataError message
+  const stocks = await fallbackScan(filters, marketType, onProgress);
+  return { stocks: await enrich(stocks, filters, marketType, where), source: 'fallback', provider: null };
 }
 
 // ── Market session ────────────────────────────────────────────────────────────
 
 export function getMarketSession(): 'pre' | 'regular' | 'post' | 'closed' {
-  const ny   = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const ny   = new Date(new Date(now()).toLocaleString('en-US', { timeZone: 'America/New_York' }));
   const day  = ny.getDay();
   const mins = ny.getHours() * 60 + ny.getMinutes();
   if (day === 0 || day === 6) return 'closed';
@@ -0,0 +1,148 @@
+/**
+ * Relative volume — session volume vs. the same time of day in past sessions
+ *
+ * For each symbol and session the average cumulative volume curve of the
+ * last RVOL_LOOKBACK_DAYS sessions (15-minute steps from the session open)
+ * is built from 15-min bars once per ET day and cached in
+ * data/rvol-cache.json. RVOL is today's session volume divided by that
+ * curve at the current minute: 3.0 means three times the usual volume by
+ * this point in the session. 0 means no history (new listing, no bars).
+ *
+ * Env vars:
+ *   RVOL_LOOKBACK_DAYS — sessions to average (default 10; 30 for a slower baseline)
+ */
+
+import fs   from 'fs/promises';
+import path from 'path';
+import { getBars, type Bar, type MarketType } from '@/lib/market-data';
+import { etDate } from '@/lib/market-data/util';
+import { nowSec } from '@/lib/clock';
+
+const DATA_DIR   = path.join(process.cwd(), 'data');
+const CACHE_PATH = path.join(DATA_DIR, 'rvol-cache.json');
+
+const LOOKBACK_DAYS = Math.max(1, parseInt(process.env.RVOL_LOOKBACK_DAYS ?? '10', 10) || 10);
+const STEP_MIN      = 15;
+const BATCH         = 50;   // per-symbol vendors reject bigger batches
+
+/** Session window in ET minutes after midnight, [open, close) */
+export const SESSION_WINDOW: Record<MarketType, [number, number]> = {
+  pre_market:  [240, 570],    // 04:00–09:30
+  regular:     [570, 960],    // 09:30–16:00
+  post_market: [960, 1200],   // 16:00–20:00
+};
+
+interface CacheFile {
+  date:   string;                             // ET date the curves were built on
+  days:   number;                             // LOOKBACK_DAYS they were built with
+  curves: Record<string, number[] | null>;   // "<marketType>:<SYMBOL>", null = no history
+}
+
+// ── Curve maths ───────────────────────────────────────────────────────────────
+
+const ET_HM = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+});
+
+/** Minutes after ET midnight for a unix timestamp */
+export function etMinuteOfDay(t: number): number {
+  const parts = ET_HM.formatToParts(new Date(t * 1000));
+  const get   = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return get('hour') * 60 + get('minute');
+}
+
+/**
+ * Average cumulative volume at each 15-minute step of a session window over
+ * the last `days` sessions before `today`. curve[k] is the volume usually
+ * traded in the first k × 15 minutes; null when there is no history.
+ */
+export function volumeCurve(bars: Bar[], today: string, days: number, [open, close]: [number, number]): number[] | null {
+  const steps  = Math.ceil((close - open) / STEP_MIN);
+  const byDate = new Map<string, number[]>();
+
+  for (const b of bars) {
+    const date = etDate(b.t);
+    if (date >= today) continue;
+    if (!byDate.has(date)) byDate.set(date, new Array(steps).fill(0));
+    const m = etMinuteOfDay(b.t);
+    if (m >= open && m < close) byDate.get(date)![Math.floor((m - open) / STEP_MIN)] += b.v;
+  }
+
+  const recent = [...byDate.keys()].sort().slice(-days);
+  if (!recent.length) return null;
+
+  const curve = new Array(steps + 1).fill(0);
+  for (const date of recent) {
+    const buckets = byDate.get(date)!;
+    let cum = 0;
+    for (let k = 0; k < steps; k++) curve[k + 1] += (cum += buckets[k]) / recent.length;
+  }
+  return curve.map(Math.round);
+}
+
+/** Volume ÷ the curve at `minutesIn` minutes after the open (interpolated); 0 if no baseline */
+export function relativeVolume(curve: number[] | null | undefined, minutesIn: number, volume: number): number {
+  if (!curve?.length) return 0;
+  const pos  = Math.min(Math.max(minutesIn, 0) / STEP_MIN, curve.length - 1);
+  const k    = Math.floor(pos);
+  const next = curve[Math.min(k + 1, curve.length - 1)];
+  const expected = curve[k] + (next - curve[k]) * (pos - k);
+  return expected > 0 ? volume / expected : 0;
+}
+
+// ── Cache ─────────────────────────────────────────────────────────────────────
+
+async function readCache(today: string): Promise<CacheFile> {
+  try {
+    const c = JSON.parse(await fs.readFile(CACHE_PATH, 'utf-8')) as CacheFile;
+    if (c.date === today && c.days === LOOKBACK_DAYS && c.curves) return c;
+  } catch { /* missing or corrupt — start fresh */ }
+  return { date: today, days: LOOKBACK_DAYS, curves: {} };
+}
+
+async function writeCache(c: CacheFile): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(CACHE_PATH, JSON.stringify(c));
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * RVOL per symbol for the given session volumes, measured at the current
+ * market-clock time (clamped to the session, so a forced scan after the
+ * close compares against full sessions). 0 where unknown. Never throws.
+ */
+export async function getRelativeVolumes(
+  volumes:    Record<string, number>,
+  marketType: MarketType,
+): Promise<Record<string, number>> {
+  const symbols = Object.keys(volumes);
+  if (!symbols.length) return {};
+
+  const now     = nowSec();
+  const today   = etDate(now);
+  const window  = SESSION_WINDOW[marketType];
+  const cache   = await readCache(today);
+  const key     = (sym: string) => `${marketType}:${sym}`;
+  const missing = symbols.filter(s => !(key(s) in cache.curves));
+
+  // Weekends and holidays: ~1.5 calendar days per session plus slack
+  const start = now - Math.ceil(LOOKBACK_DAYS * 1.5 + 5) * 86_400;
+
+  for (let i = 0; i < missing.length; i += BATCH) {
+    const batch = missing.slice(i, i + BATCH);
+    try {
+      const bars = await getBars(batch, { timeframe: '15Min', start, end: now, extended: true });
+      for (const sym of batch) cache.curves[key(sym)] = volumeCurve(bars[sym] ?? [], today, LOOKBACK_DAYS, window);
+    } catch (err: any) {
+      console.warn('[rvol] baseline fetch failed:', err?.message);
+    }
+  }
+
+  if (missing.some(s => key(s) in cache.curves)) {
+    await writeCache(cache).catch(err => console.error('[rvol] cache write failed:', err?.message));
+  }
+
+  const minutesIn = Math.min(Math.max(etMinuteOfDay(now) - window[0], 0), window[1] - window[0]);
+  return Object.fromEntries(symbols.map(s => [s, relativeVolume(cache.curves[key(s)], minutesIn, volumes[s])]));
+}
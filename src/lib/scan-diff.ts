@@ -0,0 +1,58 @@
+/**
+ * Scan diffs — what changed between two scanner result sets
+ *
+ * /api/scan/stream re-runs a scan on an interval and sends only the diff;
+ * the /scanner page applies it to the rows it already has. Rows are keyed
+ * by symbol; a changed row carries only the fields that moved.
+ */
+
+import type { PreMarketStock } from '@/lib/pre-market-scanner';
+
+type Row = { symbol: string };
+
+export type StockPatch<T extends Row = PreMarketStock> = Partial<T> & Row;
+
+/** Generic over the row type so the page can apply it to its own row shape */
+export interface ScanDiff<T extends Row = PreMarketStock> {
+  added:   T[];                // new to the result set
+  changed: StockPatch<T>[];    // still in it, with the fields that changed
+  removed: string[];           // dropped out
+}
+
+export function diffScan(prev: PreMarketStock[], next: PreMarketStock[]): ScanDiff {
+  const before = new Map(prev.map(s => [s.symbol, s]));
+  const after  = new Set(next.map(s => s.symbol));
+  const diff: ScanDiff = { added: [], changed: [], removed: prev.filter(s => !after.has(s.symbol)).map(s => s.symbol) };
+
+  for (const s of next) {
+    const old = before.get(s.symbol);
+    if (!old) { diff.added.push(s); continue; }
+
+    const patch: StockPatch = { symbol: s.symbol };
+    let moved = false;
+    for (const k of Object.keys(s) as (keyof PreMarketStock)[]) {
+      if (s[k] === old[k]) continue;
+      (patch as Record<string, unknown>)[k] = s[k];
+      moved = true;
+    }
+    if (moved) diff.changed.push(patch);
+  }
+  return diff;
+}
+
+export function isEmptyDiff<T extends Row>(d: ScanDiff<T>): boolean {
+  return !d.added.length && !d.changed.length && !d.removed.length;
+}
+
+/** `rows` with the diff applied — changed rows keep their place, added ones go last */
+export function applyDiff<T extends Row>(rows: T[], d: ScanDiff<T>): T[] {
+  const removed = new Set(d.removed);
+  const patches = new Map(d.changed.map(p => [p.symbol, p]));
+  return [
+    ...rows.filter(s => !removed.has(s.symbol)).map(s => {
+      const p = patches.get(s.symbol);
+      return p ? { ...s, ...p } : s;
+    }),
+    ...d.added,
+  ];
+}
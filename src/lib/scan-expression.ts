@@ -0,0 +1,340 @@
+/**
+ * Scan expressions — typed criteria evaluated against enriched scanner rows
+ *
+ *   changePct >= 12 and price < 30 and relVol > 5 and price > prevDayHigh
+ *   (float < 20M or shortPct >= 15) and not isSpac and exchange != 'OTC'
+ *
+ * Grammar (keywords and field names are case-insensitive):
+ *   expr    := or
+ *   or      := and ('or' and)*
+ *   and     := not ('and' not)*
+ *   not     := 'not' not | compare
+ *   compare := sum (('>=' | '<=' | '>' | '<' | '==' | '=' | '!=') sum)?
+ *   sum     := product (('+' | '-') product)*
+ *   product := unary (('*' | '/') unary)*
+ *   unary   := '-' unary | primary
+ *   primary := number [K|M|B] | 'string' | "string" | true | false | field | '(' expr ')'
+ *
+ * Every node is typed (number / string / boolean) when compiled, so a
+ * misspelt field, `exchange > 5` or a non-boolean expression is rejected
+ * before any scan runs, with the character offset of the problem.
+ *
+ * Like the fixed filters, a value that is unknown (0 / null — see FIELDS)
+ * never rejects a stock: it makes every comparison it is part of unknown,
+ * `and` / `or` / `not` follow three-valued logic, and an expression that
+ * ends up unknown keeps the row: `float < 20M` keeps a stock whose float
+ * nobody reported, and so does `not (float < 20M)`.
+ */
+
+import type { PreMarketStock } from '@/lib/pre-market-scanner';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+type ValueType = 'number' | 'string' | 'boolean';
+type Value     = number | string | boolean | null;   // null = unknown
+
+interface Node {
+  type: ValueType;
+  eval: (s: PreMarketStock) => Value;
+}
+
+export interface ScanExpression {
+  source: string;
+  /** false only when the row definitely fails — unknown passes */
+  test:   (s: PreMarketStock) => boolean;
+}
+
+/** Syntax or type error, with the character offset it was found at */
+export class ScanExpressionError extends Error {
+  constructor(message: string, readonly pos: number) {
+    super(`${message} (at ${pos})`);
+    this.name = 'ScanExpressionError';
+  }
+}
+
+// ── Fields ────────────────────────────────────────────────────────────────────
+
+interface Field {
+  type: ValueType;
+  get:  (s: PreMarketStock) => Value;
+}
+
+const num   = (get: (s: PreMarketStock) => number): Field => ({ type: 'number', get });
+const known = (get: (s: PreMarketStock) => number): Field => ({ type: 'number', get: s => get(s) || null });
+const str   = (get: (s: PreMarketStock) => string | null): Field => ({ type: 'string', get: s => get(s) || null });
+const bool  = (get: (s: PreMarketStock) => boolean): Field => ({ type: 'boolean', get });
+
+/** Field name → row value. `known` fields are unknown when 0. */
+export const FIELDS: Record<string, Field> = {
+  price:             num(s => s.preMarketPrice),
+  change:            num(s => s.preMarketChange),
+  changePct:         num(s => s.preMarketChangePct),
+  volume:            num(s => s.preMarketVolume),
+  prevClose:         known(s => s.prevClose),
+  prevDayHigh:       known(s => s.prevDayHigh),
+  prevDayLow:        known(s => s.prevDayLow),
+  marketCap:         known(s => s.marketCap),
+  float:             known(s => s.floatShares),
+  sharesOutstanding: known(s => s.sharesOutstanding),
+  shortPct:          known(s => s.shortInterestPct),
+  relVol:            known(s => s.relativeVolume),
+  symbol:            str(s => s.symbol),
+  exchange:          str(s => s.exchange),
+  sector:            str(s => s.sector),
+  industry:          str(s => s.industry),
+  country:           str(s => s.country),
+  assetType:         str(s => s.assetType),
+  isEtf:             bool(s => s.isEtf),
+  isAdr:             bool(s => s.isAdr),
+  isSpac:            bool(s => s.isSpac),
+};
+
+// Row property names and common shorthands
+const ALIASES: Record<string, string> = {
+  preMarketPrice: 'price', preMarketChange: 'change', preMarketChangePct: 'changePct', chgPct: 'changePct',
+  preMarketVolume: 'volume', vol: 'volume', mcap: 'marketCap', floatShares: 'float', shares: 'sharesOutstanding',
+  shortInterestPct: 'shortPct', relativeVolume: 'relVol', rvol: 'relVol', type: 'assetType',
+};
+
+// A Map, not an object — words like "constructor" must not find Object.prototype
+const FIELD_BY_LOWER = new Map<string, Field>([
+  ...Object.entries(FIELDS).map(([k, f]): [string, Field] => [k.toLowerCase(), f]),
+  ...Object.entries(ALIASES).map(([k, to]): [string, Field] => [k.toLowerCase(), FIELDS[to]]),
+]);
+
+// ── Tokenizer ─────────────────────────────────────────────────────────────────
+
+type TokenKind = 'num' | 'str' | 'ident' | 'op' | 'end';
+
+interface Token { kind: TokenKind; text: string; value?: number | string; pos: number }
+
+const SCALE: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+const TOKEN_RE = /\s*(?:(\d+(?:\.\d*)?|\.\d+)([kmbKMB])?(?![\w.])|'([^']*)'|"([^"]*)"|([A-Za-z_]\w*)|(>=|<=|==|!=|[<>=()+\-*/]))/y;
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_RE.lastIndex = 0;
+  for (;;) {
+    const start = TOKEN_RE.lastIndex;
+    if (/^\s*$/.test(src.slice(start))) break;
+    const m = TOKEN_RE.exec(src);
+    if (!m) {
+      const pos = start + (src.slice(start).length - src.slice(start).trimStart().length);
+      throw new ScanExpressionError(`unexpected "${src[pos]}"`, pos);
+    }
+    const pos = TOKEN_RE.lastIndex - m[0].trimStart().length;
+    if (m[1] !== undefined)      tokens.push({ kind: 'num',   text: m[0].trim(), value: parseFloat(m[1]) * (m[2] ? SCALE[m[2].toLowerCase()] : 1), pos });
+    else if (m[3] !== undefined) tokens.push({ kind: 'str',   text: m[0].trim(), value: m[3], pos });
+    else if (m[4] !== undefined) tokens.push({ kind: 'str',   text: m[0].trim(), value: m[4], pos });
+    else if (m[5] !== undefined) tokens.push({ kind: 'ident', text: m[5], pos });
+    else                         tokens.push({ kind: 'op',    text: m[6], pos });
+  }
+  tokens.push({ kind: 'end', text: 'end of expression', pos: src.length });
+  return tokens;
+}
+
+// ── Parser / type checker ─────────────────────────────────────────────────────
+
+const ORDERING = new Set(['>=', '<=', '>', '<']);
+const EQUALITY = new Set(['==', '=', '!=']);
+
+class Parser {
+  private i = 0;
+  constructor(private readonly tokens: Token[]) {}
+
+  private get tok(): Token { return this.tokens[this.i]; }
+
+  private isWord(word: string): boolean {
+    return this.tok.kind === 'ident' && this.tok.text.toLowerCase() === word;
+  }
+
+  private expect(type: ValueType, node: Node, what: string, pos: number): void {
+    if (node.type !== type) throw new ScanExpressionError(`${what} needs a ${type}, got a ${node.type}`, pos);
+  }
+
+  parse(): Node {
+    const node = this.or();
+    if (this.tok.kind !== 'end') throw new ScanExpressionError(`unexpected "${this.tok.text}"`, this.tok.pos);
+    this.expect('boolean', node, 'a scan expression', 0);
+    return node;
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.isWord('or')) {
+      const pos = this.tok.pos; this.i++;
+      const right = this.and();
+      this.expect('boolean', left, '"or"', pos);
+      this.expect('boolean', right, '"or"', pos);
+      const l = left;
+      left = {
+        type: 'boolean',
+        eval: s => {
+          const a = l.eval(s);
+          if (a === true) return true;
+          const b = right.eval(s);
+          return b === true ? true : a === null || b === null ? null : false;
+        },
+      };
+    }
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.not();
+    while (this.isWord('and')) {
+      const pos = this.tok.pos; this.i++;
+      const right = this.not();
+      this.expect('boolean', left, '"and"', pos);
+      this.expect('boolean', right, '"and"', pos);
+      const l = left;
+      left = {
+        type: 'boolean',
+        eval: s => {
+          const a = l.eval(s);
+          if (a === false) return false;
+          const b = right.eval(s);
+          return b === false ? false : a === null || b === null ? null : true;
+        },
+      };
+    }
+    return left;
+  }
+
+  private not(): Node {
+    if (!this.isWord('not')) return this.compare();
+    const pos = this.tok.pos; this.i++;
+    const operand = this.not();
+    this.expect('boolean', operand, '"not"', pos);
+    return { type: 'boolean', eval: s => { const v = operand.eval(s); return v === null ? null : !v; } };
+  }
+
+  private compare(): Node {
+    const left = this.sum();
+    const op   = this.tok;
+    if (op.kind !== 'op' || (!ORDERING.has(op.text) && !EQUALITY.has(op.text))) return left;
+    this.i++;
+    const right = this.sum();
+
+    if (left.type !== right.type) {
+      throw new ScanExpressionError(`cannot compare a ${left.type} with a ${right.type}`, op.pos);
+    }
+    if (ORDERING.has(op.text)) this.expect('number', left, `"${op.text}"`, op.pos);
+
+    const cmp = COMPARE[op.text];
+    const fold = left.type === 'string' ? (v: Value) => (v as string).toUpperCase() : (v: Value) => v;
+    return {
+      type: 'boolean',
+      eval: s => {
+        const a = left.eval(s), b = right.eval(s);
+        return a === null || b === null ? null : cmp(fold(a), fold(b));
+      },
+    };
+  }
+
+  private sum(): Node {
+    let left = this.product();
+    while (this.tok.kind === 'op' && (this.tok.text === '+' || this.tok.text === '-')) {
+      left = this.arithmetic(left, () => this.product());
+    }
+    return left;
+  }
+
+  private product(): Node {
+    let left = this.unary();
+    while (this.tok.kind === 'op' && (this.tok.text === '*' || this.tok.text === '/')) {
+      left = this.arithmetic(left, () => this.unary());
+    }
+    return left;
+  }
+
+  private arithmetic(left: Node, operand: () => Node): Node {
+    const op = this.tok; this.i++;
+    const right = operand();
+    this.expect('number', left, `"${op.text}"`, op.pos);
+    this.expect('number', right, `"${op.text}"`, op.pos);
+    const fn = ARITHMETIC[op.text];
+    return {
+      type: 'number',
+      eval: s => {
+        const a = left.eval(s) as number | null, b = right.eval(s) as number | null;
+        if (a === null || b === null) return null;
+        const v = fn(a, b);
+        return Number.isFinite(v) ? v : null;    // x / 0 is unknown
+      },
+    };
+  }
+
+  private unary(): Node {
+    if (this.tok.kind !== 'op' || this.tok.text !== '-') return this.primary();
+    const pos = this.tok.pos; this.i++;
+    const operand = this.unary();
+    this.expect('number', operand, '"-"', pos);
+    return { type: 'number', eval: s => { const v = operand.eval(s) as number | null; return v === null ? null : -v; } };
+  }
+
+  private primary(): Node {
+    const t = this.tok;
+    switch (t.kind) {
+      case 'num': {
+        this.i++;
+        const v = t.value as number;
+        return { type: 'number', eval: () => v };
+      }
+      case 'str': {
+        this.i++;
+        const v = t.value as string;
+        return { type: 'string', eval: () => v };
+      }
+      case 'ident': {
+        const word = t.text.toLowerCase();
+        if (word === 'true' || word === 'false') {
+          this.i++;
+          const v = word === 'true';
+          return { type: 'boolean', eval: () => v };
+        }
+        const field = FIELD_BY_LOWER.get(word);
+        if (!field) throw new ScanExpressionError(`unknown field "${t.text}"`, t.pos);
+        this.i++;
+        return { type: field.type, eval: field.get };
+      }
+      case 'op':
+        if (t.text === '(') {
+          this.i++;
+          const inner = this.or();
+          if (this.tok.kind !== 'op' || this.tok.text !== ')') {
+            throw new ScanExpressionError(`expected ")" but found "${this.tok.text}"`, this.tok.pos);
+          }
+          this.i++;
+          return inner;
+        }
+    }
+    throw new ScanExpressionError(`expected a value but found "${t.text}"`, t.pos);
+  }
+}
+
+const COMPARE: Record<string, (a: Value, b: Value) => boolean> = {
+  '>=': (a, b) => (a as number) >= (b as number),
+  '<=': (a, b) => (a as number) <= (b as number),
+  '>':  (a, b) => (a as number) >  (b as number),
+  '<':  (a, b) => (a as number) <  (b as number),
+  '==': (a, b) => a === b,
+  '=':  (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+};
+
+const ARITHMETIC: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+};
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/** Parse and type-check. Throws ScanExpressionError. */
+export function compileExpression(source: string): ScanExpression {
+  const root = new Parser(tokenize(source)).parse();
+  return { source, test: s => root.eval(s) !== false };
+}
@@ -0,0 +1,250 @@
+/**
+ * Scan presets — data/scan-presets.json
+ *
+ * A preset is a named scanner configuration: session, filter overrides,
+ * sort and visible columns. Built and saved from the /scanner page, shared
+ * as /scanner?preset=<id>, and run server-side (monitor, cron) via
+ * /api/scan/pre-market?preset=<id>.
+ *
+ *   { "id": "low-float-runners", "name": "Low-float runners",
+ *     "marketType": "pre_market",
+ *     "filters": { "minChangePct": 20, "maxFloat": 10000000, … },
+ *     "sort": { "key": "relativeVolume", "dir": "desc" },
+ *     "columns": ["preMarketPrice", "preMarketChangePct", …],
+ *     "createdAt": "2025-…", "updatedAt": "2025-…" }
+ *
+ * Filters are overrides of the session (and direction) defaults in
+ * src/lib/pre-market-scanner.ts, so a preset saved before a filter existed
+ * picks up that filter's default. The id is a slug of the name at creation
+ * and never changes, so shared links survive a rename.
+ */
+
+import fs   from 'fs/promises';
+import path from 'path';
+import type { MarketType, ScanFilters, PreMarketStock } from '@/lib/pre-market-scanner';
+import { ASSET_TYPES, type AssetType } from '@/lib/asset-meta';
+import { compileExpression } from '@/lib/scan-expression';
+
+const DATA_DIR     = path.join(process.cwd(), 'data');
+const PRESETS_PATH = path.join(DATA_DIR, 'scan-presets.json');
+
+const ID_RE = /^[a-z0-9][a-z0-9-]{0,47}$/;
+
+const MARKET_TYPES: MarketType[] = ['pre_market', 'regular', 'post_market'];
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** Numeric result columns — each is also a sort key */
+export type ScanColumn = keyof Pick<PreMarketStock,
+  | 'preMarketPrice' | 'preMarketChangePct' | 'preMarketChange' | 'preMarketVolume' | 'relativeVolume'
+  | 'floatShares' | 'sharesOutstanding' | 'shortInterestPct' | 'marketCap' | 'prevClose'>;
+
+export const SCAN_COLUMNS: ScanColumn[] = [
+  'preMarketPrice', 'preMarketChangePct', 'preMarketChange', 'preMarketVolume', 'relativeVolume',
+  'floatShares', 'sharesOutstanding', 'shortInterestPct', 'marketCap', 'prevClose',
+];
+
+export interface ScanPreset {
+  id:         string;
+  name:       string;
+  marketType: MarketType;
+  filters:    Partial<ScanFilters>;                       // overrides of the session defaults
+  sort:       { key: ScanColumn; dir: 'asc' | 'desc' };
+  columns:    ScanColumn[];                               // visible columns, in SCAN_COLUMNS order
+  createdAt:  string;                                     // ISO timestamp
+  updatedAt:  string;
+}
+
+export type ScanPresetPatch = Partial<Pick<ScanPreset, 'name' | 'marketType' | 'filters' | 'sort' | 'columns'>>;
+
+// ── Read / write ──────────────────────────────────────────────────────────────
+
+/** URL-safe id from a preset name ("Low-float runners!" → "low-float-runners"); null if nothing is left */
+export function presetId(name: string): string | null {
+  const id = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48).replace(/-+$/, '');
+  return ID_RE.test(id) ? id : null;
+}
+
+export function normalizePresetId(raw: unknown): string | null {
+  return typeof raw === 'string' && ID_RE.test(raw) ? raw : null;
+}
+
+interface PresetsFile {
+  presets:  ScanPreset[];
+  unparsed: unknown[];    // entries that no longer validate, written back as they were
+}
+
+/**
+ * The file for a mutation: empty when there is none, throws when it exists
+ * but isn't a JSON array, so one save can't replace the whole library.
+ */
+async function readPresetsFile(): Promise<PresetsFile> {
+  let text: string;
+  try { text = await fs.readFile(PRESETS_PATH, 'utf-8'); } catch (err: any) {
+    if (err?.code === 'ENOENT') return { presets: [], unparsed: [] };
+    throw err;
+  }
+
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch (err: any) {
+    throw new Error(`data/scan-presets.json is not valid JSON (${err?.message}) — fix it by hand`);
+  }
+  if (!Array.isArray(raw)) throw new Error('data/scan-presets.json must be a JSON array — fix it by hand');
+
+  const file: PresetsFile = { presets: [], unparsed: [] };
+  for (const item of raw) {
+    const id    = normalizePresetId(item?.id);
+    const patch = parsePresetPatch(item);
+    if (!id || typeof patch === 'string' || !patch.name || !patch.marketType) {
+      file.unparsed.push(item);
+      continue;
+    }
+    if (file.presets.some(p => p.id === id)) continue;
+    file.presets.push({
+      id,
+      name:       patch.name,
+      marketType: patch.marketType,
+      filters:    patch.filters ?? {},
+      sort:       patch.sort    ?? { key: 'preMarketChangePct', dir: 'desc' },
+      columns:    patch.columns ?? [...SCAN_COLUMNS],
+      createdAt:  typeof item.createdAt === 'string' ? item.createdAt : '',
+      updatedAt:  typeof item.updatedAt === 'string' ? item.updatedAt : '',
+    });
+  }
+  return file;
+}
+
+/**
+ * All presets; entries that no longer validate (say, a where expression
+ * naming a renamed field) are skipped but stay in the file. Never throws.
+ */
+export async function readPresets(): Promise<ScanPreset[]> {
+  try { return (await readPresetsFile()).presets; } catch { return []; }
+}
+
+/** One preset by id, or null. Never throws. */
+export async function findPreset(id: string): Promise<ScanPreset | null> {
+  return (await readPresets()).find(p => p.id === id) ?? null;
+}
+
+async function writePresets({ presets, unparsed }: PresetsFile): Promise<void> {
+  // A preset saved under the id of an entry that no longer validates replaces it
+  const taken = new Set(presets.map(p => p.id));
+  const kept  = unparsed.filter(item => !taken.has(normalizePresetId((item as { id?: unknown } | null)?.id) ?? ''));
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(PRESETS_PATH, JSON.stringify([...presets, ...kept], null, 2));
+}
+
+// Same read-modify-write chaining as the watchlist store
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Read → `fn` (mutates the array in place) → write, unless `fn` changed
+ * nothing. Resolves to `fn`'s result; rejects, leaving the file alone, when
+ * the file can't be parsed.
+ */
+export function mutatePresets<T>(fn: (presets: ScanPreset[]) => T): Promise<T> {
+  const run = queue.then(async () => {
+    const file   = await readPresetsFile();
+    const before = JSON.stringify(file.presets);
+    const result = fn(file.presets);
+    if (JSON.stringify(file.presets) !== before) await writePresets(file);
+    return result;
+  });
+  queue = run.catch(() => {});
+  return run;
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+const NUMBER_FILTERS = [
+  'minPrice', 'maxPrice', 'minPreMarketVolume', 'maxMarketCap', 'minChangePct', 'maxChangePct',
+  'maxFloat', 'minRelativeVolume', 'minShortInterestPct',
+] as const satisfies (keyof ScanFilters)[];
+
+const LIST_FILTERS = ['includeExchanges', 'excludeExchanges', 'excludeSymbols'] as const satisfies (keyof ScanFilters)[];
+
+/** Validate filter overrides. Returns them, or an error string. Unknown keys are dropped. */
+function parseFilters(raw: unknown): Partial<ScanFilters> | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'filters must be an object';
+  const r   = raw as Record<string, unknown>;
+  const out: Partial<ScanFilters> = {};
+
+  if ('direction' in r) {
+    if (r.direction !== 'gainers' && r.direction !== 'losers') return 'filters.direction must be gainers or losers';
+    out.direction = r.direction;
+  }
+  for (const k of NUMBER_FILTERS) {
+    if (!(k in r)) continue;
+    if (typeof r[k] !== 'number' || !Number.isFinite(r[k])) return `filters.${k} must be a number`;
+    out[k] = r[k];
+  }
+  if ('belowPrevLow' in r) {
+    if (typeof r.belowPrevLow !== 'boolean') return 'filters.belowPrevLow must be a boolean';
+    out.belowPrevLow = r.belowPrevLow;
+  }
+  for (const k of LIST_FILTERS) {
+    if (!(k in r)) continue;
+    const v = r[k];
+    if (!Array.isArray(v) || v.some(s => typeof s !== 'string')) return `filters.${k} must be a list of strings`;
+    out[k] = (v as string[]).map(s => s.trim().toUpperCase()).filter(Boolean);
+  }
+  if ('assetTypes' in r) {
+    const v = r.assetTypes;
+    if (!Array.isArray(v) || v.some(t => !ASSET_TYPES.includes(t))) {
+      return `filters.assetTypes must be a list of ${ASSET_TYPES.join(', ')}`;
+    }
+    out.assetTypes = v as AssetType[];
+  }
+  if ('where' in r) {
+    if (typeof r.where !== 'string') return 'filters.where must be a string';
+    if (r.where.trim()) {
+      try { compileExpression(r.where); } catch (err: any) { return `filters.where: ${err?.message}`; }
+    }
+    out.where = r.where.trim();
+  }
+  return out;
+}
+
+/**
+ * Validate the editable fields of a preset from a request body.
+ * Returns the patch, or an error string.
+ */
+export function parsePresetPatch(raw: unknown): ScanPresetPatch | string {
+  if (!raw || typeof raw !== 'object') return 'body must be a JSON object';
+  const r     = raw as Record<string, unknown>;
+  const patch: ScanPresetPatch = {};
+
+  if ('name' in r) {
+    if (typeof r.name !== 'string' || !r.name.trim()) return 'name must be a non-empty string';
+    patch.name = r.name.trim().slice(0, 60);
+  }
+
+  if ('marketType' in r) {
+    if (!MARKET_TYPES.includes(r.marketType as MarketType)) return `marketType must be one of ${MARKET_TYPES.join(', ')}`;
+    patch.marketType = r.marketType as MarketType;
+  }
+
+  if ('filters' in r) {
+    const filters = parseFilters(r.filters);
+    if (typeof filters === 'string') return filters;
+    patch.filters = filters;
+  }
+
+  if ('sort' in r) {
+    const s = r.sort as Record<string, unknown> | null;
+    if (!s || !SCAN_COLUMNS.includes(s.key as ScanColumn) || (s.dir !== 'asc' && s.dir !== 'desc')) {
+      return 'sort must be { key: <column>, dir: asc|desc }';
+    }
+    patch.sort = { key: s.key as ScanColumn, dir: s.dir };
+  }
+
+  if ('columns' in r) {
+    const c = r.columns;
+    if (!Array.isArray(c) || c.some(k => !SCAN_COLUMNS.includes(k))) {
+      return `columns must be a list of ${SCAN_COLUMNS.join(', ')}`;
+    }
+    patch.columns = SCAN_COLUMNS.filter(k => c.includes(k));
+  }
+  return patch;
+}
@@ -0,0 +1,135 @@
+/**
+ * Scanner query parsing — shared by /api/scan/pre-market (one-shot JSON)
+ * and /api/scan/stream (server-sent events).
+ *
+ * Resolves ?preset, ?marketType, ?direction and the filter params into a
+ * ScanRequest (per-session defaults, then the preset's overrides, then URL
+ * params), and runs it. The param list is documented on
+ * /api/scan/pre-market.
+ */
+
+import {
+  scanPreMarket,
+  getMarketSession,
+  SESSION_DEFAULTS,
+  LOSERS_SESSION_DEFAULTS,
+  type MarketType,
+  type ScanDirection,
+  type ScanFilters,
+  type ScanProgress,
+  type PreMarketStock,
+}                                                from '@/lib/pre-market-scanner';
+import { ASSET_TYPES, type AssetType }           from '@/lib/asset-meta';
+import { findPreset, normalizePresetId, type ScanPreset } from '@/lib/scan-presets';
+import { compileExpression, ScanExpressionError } from '@/lib/scan-expression';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ScanRequest {
+  marketType: MarketType;
+  direction:  ScanDirection;
+  filters:    ScanFilters;
+  preset:     ScanPreset | null;
+}
+
+/** A request that cannot run — respond with `status` */
+export interface ScanRequestError {
+  error:  string;
+  status: number;
+  pos?:   number;     // offset into the where expression
+}
+
+// ── Session gate ──────────────────────────────────────────────────────────────
+
+const SESSION_GATE: Record<MarketType, ReturnType<typeof getMarketSession>> = {
+  pre_market:  'pre',
+  regular:     'regular',
+  post_market: 'post',
+};
+
+const SESSION_HOURS: Record<MarketType, string> = {
+  pre_market:  '4:00–9:30 AM ET',
+  regular:     '9:30 AM–4:00 PM ET',
+  post_market: '4:00–8:00 PM ET',
+};
+
+/** Why the scan should not run now, or null when the session matches */
+export function sessionGateMessage(marketType: MarketType): string | null {
+  if (getMarketSession() === SESSION_GATE[marketType]) return null;
+  return `${marketType.replace(/_/g, ' ')} scanner only runs ${SESSION_HOURS[marketType]} (pass ?force=1 to override)`;
+}
+
+// ── Query parsing ─────────────────────────────────────────────────────────────
+
+/** Comma-separated upper-cased list; `fallback` when the param is absent, [] when empty */
+function listParam(url: URL, name: string, fallback: string[]): string[] {
+  const raw = url.searchParams.get(name);
+  if (raw === null) return fallback;
+  return raw.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+}
+
+export async function parseScanRequest(url: URL): Promise<ScanRequest | ScanRequestError> {
+  let preset: ScanPreset | null = null;
+  if (url.searchParams.has('preset')) {
+    const id = normalizePresetId(url.searchParams.get('preset'));
+    preset   = id ? await findPreset(id) : null;
+    if (!preset) return { error: `No preset "${url.searchParams.get('preset')}"`, status: 404 };
+  }
+
+  const marketType = (url.searchParams.get('marketType') ?? preset?.marketType ?? 'pre_market') as MarketType;
+  const direction: ScanDirection =
+    (url.searchParams.get('direction') ?? preset?.filters.direction) === 'losers' ? 'losers' : 'gainers';
+
+  // Per-session (and per-direction) filter defaults, then the preset's
+  // overrides, then URL params
+  const table    = direction === 'losers' ? LOSERS_SESSION_DEFAULTS : SESSION_DEFAULTS;
+  const defaults = { ...(table[marketType] ?? table.pre_market), ...preset?.filters };
+  const filters: ScanFilters = {
+    direction,
+    minPrice:            parseFloat(url.searchParams.get('minPrice')  ?? String(defaults.minPrice)),
+    maxPrice:            parseFloat(url.searchParams.get('maxPrice')  ?? String(defaults.maxPrice)),
+    minPreMarketVolume:  parseInt(  url.searchParams.get('minVol')    ?? String(defaults.minPreMarketVolume), 10),
+    maxMarketCap:        parseFloat(url.searchParams.get('maxMcap')   ?? String(defaults.maxMarketCap)),
+    minChangePct:        parseFloat(url.searchParams.get('minChange') ?? String(defaults.minChangePct)),
+    maxChangePct:        parseFloat(url.searchParams.get('maxChange') ?? String(defaults.maxChangePct)),
+    belowPrevLow:        url.searchParams.has('belowLow') ? url.searchParams.get('belowLow') === '1' : defaults.belowPrevLow,
+    maxFloat:            parseFloat(url.searchParams.get('maxFloat')  ?? String(defaults.maxFloat)),
+    minRelativeVolume:   parseFloat(url.searchParams.get('minRvol')   ?? String(defaults.minRelativeVolume)),
+    minShortInterestPct: parseFloat(url.searchParams.get('minShort')  ?? String(defaults.minShortInterestPct)),
+    includeExchanges:    listParam(url, 'exchanges',        defaults.includeExchanges),
+    excludeExchanges:    listParam(url, 'excludeExchanges', defaults.excludeExchanges),
+    assetTypes:          listParam(url, 'types',            defaults.assetTypes)
+                           .map(t => t.toLowerCase() as AssetType)
+                           .filter(t => ASSET_TYPES.includes(t)),
+    excludeSymbols:      listParam(url, 'exclude',          defaults.excludeSymbols),
+    where:               url.searchParams.get('where') ?? defaults.where,
+  };
+
+  if (filters.where.trim()) {
+    try { compileExpression(filters.where); } catch (err: any) {
+      if (!(err instanceof ScanExpressionError)) throw err;
+      return { error: `Invalid where expression: ${err.message}`, status: 400, pos: err.pos };
+    }
+  }
+
+  return { marketType, direction, filters, preset };
+}
+
+export function isScanRequestError(r: ScanRequest | ScanRequestError): r is ScanRequestError {
+  return 'error' in r;
+}
+
+// ── Run ───────────────────────────────────────────────────────────────────────
+
+/** Scan, in the preset's sort order when there is one */
+export async function runScanRequest(
+  req:         ScanRequest,
+  onProgress?: (p: ScanProgress) => void,
+): ReturnType<typeof scanPreMarket> {
+  const result = await scanPreMarket(req.filters, req.marketType, onProgress);
+  if (!req.preset) return result;
+
+  const { key, dir } = req.preset.sort;
+  const byKey = (a: PreMarketStock, b: PreMarketStock) => dir === 'desc' ? b[key] - a[key] : a[key] - b[key];
+  return { ...result, stocks: [...result.stocks].sort(byKey) };
+}
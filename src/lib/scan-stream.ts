@@ -0,0 +1,110 @@
+/**
+ * Shared scan loops — one per distinct query behind /api/scan/stream
+ *
+ * Every open stream with the same query (market type, direction, filters,
+ * preset, ?force) subscribes to the same loop, so ten tabs on one scanner
+ * cost one scan per interval, not ten. A loop re-runs its scan
+ * SCAN_STREAM_INTERVAL_SECONDS (default 15, at least 5) after the previous
+ * one finishes, so a slow fallback scan never overlaps itself, and stops
+ * once its last subscriber has gone.
+ *
+ * Subscribers get every tick as it happens; one joining a running loop is
+ * handed the latest result (or idle tick) straight away.
+ */
+
+import { getMarketSession, type ScanProgress }                  from '@/lib/pre-market-scanner';
+import { runScanRequest, sessionGateMessage, type ScanRequest } from '@/lib/scan-request';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+type Session    = ReturnType<typeof getMarketSession>;
+type ScanResult = Awaited<ReturnType<typeof runScanRequest>>;
+
+export type ScanTick =
+  | { type: 'result';   scannedAt: string; session: Session } & ScanResult
+  | { type: 'idle';     scannedAt: string; session: Session; message: string }
+  | { type: 'failed';   error: string }
+  | { type: 'progress'; progress: ScanProgress };
+
+type Listener = (tick: ScanTick) => void;
+
+interface Loop {
+  listeners: Set<Listener>;
+  last:      ScanTick | null;          // latest result or idle tick
+  wake:      (() => void) | null;      // cuts the wait between scans short
+}
+
+// ── Interval ──────────────────────────────────────────────────────────────────
+
+/** Milliseconds between scans for a SCAN_STREAM_INTERVAL_SECONDS value */
+export function scanInterval(raw: string | undefined): number {
+  const seconds = parseInt(raw ?? '', 10);
+  return (Number.isFinite(seconds) ? Math.max(5, seconds) : 15) * 1000;
+}
+
+const INTERVAL = scanInterval(process.env.SCAN_STREAM_INTERVAL_SECONDS);
+
+// ── Loops ─────────────────────────────────────────────────────────────────────
+
+const loops = new Map<string, Loop>();
+
+function loopKey(req: ScanRequest, force: boolean): string {
+  const { marketType, direction, filters, preset } = req;
+  return JSON.stringify([marketType, direction, filters, preset?.id ?? null, preset?.sort ?? null, force]);
+}
+
+async function run(key: string, loop: Loop, req: ScanRequest, force: boolean) {
+  const emit = (tick: ScanTick) => {
+    for (const listener of loop.listeners) listener(tick);
+  };
+
+  while (loops.get(key) === loop) {
+    const session = getMarketSession();
+    const gated   = sessionGateMessage(req.marketType);
+
+    if (gated && !force) {
+      loop.last = { type: 'idle', scannedAt: new Date().toISOString(), session, message: gated };
+      emit(loop.last);
+    } else {
+      try {
+        const { stocks, source, provider } = await runScanRequest(req, progress => emit({ type: 'progress', progress }));
+        loop.last = { type: 'result', scannedAt: new Date().toISOString(), session, source, provider, stocks };
+        emit(loop.last);
+      } catch (err: any) {
+        console.error('[scan/stream] scanner error:', err?.message);
+        emit({ type: 'failed', error: err?.message ?? 'Scan failed' });
+      }
+    }
+
+    if (loops.get(key) !== loop) break;
+    await new Promise<void>(resolve => {
+      const t   = setTimeout(() => { loop.wake = null; resolve(); }, INTERVAL);
+      loop.wake = () => { clearTimeout(t); loop.wake = null; resolve(); };
+    });
+  }
+}
+
+/**
+ * Get the ticks of the loop scanning `req`, starting one if none is running.
+ * Returns the unsubscribe function.
+ */
+export function subscribeScan(req: ScanRequest, force: boolean, listener: Listener): () => void {
+  const key = loopKey(req, force);
+  let loop  = loops.get(key);
+  if (!loop) {
+    loop = { listeners: new Set([listener]), last: null, wake: null };
+    loops.set(key, loop);
+    void run(key, loop, req, force);
+  } else {
+    loop.listeners.add(listener);
+    if (loop.last) listener(loop.last);
+  }
+
+  const joined = loop;
+  return () => {
+    joined.listeners.delete(listener);
+    if (joined.listeners.size || loops.get(key) !== joined) return;
+    loops.delete(key);
+    joined.wake?.();
+  };
+}
@@ -1,23 +1,14 @@
-import type { NewsItem, NewsCategory, NewsSentiment } from './news-fetch';
+import fs                                             from 'fs/promises';
+import path                                           from 'path';
+import type { NewsItem, NewsSentiment }               from './news-fetch';
 import type { PreMarketStock, ScanFilters }           from './pre-market-scanner';
+import { now, nowSec }                                from './clock';
+import { CATEGORY_EMOJI }                             from './news-meta';
 
 // ── Types ──────────────────────────────────────────────────────────────────────
 
 export type { NewsItem };
 
-const CATEGORY_EMOJI: Record<NewsCategory, string> = {
-  'FDA Approval':         '💊',
-  'Clinical Trial':       '🧪',
-  'Merger & Acquisition': '🤝',
-  'Partnership':          '🤝',
-  'Government Contract':  '🏛️',
-  'Major Investment':     '💰',
-  'Geopolitical':         '🌍',
-  'Earnings':             '📊',
-  'Analyst Rating':       '📈',
-  'General':              '📰',
-};
-
 const SENTIMENT_EMOJI: Record<NewsSentiment, string> = {
   bullish: '🟢 Bullish',
   bearish: '🔴 Bearish',
@@ -43,8 +34,9 @@ function escapeUrl(url: string): string {
     .replace(/>/g, '%3E');  // > percent-encode, not &gt;
 }
 
-// Truncate at a line boundary so we never cut inside an HTML tag.
-function truncateLines(lines: string[], max = 4000): string {
+// Truncate at a line boundary so we never cut inside an HTML tag. The default
+// leaves headroom under Telegram's 4096-char limit for the appended chart link.
+export function truncateLines(lines: string[], max = 4000): string {
   const full = lines.join('\n');
   if (full.length <= max) return full;
   const ellipsis = '\n…';
@@ -60,7 +52,7 @@ function truncateLines(lines: string[], max = 4000): string {
 }
 
 function timeAgo(unixSec: number): string {
-  const diff = Math.floor(Date.now() / 1000) - unixSec;
+  const diff = nowSec() - unixSec;
   if (diff < 60)    return `${diff}s ago`;
   if (diff < 3600)  return `${Math.floor(diff / 60)}m ago`;
   if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`;
@@ -91,7 +83,7 @@ export function buildMomentumAlertMessage(
     ? `🟢 <b>${sign}${changePct.toFixed(1)}%</b> pre-mkt  ·  $${price.toFixed(2)} above D-High $${prevDayHigh.toFixed(2)}`
     : `🟢 <b>${sign}${changePct.toFixed(1)}%</b> today`;
 
-  return [
+  return truncateLines([
     header,
     ``,
     `🏷 <b>${escapeHtml(symbol)}</b>  ·  ${escapeHtml(name)}`,
@@ -102,7 +94,7 @@ export function buildMomentumAlertMessage(
     ``,
     `📰 ${escapeHtml(item.publisher)} · ${age}`,
     `<a href="${escapeUrl(item.url)}">Read Article →</a>`,
-  ].join('\n');
+  ]);
 }
 
 // ── Watchlist catalyst alert ───────────────────────────────────────────────────
@@ -112,7 +104,7 @@ export function buildAlertMessage(item: NewsItem, symbol: string): string {
   const sentEmoji = SENTIMENT_EMOJI[item.sentiment];
   const age       = timeAgo(item.publishedAt);
 
-  return [
+  return truncateLines([
     `⚡ <b>CATALYST ALERT</b>`,
     ``,
     `🏷 <b>${escapeHtml(symbol)}</b> — ${catEmoji} <b>${escapeHtml(item.category)}</b>`,
@@ -122,7 +114,7 @@ export function buildAlertMessage(item: NewsItem, symbol: string): string {
     ``,
     `📰 ${escapeHtml(item.publisher)} · ${age}`,
     `<a href="${escapeUrl(item.url)}">Read Article →</a>`,
-  ].join('\n');
+  ]);
 }
 
 // ── Chart-open alert ──────────────────────────────────────────────────────────
@@ -183,7 +175,7 @@ export function buildCatalystBriefMessage(
   const pinned  = news.filter((n) => n.isPinned).slice(0, 4);
   const recent  = news.filter((n) => !n.isPinned).slice(0, 6);
 
-  const dateStr  = new Date().toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const dateStr  = new Date(now()).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
   const priceStr = price > 0 ? `  ·  Last: $${price.toFixed(2)}` : '';
 
   const bullCount = news.filter((n) => n.sentiment === 'bullish').length;
@@ -227,20 +219,55 @@ export function buildCatalystBriefMessage(
   return truncateLines(lines);
 }
 
+// ── Watchlist price threshold ─────────────────────────────────────────────────
+
+export function buildPriceAlertMessage(
+  symbol:    string,
+  price:     number,
+  pct:       number,
+  trigger:   string,
+  note = '',
+): string {
+  const isUp = pct >= 0;
+  const sign = isUp ? '+' : '';
+
+  const lines: string[] = [
+    `🎯 <b>PRICE ALERT</b>  ·  <b>${escapeHtml(symbol)}</b>`,
+    ``,
+    `💵 $${price.toFixed(2)}  ·  ${isUp ? '🟢' : '🔴'} ${sign}${pct.toFixed(2)}% today`,
+    `⚑ ${escapeHtml(trigger)}`,
+  ];
+  if (note) lines.push(``, `📝 <i>${escapeHtml(note)}</i>`);
+
+  return truncateLines(lines);
+}
+
 // ── Shared send helper ────────────────────────────────────────────────────────
 // chartUrl is appended as plain text — Telegram Desktop auto-detects and
 // hyperlinks raw URLs (including localhost) in message bodies. Inline keyboard
 // buttons and <a href> tags both reject localhost per Telegram Bot API rules.
+//
+// TELEGRAM_DRY_RUN=1 appends each message to data/telegram-outbox.jsonl
+// instead of calling the Bot API — no token needed, nothing leaves the machine.
+
+const OUTBOX_PATH = path.join(process.cwd(), 'data', 'telegram-outbox.jsonl');
+
+async function writeOutbox(text: string): Promise<void> {
+  await fs.mkdir(path.dirname(OUTBOX_PATH), { recursive: true });
+  await fs.appendFile(OUTBOX_PATH, JSON.stringify({ ts: new Date(now()).toISOString(), text }) + '\n');
+  console.log(`[telegram] dry run — ${text.split('\n')[0]}`);
+}
 
 export async function sendTelegram(text: string, chartUrl?: string): Promise<void> {
+  const fullText = chartUrl ? `${text}\n\n📈 ${chartUrl}` : text;
+  if (process.env.TELEGRAM_DRY_RUN === '1') return writeOutbox(fullText);
+
   const token  = process.env.TELEGRAM_BOT_TOKEN;
   const chatId = process.env.TELEGRAM_CHAT_ID;
   if (!token || !chatId) {
     throw new Error('TELEGRAM_BOT_TOKEN or TELEGRAM_CHAT_ID not set in .env.local');
   }
 
-  const fullText = chartUrl ? `${text}\n\n📈 ${chartUrl}` : text;
-
   const res = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
     method:  'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -276,7 +303,7 @@ export function buildMarketScanAlertMessage(item: NewsItem, ticker: string | nul
     ? `🏷 <b>$${escapeHtml(ticker)}</b> — ${catEmoji} <b>${escapeHtml(item.category)}</b>`
     : `${catEmoji} <b>${escapeHtml(item.category)}</b>  <i>(ticker not detected)</i>`;
 
-  return [
+  return truncateLines([
     `🌐 <b>MARKET SCAN ALERT</b>`,
     ``,
     tickerLine,
@@ -286,12 +313,13 @@ export function buildMarketScanAlertMessage(item: NewsItem, ticker: string | nul
     ``,
     `📰 ${escapeHtml(item.publisher)} · ${age}`,
     `<a href="${escapeUrl(item.url)}">Read Article →</a>`,
-  ].join('\n');
+  ]);
 }
 
 // ── Pre-market scanner digest ─────────────────────────────────────────────────
 
 function fmtCap(n: number): string {
+  if (!n)       return '—';
   if (n >= 1e9) return `$${(n / 1e9).toFixed(1)}B`;
   if (n >= 1e6) return `$${(n / 1e6).toFixed(0)}M`;
   return `$${n.toFixed(0)}`;
@@ -303,45 +331,113 @@ function fmtVol(n: number): string {
   return String(n);
 }
 
+/** Share counts, where 0 means unknown rather than none */
+function fmtShares(n: number): string {
+  return n ? fmtVol(n) : '—';
+}
+
+function fmtFilters(f: ScanFilters): string {
+  const move = f.direction === 'losers'
+    ? [`chg ≤${f.maxChangePct}%`, ...(f.belowPrevLow ? ['under D-Low'] : [])]
+    : [`chg ≥${f.minChangePct}%`];
+  return [
+    f.minPrice > 0 ? `price $${f.minPrice}–$${f.maxPrice}` : `price &lt;$${f.maxPrice}`,
+    `vol &gt;${fmtVol(f.minPreMarketVolume)}`,
+    `cap &lt;${fmtCap(f.maxMarketCap)}`,
+    ...move,
+    ...(f.maxFloat            > 0 ? [`float &lt;${fmtVol(f.maxFloat)}`] : []),
+    ...(f.minRelativeVolume   > 0 ? [`rvol ≥${f.minRelativeVolume}x`]  : []),
+    ...(f.minShortInterestPct > 0 ? [`SI ≥${f.minShortInterestPct}%`]  : []),
+    ...(f.assetTypes.length       ? [f.assetTypes.join('/')]                     : []),
+    ...(f.includeExchanges.length ? [`${f.includeExchanges.join('/')} only`]     : []),
+    ...(f.excludeSymbols.length   ? [`${f.excludeSymbols.length} blacklisted`]   : []),
+    ...(f.where.trim()            ? [`where ${escapeHtml(f.where.trim())}`] : []),
+  ].join(' · ');
+}
+
+function nyClock(): string {
+  return new Date(now()).toLocaleTimeString('en-US', {
+    timeZone: 'America/New_York', hour: '2-digit', minute: '2-digit', hour12: true,
+  });
+}
+
+/** Volume / cap / exchange and float / shares / SI lines under each digest row */
+function digestStats(s: PreMarketStock): string[] {
+  return [
+    `  📊 Vol: ${fmtVol(s.preMarketVolume)}${s.relativeVolume ? ` (${s.relativeVolume.toFixed(1)}x)` : ''}  ·  Cap: ${fmtCap(s.marketCap)}  ·  ${escapeHtml(s.exchange)}`,
+    `  🔢 Float: ${fmtShares(s.floatShares)}  ·  Shs: ${fmtShares(s.sharesOutstanding)}  ·  SI: ${s.shortInterestPct ? s.shortInterestPct.toFixed(1) + '%' : '—'}`,
+  ];
+}
+
+/** Rows for the first 20 stocks, the overflow note and the filter footer */
+function digestBody(
+  stocks:  PreMarketStock[],
+  filters: ScanFilters,
+  source:  'primary' | 'fallback',
+  row:     (s: PreMarketStock) => string,
+): string[] {
+  const lines: string[] = [];
+  for (const s of stocks.slice(0, 20)) lines.push(row(s), ...digestStats(s), ``);
+
+  if (stocks.length > 20) {
+    lines.push(`<i>…and ${stocks.length - 20} more</i>`, ``);
+  }
+
+  lines.push(
+    `<i>${fmtFilters(filters)}</i>`,
+    `<i>CBOE · NASDAQ · NYSE · NYSE ARCA${source === 'fallback' ? ' · (fallback mode)' : ''}</i>`,
+  );
+  return lines;
+}
+
 export function buildPreMarketDigestMessage(
   stocks:  PreMarketStock[],
   filters: ScanFilters,
   source:  'primary' | 'fallback',
 ): string {
-  const nyTime = new Date().toLocaleTimeString('en-US', {
-    timeZone: 'America/New_York', hour: '2-digit', minute: '2-digit', hour12: true,
-  });
+  const nyTime = nyClock();
 
   if (stocks.length === 0) {
     return [
       `🌅 <b>PRE-MARKET SCANNER</b>  ·  No matches  ·  ${nyTime} ET`,
       ``,
-      `<i>Filters: price &lt;$${filters.maxPrice} · vol &gt;${fmtVol(filters.minPreMarketVolume)} · cap &lt;${fmtCap(filters.maxMarketCap)} · chg ≥${filters.minChangePct}%</i>`,
+      `<i>Filters: ${fmtFilters(filters)}</i>`,
     ].join('\n');
   }
 
-  const lines: string[] = [
+  return truncateLines([
     `🌅 <b>PRE-MARKET SCANNER</b>  ·  ${stocks.length} stock${stocks.length !== 1 ? 's' : ''}  ·  ${nyTime} ET`,
     ``,
-  ];
+    ...digestBody(stocks, filters, source, s => {
+      const sign = s.preMarketChangePct >= 0 ? '+' : '';
+      return `<b>$${escapeHtml(s.symbol)}</b>  🚀 <b>${sign}${s.preMarketChangePct.toFixed(1)}%</b>  $${s.preMarketPrice.toFixed(2)}  <i>(prev $${s.prevClose.toFixed(2)})</i>`;
+    }),
+  ]);
+}
 
-  for (const s of stocks.slice(0, 20)) {
-    const sign = s.preMarketChangePct >= 0 ? '+' : '';
-    lines.push(
-      `<b>$${escapeHtml(s.symbol)}</b>  🚀 <b>${sign}${s.preMarketChangePct.toFixed(1)}%</b>  $${s.preMarketPrice.toFixed(2)}  <i>(prev $${s.prevClose.toFixed(2)})</i>`,
-      `  📊 Vol: ${fmtVol(s.preMarketVolume)}  ·  Cap: ${fmtCap(s.marketCap)}  ·  ${escapeHtml(s.exchange)}`,
-      ``,
-    );
-  }
+/** Losers-mode digest — gap-downs, with the prior-day low each is measured against */
+export function buildGapDownDigestMessage(
+  stocks:  PreMarketStock[],
+  filters: ScanFilters,
+  source:  'primary' | 'fallback',
+): string {
+  const nyTime = nyClock();
 
-  if (stocks.length > 20) {
-    lines.push(`<i>…and ${stocks.length - 20} more</i>`, ``);
+  if (stocks.length === 0) {
+    return [
+      `🔻 <b>GAP-DOWN SCANNER</b>  ·  No matches  ·  ${nyTime} ET`,
+      ``,
+      `<i>Filters: ${fmtFilters(filters)}</i>`,
+    ].join('\n');
   }
 
-  lines.push(
-    `<i>price &lt;$${filters.maxPrice} · vol &gt;${fmtVol(filters.minPreMarketVolume)} · cap &lt;${fmtCap(filters.maxMarketCap)} · chg ≥${filters.minChangePct}%</i>`,
-    `<i>CBOE · NASDAQ · NYSE · NYSE ARCA${source === 'fallback' ? ' · (fallback mode)' : ''}</i>`,
-  );
-
-  return truncateLines(lines);
+  return truncateLines([
+    `🔻 <b>GAP-DOWN SCANNER</b>  ·  ${stocks.length} stock${stocks.length !== 1 ? 's' : ''}  ·  ${nyTime} ET`,
+    ``,
+    ...digestBody(stocks, filters, source, s => {
+      const low   = s.prevDayLow ? ` · D-Low $${s.prevDayLow.toFixed(2)}` : '';
+      const under = s.prevDayLow && s.preMarketPrice < s.prevDayLow ? '  ⬇️ <b>under D-Low</b>' : '';
+      return `<b>$${escapeHtml(s.symbol)}</b>  📉 <b>${s.preMarketChangePct.toFixed(1)}%</b>  $${s.preMarketPrice.toFixed(2)}  <i>(prev $${s.prevClose.toFixed(2)}${low})</i>${under}`;
+    }),
+  ]);
 }
@@ -0,0 +1,164 @@
+/**
+ * Watchlist store — data/watchlist.json
+ *
+ * The file is a JSON array. Entries may be bare tickers (the original
+ * hand-edited format, still accepted on read) or objects:
+ *
+ *   { "symbol": "NVDA", "note": "earnings 5/28", "alertAbove": 150,
+ *     "alertBelow": null, "alertChangePct": 8, "addedAt": "2025-…" }
+ *
+ * Writes always use the object form; items that parse as neither are kept
+ * as they were. Read by /api/cron/news-alerts every monitor tick and
+ * managed from the /watchlist page via /api/watchlist.
+ */
+
+import fs   from 'fs/promises';
+import path from 'path';
+
+const DATA_DIR       = path.join(process.cwd(), 'data');
+const WATCHLIST_PATH = path.join(DATA_DIR, 'watchlist.json');
+
+const SYMBOL_RE = /^[A-Z][A-Z0-9.\-]{0,9}$/;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface WatchlistEntry {
+  symbol:         string;
+  note:           string;
+  alertAbove:     number | null;  // price alert when last trade >= this
+  alertBelow:     number | null;  // price alert when last trade <= this
+  alertChangePct: number | null;  // alert when |day change %| >= this
+  addedAt:        string;         // ISO timestamp
+}
+
+export type WatchlistPatch = Partial<Pick<WatchlistEntry, 'note' | 'alertAbove' | 'alertBelow' | 'alertChangePct'>>;
+
+// ── Read / write ──────────────────────────────────────────────────────────────
+
+export function normalizeSymbol(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const sym = raw.toUpperCase().trim();
+  return SYMBOL_RE.test(sym) ? sym : null;
+}
+
+function toEntry(raw: unknown): WatchlistEntry | null {
+  if (typeof raw === 'string') {
+    const symbol = normalizeSymbol(raw);
+    return symbol
+      ? { symbol, note: '', alertAbove: null, alertBelow: null, alertChangePct: null, addedAt: '' }
+      : null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const r      = raw as Record<string, unknown>;
+  const symbol = normalizeSymbol(r.symbol);
+  if (!symbol) return null;
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+
+  return {
+    symbol,
+    note:           typeof r.note === 'string' ? r.note : '',
+    alertAbove:     num(r.alertAbove),
+    alertBelow:     num(r.alertBelow),
+    alertChangePct: num(r.alertChangePct),
+    addedAt:        typeof r.addedAt === 'string' ? r.addedAt : '',
+  };
+}
+
+interface WatchlistFile {
+  entries:  WatchlistEntry[];
+  unparsed: unknown[];    // items toEntry rejects, written back as they were
+}
+
+/**
+ * The file for a mutation: empty when there is none, throws when it exists
+ * but isn't a JSON array, so a typo in a hand edit can't be saved over.
+ */
+async function readWatchlistFile(): Promise<WatchlistFile> {
+  let text: string;
+  try { text = await fs.readFile(WATCHLIST_PATH, 'utf-8'); } catch (err: any) {
+    if (err?.code === 'ENOENT') return { entries: [], unparsed: [] };
+    throw err;
+  }
+
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch (err: any) {
+    throw new Error(`data/watchlist.json is not valid JSON (${err?.message}) — fix it by hand`);
+  }
+  if (!Array.isArray(raw)) throw new Error('data/watchlist.json must be a JSON array — fix it by hand');
+
+  // De-duplicated by symbol, first occurrence wins
+  const seen = new Set<string>();
+  const file: WatchlistFile = { entries: [], unparsed: [] };
+  for (const item of raw) {
+    const entry = toEntry(item);
+    if (!entry) { file.unparsed.push(item); continue; }
+    if (seen.has(entry.symbol)) continue;
+    seen.add(entry.symbol);
+    file.entries.push(entry);
+  }
+  return file;
+}
+
+/** All entries, de-duplicated by symbol (first occurrence wins). Never throws. */
+export async function readWatchlist(): Promise<WatchlistEntry[]> {
+  try { return (await readWatchlistFile()).entries; } catch { return []; }
+}
+
+async function writeWatchlist({ entries, unparsed }: WatchlistFile): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(WATCHLIST_PATH, JSON.stringify([...entries, ...unparsed], null, 2));
+}
+
+// Mutations are chained so two quick edits from the page can't interleave
+// their read-modify-write and drop one another.
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Read → `fn` (mutates the array in place) → write, unless `fn` changed
+ * nothing. Resolves to `fn`'s result; rejects, leaving the file alone, when
+ * the file can't be parsed.
+ */
+export function mutateWatchlist<T>(fn: (entries: WatchlistEntry[]) => T): Promise<T> {
+  const run = queue.then(async () => {
+    const file   = await readWatchlistFile();
+    const before = JSON.stringify(file.entries);
+    const result = fn(file.entries);
+    if (JSON.stringify(file.entries) !== before) await writeWatchlist(file);
+    return result;
+  });
+  queue = run.catch(() => {});
+  return run;
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+/**
+ * Validate an editable subset of an entry from a request body.
+ * Returns the patch, or an error string. `null` clears a threshold.
+ */
+export function parsePatch(raw: unknown): WatchlistPatch | string {
+  if (!raw || typeof raw !== 'object') return 'body must be a JSON object';
+  const r     = raw as Record<string, unknown>;
+  const patch: WatchlistPatch = {};
+
+  if ('note' in r) {
+    if (typeof r.note !== 'string') return 'note must be a string';
+    patch.note = r.note.trim().slice(0, 280);
+  }
+
+  for (const k of ['alertAbove', 'alertBelow', 'alertChangePct'] as const) {
+    if (!(k in r)) continue;
+    const v = r[k];
+    if (v === null || v === '') { patch[k] = null; continue; }
+    if (typeof v !== 'number' || !Number.isFinite(v) || v <= 0) {
+      return `${k} must be a positive number or null`;
+    }
+    patch[k] = v;
+  }
+
+  if (patch.alertAbove != null && patch.alertBelow != null && patch.alertBelow >= patch.alertAbove) {
+    return 'alertBelow must be lower than alertAbove';
+  }
+  return patch;
+}